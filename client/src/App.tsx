@@ -1,7 +1,17 @@
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 import VoiceInterface from './components/VoiceInterface';
+import Login from './components/Login';
+import { getToken, logout } from './services/authService';
 
 function App() {
+  const [loggedIn, setLoggedIn] = useState(!!getToken());
+
+  // stable, so VoiceInterface keeps its event stream open across renders
+  const handleLogout = useCallback(() => {
+    logout();
+    setLoggedIn(false);
+  }, []);
+
   return (
     <div style={{
       minHeight: '100vh',
@@ -21,7 +31,7 @@ function App() {
         <p style={{ color: '#6366f1', fontSize: 18, margin: 0 }}>AI Voice Partner for Empowerment</p>
       </header>
       <main style={{ width: '100%', maxWidth: 520 }}>
-        <VoiceInterface />
+        {loggedIn ? <VoiceInterface onLogout={handleLogout} /> : <Login onLogin={() => setLoggedIn(true)} />}
       </main>
       <footer style={{ marginTop: 40, color: '#a5b4fc', fontSize: 14 }}>
         &copy; {new Date().getFullYear()} Porter Saathi. All rights reserved.
@@ -0,0 +1,100 @@
+import React, { useState } from "react";
+import { apiError, requestOtp, verifyOtp, Driver } from "../services/authService";
+
+interface LoginProps {
+  onLogin: (driver: Driver) => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '16px 20px',
+  borderRadius: 12,
+  border: '1.5px solid #23232a',
+  fontSize: 18,
+  outline: 'none',
+  background: '#18181b',
+  color: '#fff',
+};
+
+const buttonStyle: React.CSSProperties = {
+  background: '#6366f1',
+  color: '#fff',
+  border: 'none',
+  borderRadius: 12,
+  padding: '14px 22px',
+  fontWeight: 600,
+  fontSize: 18,
+  cursor: 'pointer',
+};
+
+// Phone number + OTP login
+const Login: React.FC<LoginProps> = ({ onLogin }) => {
+  const [phone, setPhone] = useState("");
+  const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+  const [otpSent, setOtpSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      if (!otpSent) {
+        await requestOtp(phone);
+        setOtpSent(true);
+      } else {
+        onLogin(await verifyOtp(phone, code, name || undefined));
+      }
+    } catch (err: unknown) {
+      setError(apiError(err).message || "Something went wrong. Please try again.");
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 14,
+        background: '#23232a',
+        padding: 32,
+        borderRadius: 24,
+        color: '#e0e7ef',
+      }}
+    >
+      <h2 style={{ margin: 0, color: '#fff' }}>Login</h2>
+      <input
+        type="tel"
+        value={phone}
+        onChange={(e) => setPhone(e.target.value)}
+        placeholder="Mobile number"
+        disabled={otpSent}
+        style={inputStyle}
+      />
+      {otpSent && (
+        <>
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="OTP"
+            style={inputStyle}
+          />
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Your name (first login)"
+            style={inputStyle}
+          />
+        </>
+      )}
+      {error && <div style={{ color: '#ef4444' }}>{error}</div>}
+      <button type="submit" style={buttonStyle}>
+        {otpSent ? "Verify OTP" : "Send OTP"}
+      </button>
+    </form>
+  );
+};
+
+export default Login;
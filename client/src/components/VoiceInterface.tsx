@@ -1,32 +1,107 @@
-import React, { useState, useRef, useEffect } from "react";
-import { trackOrder, updateOrder, deleteOrder } from "../services/orderService";
+import React, { useState, useRef, useEffect, useCallback } from "react";
+import { apiError, authHeaders } from "../services/authService";
+import { ReminderDTO, listReminders } from "../services/reminderService";
+import { subscribeEvents } from "../services/eventService";
+import { DocumentKind, uploadDocument } from "../services/documentService";
 
 const SpeechRecognition =
   window.SpeechRecognition || window.webkitSpeechRecognition;
 const recognition = SpeechRecognition ? new SpeechRecognition() : null;
 
+// One field the server changed on an order, e.g. after "quantity 5 kar do"
+interface OrderChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
 interface ChatMessage {
   role: "user" | "ai";
   content: string;
+  changes?: OrderChange[];
 }
 
-interface Reminder {
-  time: string;
-  text: string;
+// Labels for the order fields (and address parts) the server's slot-filling dialogs may be waiting on
+const SLOT_LABELS: Record<string, string> = {
+  item: "Saamaan",
+  address: "Address",
+  line1: "Ghar / gali",
+  city: "Shehar",
+  pincode: "PIN code",
+  state: "State",
+  landmark: "Landmark",
+  pickupTime: "Pickup time",
+  confirm: "Confirm (haan / nahi)",
+  name: "Naam",
+  phone: "Mobile number",
+  vehicleNumber: "Gaadi number",
+  licenceNumber: "Driving licence",
+  pan: "PAN",
+  aadhaar: "Aadhaar",
+};
+
+// Replies carry a BCP-47 `lang`. Hinglish (hi-Latn-IN) is recognised as Hindi and read out by an
+// Indian English voice, which handles Hindi in Latin script; other tags are used as they are.
+const SPEECH_LANGS: Record<string, { recognition: string; synthesis: string }> = {
+  "hi-Latn-IN": { recognition: "hi-IN", synthesis: "en-IN" },
+};
+const speechLangs = (tag: string) => SPEECH_LANGS[tag] || { recognition: tag, synthesis: tag };
+const LANG_KEY = "replyLang";
+
+// Best installed voice for a language: exact tag, else the same language in any region
+function pickVoice(tag: string) {
+  const voices = window.speechSynthesis.getVoices();
+  const base = tag.split("-")[0];
+  return voices.find((v) => v.lang === tag) || voices.find((v) => v.lang.split("-")[0] === base) || null;
 }
 
-// helper function to detect trackingId
-function extractTrackingId(text: string) {
-  const match = text.match(/ORD-[a-zA-Z0-9]+/);
-  return match ? match[0] : null;
+// What the camera button uploads; a delivery photo goes on the order last talked about
+const DOCUMENT_OPTIONS: { kind: DocumentKind; label: string }[] = [
+  { kind: "licence", label: "Driving licence" },
+  { kind: "vehicle_rc", label: "RC" },
+  { kind: "pan", label: "PAN card" },
+  { kind: "aadhaar", label: "Aadhaar card" },
+  { kind: "proof_of_delivery", label: "Delivery photo" },
+  { kind: "photo", label: "Profile photo" },
+  { kind: "other", label: "Other" },
+];
+
+interface VoiceInterfaceProps {
+  // Called when the session is missing or expired
+  onLogout: () => void;
 }
 
-const VoiceInterface: React.FC = () => {
+const VoiceInterface: React.FC<VoiceInterfaceProps> = ({ onLogout }) => {
   const [listening, setListening] = useState(false);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [textInput, setTextInput] = useState("");
-  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [reminders, setReminders] = useState<ReminderDTO[]>([]);
+  const [pendingSlot, setPendingSlot] = useState<string | null>(null);
+  const [documentKind, setDocumentKind] = useState<DocumentKind>("licence");
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // the order the last reply was about, for delivery photos
+  const trackingIdRef = useRef<string | null>(null);
+  // language of the last reply; the next utterance is recognised in it
+  const langRef = useRef(localStorage.getItem(LANG_KEY) || "hi-Latn-IN");
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null); // the recording playing, if any
+  // last known position, sent with every request so an SOS carries it
+  const locationRef = useRef<{ lat: number; lng: number; accuracy: number } | null>(null);
+
+  useEffect(() => {
+    if (!navigator.geolocation) return;
+    const watch = navigator.geolocation.watchPosition(
+      (pos) => {
+        locationRef.current = { lat: pos.coords.latitude, lng: pos.coords.longitude, accuracy: pos.coords.accuracy };
+      },
+      () => {
+        locationRef.current = null;
+      },
+      { enableHighAccuracy: true, maximumAge: 60_000 }
+    );
+    return () => navigator.geolocation.clearWatch(watch);
+  }, []);
 
   useEffect(() => {
     if (chatContainerRef.current) {
@@ -34,7 +109,7 @@ const VoiceInterface: React.FC = () => {
     }
   }, [chatHistory]);
 
-  const speak = (text: string) => {
+  const speak = useCallback((text: string, tag: string = langRef.current) => {
     if (window.speechSynthesis) {
       window.speechSynthesis.cancel(); // Always cancel any ongoing speech first
       // Add a small delay to avoid race conditions
@@ -43,10 +118,34 @@ const VoiceInterface: React.FC = () => {
         utter.rate = 1;
         utter.pitch = 1;
         utter.volume = 1;
-        utter.lang = 'en-IN'; // Use Indian English for better Hindi/vernacular support
+        utter.lang = speechLangs(tag).synthesis;
+        const voice = pickVoice(utter.lang);
+        if (voice) utter.voice = voice;
         window.speechSynthesis.speak(utter);
       }, 100);
     }
+  }, []);
+
+  // Upcoming reminders live on the server; fired reminders, order changes and
+  // alerts are pushed over the event stream and spoken aloud in the driver's language
+  useEffect(() => {
+    listReminders({ status: "pending" })
+      .then(setReminders)
+      .catch((err) => console.error("Failed to load reminders", err));
+    return subscribeEvents((event) => {
+      if (event.type === "reminder") setReminders((prev) => prev.filter((r) => r.id !== event.reminder.id));
+      setChatHistory((prev) => [...prev, { role: "ai", content: event.text }]);
+      speak(event.text, event.lang);
+    }, onLogout);
+  }, [onLogout, speak]);
+
+  // A recorded learning step is played instead of synthesized speech; if it fails, the reply is spoken
+  const playOrSpeak = (audioUrl: string | null | undefined, text: string) => {
+    audioRef.current?.pause();
+    if (!audioUrl) return speak(text);
+    window.speechSynthesis?.cancel();
+    audioRef.current = new Audio(audioUrl);
+    audioRef.current.play().catch(() => speak(text));
   };
 
   const sendToAI = async (text: string) => {
@@ -54,201 +153,67 @@ const VoiceInterface: React.FC = () => {
     setChatHistory((prev) => [...prev, { role: "user", content: text }]);
     setTextInput("");
 
-    // Check for reminder
-    const reminderMatch = text.match(
-      /(?:remind(?: me)?|reminder|schedule|pickup).*?(\d{1,2}(?::\d{2})?\s?(?:am|pm))/i
-    );
-    if (reminderMatch) {
-      const time = reminderMatch[1];
-      setReminders((prev) => [...prev, { time, text }]);
-      const reply = `I'll remind you at ${time}.`;
-      setChatHistory((prev) => [...prev, { role: "ai", content: reply }]);
-      speak(reply);
-      return;
-    }
-
-    // Extract trackingId
-    const trackingId = extractTrackingId(text);
-
-    // ---- UPDATE ORDER ----
-    if (
-      text.toLowerCase().includes("update") ||
-      text.toLowerCase().includes("modify") ||
-      text.toLowerCase().includes("change")
-    ) {
-      if (!trackingId) {
-        const reply = "Please provide a valid tracking ID to update an order.";
-        setChatHistory((prev) => [...prev, { role: "ai", content: reply }]);
-        speak(reply);
-        return;
-      }
-
-      try {
-        // Get the order
-        const order = await trackOrder(trackingId);
-        if (!order || !order._id) {
-          const reply = `Sorry, I couldn’t find any order with ID ${trackingId}.`;
-          setChatHistory((prev) => [...prev, { role: "ai", content: reply }]);
-          speak(reply);
-          return;
-        }
-
-        const lowerText = text.toLowerCase();
-        const updates: any = {};
-
-        // ---- Status updates ----
-        if (lowerText.includes("delivered")) updates.status = "Delivered";
-        if (lowerText.includes("processing")) updates.status = "Processing";
-        if (lowerText.includes("shipped")) updates.status = "Shipped";
-
-        // ---- Pickup time ----
-        if (lowerText.includes("pickup"))
-          updates.pickupTime = new Date().toISOString();
-
-        // ---- Assignee ----
-        if (lowerText.includes("assign")) {
-          // Try to detect assignee name after 'assign'
-          const match = text.match(/assign\s+to\s+([a-zA-Z ]+)/i);
-          updates.assignedTo = match ? match[1].trim() : "Priya Sharma";
-        }
-
-        // ---- Add items ----
-        if (lowerText.includes("add")) {
-          const addIndex = lowerText.indexOf("add");
-          const itemsText = text.substring(addIndex + 3).trim();
-          const itemsToAdd = itemsText.split(/\s*(?:,|and)\s*/).filter(Boolean);
-          updates.items = [...(order.items || []), ...itemsToAdd];
-        }
-
-        // ---- Remove items ----
-        if (lowerText.includes("remove")) {
-          const removeIndex = lowerText.indexOf("remove");
-          const itemsText = text.substring(removeIndex + 6).trim();
-          const itemsToRemove = itemsText
-            .split(/\s*(?:,|and)\s*/).filter(Boolean);
-          updates.items = (order.items || []).filter(
-            (item: string) => !itemsToRemove.includes(item)
-          );
-        }
-
-        if (Object.keys(updates).length === 0) {
-          const reply =
-            "What would you like to update? (status, items, pickup time, assignee, etc.)";
-          setChatHistory((prev) => [...prev, { role: "ai", content: reply }]);
-          speak(reply);
-          return;
-        }
-
-        console.log("Updating order:", order._id, updates);
-
-        const updated = await updateOrder(order._id, updates);
-
-        const reply = `Order ${trackingId} updated successfully.
-- Status: ${updated.status || "unchanged"}
-- Pickup time: ${updated.pickupTime || "not set"}
-- Assigned to: ${updated.assignedTo || "not set"}
-- Items: ${updated.items?.join(", ") || "no items"}`;
-
-        setChatHistory((prev) => [...prev, { role: "ai", content: reply }]);
-        speak(reply);
-      } catch (err) {
-        console.error(err);
-        const reply = `Failed to update order ${trackingId}. Please try again.`;
-        setChatHistory((prev) => [...prev, { role: "ai", content: reply }]);
-        speak(reply);
-      }
-    }
-
-    // ---- DELETE ORDER ----
-    if (
-      text.toLowerCase().includes("delete") ||
-      text.toLowerCase().includes("cancel")
-    ) {
-      if (!trackingId) {
-        const reply = "Please provide a valid tracking ID to delete an order.";
-        setChatHistory((prev) => [...prev, { role: "ai", content: reply }]);
-        speak(reply);
-        return;
-      }
-
-      try {
-        // First fetch order by trackingId
-        const order = await trackOrder(trackingId);
-
-        if (!order || !order._id) {
-          const reply = `Sorry, I couldn’t find any order with ID ${trackingId}.`;
-          setChatHistory((prev) => [...prev, { role: "ai", content: reply }]);
-          speak(reply);
-          return;
-        }
-
-        // Delete using MongoDB _id
-        const response = await deleteOrder(order._id);
-
-        const reply = response.success
-          ? `Order ${trackingId} has been deleted successfully.`
-          : `Failed to delete order ${trackingId}.`;
-
-        setChatHistory((prev) => [...prev, { role: "ai", content: reply }]);
-        speak(reply);
-      } catch (err) {
-        console.error(err);
-        const reply = `Failed to delete order ${trackingId}. Please try again.`;
-        setChatHistory((prev) => [...prev, { role: "ai", content: reply }]);
-        speak(reply);
-      }
-
-      return; // prevent falling into TRACK ORDER block
-    }
-
-    // ---- TRACK ORDER ----
-    if (trackingId) {
-      try {
-        const order = await trackOrder(trackingId);
-        const reply = `Here are the details for ${trackingId}:\n
-- Customer: ${order.customerName || "N/A"}\n
-- Items: ${order.item || "N/A"}\n
-- Address: ${order.address || "N/A"}\n
-- Status: ${order.status || "Processing"}`;
-
-        setChatHistory((prev) => [...prev, { role: "ai", content: reply }]);
-        speak(reply);
-        return;
-      } catch (err) {
-        const reply = `Sorry, I couldn’t find any order with ID ${trackingId}.`;
-        setChatHistory((prev) => [...prev, { role: "ai", content: reply }]);
-        speak(reply);
-        return;
-      }
-    }
-
-    // Default → send to AI backend
+    // Orders, edits and everything else are interpreted on the server
     try {
       const res = await fetch("/api/ai", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ text }),
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify({ text, location: locationRef.current ?? undefined }),
       });
+      if (res.status === 401) return onLogout();
       const data = await res.json();
+      setPendingSlot(data.action === "slot_prompt" ? data.pendingSlot : null);
+      if (data.lang) {
+        langRef.current = data.lang;
+        localStorage.setItem(LANG_KEY, data.lang);
+      }
+      if (data.action === "set_reminder") setReminders((prev) => [...prev, data.reminder]);
+      // found orders come back under `order`; a top-level trackingId is only an ID that was asked for
+      if (data.action === "order_not_found") trackingIdRef.current = null;
+      else if (data.order?.trackingId ?? data.trackingId) trackingIdRef.current = data.order?.trackingId ?? data.trackingId;
       setChatHistory((prev) => [
         ...prev,
-        { role: "ai", content: data.reply },
+        { role: "ai", content: data.reply, changes: data.changes },
       ]);
-      speak(data.reply);
+      playOrSpeak(data.audioUrl, data.reply);
     } catch (err) {
       setChatHistory((prev) => [
         ...prev,
         { role: "ai", content: "Sorry, I couldn't process your request." },
       ]);
-      speak("Sorry, I couldn't process your request.");
+      speak("Sorry, I couldn't process your request.", "en-IN");
+    }
+  };
+
+  const say = (content: string) => {
+    setChatHistory((prev) => [...prev, { role: "ai", content }]);
+    speak(content, "en-IN");
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // the same file can be picked again
+    if (!file) return;
+    const label = DOCUMENT_OPTIONS.find((o) => o.kind === documentKind)!.label;
+    const trackingId = documentKind === "proof_of_delivery" ? trackingIdRef.current : undefined;
+    if (trackingId === null) return say("Which order is this photo for? Ask about the order first, then send the photo.");
+    setUploading(true);
+    try {
+      const doc = await uploadDocument(file, documentKind, trackingId);
+      say(doc.duplicate ? `${label} was already uploaded.` : `${label} uploaded${doc.trackingId ? ` for ${doc.trackingId}` : ""}.`);
+    } catch (err: unknown) {
+      const { status, message } = apiError(err);
+      if (status === 401) return onLogout();
+      say(`Upload failed: ${message || "please try again"}.`);
+    } finally {
+      setUploading(false);
     }
   };
 
   const handleListen = () => {
     if (!recognition) return alert("Speech Recognition not supported");
     if (listening) return;
-    // Set recognition language to Hindi (hi-IN) for robust Hindi/vernacular support
-    recognition.lang = "hi-IN"; // Change to 'en-IN' for English, or add a toggle for both
+    recognition.lang = speechLangs(langRef.current).recognition;
     setListening(true);
     recognition.start();
     recognition.onresult = (event: any) => {
@@ -320,6 +285,23 @@ const VoiceInterface: React.FC = () => {
         }}>
           <span style={{ fontSize: 38, background: '#23232a', borderRadius: 12, padding: 6 }}>🤖</span>
           <span style={{ fontWeight: 700, fontSize: 32, color: '#fff', letterSpacing: 1 }}>Porter Saathi</span>
+          <button
+            type="button"
+            onClick={onLogout}
+            style={{
+              marginLeft: 'auto',
+              marginRight: 32,
+              background: 'transparent',
+              color: '#a1a1aa',
+              border: '1px solid #3f3f46',
+              borderRadius: 10,
+              padding: '6px 14px',
+              fontSize: 15,
+              cursor: 'pointer',
+            }}
+          >
+            Logout
+          </button>
         </div>
         <div style={{
           display: 'flex',
@@ -401,11 +383,27 @@ const VoiceInterface: React.FC = () => {
                   animation: 'slideIn 0.4s',
                 }}
               >
-                {msg.content}
+                <div>
+                  {msg.content}
+                  {msg.changes && msg.changes.length > 0 && (
+                    <ul style={{ margin: '10px 0 0 0', paddingLeft: 20, fontSize: 16, color: '#a5b4fc' }}>
+                      {msg.changes.map((c, i) => (
+                        <li key={i}>
+                          {c.field}: {String(c.from ?? "—")} → {String(c.to ?? "—")}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
               </div>
             </div>
           ))}
         </div>
+        {pendingSlot && (
+          <div style={{ color: '#a5b4fc', fontSize: 16, padding: '0 32px 10px 32px' }}>
+            Waiting for: <strong>{SLOT_LABELS[pendingSlot] || pendingSlot}</strong>
+          </div>
+        )}
         <form
           onSubmit={handleTextSubmit}
           style={{
@@ -466,6 +464,55 @@ const VoiceInterface: React.FC = () => {
           >
             ⏹️
           </button>
+          <select
+            value={documentKind}
+            onChange={(e) => setDocumentKind(e.target.value as DocumentKind)}
+            title="Document to upload"
+            style={{
+              background: '#18181b',
+              color: '#e0e7ef',
+              border: '1.5px solid #3f3f46',
+              borderRadius: 10,
+              padding: '0 8px',
+              fontSize: 15,
+              minHeight: 54,
+              maxWidth: 130,
+            }}
+          >
+            {DOCUMENT_OPTIONS.map((o) => (
+              <option key={o.kind} value={o.kind}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            type="button"
+            title="Take a photo or pick a file"
+            style={{
+              background: uploading ? '#a5b4fc' : '#6366f1',
+              color: '#fff',
+              border: 'none',
+              borderRadius: 10,
+              padding: '0 18px',
+              fontSize: 26,
+              cursor: uploading ? 'not-allowed' : 'pointer',
+              minWidth: 54,
+              minHeight: 54,
+              boxShadow: '0 2px 8px #6366f133',
+            }}
+          >
+            📷
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,application/pdf"
+            capture="environment"
+            onChange={handleFile}
+            style={{ display: 'none' }}
+          />
           <input
             type="text"
             value={textInput}
@@ -524,9 +571,9 @@ const VoiceInterface: React.FC = () => {
           }}>
             <h4 style={{ color: '#6366f1', marginBottom: 8, fontSize: 16 }}>Reminders:</h4>
             <ul style={{ paddingLeft: 18, margin: 0 }}>
-              {reminders.map((rem, idx) => (
-                <li key={idx}>
-                  <strong>{rem.time}</strong>: {rem.text}
+              {reminders.map((rem) => (
+                <li key={rem.id}>
+                  <strong>{new Date(rem.dueAt).toLocaleString("en-IN", { weekday: "short", hour: "numeric", minute: "2-digit" })}</strong>: {rem.text}
                 </li>
               ))}
             </ul>
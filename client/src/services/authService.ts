@@ -0,0 +1,38 @@
+import axios from "axios";
+import type { ApiError } from "../../../server/src/contracts/orderApi";
+const API_URL = "http://localhost:5000/auth";
+const TOKEN_KEY = "porterSaathiToken";
+
+export interface Driver {
+  id: string;
+  phone: string;
+  name?: string;
+  role: "driver" | "admin";
+}
+
+export const getToken = () => localStorage.getItem(TOKEN_KEY);
+
+export const logout = () => localStorage.removeItem(TOKEN_KEY);
+
+// Header for every authenticated API call
+export const authHeaders = (): Record<string, string> => {
+  const token = getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// HTTP status and server message of a failed API call; both undefined for any other error
+export const apiError = (err: unknown) => {
+  const res = axios.isAxiosError(err) ? err.response : undefined;
+  return { status: res?.status, message: (res?.data as ApiError | undefined)?.error };
+};
+
+export const requestOtp = async (phone: string) => {
+  const res = await axios.post(`${API_URL}/otp/request`, { phone });
+  return res.data;
+};
+
+export const verifyOtp = async (phone: string, code: string, name?: string) => {
+  const res = await axios.post(`${API_URL}/otp/verify`, { phone, code, name });
+  localStorage.setItem(TOKEN_KEY, res.data.token);
+  return res.data.driver as Driver;
+};
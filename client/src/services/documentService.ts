@@ -0,0 +1,23 @@
+import axios from "axios";
+import { authHeaders } from "./authService";
+// Shared API contract, type-only so nothing from the server ends up in the bundle
+import type { DocumentDTO, DocumentKind, ListDocumentsQuery, UploadDocumentResponse } from "../../../server/src/contracts/documentApi";
+
+export type { DocumentDTO, DocumentKind } from "../../../server/src/contracts/documentApi";
+
+const API_URL = "http://localhost:5000/documents";
+
+// Upload a photo or PDF; proof_of_delivery needs the order's tracking ID
+export const uploadDocument = async (file: File, kind: DocumentKind, trackingId?: string) => {
+  const form = new FormData();
+  form.append("kind", kind);
+  if (trackingId) form.append("trackingId", trackingId);
+  form.append("file", file);
+  const res = await axios.post<UploadDocumentResponse>(API_URL, form, { headers: authHeaders() });
+  return res.data;
+};
+
+export const listDocuments = async (query: ListDocumentsQuery = {}) => {
+  const res = await axios.get<DocumentDTO[]>(API_URL, { params: query, headers: authHeaders() });
+  return res.data;
+};
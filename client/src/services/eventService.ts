@@ -0,0 +1,50 @@
+import { authHeaders } from "./authService";
+// Shared API contract, type-only so nothing from the server ends up in the bundle
+import type { StreamEvent } from "../../../server/src/contracts/eventApi";
+
+export type { StreamEvent } from "../../../server/src/contracts/eventApi";
+
+const API_URL = "http://localhost:5000/events";
+const RECONNECT_MS = 5000;
+
+// Listen for the driver's realtime events (reminders, order changes, alerts), each with the
+// text to speak in the driver's language.
+// EventSource cannot send the Authorization header, so the stream is read with fetch.
+// Reconnects until the returned function is called; a 401 calls onUnauthorized and stops.
+export const subscribeEvents = (onEvent: (event: StreamEvent) => void, onUnauthorized: () => void) => {
+  let stopped = false;
+  const controller = new AbortController();
+
+  const connect = async () => {
+    try {
+      const res = await fetch(`${API_URL}/stream`, { headers: authHeaders(), signal: controller.signal });
+      if (res.status === 401) return onUnauthorized();
+      if (!res.body) return;
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        // events are separated by a blank line; comments (": ping") carry no data
+        const chunks = buffer.split("\n\n");
+        buffer = chunks.pop() || "";
+        for (const chunk of chunks) {
+          const data = chunk.split("\n").find((line) => line.startsWith("data: "));
+          if (data) onEvent(JSON.parse(data.slice(6)));
+        }
+      }
+    } catch (err) {
+      if (stopped) return;
+      console.error("Event stream error:", err);
+    }
+    if (!stopped) setTimeout(connect, RECONNECT_MS);
+  };
+
+  connect();
+  return () => {
+    stopped = true;
+    controller.abort();
+  };
+};
@@ -1,32 +1,52 @@
 import axios from "axios";
+import { authHeaders } from "./authService";
+// Shared API contract, type-only so nothing from the server ends up in the bundle
+import type {
+  CreateOrderRequest,
+  DeleteOrderResponse,
+  ListOrdersQuery,
+  OrderDTO,
+  OrderPage,
+  SearchOrdersQuery,
+  UpdateOrderRequest,
+} from "../../../server/src/contracts/orderApi";
+
+export type { CreateOrderRequest, OrderDTO, UpdateOrderRequest } from "../../../server/src/contracts/orderApi";
+
 const API_URL = "http://localhost:5000/orders";
 
-export const createOrder = async (payload: any) => {
-  const res = await axios.post(`${API_URL}/create`, payload);
+export const createOrder = async (payload: CreateOrderRequest) => {
+  const res = await axios.post<OrderDTO>(`${API_URL}/create`, payload, { headers: authHeaders() });
   return res.data;
 };
 
-export const updateOrder = async (id: string, payload: any) => {
-  const res = await axios.put(`${API_URL}/modify/${id}`, payload);
+export const updateOrder = async (id: string, payload: UpdateOrderRequest) => {
+  const res = await axios.put<OrderDTO>(`${API_URL}/modify/${id}`, payload, { headers: authHeaders() });
   return res.data;
 };
 
 export const getOrder = async (id: string) => {
-  const res = await axios.get(`${API_URL}/${id}`);
+  const res = await axios.get<OrderDTO>(`${API_URL}/${id}`, { headers: authHeaders() });
   return res.data;
 };
 
 export const deleteOrder = async (id: string) => {
-  const res = await axios.delete(`${API_URL}/${id}`);
+  const res = await axios.delete<DeleteOrderResponse>(`${API_URL}/${id}`, { headers: authHeaders() });
+  return res.data;
+};
+
+export const listOrders = async (query: ListOrdersQuery = {}) => {
+  const res = await axios.get<OrderDTO[]>(`${API_URL}/list`, { params: query, headers: authHeaders() });
   return res.data;
 };
 
-export const listOrders = async () => {
-  const res = await axios.get(`${API_URL}/list`);
+// Filtered search; pass the returned nextCursor back as `cursor` for the next page
+export const searchOrders = async (query: SearchOrdersQuery = {}) => {
+  const res = await axios.get<OrderPage>(`${API_URL}/search`, { params: query, headers: authHeaders() });
   return res.data;
 };
 
 export const trackOrder = async (trackingId: string) => {
-  const res = await axios.get(`${API_URL}/track/${trackingId}`);
+  const res = await axios.get<OrderDTO>(`${API_URL}/track/${trackingId}`, { headers: authHeaders() });
   return res.data;
 };
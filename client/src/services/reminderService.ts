@@ -0,0 +1,27 @@
+import axios from "axios";
+import { authHeaders } from "./authService";
+// Shared API contract, type-only so nothing from the server ends up in the bundle
+import type {
+  CreateReminderRequest,
+  ListRemindersQuery,
+  ReminderDTO,
+} from "../../../server/src/contracts/reminderApi";
+
+export type { ReminderDTO } from "../../../server/src/contracts/reminderApi";
+
+const API_URL = "http://localhost:5000/reminders";
+
+export const listReminders = async (query: ListRemindersQuery = {}) => {
+  const res = await axios.get<ReminderDTO[]>(API_URL, { params: query, headers: authHeaders() });
+  return res.data;
+};
+
+export const createReminder = async (payload: CreateReminderRequest) => {
+  const res = await axios.post<ReminderDTO>(API_URL, payload, { headers: authHeaders() });
+  return res.data;
+};
+
+export const cancelReminder = async (id: string) => {
+  const res = await axios.put<ReminderDTO>(`${API_URL}/${id}`, { status: "cancelled" }, { headers: authHeaders() });
+  return res.data;
+};
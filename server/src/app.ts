@@ -5,18 +5,65 @@ import express from 'express';
 import cors from 'cors';
 import aiRoutes from './routes/aiRoutes';
 import orderRoutes from './routes/orderRoutes';
+import conversationRoutes from './routes/conversationRoutes';
+import ledgerRoutes from './routes/ledgerRoutes';
+import authRoutes from './routes/authRoutes';
+import reminderRoutes from './routes/reminderRoutes';
+import eventRoutes from './routes/eventRoutes';
+import driverRoutes from './routes/driverRoutes';
+import incidentRoutes from './routes/incidentRoutes';
+import documentRoutes from './routes/documentRoutes';
+import learningRoutes from './routes/learningRoutes';
+import incentiveRoutes from './routes/incentiveRoutes';
+import { startReminderScheduler } from './reminders/scheduler';
+import { startIncidentScheduler } from './incidents/incidents';
+import { startLearningCatalogue } from './learning/learning';
+import { watchOrderChanges } from './realtime/orderEvents';
+import { watchNewOrders } from './dispatch/dispatch';
+import { seedIncentiveRules, watchIncentives } from './incentives/rules';
 import mongoose from 'mongoose';
 
 const app = express();
 app.use(cors());
 app.use(express.json());
 
+app.use('/auth', authRoutes);
 app.use('/api', aiRoutes);
+app.use('/api/conversations', conversationRoutes);
 app.use("/orders", orderRoutes);
+app.use("/ledger", ledgerRoutes);
+app.use("/reminders", reminderRoutes);
+app.use("/events", eventRoutes);
+app.use("/drivers", driverRoutes);
+app.use("/incidents", incidentRoutes);
+app.use("/documents", documentRoutes);
+app.use("/learning", learningRoutes);
+app.use("/incentives", incentiveRoutes);
 
-mongoose.connect(process.env.MONGO_URI || '')
-  .then(() => console.log('MongoDB connected'))
-  .catch(err => console.error('MongoDB connection error:', err));
+watchOrderChanges();
+watchNewOrders();
+watchIncentives();
 
-const PORT = process.env.PORT || 5000;
-app.listen(PORT, () => console.log(`Server running on port ${PORT}`));  
\ No newline at end of file
+// malformed JSON bodies get the same 400 shape as validation errors
+app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (err?.type === 'entity.parse.failed') return res.status(400).json({ error: 'Malformed JSON body' });
+  next(err);
+});
+
+// tests import the app and bring their own database and port
+if (require.main === module) {
+  mongoose.connect(process.env.MONGO_URI || '')
+    .then(() => {
+      console.log('MongoDB connected');
+      startReminderScheduler();
+      startIncidentScheduler();
+      startLearningCatalogue().catch(err => console.error('Learning catalogue error:', err));
+      seedIncentiveRules().catch(err => console.error('Incentive rules error:', err));
+    })
+    .catch(err => console.error('MongoDB connection error:', err));
+
+  const PORT = process.env.PORT || 5000;
+  app.listen(PORT, () => console.log(`Server running on port ${PORT}`));
+}
+
+export default app;  
\ No newline at end of file
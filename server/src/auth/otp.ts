@@ -0,0 +1,130 @@
+// server/src/auth/otp.ts
+// Phone-number OTP login: issue a code through a sender, verify it, sign a JWT session.
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import Driver, { IDriver } from "../models/Driver";
+import OtpChallenge from "../models/OtpChallenge";
+import { RateLimiter } from "./rateLimit";
+import { AuthDriver } from "../types";
+
+export interface OtpSender {
+  send(phone: string, code: string): Promise<void>;
+}
+
+// Local stub: prints the code instead of sending an SMS
+export const consoleOtpSender: OtpSender = {
+  async send(phone, code) {
+    console.log(`[otp] code for ${phone}: ${code}`);
+  },
+};
+
+const OTP_TTL_MS = 5 * 60 * 1000;
+const OTP_MAX_ATTEMPTS = 5; // wrong codes per challenge
+const HOUR_MS = 60 * 60 * 1000;
+
+// A new code replaces the old one and its attempt count, so requests are limited too
+const resendCooldown = new RateLimiter(1, 60 * 1000); // per phone
+const requestsByPhone = new RateLimiter(5, HOUR_MS);
+const requestsByIp = new RateLimiter(20, HOUR_MS);
+const failuresByPhone = new RateLimiter(10, HOUR_MS); // wrong codes across challenges
+const failuresByIp = new RateLimiter(30, HOUR_MS);
+
+export class OtpRateLimitError extends Error {
+  constructor(message: string, readonly retryAfterMs: number) {
+    super(message);
+    this.name = "OtpRateLimitError";
+  }
+}
+
+// Longest wait among the limiters that apply; the IP ones only when the caller knows it
+function waitFor(phone: string, ip: string | undefined, byPhone: RateLimiter[], byIp: RateLimiter) {
+  return Math.max(...byPhone.map((l) => l.retryAfter(phone)), ip ? byIp.retryAfter(ip) : 0);
+}
+
+const SESSION_TTL = process.env.JWT_EXPIRES_IN || "7d";
+
+// Without JWT_SECRET sessions are signed with a per-process secret and end on restart
+const JWT_SECRET = process.env.JWT_SECRET || crypto.randomBytes(32).toString("hex");
+if (!process.env.JWT_SECRET) console.warn("[auth] JWT_SECRET not set; using a temporary secret");
+
+// Phones listed here get the admin role on login
+const ADMIN_PHONES = (process.env.ADMIN_PHONES || "")
+  .split(",")
+  .map((p) => normalizePhone(p))
+  .filter(Boolean);
+
+// Indian mobile numbers in any common spoken/typed form -> +91XXXXXXXXXX; null if invalid
+export function normalizePhone(input: unknown): string | null {
+  let digits = String(input ?? "").replace(/\D/g, "");
+  if (digits.length === 12 && digits.startsWith("91")) digits = digits.slice(2);
+  if (digits.length === 11 && digits.startsWith("0")) digits = digits.slice(1);
+  return /^[6-9]\d{9}$/.test(digits) ? `+91${digits}` : null;
+}
+
+function hashCode(phone: string, code: string) {
+  return crypto.createHash("sha256").update(`${phone}:${code}`).digest("hex");
+}
+
+export async function requestOtp(phone: string, ip?: string, sender: OtpSender = consoleOtpSender) {
+  const wait = waitFor(phone, ip, [resendCooldown, requestsByPhone], requestsByIp);
+  if (wait) throw new OtpRateLimitError("Too many OTP requests, please try again later", wait);
+  resendCooldown.hit(phone);
+  requestsByPhone.hit(phone);
+  if (ip) requestsByIp.hit(ip);
+
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+  await OtpChallenge.findOneAndUpdate(
+    { phone },
+    { phone, codeHash: hashCode(phone, code), attempts: 0, expiresAt: new Date(Date.now() + OTP_TTL_MS) },
+    { upsert: true, new: true }
+  );
+  await sender.send(phone, code);
+}
+
+export type OtpVerifyResult = { ok: true; driver: IDriver } | { ok: false; error: string };
+
+// Check the code and return (or create) the driver account; throws OtpRateLimitError after too many wrong codes
+export async function verifyOtp(phone: string, code: string, name?: string, ip?: string): Promise<OtpVerifyResult> {
+  const wait = waitFor(phone, ip, [failuresByPhone], failuresByIp);
+  if (wait) throw new OtpRateLimitError("Too many wrong codes, please try again later", wait);
+
+  const challenge = await OtpChallenge.findOne({ phone });
+  if (!challenge || challenge.expiresAt.getTime() < Date.now()) return { ok: false, error: "OTP expired, please request a new one" };
+  if (challenge.attempts >= OTP_MAX_ATTEMPTS) return { ok: false, error: "Too many attempts, please request a new OTP" };
+
+  if (challenge.codeHash !== hashCode(phone, String(code))) {
+    challenge.attempts++;
+    await challenge.save();
+    failuresByPhone.hit(phone);
+    if (ip) failuresByIp.hit(ip);
+    return { ok: false, error: "Incorrect OTP" };
+  }
+  await challenge.deleteOne();
+  failuresByPhone.reset(phone);
+
+  const role = ADMIN_PHONES.includes(phone) ? "admin" : "driver";
+  const driver = await Driver.findOneAndUpdate(
+    { phone },
+    { $set: { lastLoginAt: new Date(), role, ...(name ? { name } : {}) }, $setOnInsert: { phone } },
+    { upsert: true, new: true }
+  );
+  return { ok: true, driver: driver! };
+}
+
+export function toAuthDriver(driver: IDriver): AuthDriver {
+  return { id: String(driver._id), phone: driver.phone, name: driver.name, role: driver.role };
+}
+
+export function signSession(driver: IDriver) {
+  return jwt.sign({ role: driver.role }, JWT_SECRET, { subject: String(driver._id), expiresIn: SESSION_TTL } as jwt.SignOptions);
+}
+
+// Driver id from a session token; null when invalid or expired
+export function verifySession(token: string): string | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+    return payload.sub || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,34 @@
+// server/src/auth/rateLimit.ts
+// Fixed-window counters per key (a phone number or an IP), kept in process memory like the
+// dialogs: they hold for one server instance and start over on restart.
+
+const PRUNE_ABOVE = 10_000; // keys kept before expired windows are swept out
+
+export class RateLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(readonly limit: number, readonly windowMs: number) {}
+
+  // Milliseconds until the key may go again; 0 when it may now
+  retryAfter(key: string, now: number = Date.now()): number {
+    const window = this.windows.get(key);
+    if (!window || window.resetAt <= now) return 0;
+    return window.count >= this.limit ? window.resetAt - now : 0;
+  }
+
+  hit(key: string, now: number = Date.now()) {
+    const window = this.windows.get(key);
+    if (window && window.resetAt > now) {
+      window.count++;
+      return;
+    }
+    if (this.windows.size >= PRUNE_ABOVE) {
+      for (const [k, w] of this.windows) if (w.resetAt <= now) this.windows.delete(k);
+    }
+    this.windows.set(key, { count: 1, resetAt: now + this.windowMs });
+  }
+
+  reset(key: string) {
+    this.windows.delete(key);
+  }
+}
@@ -0,0 +1,5 @@
+// server/src/contracts/contractCheck.ts
+// Keeps each *Schemas.ts in step with the published types in its *Api.ts: every schemas file
+// lists `Same<z.infer<typeof schema>, Type>` pairs in a `contractChecks` tuple of `true`s, so a
+// schema and a type that drift apart stop the build instead of surprising the client.
+export type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : never) : never;
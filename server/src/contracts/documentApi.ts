@@ -0,0 +1,43 @@
+// server/src/contracts/documentApi.ts
+// Request/response shapes of the /documents API (KYC documents and proof-of-delivery photos).
+// Like orderApi.ts this file has no imports, so the client can use it with `import type`.
+
+export type DocumentKind = "licence" | "vehicle_rc" | "pan" | "aadhaar" | "photo" | "proof_of_delivery" | "other";
+
+export interface DocumentDTO {
+  id: string;
+  driverId: string; // whose profile it belongs to
+  kind: DocumentKind;
+  orderId: string | null;
+  trackingId: string | null;
+  filename: string;
+  contentType: string; // detected from the file itself
+  size: number; // bytes
+  sha256: string;
+  url: string; // GET this (with the session) for the file itself
+  uploadedBy: string;
+  createdAt: string;
+}
+
+// POST /documents is multipart/form-data: the file in `file`, these as text fields. An order
+// is named by id or tracking ID; proof_of_delivery needs one.
+export interface UploadDocumentRequest {
+  kind: DocumentKind;
+  orderId?: string;
+  trackingId?: string;
+}
+
+export interface UploadDocumentResponse extends DocumentDTO {
+  duplicate: boolean; // this file was already uploaded for the same link
+}
+
+export interface ListDocumentsQuery {
+  kind?: DocumentKind;
+  orderId?: string; // every document on the order, if the caller can see the order
+  driverId?: string; // admins only; drivers always get their own
+  limit?: number;
+}
+
+export interface DeleteDocumentResponse {
+  success: boolean;
+}
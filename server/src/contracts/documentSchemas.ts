@@ -0,0 +1,57 @@
+// server/src/contracts/documentSchemas.ts
+// Runtime validation for the /documents API, mirroring the types in documentApi.ts.
+import { z } from "zod";
+import { DOCUMENT_KINDS, IDriverDocument } from "../models/DriverDocument";
+import { DocumentDTO, ListDocumentsQuery, UploadDocumentRequest } from "./documentApi";
+import { Same } from "./contractCheck";
+
+const objectId = (what: string) => z.string().regex(/^[a-f0-9]{24}$/i, `must be ${what}`);
+
+export const uploadDocumentSchema = z
+  .object({
+    kind: z.enum(DOCUMENT_KINDS),
+    orderId: objectId("an order id").optional(),
+    trackingId: z.string().trim().min(1).max(40).optional(),
+  })
+  .strict()
+  .refine((body) => !(body.orderId && body.trackingId), { message: "Give orderId or trackingId, not both", path: ["trackingId"] })
+  .refine((body) => body.kind !== "proof_of_delivery" || body.orderId || body.trackingId, {
+    message: "Proof of delivery needs the order's orderId or trackingId",
+    path: ["orderId"],
+  });
+
+export const listDocumentsQuerySchema = z
+  .object({
+    kind: z.enum(DOCUMENT_KINDS).optional(),
+    orderId: objectId("an order id").optional(),
+    driverId: objectId("a driver id").optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+  })
+  .strict();
+
+export const documentIdParamsSchema = z.object({
+  id: objectId("a document id"),
+});
+
+const contractChecks: [
+  Same<z.infer<typeof uploadDocumentSchema>, UploadDocumentRequest>,
+  Same<z.infer<typeof listDocumentsQuerySchema>, ListDocumentsQuery>,
+] = [true, true];
+void contractChecks;
+
+export function toDocumentDTO(doc: IDriverDocument): DocumentDTO {
+  return {
+    id: String(doc._id),
+    driverId: doc.driverId,
+    kind: doc.kind,
+    orderId: doc.orderId ? String(doc.orderId) : null,
+    trackingId: doc.trackingId ?? null,
+    filename: doc.filename,
+    contentType: doc.contentType,
+    size: doc.size,
+    sha256: doc.sha256,
+    url: `/documents/${doc._id}/file`,
+    uploadedBy: doc.uploadedBy,
+    createdAt: doc.createdAt ? doc.createdAt.toISOString() : "",
+  };
+}
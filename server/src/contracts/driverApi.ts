@@ -0,0 +1,78 @@
+// server/src/contracts/driverApi.ts
+// Request/response shapes of the /drivers API. Only type imports, so the client can use it with `import type`.
+import type { OrderDTO } from "./orderApi";
+
+export type DriverAvailability = "available" | "busy" | "offline";
+export type VehicleType = "bike" | "three_wheeler" | "mini_truck" | "truck";
+// Hinglish is Hindi in Latin script; the others are Hindi, English, Marathi, Tamil, Kannada, Bengali
+export type Language = "hinglish" | "hi" | "en" | "mr" | "ta" | "kn" | "bn";
+
+export interface DriverDTO {
+  id: string;
+  phone: string;
+  name: string | null;
+  role: "driver" | "admin";
+  availability: DriverAvailability;
+  vehicleType: VehicleType;
+  capacity: number; // parcels carried at once
+  load: { orders: number; parcels: number }; // active orders
+  language: Language; // replies are in this language
+  languageAuto: boolean; // the language follows what the driver speaks
+}
+
+// PATCH /drivers/:id. `capacity: null` goes back to the vehicle's default. Setting `language`
+// turns auto-detection off unless `languageAuto: true` is sent with it.
+export interface UpdateDriverRequest {
+  name?: string;
+  availability?: DriverAvailability;
+  vehicleType?: VehicleType;
+  capacity?: number | null;
+  language?: Language;
+  languageAuto?: boolean;
+}
+
+export interface ListDriversQuery {
+  availability?: DriverAvailability;
+}
+
+// GET /drivers/:id/route. `date` is YYYY-MM-DD (default today); `from` is "lat,lng" (default the first stop).
+export interface RouteQuery {
+  date?: string;
+  from?: string;
+}
+
+export interface RouteStopDTO {
+  sequence: number;
+  order: OrderDTO;
+  legKm: number;
+  eta: string; // ISO 8601
+  window: { from: string; to: string } | null;
+  lateMinutes: number;
+}
+
+export interface RouteDTO {
+  stops: RouteStopDTO[];
+  unlocated: OrderDTO[]; // address could not be geocoded
+  totalKm: number;
+  lateStops: number;
+}
+
+export type OnboardingField = "name" | "phone" | "vehicleNumber" | "licenceNumber" | "pan" | "aadhaar";
+
+export interface OnboardingFieldDTO {
+  field: OnboardingField;
+  label: string;
+  done: boolean;
+  value: string | null; // normalised; Aadhaar only as XXXX XXXX 1234
+  savedAt: string | null;
+}
+
+// GET /drivers/:id/onboarding: the KYC form's fields in the order they are asked
+export interface OnboardingStatusDTO {
+  status: "not_started" | "in_progress" | "completed";
+  fields: OnboardingFieldDTO[];
+  done: number;
+  total: number;
+  next: OnboardingField | null; // asked next by voice
+  completedAt: string | null;
+}
@@ -0,0 +1,97 @@
+// server/src/contracts/driverSchemas.ts
+// Runtime validation for the /drivers API, mirroring the types in driverApi.ts.
+import { z } from "zod";
+import { DRIVER_AVAILABILITY, IDriver, VEHICLE_TYPES, driverCapacity } from "../models/Driver";
+import { LANGUAGES } from "../i18n/languages";
+import { DriverLoad } from "../dispatch/dispatch";
+import { RoutePlan } from "../routing/planner";
+import { IDriverProfile } from "../models/DriverProfile";
+import { FORM_FIELDS, nextField } from "../onboarding/form";
+import { toOrderDTO } from "./orderSchemas";
+import { DriverDTO, ListDriversQuery, OnboardingStatusDTO, RouteDTO, RouteQuery, UpdateDriverRequest } from "./driverApi";
+import { Same } from "./contractCheck";
+
+export const updateDriverSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    availability: z.enum(DRIVER_AVAILABILITY),
+    vehicleType: z.enum(VEHICLE_TYPES),
+    capacity: z.number().int().min(1).max(1000).nullable(),
+    language: z.enum(LANGUAGES),
+    languageAuto: z.boolean(),
+  })
+  .partial()
+  .strict()
+  .refine((v) => Object.keys(v).length > 0, { message: "at least one field is required" });
+
+export const listDriversQuerySchema = z
+  .object({ availability: z.enum(DRIVER_AVAILABILITY).optional() })
+  .strict();
+
+export const routeQuerySchema = z
+  .object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be YYYY-MM-DD").optional(),
+    from: z
+      .string()
+      .regex(/^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/, "must be lat,lng")
+      .optional(),
+  })
+  .strict();
+
+export const driverIdParamsSchema = z.object({
+  id: z.string().regex(/^[a-f0-9]{24}$/i, "must be a driver id"),
+});
+
+const contractChecks: [
+  Same<z.infer<typeof updateDriverSchema>, UpdateDriverRequest>,
+  Same<z.infer<typeof listDriversQuerySchema>, ListDriversQuery>,
+  Same<z.infer<typeof routeQuerySchema>, RouteQuery>,
+] = [true, true, true];
+void contractChecks;
+
+export function toDriverDTO(driver: IDriver, load?: DriverLoad): DriverDTO {
+  return {
+    id: String(driver._id),
+    phone: driver.phone,
+    name: driver.name ?? null,
+    role: driver.role,
+    availability: driver.availability,
+    vehicleType: driver.vehicleType,
+    capacity: driverCapacity(driver),
+    load: { orders: load?.orders ?? 0, parcels: load?.parcels ?? 0 },
+    language: driver.language,
+    languageAuto: driver.languageAuto,
+  };
+}
+
+export function toRouteDTO(plan: RoutePlan): RouteDTO {
+  return {
+    stops: plan.stops.map((s) => ({
+      sequence: s.sequence,
+      order: toOrderDTO(s.order),
+      legKm: Math.round(s.legKm * 10) / 10,
+      eta: s.eta.toISOString(),
+      window: s.window ? { from: s.window.from.toISOString(), to: s.window.to.toISOString() } : null,
+      lateMinutes: s.lateMinutes,
+    })),
+    unlocated: plan.unlocated.map(toOrderDTO),
+    totalKm: Math.round(plan.totalKm * 10) / 10,
+    lateStops: plan.lateStops,
+  };
+}
+
+// A driver without a profile has not started
+export function toOnboardingStatusDTO(profile: IDriverProfile | null): OnboardingStatusDTO {
+  const fields = FORM_FIELDS.map((f) => {
+    const saved = profile?.fields[f.key];
+    return { field: f.key, label: f.label, done: !!saved?.value, value: saved?.value ?? null, savedAt: saved ? saved.savedAt.toISOString() : null };
+  });
+  return {
+    status: profile ? profile.status : "not_started",
+    fields,
+    done: fields.filter((f) => f.done).length,
+    total: fields.length,
+    next: profile ? nextField(profile)?.key ?? null : FORM_FIELDS[0].key,
+    completedAt: profile?.completedAt ? profile.completedAt.toISOString() : null,
+  };
+}
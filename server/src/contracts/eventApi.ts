@@ -0,0 +1,33 @@
+// server/src/contracts/eventApi.ts
+// Events pushed to drivers over GET /events/stream. Only type imports from the other
+// contract files, so the client can still use this with `import type`.
+import type { OrderDTO, OrderStatus } from "./orderApi";
+import type { ReminderDTO } from "./reminderApi";
+import type { IncidentDTO } from "./incidentApi";
+
+export type AlertSeverity = "info" | "warning" | "critical";
+
+export interface AlertDTO {
+  message: string;
+  severity: AlertSeverity;
+  at: string; // ISO 8601
+}
+
+// Each event is sent as `event: <type>` with the JSON object as `data`
+export type RealtimeEvent =
+  | { type: "reminder"; reminder: ReminderDTO }
+  | { type: "order_status"; order: OrderDTO; from: OrderStatus | null; to: OrderStatus }
+  | { type: "order_assigned"; order: OrderDTO }
+  | { type: "alert"; alert: AlertDTO }
+  | { type: "incident"; incident: IncidentDTO };
+
+// What the stream sends: the event and what to say about it, from the message catalog in the
+// driver's language; `lang` is the BCP-47 tag of `text`
+export type StreamEvent = RealtimeEvent & { text: string; lang: string };
+
+// POST /events/alerts (admin). Without driverId the alert goes to every connected driver.
+export interface SendAlertRequest {
+  message: string;
+  severity?: AlertSeverity;
+  driverId?: string;
+}
@@ -0,0 +1,16 @@
+// server/src/contracts/eventSchemas.ts
+// Runtime validation for the /events API, mirroring the types in eventApi.ts.
+import { z } from "zod";
+import { SendAlertRequest } from "./eventApi";
+import { Same } from "./contractCheck";
+
+export const sendAlertSchema = z
+  .object({
+    message: z.string().trim().min(1).max(500),
+    severity: z.enum(["info", "warning", "critical"]).optional(),
+    driverId: z.string().regex(/^[a-f0-9]{24}$/i, "must be a driver id").optional(),
+  })
+  .strict();
+
+const contractChecks: [Same<z.infer<typeof sendAlertSchema>, SendAlertRequest>] = [true];
+void contractChecks;
@@ -0,0 +1,85 @@
+// server/src/contracts/incentiveApi.ts
+// Request/response shapes of the /incentives API (penalty and reward rules, and appeals against
+// penalties). Like incidentApi.ts this file has no imports, so the client can use it with
+// `import type`.
+
+// late_pickup: picked up more than `threshold` minutes after the pickup time
+// cancel_after_accept: the assignee cancelled an order they had accepted
+// rating_below / rating_at_least: the customer's rating compared with `threshold` stars
+// delivery_streak: every `threshold` deliveries in a row without a penalty
+export type RuleKind = "late_pickup" | "cancel_after_accept" | "rating_below" | "rating_at_least" | "delivery_streak";
+
+export type RuleType = "penalty" | "reward";
+
+export interface IncentiveRuleDTO {
+  id: string;
+  name: string; // given to the driver as the reason
+  kind: RuleKind;
+  type: RuleType;
+  amount: number; // ₹
+  threshold: number | null;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateIncentiveRuleRequest {
+  name: string;
+  kind: RuleKind;
+  type: RuleType;
+  amount: number;
+  threshold?: number | null; // required for every kind but cancel_after_accept
+  active?: boolean;
+}
+
+export type UpdateIncentiveRuleRequest = Partial<CreateIncentiveRuleRequest>;
+
+export interface DeleteIncentiveRuleResponse {
+  success: boolean;
+}
+
+// "none" for records nobody has contested
+export type AppealStatus = "none" | "pending" | "accepted" | "rejected";
+
+export interface AppealDTO {
+  status: Exclude<AppealStatus, "none">;
+  reason: string; // the driver's words
+  raisedAt: string;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  note: string | null; // the admin's answer
+}
+
+// A penalty or reward in the ledger, whether booked by a rule or by an admin
+export interface IncentiveRecordDTO {
+  id: string;
+  driverId: string;
+  type: RuleType;
+  amount: number;
+  reason: string;
+  trackingId: string | null;
+  ruleId: string | null;
+  occurredAt: string;
+  appealStatus: AppealStatus;
+  appeal: AppealDTO | null;
+  counted: boolean; // false once an appeal against it is accepted
+}
+
+// GET /incentives/records. Drivers see their own; admins any driver's, or all.
+export interface ListIncentiveRecordsQuery {
+  driverId?: string;
+  type?: RuleType;
+  appeal?: AppealStatus;
+  limit?: number;
+}
+
+// POST /incentives/records/:id/appeal
+export interface AppealRequest {
+  reason: string;
+}
+
+// POST /incentives/records/:id/appeal/resolve (admin)
+export interface ResolveAppealRequest {
+  decision: "accepted" | "rejected";
+  note?: string;
+}
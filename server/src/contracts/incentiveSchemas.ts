@@ -0,0 +1,126 @@
+// server/src/contracts/incentiveSchemas.ts
+// Runtime validation for the /incentives API, mirroring the types in incentiveApi.ts.
+import { z } from "zod";
+import { IIncentiveRule, RULE_KINDS, RULE_TYPES, RuleKind } from "../models/IncentiveRule";
+import { RULE_THRESHOLDS } from "../incentives/rules";
+import { ILedgerEntry } from "../models/LedgerEntry";
+import {
+  AppealRequest,
+  AppealStatus,
+  CreateIncentiveRuleRequest,
+  IncentiveRecordDTO,
+  IncentiveRuleDTO,
+  ListIncentiveRecordsQuery,
+  ResolveAppealRequest,
+  RuleType,
+  UpdateIncentiveRuleRequest,
+} from "./incentiveApi";
+import { Same } from "./contractCheck";
+
+const objectId = (what: string) => z.string().regex(/^[a-f0-9]{24}$/i, `must be ${what}`);
+
+const ruleFields = z.object({
+  name: z.string().trim().min(1).max(120),
+  kind: z.enum(RULE_KINDS),
+  type: z.enum(RULE_TYPES),
+  amount: z.number().min(0).max(10000),
+  threshold: z.number().int().min(1).max(1440).nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+// Whether a rule's threshold fits its kind; shared with the update route, which checks the merged rule
+export function thresholdProblem(kind: RuleKind, threshold?: number | null): string | null {
+  const unit = RULE_THRESHOLDS[kind];
+  if (!unit) return null;
+  if (threshold == null) return `is required for ${kind} rules (${unit})`;
+  if (unit === "stars" && threshold > 5) return "must be a rating from 1 to 5";
+  return null;
+}
+
+export const createIncentiveRuleSchema = ruleFields.strict().superRefine((rule, ctx) => {
+  const problem = thresholdProblem(rule.kind, rule.threshold);
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem, path: ["threshold"] });
+});
+
+export const updateIncentiveRuleSchema = ruleFields
+  .partial()
+  .strict()
+  .refine((v) => Object.keys(v).length > 0, { message: "at least one field is required" });
+
+export const listIncentiveRecordsQuerySchema = z
+  .object({
+    driverId: z.string().trim().min(1).max(100).optional(),
+    type: z.enum(RULE_TYPES).optional(),
+    appeal: z.enum(["none", "pending", "accepted", "rejected"]).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+  })
+  .strict();
+
+export const appealSchema = z
+  .object({
+    reason: z.string().trim().min(1).max(500),
+  })
+  .strict();
+
+export const resolveAppealSchema = z
+  .object({
+    decision: z.enum(["accepted", "rejected"]),
+    note: z.string().trim().min(1).max(500).optional(),
+  })
+  .strict();
+
+export const incentiveIdParamsSchema = z.object({
+  id: objectId("an id"),
+});
+
+const contractChecks: [
+  Same<z.infer<typeof createIncentiveRuleSchema>, CreateIncentiveRuleRequest>,
+  Same<z.infer<typeof updateIncentiveRuleSchema>, UpdateIncentiveRuleRequest>,
+  Same<z.infer<typeof listIncentiveRecordsQuerySchema>, ListIncentiveRecordsQuery>,
+  Same<z.infer<typeof appealSchema>, AppealRequest>,
+  Same<z.infer<typeof resolveAppealSchema>, ResolveAppealRequest>,
+] = [true, true, true, true, true];
+void contractChecks;
+
+const iso = (d?: Date | null) => (d ? d.toISOString() : null);
+
+export function toIncentiveRuleDTO(rule: IIncentiveRule): IncentiveRuleDTO {
+  return {
+    id: String(rule._id),
+    name: rule.name,
+    kind: rule.kind,
+    type: rule.type,
+    amount: rule.amount,
+    threshold: rule.threshold ?? null,
+    active: rule.active,
+    createdAt: rule.createdAt ? rule.createdAt.toISOString() : "",
+    updatedAt: rule.updatedAt ? rule.updatedAt.toISOString() : "",
+  };
+}
+
+export function toIncentiveRecordDTO(entry: ILedgerEntry): IncentiveRecordDTO {
+  const appeal = entry.appeal;
+  const appealStatus: AppealStatus = appeal?.status ?? "none";
+  return {
+    id: String(entry._id),
+    driverId: entry.driverId,
+    type: entry.type as RuleType,
+    amount: entry.amount,
+    reason: entry.reason || entry.type,
+    trackingId: entry.trackingId ?? null,
+    ruleId: entry.ruleId ? String(entry.ruleId) : null,
+    occurredAt: entry.occurredAt.toISOString(),
+    appealStatus,
+    appeal: appeal
+      ? {
+          status: appeal.status,
+          reason: appeal.reason,
+          raisedAt: appeal.raisedAt.toISOString(),
+          resolvedAt: iso(appeal.resolvedAt),
+          resolvedBy: appeal.resolvedBy ?? null,
+          note: appeal.note ?? null,
+        }
+      : null,
+    counted: appealStatus !== "accepted",
+  };
+}
@@ -0,0 +1,81 @@
+// server/src/contracts/incidentApi.ts
+// Request/response shapes of the /incidents API (emergency SOS). Like orderApi.ts this file has
+// no imports, so the client can use it with `import type`.
+
+// pending_confirmation: raised, waiting for the driver to confirm or withdraw it
+// open: confirmed (or unanswered) and escalating until ops acknowledge it
+export type IncidentStatus = "pending_confirmation" | "open" | "acknowledged" | "resolved" | "cancelled";
+
+export type NotifyChannel = "sms" | "webhook" | "dashboard";
+
+export interface IncidentLocation {
+  lat: number;
+  lng: number;
+  accuracy: number | null; // metres, as reported by the device
+  source: string; // "device", or "order" when taken from the active order's address
+  at: string; // ISO 8601
+}
+
+export interface TranscriptLineDTO {
+  role: "user" | "assistant" | "system";
+  content: string;
+  at: string;
+}
+
+export interface IncidentNotificationDTO {
+  channel: NotifyChannel;
+  level: number;
+  reason: "raised" | "escalated" | "withdrawn";
+  ok: boolean;
+  error: string | null;
+  at: string;
+}
+
+export interface IncidentDTO {
+  id: string;
+  driverId: string;
+  driverName: string | null;
+  driverPhone: string;
+  status: IncidentStatus;
+  trackingId: string | null; // the order the driver was on
+  location: IncidentLocation | null;
+  transcript: TranscriptLineDTO[];
+  level: number; // escalation levels notified so far
+  nextEscalationAt: string | null;
+  confirmBy: string | null; // raised automatically at this time if the driver does not answer
+  autoConfirmed: boolean;
+  notifications: IncidentNotificationDTO[];
+  acknowledgedBy: string | null;
+  acknowledgedAt: string | null;
+  resolution: string | null;
+  cancelReason: string | null;
+  triggeredVia: string; // "voice" | "api"
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LocationInput {
+  lat: number;
+  lng: number;
+  accuracy?: number;
+}
+
+// POST /incidents (the SOS button). `confirmed: true` skips the confirmation prompt.
+export interface RaiseIncidentRequest {
+  message?: string;
+  location?: LocationInput;
+  confirmed?: boolean;
+}
+
+export interface CancelIncidentRequest {
+  reason?: string;
+}
+
+export interface ResolveIncidentRequest {
+  resolution: string;
+}
+
+export interface ListIncidentsQuery {
+  status?: IncidentStatus;
+  limit?: number;
+}
@@ -0,0 +1,96 @@
+// server/src/contracts/incidentSchemas.ts
+// Runtime validation for the /incidents API, mirroring the types in incidentApi.ts.
+import { z } from "zod";
+import { IIncident, INCIDENT_STATUSES } from "../models/Incident";
+import {
+  CancelIncidentRequest,
+  IncidentDTO,
+  ListIncidentsQuery,
+  RaiseIncidentRequest,
+  ResolveIncidentRequest,
+} from "./incidentApi";
+import { Same } from "./contractCheck";
+
+export const locationSchema = z
+  .object({
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+    accuracy: z.number().min(0).optional(),
+  })
+  .strict();
+
+export const raiseIncidentSchema = z
+  .object({
+    message: z.string().trim().min(1).max(500).optional(),
+    location: locationSchema.optional(),
+    confirmed: z.boolean().optional(),
+  })
+  .strict();
+
+export const cancelIncidentSchema = z
+  .object({
+    reason: z.string().trim().min(1).max(300).optional(),
+  })
+  .strict();
+
+export const resolveIncidentSchema = z
+  .object({
+    resolution: z.string().trim().min(1).max(1000),
+  })
+  .strict();
+
+export const listIncidentsQuerySchema = z
+  .object({
+    status: z.enum(INCIDENT_STATUSES).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+  })
+  .strict();
+
+export const incidentIdParamsSchema = z.object({
+  id: z.string().regex(/^[a-f0-9]{24}$/i, "must be an incident id"),
+});
+
+const contractChecks: [
+  Same<z.infer<typeof raiseIncidentSchema>, RaiseIncidentRequest>,
+  Same<z.infer<typeof cancelIncidentSchema>, CancelIncidentRequest>,
+  Same<z.infer<typeof resolveIncidentSchema>, ResolveIncidentRequest>,
+  Same<z.infer<typeof listIncidentsQuerySchema>, ListIncidentsQuery>,
+] = [true, true, true, true];
+void contractChecks;
+
+const iso = (d?: Date | null) => (d ? d.toISOString() : null);
+
+export function toIncidentDTO(incident: IIncident): IncidentDTO {
+  const location = incident.location;
+  return {
+    id: String(incident._id),
+    driverId: incident.driverId,
+    driverName: incident.driverName ?? null,
+    driverPhone: incident.driverPhone,
+    status: incident.status,
+    trackingId: incident.trackingId ?? null,
+    location: location
+      ? { lat: location.lat, lng: location.lng, accuracy: location.accuracy ?? null, source: location.source, at: location.at.toISOString() }
+      : null,
+    transcript: incident.transcript.map((l) => ({ role: l.role, content: l.content, at: l.at.toISOString() })),
+    level: incident.level,
+    nextEscalationAt: iso(incident.nextEscalationAt),
+    confirmBy: iso(incident.confirmBy),
+    autoConfirmed: incident.autoConfirmed,
+    notifications: incident.notifications.map((n) => ({
+      channel: n.channel,
+      level: n.level,
+      reason: n.reason,
+      ok: n.ok,
+      error: n.error ?? null,
+      at: n.at.toISOString(),
+    })),
+    acknowledgedBy: incident.acknowledgedBy ?? null,
+    acknowledgedAt: iso(incident.acknowledgedAt),
+    resolution: incident.resolution ?? null,
+    cancelReason: incident.cancelReason ?? null,
+    triggeredVia: incident.triggeredVia,
+    createdAt: iso(incident.createdAt) || "",
+    updatedAt: iso(incident.updatedAt) || "",
+  };
+}
@@ -0,0 +1,98 @@
+// server/src/contracts/learningApi.ts
+// Request/response shapes of the /learning API (learning modules and step-by-step guides).
+// Like orderApi.ts this file only has type imports, so the client can use it with `import type`.
+import type { Language } from "./driverApi";
+
+export type LearningKind = "module" | "guide";
+
+// Text per reply language; at least one is required, missing ones fall back to Hinglish/English
+export type LocalizedText = Partial<Record<Language, string>>;
+
+export interface LearningStepDTO {
+  text: LocalizedText;
+  audioUrl: LocalizedText | null; // recordings played instead of speech synthesis
+}
+
+// A multiple-choice question; drivers answer with the option's number or its words
+export interface QuizQuestionDTO {
+  question: LocalizedText;
+  options: LocalizedText[]; // 2 to 4
+  answer: number; // index of the right option
+}
+
+export interface LearningProgressDTO {
+  step: number; // index of the step heard last
+  stepsDone: boolean;
+  quizScore: number | null; // best attempt, in percent
+  quizAttempts: number;
+  completed: boolean; // steps heard and quiz passed
+  completedAt: string | null;
+  certificateId: string | null;
+  updatedAt: string;
+}
+
+export interface LearningContentDTO {
+  id: string;
+  slug: string;
+  kind: LearningKind;
+  title: LocalizedText;
+  summary: LocalizedText;
+  keywords: string[];
+  steps: LearningStepDTO[];
+  quiz: QuizQuestionDTO[];
+  passScore: number; // percent of the quiz needed to complete it
+  badge: LocalizedText | null;
+  reward: number; // ₹ credited on the first completion
+  published: boolean;
+  progress: LearningProgressDTO | null; // the caller's, if they have started it
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateLearningContentRequest {
+  slug: string; // lowercase words joined by "-", e.g. "customer-service"
+  kind: LearningKind;
+  title: LocalizedText;
+  summary?: LocalizedText;
+  keywords?: string[]; // words in any language that name the topic, e.g. "bima"
+  steps: { text: LocalizedText; audioUrl?: LocalizedText | null }[];
+  quiz?: QuizQuestionDTO[];
+  passScore?: number; // default 60
+  badge?: LocalizedText | null;
+  reward?: number; // default 0
+  published?: boolean;
+}
+
+export type UpdateLearningContentRequest = Partial<CreateLearningContentRequest>;
+
+export interface ListLearningQuery {
+  kind?: LearningKind;
+  published?: boolean; // admins only; drivers only see published content
+}
+
+export interface DeleteLearningContentResponse {
+  success: boolean;
+}
+
+export type LearningStatus = "not_started" | "in_progress" | "completed";
+
+// GET /drivers/:id/learning: every published module and guide with the driver's result
+export interface LearningReportDTO {
+  driverId: string;
+  completed: number;
+  total: number;
+  items: {
+    id: string;
+    slug: string;
+    kind: LearningKind;
+    title: LocalizedText;
+    status: LearningStatus;
+    stepsHeard: number;
+    steps: number;
+    quizScore: number | null;
+    quizAttempts: number;
+    completedAt: string | null;
+    certificateId: string | null;
+    badge: LocalizedText | null; // once earned
+  }[];
+}
@@ -0,0 +1,150 @@
+// server/src/contracts/learningSchemas.ts
+// Runtime validation for the /learning API, mirroring the types in learningApi.ts.
+import { z } from "zod";
+import { ILearningContent, LEARNING_KINDS } from "../models/LearningContent";
+import { ILearningProgress } from "../models/LearningProgress";
+import {
+  CreateLearningContentRequest,
+  LearningContentDTO,
+  LearningReportDTO,
+  LearningStatus,
+  ListLearningQuery,
+  LocalizedText,
+  UpdateLearningContentRequest,
+} from "./learningApi";
+import { Same } from "./contractCheck";
+
+const objectId = (what: string) => z.string().regex(/^[a-f0-9]{24}$/i, `must be ${what}`);
+
+// One entry per reply language (see i18n/languages.ts); at least one must be given
+const localized = (max: number) =>
+  z
+    .object({
+      hinglish: z.string().trim().min(1).max(max),
+      hi: z.string().trim().min(1).max(max),
+      en: z.string().trim().min(1).max(max),
+      mr: z.string().trim().min(1).max(max),
+      ta: z.string().trim().min(1).max(max),
+      kn: z.string().trim().min(1).max(max),
+      bn: z.string().trim().min(1).max(max),
+    })
+    .partial()
+    .strict()
+    .refine((v) => Object.keys(v).length > 0, { message: "at least one language is required" });
+
+const stepSchema = z
+  .object({
+    text: localized(1000),
+    audioUrl: localized(500).nullable().optional(),
+  })
+  .strict();
+
+const quizQuestionSchema = z
+  .object({
+    question: localized(300),
+    options: z.array(localized(120)).min(2).max(4),
+    answer: z.number().int().min(0),
+  })
+  .strict()
+  .refine((q) => q.answer < q.options.length, { message: "must be the index of one of the options", path: ["answer"] });
+
+const contentFields = z.object({
+  slug: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "must be lowercase words joined by -")
+    .max(60),
+  kind: z.enum(LEARNING_KINDS),
+  title: localized(120),
+  summary: localized(500).optional(),
+  keywords: z.array(z.string().trim().min(2).max(40)).max(30).optional(),
+  steps: z.array(stepSchema).min(1).max(50),
+  quiz: z.array(quizQuestionSchema).max(20).optional(),
+  passScore: z.number().int().min(0).max(100).optional(),
+  badge: localized(60).nullable().optional(),
+  reward: z.number().min(0).max(10000).optional(),
+  published: z.boolean().optional(),
+});
+
+export const createLearningContentSchema = contentFields.strict();
+
+export const updateLearningContentSchema = contentFields
+  .partial()
+  .strict()
+  .refine((v) => Object.keys(v).length > 0, { message: "at least one field is required" });
+
+export const listLearningQuerySchema = z
+  .object({
+    kind: z.enum(LEARNING_KINDS).optional(),
+    published: z
+      .enum(["true", "false"])
+      .transform((v) => v === "true")
+      .optional(),
+  })
+  .strict();
+
+export const learningIdParamsSchema = z.object({
+  id: objectId("a learning content id"),
+});
+
+const contractChecks: [
+  Same<z.infer<ReturnType<typeof localized>>, LocalizedText>,
+  Same<z.infer<typeof createLearningContentSchema>, CreateLearningContentRequest>,
+  Same<z.infer<typeof updateLearningContentSchema>, UpdateLearningContentRequest>,
+  Same<z.infer<typeof listLearningQuerySchema>, ListLearningQuery>,
+] = [true, true, true, true];
+void contractChecks;
+
+export function toLearningContentDTO(content: ILearningContent, progress?: ILearningProgress | null): LearningContentDTO {
+  return {
+    id: String(content._id),
+    slug: content.slug,
+    kind: content.kind,
+    title: content.title,
+    summary: content.summary ?? {},
+    keywords: content.keywords,
+    steps: content.steps.map((s) => ({ text: s.text, audioUrl: s.audioUrl ?? null })),
+    quiz: content.quiz.map((q) => ({ question: q.question, options: q.options, answer: q.answer })),
+    passScore: content.passScore,
+    badge: content.badge ?? null,
+    reward: content.reward,
+    published: content.published,
+    progress: progress
+      ? {
+          step: progress.step,
+          stepsDone: progress.stepsDone,
+          quizScore: progress.quizScore ?? null,
+          quizAttempts: progress.quizAttempts,
+          completed: progress.completed,
+          completedAt: progress.completedAt ? progress.completedAt.toISOString() : null,
+          certificateId: progress.certificateId ?? null,
+          updatedAt: progress.updatedAt ? progress.updatedAt.toISOString() : "",
+        }
+      : null,
+    createdAt: content.createdAt ? content.createdAt.toISOString() : "",
+    updatedAt: content.updatedAt ? content.updatedAt.toISOString() : "",
+  };
+}
+
+export function toLearningReportDTO(driverId: string, contents: ILearningContent[], progress: ILearningProgress[]): LearningReportDTO {
+  const byContent = new Map(progress.map((p) => [String(p.contentId), p]));
+  const items = contents.map((c) => {
+    const p = byContent.get(String(c._id));
+    const status: LearningStatus = !p ? "not_started" : p.completed ? "completed" : "in_progress";
+    return {
+      id: String(c._id),
+      slug: c.slug,
+      kind: c.kind,
+      title: c.title,
+      status,
+      stepsHeard: !p ? 0 : p.stepsDone ? c.steps.length : p.step + 1,
+      steps: c.steps.length,
+      quizScore: p?.quizScore ?? null,
+      quizAttempts: p?.quizAttempts ?? 0,
+      completedAt: p?.completedAt ? p.completedAt.toISOString() : null,
+      certificateId: p?.certificateId ?? null,
+      badge: p?.completed ? (c.badge ?? null) : null,
+    };
+  });
+  return { driverId, completed: items.filter((i) => i.status === "completed").length, total: items.length, items };
+}
@@ -0,0 +1,30 @@
+// server/src/contracts/ledgerApi.ts
+// Request shapes of the /ledger API. Like incentiveApi.ts this file has no imports, so the
+// client can use it with `import type`.
+
+export type LedgerType = "fare" | "fuel" | "toll" | "penalty" | "reward" | "payout";
+
+export type EarningsPeriod = "daily" | "weekly" | "monthly";
+
+// POST /ledger. Drivers record their own fuel and toll; admins any type for `driverId`.
+export interface RecordLedgerEntryRequest {
+  driverId?: string; // required for admins, ignored for drivers
+  type: LedgerType;
+  amount: number; // ₹, positive
+  trackingId?: string;
+  reason?: string;
+  occurredAt?: string; // ISO 8601, default now
+}
+
+// GET /ledger/:driverId. Drivers see their own; admins any driver's.
+export interface ListLedgerEntriesQuery {
+  type?: LedgerType;
+  limit?: number;
+}
+
+// GET /ledger/:driverId/summary. `from` and `to` default to the current period.
+export interface EarningsSummaryQuery {
+  period?: EarningsPeriod;
+  from?: string; // ISO 8601
+  to?: string;
+}
@@ -0,0 +1,44 @@
+// server/src/contracts/ledgerSchemas.ts
+// Runtime validation for the /ledger API, mirroring the types in ledgerApi.ts.
+import { z } from "zod";
+import { LEDGER_TYPES } from "../models/LedgerEntry";
+import { EarningsSummaryQuery, ListLedgerEntriesQuery, RecordLedgerEntryRequest } from "./ledgerApi";
+import { Same } from "./contractCheck";
+
+const isoDate = z
+  .string()
+  .refine((v) => !isNaN(Date.parse(v)), { message: "must be an ISO 8601 date" });
+
+export const recordLedgerEntrySchema = z
+  .object({
+    driverId: z.string().trim().min(1).max(100).optional(),
+    type: z.enum(LEDGER_TYPES),
+    amount: z.number().positive().max(1_000_000),
+    trackingId: z.string().trim().min(1).max(50).optional(),
+    reason: z.string().trim().min(1).max(500).optional(),
+    occurredAt: isoDate.optional(),
+  })
+  .strict();
+
+export const listLedgerEntriesQuerySchema = z
+  .object({
+    type: z.enum(LEDGER_TYPES).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+  })
+  .strict();
+
+export const earningsSummaryQuerySchema = z
+  .object({
+    period: z.enum(["daily", "weekly", "monthly"]).optional(),
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+  })
+  .strict()
+  .refine((q) => !q.from || !q.to || Date.parse(q.from) < Date.parse(q.to), { message: "from must be before to", path: ["to"] });
+
+const contractChecks: [
+  Same<z.infer<typeof recordLedgerEntrySchema>, RecordLedgerEntryRequest>,
+  Same<z.infer<typeof listLedgerEntriesQuerySchema>, ListLedgerEntriesQuery>,
+  Same<z.infer<typeof earningsSummaryQuerySchema>, EarningsSummaryQuery>,
+] = [true, true, true];
+void contractChecks;
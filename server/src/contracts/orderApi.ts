@@ -0,0 +1,138 @@
+// server/src/contracts/orderApi.ts
+// Request/response shapes of the /orders API. This file has no imports so the client can
+// use it with `import type` (see client/src/services/orderService.ts); keep it that way.
+// The zod schemas in orderSchemas.ts are checked against these types at compile time.
+
+export type OrderStatus = "created" | "assigned" | "picked_up" | "in_transit" | "delivered" | "cancelled";
+
+// An assignment is offered to a driver until they accept it (or reject it and it moves on)
+export type AssignmentState = "offered" | "accepted";
+
+export interface StatusChangeDTO {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  at: string;
+  by?: string;
+  reason?: string;
+}
+
+// Indian postal address. PIN codes are 6 digits; contact numbers are +91 mobiles.
+export interface AddressDTO {
+  line1: string | null; // house / shop number, building, street
+  landmark: string | null;
+  locality: string | null;
+  city: string | null;
+  state: string | null;
+  pincode: string | null;
+  contactPhone: string | null;
+  geo: { lat: number; lng: number } | null; // from the PIN code or geocoded
+  formatted: string; // one line, for display and speech
+}
+
+// Address in a request: either the parts, or free text (as spoken) that is parsed into them.
+// City and state may be left out when the PIN code is known; the result must be complete.
+export type AddressInput =
+  | string
+  | {
+      line1: string;
+      landmark?: string | null;
+      locality?: string | null;
+      city?: string;
+      state?: string;
+      pincode: string;
+      contactPhone?: string | null;
+    };
+
+export interface OrderDTO {
+  id: string;
+  trackingId: string;
+  customerName: string | null;
+  address: AddressDTO | null;
+  item: string;
+  qty: number;
+  status: OrderStatus;
+  statusHistory: StatusChangeDTO[];
+  pickupTime: string | null; // ISO 8601
+  assignedTo: string | null; // driver id
+  assignment: AssignmentState | null;
+  amount: number | null; // null until an admin sets the fare
+  expenses: number | null;
+  rating: number | null; // 1-5 once rated
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateOrderRequest {
+  item: string;
+  qty?: number;
+  customerName?: string;
+  address?: AddressInput;
+  pickupTime?: string | null;
+  assignedTo?: string | null;
+  amount?: number; // admin only, like expenses
+  expenses?: number;
+}
+
+// Only the listed fields may change; status changes follow the order lifecycle
+export interface UpdateOrderRequest {
+  item?: string;
+  qty?: number;
+  customerName?: string;
+  address?: AddressInput;
+  pickupTime?: string | null;
+  assignedTo?: string | null;
+  amount?: number; // admin only, like expenses
+  expenses?: number;
+  status?: string;
+}
+
+export interface ListOrdersQuery {
+  customerName?: string;
+  assignedTo?: string;
+  limit?: number;
+}
+
+// GET /orders/search. Dates are ISO 8601; `status` is comma-separated;
+// `sort` is a field with an optional "-" for descending (default "-createdAt").
+export interface SearchOrdersQuery {
+  status?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  pickupFrom?: string;
+  pickupTo?: string;
+  item?: string;
+  address?: string; // matched against the street, landmark, locality, city and PIN code
+  customerName?: string;
+  assignedTo?: string;
+  sort?: "createdAt" | "-createdAt" | "updatedAt" | "-updatedAt" | "pickupTime" | "-pickupTime";
+  limit?: number;
+  cursor?: string;
+}
+
+export interface OrderPage {
+  items: OrderDTO[];
+  nextCursor: string | null; // pass back as `cursor` for the next page
+}
+
+// POST /orders/:id/rating: the customer's rating of a delivered order, given once
+export interface RateOrderRequest {
+  rating: number; // whole stars, 1-5
+}
+
+// POST /orders/:id/reject
+export interface RejectOrderResponse {
+  order: OrderDTO;
+  reassigned: boolean; // offered to another driver
+}
+
+export interface DeleteOrderResponse {
+  success: boolean;
+}
+
+// Body of every 4xx/5xx response
+export interface ApiError {
+  error: string;
+  details?: { path: string; message: string }[];
+  allowed?: string[];
+  missing?: string[]; // address parts still needed, see AddressInput
+}
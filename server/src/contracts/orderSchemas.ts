@@ -0,0 +1,157 @@
+// server/src/contracts/orderSchemas.ts
+// Runtime validation for the /orders API, mirroring the types in orderApi.ts.
+import { z } from "zod";
+import { IAddress, IOrder, ORDER_STATUSES } from "../models/Order";
+import { checkAddress, formatAddress, parseAddress } from "../geo/address";
+import { Same } from "./contractCheck";
+import {
+  AddressDTO,
+  CreateOrderRequest, ListOrdersQuery, OrderDTO, RateOrderRequest, SearchOrdersQuery, UpdateOrderRequest } from "./orderApi";
+
+const isoDate = z
+  .string()
+  .refine((v) => !isNaN(Date.parse(v)), { message: "must be an ISO 8601 date" });
+
+// Free text or parts; either way it must make a complete address once the PIN code fills in
+// city and state (see geo/address)
+const addressInput = z
+  .union([
+    z.string().trim().min(1).max(500),
+    z
+      .object({
+        line1: z.string().trim().min(1).max(200),
+        landmark: z.string().trim().max(200).nullable().optional(),
+        locality: z.string().trim().max(100).nullable().optional(),
+        city: z.string().trim().min(1).max(100).optional(),
+        state: z.string().trim().min(1).max(100).optional(),
+        pincode: z.string().trim().regex(/^[1-9]\d{5}$/, "must be a 6 digit PIN code"),
+        contactPhone: z.string().trim().max(20).nullable().optional(),
+      })
+      .strict(),
+  ])
+  .superRefine((value, ctx) => {
+    const { missing, errors } = checkAddress(typeof value === "string" ? parseAddress(value) : value);
+    for (const message of errors) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    if (missing.length) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `address is missing: ${missing.join(", ")}` });
+  });
+
+const orderFields = {
+  item: z.string().trim().min(1).max(200),
+  qty: z.number().int().min(1).max(1000),
+  customerName: z.string().trim().max(100),
+  address: addressInput,
+  pickupTime: isoDate.nullable(),
+  assignedTo: z.string().trim().max(100).nullable(),
+  amount: z.number().min(0),
+  expenses: z.number().min(0),
+};
+
+export const createOrderSchema = z
+  .object({
+    ...orderFields,
+    qty: orderFields.qty.optional(),
+    customerName: orderFields.customerName.optional(),
+    address: orderFields.address.optional(),
+    pickupTime: orderFields.pickupTime.optional(),
+    assignedTo: orderFields.assignedTo.optional(),
+    amount: orderFields.amount.optional(),
+    expenses: orderFields.expenses.optional(),
+  })
+  .strict();
+
+export const updateOrderSchema = z
+  .object({ ...orderFields, status: z.string().trim().min(1) })
+  .partial()
+  .strict()
+  .refine((v) => Object.keys(v).length > 0, { message: "at least one field is required" });
+
+export const listOrdersQuerySchema = z
+  .object({
+    customerName: z.string().optional(),
+    assignedTo: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+  })
+  .strict();
+
+export const searchOrdersQuerySchema = z
+  .object({
+    status: z
+      .string()
+      .refine((v) => v.split(",").every((s) => (ORDER_STATUSES as readonly string[]).includes(s.trim())), {
+        message: `must be a comma-separated list of ${ORDER_STATUSES.join(", ")}`,
+      })
+      .optional(),
+    createdFrom: isoDate.optional(),
+    createdTo: isoDate.optional(),
+    pickupFrom: isoDate.optional(),
+    pickupTo: isoDate.optional(),
+    item: z.string().trim().min(1).max(100).optional(),
+    address: z.string().trim().min(1).max(200).optional(),
+    customerName: z.string().trim().min(1).max(100).optional(),
+    assignedTo: z.string().trim().min(1).max(100).optional(),
+    sort: z.enum(["createdAt", "-createdAt", "updatedAt", "-updatedAt", "pickupTime", "-pickupTime"]).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+    cursor: z.string().max(200).optional(),
+  })
+  .strict();
+
+export const orderIdParamsSchema = z.object({
+  id: z.string().regex(/^[a-f0-9]{24}$/i, "must be an order id"),
+});
+
+export const rateOrderSchema = z
+  .object({
+    rating: z.number().int().min(1).max(5),
+  })
+  .strict();
+
+const contractChecks: [
+  Same<z.infer<typeof createOrderSchema>, CreateOrderRequest>,
+  Same<z.infer<typeof updateOrderSchema>, UpdateOrderRequest>,
+  Same<z.infer<typeof listOrdersQuerySchema>, ListOrdersQuery>,
+  Same<z.infer<typeof searchOrdersQuerySchema>, SearchOrdersQuery>,
+  Same<z.infer<typeof rateOrderSchema>, RateOrderRequest>,
+] = [true, true, true, true, true];
+void contractChecks;
+
+export function toAddressDTO(address?: IAddress | null): AddressDTO | null {
+  if (!address) return null;
+  return {
+    line1: address.line1 ?? null,
+    landmark: address.landmark || null,
+    locality: address.locality ?? null,
+    city: address.city ?? null,
+    state: address.state ?? null,
+    pincode: address.pincode ?? null,
+    contactPhone: address.contactPhone ?? null,
+    geo: address.geo ? { lat: address.geo.lat, lng: address.geo.lng } : null,
+    formatted: formatAddress(address) || address.raw || "",
+  };
+}
+
+export function toOrderDTO(order: IOrder): OrderDTO {
+  return {
+    id: String(order._id),
+    trackingId: order.trackingId,
+    customerName: order.customerName ?? null,
+    address: toAddressDTO(order.address),
+    item: order.item,
+    qty: order.qty,
+    status: order.status,
+    statusHistory: (order.statusHistory || []).map((h) => ({
+      from: h.from,
+      to: h.to,
+      at: new Date(h.at).toISOString(),
+      by: h.by,
+      reason: h.reason,
+    })),
+    pickupTime: order.pickupTime ? order.pickupTime.toISOString() : null,
+    assignedTo: order.assignedTo ?? null,
+    assignment: order.assignedTo ? order.dispatch?.state ?? null : null,
+    amount: order.amount ?? null,
+    expenses: order.expenses ?? null,
+    rating: order.rating ?? null,
+    createdAt: order.createdAt ? order.createdAt.toISOString() : "",
+    updatedAt: order.updatedAt ? order.updatedAt.toISOString() : "",
+  };
+}
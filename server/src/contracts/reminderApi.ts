@@ -0,0 +1,38 @@
+// server/src/contracts/reminderApi.ts
+// Request/response shapes of the /reminders API. Like orderApi.ts this file has no imports,
+// so the client can use it with `import type`.
+
+export type ReminderStatus = "pending" | "fired" | "cancelled";
+
+export interface ReminderDTO {
+  id: string;
+  text: string;
+  dueAt: string; // ISO 8601
+  status: ReminderStatus;
+  trackingId: string | null; // set when the reminder belongs to an order
+  leadMinutes: number | null; // set when it follows the order's pickup time
+  firedAt: string | null;
+  createdAt: string;
+}
+
+// Give either `dueAt`, a spoken `when` ("kal subah 9 baje", "in 30 minutes"), or a `trackingId`
+// to be reminded `leadMinutes` (default 15) before that order's pickup.
+export interface CreateReminderRequest {
+  text: string;
+  dueAt?: string;
+  when?: string;
+  trackingId?: string;
+  leadMinutes?: number;
+}
+
+export interface UpdateReminderRequest {
+  text?: string;
+  dueAt?: string;
+  when?: string;
+  status?: "cancelled";
+}
+
+export interface ListRemindersQuery {
+  status?: ReminderStatus;
+  limit?: number;
+}
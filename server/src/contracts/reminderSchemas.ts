@@ -0,0 +1,64 @@
+// server/src/contracts/reminderSchemas.ts
+// Runtime validation for the /reminders API, mirroring the types in reminderApi.ts.
+import { z } from "zod";
+import { IReminder, REMINDER_STATUSES } from "../models/Reminder";
+import { CreateReminderRequest, ListRemindersQuery, ReminderDTO, UpdateReminderRequest } from "./reminderApi";
+import { Same } from "./contractCheck";
+
+const isoDate = z
+  .string()
+  .refine((v) => !isNaN(Date.parse(v)), { message: "must be an ISO 8601 date" });
+
+const reminderFields = {
+  text: z.string().trim().min(1).max(300),
+  dueAt: isoDate,
+  when: z.string().trim().min(1).max(100),
+};
+
+export const createReminderSchema = z
+  .object({
+    text: reminderFields.text,
+    dueAt: reminderFields.dueAt.optional(),
+    when: reminderFields.when.optional(),
+    trackingId: z.string().trim().min(1).max(50).optional(),
+    leadMinutes: z.number().int().min(0).max(24 * 60).optional(),
+  })
+  .strict()
+  .refine((v) => v.dueAt || v.when || v.trackingId, { message: "dueAt, when or trackingId is required" });
+
+export const updateReminderSchema = z
+  .object({ ...reminderFields, status: z.literal("cancelled") })
+  .partial()
+  .strict()
+  .refine((v) => Object.keys(v).length > 0, { message: "at least one field is required" });
+
+export const listRemindersQuerySchema = z
+  .object({
+    status: z.enum(REMINDER_STATUSES).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+  })
+  .strict();
+
+export const reminderIdParamsSchema = z.object({
+  id: z.string().regex(/^[a-f0-9]{24}$/i, "must be a reminder id"),
+});
+
+const contractChecks: [
+  Same<z.infer<typeof createReminderSchema>, CreateReminderRequest>,
+  Same<z.infer<typeof updateReminderSchema>, UpdateReminderRequest>,
+  Same<z.infer<typeof listRemindersQuerySchema>, ListRemindersQuery>,
+] = [true, true, true];
+void contractChecks;
+
+export function toReminderDTO(reminder: IReminder): ReminderDTO {
+  return {
+    id: String(reminder._id),
+    text: reminder.text,
+    dueAt: reminder.dueAt.toISOString(),
+    status: reminder.status,
+    trackingId: reminder.trackingId ?? null,
+    leadMinutes: reminder.leadMinutes ?? null,
+    firedAt: reminder.firedAt ? reminder.firedAt.toISOString() : null,
+    createdAt: reminder.createdAt ? reminder.createdAt.toISOString() : "",
+  };
+}
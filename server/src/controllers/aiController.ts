@@ -1,482 +1,920 @@
 // server/src/controllers/aiController.ts
 import { Request, Response } from "express";
-import Groq from "groq-sdk";
-import Order from "../models/Order";
-
-const GROQ_API_KEY = process.env.GROQ_API_KEY;
-const groq = GROQ_API_KEY ? new Groq({ apiKey: GROQ_API_KEY }) : null;
-const MODEL = "llama-3.1-8b-instant";
-
-// Minimal message type for internal history
-type Msg = {
-  role: "system" | "user" | "assistant" | "function";
-  content: string;
-  // name only used for function messages (optional)
-  name?: string;
-};
-
-// In-memory conversation history per user (demo)
-const conversationHistory = new Map<string, Msg[]>();
-
-function makeTrackingId() {
-  return "ORD-" + Date.now().toString(36) + Math.random().toString(36).slice(2, 8).toUpperCase();
+import Conversation, { IConversation, IConversationMessage } from "../models/Conversation";
+import Order, { IOrder, orderScope } from "../models/Order";
+import { IntentRegistry, IntentResult } from "../intents/registry";
+import { filtersFromText, searchOrders } from "../orders/search";
+import { describeChanges, hasEdits, parseOrderEdits } from "../orders/modify";
+import { EarningsPeriod, getBusinessMetrics, getTotals, periodRange, summarize } from "../ledger/earnings";
+import { LEDGER_TIMEZONE } from "../utils/time";
+import { OrderDraft, cancelOrderDialog, continueOrderDialog, hasOrderDialog, startOrderDialog } from "../dialogs/orderDialog";
+import { cancelAddressDialog, continueAddressDialog, hasAddressDialog, startAddressDialog } from "../dialogs/addressDialog";
+import { continueSosDialog, hasSosDialog, startSosDialog } from "../dialogs/sosDialog";
+import { cancelOnboardingDialog, continueOnboardingDialog, hasOnboardingDialog, startOnboardingDialog } from "../dialogs/onboardingDialog";
+import { cancelLearningDialog, continueLearningDialog, hasLearningDialog, startLearningDialog } from "../dialogs/learningDialog";
+import { findLearningTopic, learningBadges, learningTopics, localized, matchLearningTopic } from "../learning/learning";
+import DriverProfile from "../models/DriverProfile";
+import DriverDocument from "../models/DriverDocument";
+import { KYC_DOCUMENTS } from "../documents/documents";
+import { toOnboardingStatusDTO } from "../contracts/driverSchemas";
+import { activeIncident, cancelIncident, raiseIncident } from "../incidents/incidents";
+import { findPenalty, raiseAppeal } from "../incentives/appeals";
+import { ILedgerEntry } from "../models/LedgerEntry";
+import { locationSchema } from "../contracts/incidentSchemas";
+import { formatAddress, parseAddress } from "../geo/address";
+import { planDriverDay } from "../routing/planner";
+import { ReminderTimeError, createReminder, parseReminderRequest } from "../reminders/reminders";
+import { toReminderDTO } from "../contracts/reminderSchemas";
+import { DispatchError, acceptOrder, driverQueue, pendingOffer, rejectOrder, requestOrder } from "../dispatch/dispatch";
+import { editOrder, orderToolNames, orderTools, OrderToolResult, runOrderTool, summarizeToolResult } from "../tools/orderTools";
+import { AuthDriver } from "../types";
+import { extractOrderFields } from "../nlu/orderFields";
+import { LANGUAGE_NAMES, Language, NATIVE_NAMES, parseLanguageRequest } from "../i18n/languages";
+import { MessageKey, t } from "../i18n/messages";
+import { localizeReply, resolveLanguage, setTranslator } from "../i18n/localize";
+import { getLLM } from "../llm/config";
+import { LLMError, LLMMessage, LLMProvider } from "../llm/provider";
+import Driver from "../models/Driver";
+
+// Conversation messages are stored in MongoDB; the system prompt is added per LLM call
+type Msg = IConversationMessage;
+
+const SYSTEM_PROMPT = "You are Porter Saathi, a concise, empathetic assistant for delivery drivers in India. Always explain things simply. Use the order tools to create, track, cancel, update or list orders; never invent tracking IDs.";
+
+// Conversations expire this many days after the last message (TTL index on expiresAt)
+const CONVERSATION_TTL_DAYS = Number(process.env.CONVERSATION_TTL_DAYS) || 7;
+// Once a conversation holds more than MAX_STORED_MESSAGES, the oldest ones are folded
+// into the summary until KEEP_MESSAGES remain
+const MAX_STORED_MESSAGES = 40;
+const KEEP_MESSAGES = 24;
+
+// Max tool-calling round trips per user message before forcing a text reply
+const MAX_TOOL_ROUNDS = 3;
+
+// Convert stored history to LLM messages. Function results become `tool` messages
+// answering the assistant's tool calls.
+function toLLMMessages(msgs: Msg[]): LLMMessage[] {
+  return msgs.map((m): LLMMessage => {
+    if (m.role === "function") {
+      return m.toolCallId
+        ? { role: "tool", toolCallId: m.toolCallId, content: m.content }
+        : { role: "function", name: m.name || "fn", content: m.content };
+    }
+    if (m.role === "assistant" && m.toolCalls?.length) {
+      return { role: "assistant", content: m.content || null, toolCalls: m.toolCalls.map(({ id, name, arguments: args }) => ({ id, name, arguments: args })) };
+    }
+    return { role: m.role, content: m.content };
+  });
 }
 
-function parseIntent(text: string): { intent: string; trackingId?: string } {
-  const t = text.toLowerCase();
-  if (/create (an )?order|place order|i want to order|new order|add order/.test(t)) return { intent: "create_order" };
-  const track = t.match(/track (?:order )?([A-Za-z0-9\-]+)/i) || t.match(/where is order ([A-Za-z0-9\-]+)/i);
-  if (track) return { intent: "track_order", trackingId: track[1] };
-  if (/next pickup|next delivery|next order|what's my next pickup|what is my next pickup/.test(t)) return { intent: "next_pickup" };
-  if (/list (my )?orders|show (my )?orders|recent orders/.test(t)) return { intent: "list_orders" };
-  if (/cancel order|delete order/.test(t)) return { intent: "cancel_order" };
-  if (/add address|update address/.test(t))
-    return { intent: "update_address" };
-  return { intent: "general" };
+// Drop function results whose assistant tool_calls message was cut off
+function dropOrphanedToolResults(msgs: Msg[]): Msg[] {
+  let i = 0;
+  while (i < msgs.length && msgs[i].role === "function") i++;
+  return msgs.slice(i);
 }
 
-// Use LLM to extract structured order fields from text
-async function extractOrderFieldsWithLLM(text: string) {
-  if (!groq) return { item: text, qty: 1, address: null, customerName: null, pickupTime: null };
-
-  const system = "You are an extractor. Parse the user message and return JSON only with keys: customerName, address, item, qty (integer), pickupTime (ISO or null). If unknown, use null.";
-  const userPrompt = `Extract order details from this user message: """${text}"""`;
-
-  try {
-    // Build messages array and cast to any to avoid TS union issue
-    const messages = [
-      { role: "system", content: system },
-      { role: "user", content: userPrompt },
-    ] as unknown as any[];
-
-    const completion = await groq.chat.completions.create({
-      model: MODEL,
-      messages,
-      temperature: 0,
-    });
-    const content = completion.choices[0]?.message?.content || "{}";
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    const jsonStr = jsonMatch ? jsonMatch[0] : content;
-    const parsed = JSON.parse(jsonStr);
-    return {
-      customerName: parsed.customerName || null,
-      address: parsed.address || null,
-      item: parsed.item || text,
-      qty: parsed.qty ? Number(parsed.qty) : 1,
-      pickupTime: parsed.pickupTime ? new Date(parsed.pickupTime) : null,
-    };
-  } catch (err) {
-    console.error("Extractor LLM error:", err);
-    return { item: text, qty: 1, address: null, customerName: null, pickupTime: null };
-  }
+// System prompt, the reply language, the rolling summary and the last N messages
+function buildLLMMessages(history: Msg[], summary: string, max: number, language: Language): LLMMessage[] {
+  const messages: LLMMessage[] = [
+    { role: "system", content: `${SYSTEM_PROMPT} Reply in ${LANGUAGE_NAMES[language]}.` },
+  ];
+  if (summary) messages.push({ role: "system", content: `Summary of the earlier conversation: ${summary}` });
+  return messages.concat(toLLMMessages(dropOrphanedToolResults(history.slice(-max))));
 }
 
-// Helper for Hindi/vernacular translation (stub)
-async function translateToHindi(text: string): Promise<string> {
-  // In production, use a translation API or LLM prompt for Hindi/vernacular
-  // --- Use Groq LLM for translation if available ---
-  if (groq) {
+// Fold messages that fall out of the window into a short summary
+async function summarizeMessages(previous: string, msgs: Msg[]): Promise<string> {
+  const transcript = msgs
+    .filter((m) => m.content)
+    .map((m) => `${m.role === "function" ? `tool ${m.name}` : m.role}: ${m.content}`)
+    .join("\n");
+  const llm = getLLM();
+  if (llm) {
     try {
-      const system = "You are a professional translator. Translate the following text to simple, spoken Hindi. Only output the Hindi translation, no extra explanation.";
-      const userPrompt = `Translate to Hindi: """${text}"""`;
-      const messages = [
-        { role: "system", content: system },
-        { role: "user", content: userPrompt },
-      ] as any[];
-      const completion = await groq.chat.completions.create({
-        model: MODEL,
-        messages,
-        temperature: 0.2,
+      const completion = await llm.chat({
+        messages: [
+          { role: "system", content: "Summarise this conversation between a delivery driver and their assistant in at most 4 sentences. Keep tracking IDs, names, addresses and times. Output only the summary." },
+          { role: "user", content: `Earlier summary: ${previous || "none"}\n\nNew messages:\n${transcript}` },
+        ],
+        temperature: 0,
       });
-      const translation = completion.choices[0]?.message?.content?.trim();
-      if (translation && translation.length > 0) return translation;
+      const summary = completion.content?.trim();
+      if (summary) return summary;
     } catch (err) {
-      console.error("Hindi translation LLM error:", err);
+      console.error("Summary LLM error:", err);
     }
   }
-  // fallback: return original text
-  return text;
+  // fallback: keep the tail of the raw transcript
+  return `${previous}\n${transcript}`.trim().slice(-1500);
 }
 
-// Helper: Fetch business metrics from real orders in DB
-async function getBusinessMetrics(userId: string) {
-  // Fetch today's orders for this user
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const tomorrow = new Date(today);
-  tomorrow.setDate(today.getDate() + 1);
-
-  // Earnings: sum of all 'delivered' orders' (qty * item price if available, else count as 1)
-  // For demo, assume each order is worth 200, expenses 50 per order
-  const Order = (await import('../models/Order')).default;
-  const todayOrders = await Order.find({
-    metadata: { $exists: true, $ne: null },
-    createdAt: { $gte: today, $lt: tomorrow },
-    // Optionally: createdBy: userId
-  });
-  const todayEarnings = todayOrders.length * 200;
-  const todayExpenses = todayOrders.length * 50;
-
-  // Last week/this week
-  const now = new Date();
-  const startOfThisWeek = new Date(now);
-  startOfThisWeek.setDate(now.getDate() - now.getDay());
-  startOfThisWeek.setHours(0, 0, 0, 0);
-  const startOfLastWeek = new Date(startOfThisWeek);
-  startOfLastWeek.setDate(startOfThisWeek.getDate() - 7);
-  const endOfLastWeek = new Date(startOfThisWeek);
-
-  const thisWeekOrders = await Order.find({
-    createdAt: { $gte: startOfThisWeek, $lt: now },
-    // Optionally: createdBy: userId
-  });
-  const lastWeekOrders = await Order.find({
-    createdAt: { $gte: startOfLastWeek, $lt: endOfLastWeek },
-    // Optionally: createdBy: userId
-  });
-  const thisWeekEarnings = thisWeekOrders.length * 200;
-  const lastWeekEarnings = lastWeekOrders.length * 200;
-
-  // Penalties/rewards: for demo, use status or metadata
-  const penalties = todayOrders.filter((o: any) => o.status === 'late').map((o: any) => ({ reason: 'Late delivery', amount: 50, date: o.createdAt }));
-  const rewards = todayOrders.filter((o: any) => o.status === 'delivered').map((o: any) => ({ reason: 'On-time delivery', amount: 100, date: o.createdAt }));
-
-  return {
-    todayEarnings,
-    todayExpenses,
-    lastWeekEarnings,
-    thisWeekEarnings,
-    penalties,
-    rewards,
-  };
+async function loadConversation(userId: string) {
+  const existing = await Conversation.findOne({ userId });
+  return existing || new Conversation({ userId, messages: [], summary: "", expiresAt: new Date() });
 }
 
-// Learning modules and guides (mock)
-const learningModules = [
-  { id: 'insurance', title: 'Vehicle Insurance Basics', summary: 'Learn about vehicle insurance in simple terms.', audioUrl: '', steps: ['Insurance protects you from big expenses.', 'You must renew it every year.', 'Keep your policy document safe.'] },
-  { id: 'customer-service', title: 'Customer Service Tips', summary: 'How to keep customers happy.', audioUrl: '', steps: ['Greet customers politely.', 'Be on time.', 'Handle goods carefully.'] },
-];
-const guides = [
-  { id: 'challan', title: 'How to Contest a Challan', steps: ['Go to the official traffic website.', 'Enter your challan number.', 'Upload required documents.', 'Submit your appeal.'] },
-  { id: 'digilocker', title: 'How to Upload to DigiLocker', steps: ['Open DigiLocker app.', 'Login with your mobile number.', 'Go to Upload Documents.', 'Select and upload your file.'] },
-];
-
-// Add: Helper for concise, context-aware, and empathetic replies
-function makeEmpatheticReply(intent: string, context: any = {}) {
-  switch (intent) {
-    case "road_ahead":
-      return "Aage sadak thodi kharab hai, kripya dhyaan se chalayein. Agar aapko koi dikkat ho, Sahayata button dabayein.";
-    case "earnings":
-      return `Aaj aapne ₹${context.todayEarnings || 0} kamaya aur ₹${context.todayExpenses || 0} kharch kiya. Net earning: ₹${(context.todayEarnings || 0) - (context.todayExpenses || 0)}.`;
-    case "penalty":
-      return context.penalties && context.penalties.length ? `Aap par penalty lagi hai: ${context.penalties.map((p: any) => `${p.reason} (₹${p.amount})`).join(', ')}.` : 'Aap par koi penalty nahi lagi.';
-    case "business_growth":
-      return context.thisWeekEarnings > context.lastWeekEarnings ? 'Haan, iss hafte aapka business pichle hafte se behtar hai.' : 'Nahi, iss hafte kamai kam hai.';
-    case "onboarding":
-      return 'Onboarding mein madad chahiye? Har field ko dhyan se suno. Galti ho toh main aapko bataunga.';
-    case "emergency":
-      return 'Aapne Sahayata button dabaya hai. Kripya shaant rahiye, madad ke liye call kiya ja raha hai.';
-    case "guide_challan":
-      return 'Challan contest karne ke liye: 1. Traffic website par jao. 2. Challan number daalo. 3. Document upload karo. 4. Appeal submit karo.';
-    case "guide_digilocker":
-      return 'DigiLocker mein document upload karne ke liye: 1. App kholo. 2. Login karo. 3. Upload Documents par jao. 4. File select karke upload karo.';
-    case "insurance":
-      return 'Vehicle insurance aapko bade kharche se bachata hai. Har saal renew karna zaroori hai.';
-    case "customer_service":
-      return 'Customer se hamesha vinamrata se baat karein, samay par delivery karein, aur samaan dhyaan se sambhalein.';
-    default:
-      return 'Maaf kijiye, main aapki madad ke liye yahan hoon. Kripya apna sawaal dobara poochhein.';
+// Apply the sliding window, refresh the TTL and persist
+async function saveConversation(conversation: IConversation) {
+  if (conversation.messages.length > MAX_STORED_MESSAGES) {
+    const cut = conversation.messages.length - KEEP_MESSAGES;
+    const kept = dropOrphanedToolResults(conversation.messages.slice(cut));
+    const folded = conversation.messages.slice(0, conversation.messages.length - kept.length);
+    conversation.summary = await summarizeMessages(conversation.summary, folded);
+    conversation.messages = kept;
   }
+  conversation.expiresAt = new Date(Date.now() + CONVERSATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+  await conversation.save();
 }
 
-export const aiReply = async (req: Request, res: Response) => {
-  const { text, userId = "demo-user" } = req.body || {};
-
-  try {
-    if (!conversationHistory.has(userId)) {
-      conversationHistory.set(userId, [
-        { role: "system", content: "You are Porter Saathi, a concise, empathetic, Hindi-speaking assistant for deliveries. Always explain things simply and offer to speak in Hindi if needed." },
-      ]);
-    }
-    const history = conversationHistory.get(userId)!;
-    history.push({ role: "user", content: text });
-
-    const parsed = parseIntent(text);
-
-    // CREATE ORDER
-    if (parsed.intent === "create_order") {
-      const extracted = await extractOrderFieldsWithLLM(text);
-      const trackingId = makeTrackingId();
-      const order = new Order({
-        customerName: extracted.customerName || undefined,
-        address: extracted.address || undefined,
-        item: extracted.item,
-        qty: extracted.qty || 1,
-        status: "created",
-        pickupTime: extracted.pickupTime || null,
-        trackingId,
-        metadata: { createdBy: userId, createdVia: "voice" },
-      });
-      await order.save();
-      const reply = `Order created. Tracking ID ${order.trackingId}.`;
+// Let the model pick and fill order tools. Tool calls and their results are appended to
+// history so follow-ups ("cancel that one") can refer back to them. create_order does not
+// save directly: it starts the slot-filling dialog so the driver confirms first.
+async function chatWithOrderTools(llm: LLMProvider, history: Msg[], summary: string, driver: AuthDriver, language: Language): Promise<IntentResult> {
+  let lastResult: OrderToolResult | null = null;
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const message = await llm.chat({
+      messages: buildLLMMessages(history, summary, 12, language),
+      tools: orderTools,
+      toolChoice: round < MAX_TOOL_ROUNDS ? "auto" : "none",
+      temperature: 0.2,
+    });
+    const toolCalls = message.toolCalls;
+    if (!toolCalls.length) {
+      const reply = message.content || t("not_understood", language);
       history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "created_order", order });
+      if (!lastResult) return { reply, action: "llm_reply", language };
+      return { reply, action: lastResult.action, order: lastResult.order, orders: lastResult.orders, language };
     }
 
-    // TRACK ORDER
-    if (parsed.intent === "track_order" && parsed.trackingId) {
-      const order = await Order.findOne({ trackingId: parsed.trackingId });
-      if (!order) {
-        const reply = `I couldn't find order ${parsed.trackingId}.`;
-        history.push({ role: "assistant", content: reply });
-        return res.json({ reply, action: "order_not_found", trackingId: parsed.trackingId });
+    history.push({
+      role: "assistant",
+      content: message.content || "",
+      toolCalls,
+    });
+    let dialogPrompt: IntentResult | null = null;
+    for (const call of toolCalls) {
+      let args: Record<string, any> = {};
+      try {
+        args = JSON.parse(call.arguments || "{}");
+      } catch (err) {
+        console.error("Tool arguments parse error:", err);
       }
-      const reply = `Here are the details for ${order.trackingId}: 
-        - Customer: ${order.customerName || "N/A"} 
-        - Items: ${order.item || "N/A"} 
-        - Address: ${order.address || "N/A"} 
-        - Status: ${order.status}`;
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "track_order", order });
-    }
-
-    // NEXT PICKUP
-    if (parsed.intent === "next_pickup") {
-      const next = await Order.findOne({ status: { $in: ["created", "assigned", "pending"] } }).sort({ pickupTime: 1, createdAt: 1 });
-      if (!next) {
-        const reply = "You have no upcoming pickups.";
-        history.push({ role: "assistant", content: reply });
-        return res.json({ reply, action: "no_pickups" });
+      if (call.name === "create_order") {
+        dialogPrompt = startOrderDialog(driver, {
+          item: args.item || null,
+          qty: Number(args.qty) || 1,
+          customerName: args.customerName || null,
+          address: args.address ? parseAddress(String(args.address)) : null,
+          pickupTime: args.pickupTime ? new Date(args.pickupTime) : null,
+        });
+        history.push({ role: "function", name: call.name, toolCallId: call.id, content: JSON.stringify({ ok: true, status: "awaiting_driver_confirmation" }) });
+        continue;
       }
-      const reply = `Next pickup: ${next.item} (${next.qty}) — ${next.address || "address not set"}. Tracking ID ${next.trackingId}.`;
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "next_pickup", order: next });
+      lastResult = await runOrderTool(call.name, args, driver);
+      history.push({ role: "function", name: call.name, toolCallId: call.id, content: summarizeToolResult(lastResult) });
     }
-
-    // LIST ORDERS
-    if (parsed.intent === "list_orders") {
-      const orders = await Order.find({}).sort({ createdAt: -1 }).limit(10);
-      const reply = orders.length ? `Showing your ${orders.length} most recent orders.` : "No orders found.";
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "list_orders", orders });
+    if (dialogPrompt) {
+      history.push({ role: "assistant", content: dialogPrompt.reply });
+      return dialogPrompt;
     }
+  }
+  // unreachable: the last round runs with tool_choice "none"
+  return { reply: t("not_understood", language), action: "llm_reply", language };
+}
 
-    // CANCEL ORDER
-    if (parsed.intent === "cancel_order") {
-      const m = text.match(/cancel order ([A-Za-z0-9\-]+)/i);
-      if (m && m[1]) {
-        const order = await Order.findOneAndUpdate({ trackingId: m[1] }, { status: "cancelled" }, { new: true });
-        const reply = order ? `Order ${order.trackingId} cancelled.` : `Couldn't find order ${m[1]}.`;
-        history.push({ role: "assistant", content: reply });
-        return res.json({ reply, action: "cancel_order", order: order || null });
-      } else {
-        const reply = "Please provide the order ID to cancel (e.g., 'Cancel order ORD-abc123').";
-        history.push({ role: "assistant", content: reply });
-        return res.json({ reply, action: "ask_for_order_id" });
-      }
+// Most recent tracking ID in the conversation, for follow-ups like "change that one"
+function lastMentionedTrackingId(history: Msg[]): string | null {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const ids = history[i].content.match(/ORD-[A-Za-z0-9]+/gi);
+    if (ids) return ids[ids.length - 1].toUpperCase();
+  }
+  return null;
+}
+
+// The order a driver means by "accept/reject this order": a spoken tracking ID,
+// else their latest pending offer, else the last order mentioned
+async function offeredOrder(text: string, driver: AuthDriver, history: Msg[]) {
+  const spoken = text.match(/ORD-[A-Za-z0-9]+/i)?.[0].toUpperCase();
+  if (spoken) return Order.findOne({ trackingId: spoken, ...orderScope(driver) });
+  const offer = await pendingOffer(driver.id);
+  if (offer) return offer;
+  const mentioned = lastMentionedTrackingId(history);
+  return mentioned ? Order.findOne({ trackingId: mentioned, ...orderScope(driver) }) : null;
+}
+
+// Best-matching registered intent for a piece of text (see the registry below)
+export function parseIntent(text: string): { intent: string; trackingId?: string } {
+  const match = intents.resolve(text);
+  if (!match) return { intent: "general" };
+  return { intent: match.handler.name, trackingId: match.slots.trackingId };
+}
+
+// Use LLM to extract structured order fields from text; without one (or when it fails) the
+// offline rules in nlu/orderFields do it. Unknown fields come back as null so the order dialog
+// can ask for them
+async function extractOrderFieldsWithLLM(text: string): Promise<OrderDraft> {
+  const llm = getLLM();
+  if (!llm) return extractOrderFields(text);
+
+  const system = `You are an extractor. Parse the user message and return JSON only with keys: customerName, address, item, qty (integer), pickupTime (ISO or null). If unknown, use null. Current time: ${new Date().toISOString()}.`;
+  const userPrompt = `Extract order details from this user message: """${text}"""`;
+
+  try {
+    const parsed = await llm.extractJSON(system, userPrompt);
+    return {
+      customerName: parsed.customerName ? String(parsed.customerName) : null,
+      address: parsed.address ? parseAddress(String(parsed.address)) : null,
+      item: parsed.item ? String(parsed.item) : null,
+      qty: Number(parsed.qty) || 1,
+      pickupTime: parsed.pickupTime ? new Date(String(parsed.pickupTime)) : extractOrderFields(text).pickupTime,
+    };
+  } catch (err) {
+    console.error("Extractor LLM error:", err);
+    return extractOrderFields(text);
+  }
+}
+
+// Replies that are not in the message catalog are translated by the LLM, see i18n/localize
+setTranslator({
+  translate: async (text, to) => {
+    const llm = getLLM();
+    return llm ? llm.translate(text, to) : null;
+  },
+});
+
+// Concise, empathetic fixed replies from the message catalog, already in the driver's language
+function makeEmpatheticReply(intent: string, language: Language, context: any = {}): { reply: string; language: Language } {
+  const say = (key: MessageKey, params?: Record<string, string | number>) => ({ reply: t(key, language, params), language });
+  switch (intent) {
+    case "road_ahead":
+    case "emergency":
+      return say(intent);
+    case "earnings": {
+      const earned = context.todayEarnings || 0;
+      const spent = context.todayExpenses || 0;
+      return say("earnings_today", { earned, spent, net: earned - spent });
     }
+    case "penalty":
+      return context.penalties && context.penalties.length
+        ? say("penalties", { list: context.penalties.map((p: any) => `${p.reason} (₹${p.amount})`).join(", ") })
+        : say("no_penalties");
+    case "business_growth":
+      return say(context.thisWeekEarnings > context.lastWeekEarnings ? "growth_up" : "growth_down");
+    default:
+      return say("ask_again");
+  }
+}
 
-    // UPDATE ADDRESS
-    if (parsed.intent === "update_address") {
-      const m = text.match(/ORD-[A-Za-z0-9]+/i);
-      if (!m) {
-        const reply = "Please provide the order ID to update the address (e.g., 'Update address of order ORD-abc123 Pune').";
-        history.push({ role: "assistant", content: reply });
-        return res.json({ reply, action: "ask_for_order_id" });
+// Clock time as spoken in replies, on the LEDGER_TIMEZONE clock
+const clockTime = (d: Date) => d.toLocaleTimeString("en-IN", { hour: "numeric", minute: "2-digit", timeZone: LEDGER_TIMEZONE });
+
+// "2 boxes (2) — Flat 12, Kothrud, Pune, 411038", for offers and the next pickup
+const orderLine = (order: IOrder, language: Language) =>
+  `${order.item} (${order.qty}) — ${formatAddress(order.address) || t("address_not_set", language)}`;
+
+const orderNotFound = (trackingId: string, language: Language) => ({
+  reply: t("order_not_found", language, { trackingId }),
+  action: "order_not_found",
+  trackingId,
+  language,
+});
+
+// "Insurance quiz do": asks for a topic's quiz again rather than its steps
+const QUIZ_REQUEST = /\b(?:quiz|test|pariksha|imtihan)\b|क्विज़|परीक्षा/i;
+
+// Intent registry: order operations first, then the concise empathetic replies, then the
+// broader finance / learning / safety catch-alls. Anything unmatched goes to the LLM.
+const intents = new IntentRegistry();
+
+// --- Order intents ---
+intents
+  .register({
+    name: "create_order",
+    priority: 100,
+    matchers: [
+      /create (an )?order|place order|i want to order|new order|add order/i,
+      /\b(?:naya|nayi|ek)\s+order\b.*\b(?:banao|bana do|banana hai|lagao|book karo)\b|\border\s+(?:banao|bana do|book karo|create karo)\b/i,
+    ],
+    examples: ["Create order 2 boxes to Pune", "I want to order a fridge", "Naya order banao, 3 bori chawal Kothrud Pune 411038 pe kal 10 baje"],
+    handle: async ({ text, driver }) => {
+      // Missing fields are collected over the next turns; nothing is saved until confirmed
+      return startOrderDialog(driver, await extractOrderFieldsWithLLM(text));
+    },
+  })
+  .register({
+    name: "request_order",
+    priority: 102,
+    matchers: [/\b(?:mujhe|muje)\b.*\border\b.*\b(?:do|dijiye|chahiye)\b|naya order do|give me (?:a |an )?(?:new )?order|any new orders? for me/i],
+    examples: ["Mujhe naya order do", "Give me a new order", "Mujhe ek order chahiye"],
+    handle: async ({ driver, language }) => {
+      try {
+        const order = await requestOrder(driver);
+        if (!order) return { reply: t("no_orders_waiting", language), action: "no_orders_waiting", language };
+        const pickup = order.pickupTime ? ` ${t("pickup_at", language, { time: clockTime(order.pickupTime) })}` : "";
+        const reply = t("order_handed", language, { order: orderLine(order, language), pickup, trackingId: order.trackingId });
+        return { reply, action: "request_order", order, language };
+      } catch (err) {
+        if (err instanceof DispatchError) return { reply: err.message, action: "request_order_failed" };
+        throw err;
       }
+    },
+  })
+  .register({
+    name: "accept_order",
+    priority: 97,
+    matchers: [/\baccept\b|\b(?:order )?(?:le lunga|le leta hoon|manzoor)\b/i],
+    examples: ["Accept this order", "Haan ye order le lunga"],
+    handle: async ({ text, driver, history, language }) => {
+      const order = await offeredOrder(text, driver, history);
+      if (!order) return { reply: t("no_offer", language), action: "no_offer", language };
+      try {
+        await acceptOrder(order, driver);
+        const address = formatAddress(order.address) || t("address_not_set", language);
+        return { reply: t("order_accepted", language, { trackingId: order.trackingId, address }), action: "accept_order", order, language };
+      } catch (err) {
+        if (err instanceof DispatchError) return { reply: err.message, action: "accept_failed", order };
+        throw err;
+      }
+    },
+  })
+  .register({
+    name: "reject_order",
+    priority: 96,
+    matchers: [/\b(?:reject|decline)\b|order (?:nahi chahiye|nahi lunga|mana)/i],
+    examples: ["Reject this order", "Ye order nahi chahiye"],
+    handle: async ({ text, driver, history, language }) => {
+      const order = await offeredOrder(text, driver, history);
+      if (!order) return { reply: t("no_offer", language), action: "no_offer", language };
+      try {
+        await rejectOrder(order, driver);
+        return { reply: t("order_rejected", language, { trackingId: order.trackingId }), action: "reject_order", order, language };
+      } catch (err) {
+        if (err instanceof DispatchError) return { reply: err.message, action: "reject_failed", order };
+        throw err;
+      }
+    },
+  })
+  .register({
+    name: "set_reminder",
+    priority: 98,
+    matchers: [/\bremind(?:er)?\b|yaad dila/i],
+    examples: ["Remind me at 5pm to call Ramesh", "Kal subah 9 baje yaad dilana ki gaadi service karani hai", "Remind me 10 minutes before pickup of ORD-ABC123"],
+    handle: async ({ text, driver, language }) => {
+      const parsed = parseReminderRequest(text);
+      const order = parsed.trackingId ? await Order.findOne({ trackingId: parsed.trackingId, ...orderScope(driver) }) : null;
+      if (parsed.trackingId && !order) return orderNotFound(parsed.trackingId, language);
+      try {
+        const reminder = await createReminder({
+          driverId: driver.id,
+          text: parsed.text,
+          dueAt: parsed.dueAt,
+          order,
+          leadMinutes: parsed.leadMinutes,
+          createdVia: "voice",
+        });
+        const at = reminder.dueAt.toLocaleString("en-IN", { weekday: "short", hour: "numeric", minute: "2-digit", timeZone: LEDGER_TIMEZONE });
+        return { reply: t("reminder_set", language, { at, text: reminder.text }), action: "set_reminder", reminder: toReminderDTO(reminder), language };
+      } catch (err) {
+        if (err instanceof ReminderTimeError) return { reply: err.message, action: "ask_for_time" };
+        throw err;
+      }
+    },
+  })
+  .register({
+    name: "track_order",
+    priority: 95,
+    matchers: [
+      /track (?:order )?(?<trackingId>[A-Za-z0-9\-]+)/i,
+      /where is order (?<trackingId>[A-Za-z0-9\-]+)/i,
+      /(?:order\s+)?(?<trackingId>ORD-[A-Za-z0-9]+)\s+(?:kahan|kaha|kidhar|ka status|ki status|ka kya hua)\b/i,
+    ],
+    requiredSlots: ["trackingId"],
+    examples: ["Track order ORD-ABC123", "Where is order ORD-ABC123", "ORD-ABC123 kahan hai?"],
+    handle: async ({ slots, driver, language }) => {
+      const trackingId = slots.trackingId!;
+      const order = await Order.findOne({ trackingId, ...orderScope(driver) });
+      if (!order) return orderNotFound(trackingId, language);
+      const reply = t("order_details", language, {
+        trackingId: order.trackingId,
+        customer: order.customerName || "—",
+        item: order.item || "—",
+        address: formatAddress(order.address) || order.address?.raw || "—",
+        status: t(`order_status_${order.status}`, language),
+      });
+      return { reply, action: "track_order", order, language };
+    },
+  })
+  .register({
+    name: "next_pickup",
+    priority: 90,
+    matchers: [/next pickup|next delivery|next order|what's my next pickup|what is my next pickup/i],
+    examples: ["What is my next pickup?"],
+    handle: async ({ driver, language }) => {
+      const [next] = await driverQueue(driver.id, 1);
+      if (!next) return { reply: t("no_upcoming_pickups", language), action: "no_pickups", language };
+      const reply = t("next_pickup", language, { order: orderLine(next, language), trackingId: next.trackingId });
+      return { reply, action: "next_pickup", order: next, language };
+    },
+  })
+  .register({
+    name: "plan_route",
+    priority: 88,
+    matchers: [/\b(?:aaj|today)\b.*\b(?:route|rasta|raasta)\b|\b(?:route|rasta|raasta)\b.*\b(?:batao|plan|bolo)\b|today'?s pickups/i],
+    examples: ["Aaj ka route batao", "What is today's route?", "Route plan karo"],
+    handle: async ({ driver, language }) => {
+      const plan = await planDriverDay(driver.id);
+      const count = plan.stops.length + plan.unlocated.length;
+      if (!count) return { reply: t("no_pickups_today", language), action: "no_pickups", language };
+      const lines = plan.stops.map(
+        (s) =>
+          `${s.sequence}. ${s.order.trackingId}, ${formatAddress(s.order.address) || s.order.item} — ${clockTime(s.eta)}` +
+          (s.lateMinutes ? ` ${t("route_late", language, { minutes: s.lateMinutes })}` : "")
+      );
+      for (const o of plan.unlocated) {
+        const address = formatAddress(o.address) || o.address?.raw || t("address_not_set", language);
+        lines.push(t("route_unlocated", language, { order: `${o.trackingId}, ${address}` }));
+      }
+      const reply = t("route_plan", language, { count, km: Math.round(plan.totalKm), stops: lines.join("\n") });
+      return { reply, action: "plan_route", route: plan.stops.map((s) => s.order.trackingId), language };
+    },
+  })
+  .register({
+    name: "list_orders",
+    priority: 85,
+    matchers: [/list (my )?\w* ?orders|show (my )?\w* ?orders|recent orders|mere \w* ?orders|orders dikhao/i],
+    examples: ["Show my orders", "list orders", "Aaj ke delivered orders dikhao"],
+    handle: async ({ text, driver, language }) => {
+      const filters = filtersFromText(text);
+      const { items: orders, nextCursor } = await searchOrders(driver, filters, { limit: 10 });
+      const reply = orders.length
+        ? t(nextCursor ? "orders_listed_recent" : "orders_listed", language, { count: orders.length })
+        : t("no_orders_found", language);
+      return { reply, action: "list_orders", orders, filters, nextCursor, language };
+    },
+  })
+  .register({
+    name: "cancel_order",
+    priority: 80,
+    matchers: [
+      /cancel order (?<trackingId>[A-Za-z0-9\-]+)/i,
+      /(?:order\s+)?(?<trackingId>ORD-[A-Za-z0-9]+)\s+(?:ko\s+)?(?:cancel|radd)\s+(?:kar do|karo|kardo|kar dijiye)\b/i,
+      /cancel order|delete order|order (?:cancel|radd) (?:kar do|karo|kardo)/i,
+    ],
+    examples: ["Cancel order ORD-ABC123", "delete order", "ORD-ABC123 cancel kar do"],
+    handle: async ({ slots, driver, language }) => {
+      if (!slots.trackingId) return { reply: t("ask_cancel_order_id", language), action: "ask_for_order_id", language };
+      const result = await runOrderTool("cancel_order", { trackingId: slots.trackingId }, driver);
+      if (result.action === "order_not_found") return { ...orderNotFound(slots.trackingId, language), order: null };
+      if (!result.ok) return { reply: result.error!, action: result.action, order: result.order || null };
+      return { reply: t("order_cancel_done", language, { trackingId: result.order!.trackingId }), action: "cancel_order", order: result.order, language };
+    },
+  })
+  .register({
+    name: "update_status",
+    priority: 78,
+    matchers: [
+      /(?:mark|set)\s+(?:order\s+)?(?<trackingId>ORD-[A-Za-z0-9]+)\s+(?:as\s+)?(?<status>[a-z _-]+)$/i,
+      /(?:order\s+)?(?<trackingId>ORD-[A-Za-z0-9]+)\s+(?:is\s+|ho gaya\s+|hua\s+)?(?<status>picked up|in transit|delivered|assigned|shipped)/i,
+    ],
+    requiredSlots: ["trackingId", "status"],
+    examples: ["Mark order ORD-ABC123 as delivered", "ORD-ABC123 picked up"],
+    handle: async ({ slots, driver, language }) => {
+      const result = await runOrderTool("update_order_status", { trackingId: slots.trackingId, status: slots.status }, driver);
+      if (!result.ok) return { reply: result.error!, action: result.action, order: result.order || null };
+      const { trackingId, status } = result.order!;
+      return { reply: t("order_status_now", language, { trackingId, status: t(`order_status_${status}`, language) }), action: "update_status", order: result.order, language };
+    },
+  })
+  .register({
+    name: "update_order",
+    priority: 74,
+    matchers: [
+      /\b(update|change|modify|edit|badlo|badal(?:na)?)\b.*\b(order|qty|quantity|pickup)\b|\b(order|qty|quantity|pickup)\b.*\b(update|change|modify|edit|badlo|badal(?:na)?)\b/i,
+      /ORD-[A-Za-z0-9]+.*\b(qty|quantity|pickup|assign|item|status|aur|kam)\b/i,
+    ],
+    examples: ["Change order ORD-ABC123 quantity to 5", "ORD-ABC123 ka pickup shaam 6 baje badlo"],
+    handle: async ({ text, driver, history, language }) => {
+      const edits = parseOrderEdits(text);
+      const trackingId = text.match(/ORD-[A-Za-z0-9]+/i)?.[0].toUpperCase() || lastMentionedTrackingId(history);
+      if (!hasEdits(edits)) {
+        if (!trackingId) return { ...makeEmpatheticReply("unknown", language), action: "fallback" };
+        return { reply: t("ask_order_changes", language, { trackingId }), action: "ask_for_changes", trackingId, language };
+      }
+      if (!trackingId) return { reply: t("ask_edit_order_id", language), action: "ask_for_order_id", edits, language };
+      const result = await editOrder(trackingId, edits, driver);
+      if (result.action === "order_not_found") return orderNotFound(trackingId, language);
+      if (!result.ok) return { reply: result.error!, action: result.action, order: result.order || null };
+      const changes = result.changes || [];
+      const reply = changes.length
+        ? t("order_updated", language, { trackingId, changes: describeChanges(changes) })
+        : t("order_unchanged", language, { trackingId });
+      return { reply, action: "update_order", order: result.order, changes, language };
+    },
+  })
+  .register({
+    name: "update_address",
+    priority: 75,
+    matchers: [/add address|update address/i],
+    examples: ["Update address of order ORD-ABC123 to Pune"],
+    handle: async ({ text, driver, language }) => {
+      const m = text.match(/ORD-[A-Za-z0-9]+/i);
+      if (!m) return { reply: t("ask_address_order_id", language), action: "ask_for_order_id", language };
 
       const trackingId = m[0].toUpperCase(); // normalize
 
       // Extract new address
-      let addressMatch = text.split(trackingId)[1]?.trim();
-      if (addressMatch?.toLowerCase().startsWith("to ")) {
+      let addressMatch = text.slice(m.index! + m[0].length).trim();
+      if (addressMatch.toLowerCase().startsWith("to ")) {
         addressMatch = addressMatch.slice(3).trim();
       }
-      if (addressMatch?.toLowerCase().startsWith("is ")) {
+      if (addressMatch.toLowerCase().startsWith("is ")) {
         addressMatch = addressMatch.slice(3).trim();
       }
-      if (addressMatch?.startsWith(":")) {
+      if (addressMatch.startsWith(":")) {
         addressMatch = addressMatch.slice(1).trim();
       }
 
-      if (!addressMatch) {
-        const reply = `Please provide the new address after the order ID (e.g., 'Update address of order ${trackingId} Pune, Maharashtra').`;
-        history.push({ role: "assistant", content: reply });
-        return res.json({ reply, action: "ask_for_address", trackingId });
-      }
-
-      // Update DB
-      const order = await Order.findOneAndUpdate(
-        { trackingId },
-        { $set: { address: addressMatch } },
-        { new: true }
-      );
+      if (!addressMatch) return { reply: t("ask_new_address", language, { trackingId }), action: "ask_for_address", trackingId, language };
 
-      if (!order) {
-        const reply = `Sorry, I couldn't find order ${trackingId}.`;
-        history.push({ role: "assistant", content: reply });
-        return res.json({ reply, action: "order_not_found", trackingId });
-      }
+      const order = await Order.findOne({ trackingId, ...orderScope(driver) });
+      if (!order) return orderNotFound(trackingId, language);
+      // saved once it checks out against the PIN code; missing parts are asked for first
+      return startAddressDialog(driver, order, addressMatch);
+    },
+  });
 
-      const reply = ` The address for order ${trackingId} has been updated to: ${order.address}`;
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "update_address", order });
+// --- Preferences ---
+intents.register({
+  name: "set_language",
+  priority: 110,
+  matchers: [
+    /\b(?:hinglish|hindi|english|marathi|tamil|kannada|bengali|bangla)\b\s*(?:mein|me|madhe|la|il|alli|te)?\s*(?:bolo|boliye|baat karo|jawab do|bola|pesu|maatadi|bolun)\b/i,
+    /\b(?:speak|talk|reply|answer)\s+(?:to me\s+)?in\s+(?:hinglish|hindi|english|marathi|tamil|kannada|bengali|bangla)\b/i,
+    /\b(?:language|bhasha)\b.*\b(?:hinglish|hindi|english|marathi|tamil|kannada|bengali|bangla|auto)\b/i,
+  ],
+  examples: ["Tamil mein baat karo", "Speak in English", "Language auto kar do"],
+  handle: async ({ text, userId, language }) => {
+    const requested = parseLanguageRequest(text);
+    const driver = await Driver.findById(userId);
+    if (!requested || !driver) return { ...makeEmpatheticReply("unknown", language), action: "fallback" };
+    if (requested === "auto") {
+      driver.languageAuto = true;
+      await driver.save();
+      return { reply: t("language_auto", language), action: "set_language", language };
     }
+    driver.language = requested;
+    driver.languageAuto = false;
+    await driver.save();
+    return { reply: t("language_set", requested, { name: NATIVE_NAMES[requested] }), action: "set_language", language: requested };
+  },
+});
+
+// Where a penalty's appeal stands, or why it was applied if nobody has contested it
+function describePenalty(entry: ILedgerEntry, language: Language): string {
+  const params = { amount: entry.amount, reason: entry.reason || "penalty" };
+  switch (entry.appeal?.status) {
+    case "pending":
+      return t("penalty_appeal_pending", language, params);
+    case "accepted":
+      return t("penalty_appeal_accepted", language, params);
+    case "rejected":
+      return t("penalty_appeal_rejected", language, { ...params, note: entry.appeal.note || "" }).trim();
+    default:
+      return t("penalty_why", language, { ...params, date: entry.occurredAt.toLocaleDateString("en-IN", { day: "numeric", month: "short", timeZone: LEDGER_TIMEZONE }) });
+  }
+}
 
-    // --- Intents with concise, empathetic replies ---
-    if (/road|sadak|route|weather|unsafe|alert/i.test(text)) {
-      const reply = makeEmpatheticReply("road_ahead");
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "road_ahead" });
-    }
-    if (/earn(ings)?|kamaya|kitna kamaya|kharcha|expenses|profit/i.test(text)) {
-      const metrics = await getBusinessMetrics(userId);
-      const reply = makeEmpatheticReply("earnings", metrics);
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "business_metrics" });
-    }
-    if (/penalt(y|ies)/i.test(text)) {
+// SOS words only: a plain "help" is a support question for the general or LLM path. Said in
+// any sentence they end the dialog that is running, and the emergency intent takes the turn.
+const SOS_WORDS = /\b(?:emergency|sos|sahayata|bachao|danger)\b/i;
+
+const spokenTrackingId = (text: string) => text.match(/ORD-[A-Za-z0-9]+/i)?.[0].toUpperCase() || null;
+
+// --- Concise, empathetic replies ---
+intents
+  .register({
+    name: "road_ahead",
+    priority: 60,
+    matchers: [/road|sadak|route|weather|unsafe|alert/i],
+    examples: ["Aage sadak kharab hai?"],
+    handle: async ({ language }) => ({ ...makeEmpatheticReply("road_ahead", language), action: "road_ahead" }),
+  })
+  .register({
+    name: "contest_penalty",
+    priority: 59,
+    matchers: [
+      /(?:penalt\w*|jurmana|पेनल्टी|जुर्माना).*(?:contest|appeal|challenge|galat|wrong|hatao|hatwa|shikayat)|(?:contest|appeal|challenge)\w*.*(?:penalt\w*|jurmana|पेनल्टी|जुर्माना)/i,
+    ],
+    examples: ["Ye penalty galat hai, contest karna hai", "Penalty contest karo", "I want to appeal the penalty on ORD-ABC123"],
+    // the driver's own words are kept as the appeal's reason for the reviewer
+    handle: async ({ text, driver, language }) => {
+      const entry = await findPenalty(driver.id, spokenTrackingId(text));
+      if (!entry) return { reply: t("no_penalties", language), action: "penalty_appeal", language };
+      if (entry.appeal) return { reply: describePenalty(entry, language), action: "penalty_appeal", language, appealStatus: entry.appeal.status };
+      await raiseAppeal(entry, driver, text);
+      return {
+        reply: t("penalty_appeal_raised", language, { amount: entry.amount, reason: entry.reason || "penalty" }),
+        action: "penalty_appeal",
+        language,
+        appealStatus: "pending",
+        recordId: String(entry._id),
+      };
+    },
+  })
+  .register({
+    name: "penalty_reason",
+    priority: 59,
+    matchers: [
+      /(?:penalt\w*|jurmana|पेनल्टी|जुर्माना).*(?:kyun|kyon|kyu|why|kis\s*liye|kis baat|wajah|reason|kaaran)|\b(?:kyun|kyon|kyu|why)\b.*(?:penalt\w*|jurmana)/i,
+    ],
+    examples: ["Penalty kyun laga?", "Why did I get a penalty?", "ORD-ABC123 pe penalty kis liye lagi?"],
+    handle: async ({ text, driver, language }) => {
+      const entry = await findPenalty(driver.id, spokenTrackingId(text));
+      if (!entry) return { reply: t("no_penalties", language), action: "penalty_reason", language };
+      return {
+        reply: describePenalty(entry, language),
+        action: "penalty_reason",
+        language,
+        appealStatus: entry.appeal?.status ?? "none",
+        recordId: String(entry._id),
+      };
+    },
+  })
+  .register({
+    name: "earnings",
+    priority: 58,
+    matchers: [/\bearn(ings)?|kamaya|kitna kamaya|kharcha|expenses|profit/i],
+    examples: ["Aaj ka kharcha kaat ke kitna kamaya?", "Iss mahine kitna kamaya?"],
+    handle: async ({ text, userId, language }) => {
+      const period: EarningsPeriod = /hafte|week/i.test(text) ? "weekly" : /mahine|month/i.test(text) ? "monthly" : "daily";
+      if (period === "daily") {
+        const metrics = await getBusinessMetrics(userId);
+        return { ...makeEmpatheticReply("earnings", language, metrics), action: "business_metrics", period };
+      }
+      const { from, to } = periodRange(period);
+      const summary = summarize(await getTotals(userId, from, to));
+      const reply = t(period === "weekly" ? "earnings_week" : "earnings_month", language, {
+        earned: summary.earnings,
+        spent: summary.expenses,
+        net: summary.net,
+      });
+      return { reply, action: "business_metrics", period, summary, language };
+    },
+  })
+  .register({
+    name: "rewards",
+    priority: 57,
+    matchers: [/reward|badge/i],
+    examples: ["Mujhe koi reward mila?", "Mere badges kaun se hain?"],
+    handle: async ({ userId, language }) => {
+      const [metrics, badges] = await Promise.all([getBusinessMetrics(userId), learningBadges(userId)]);
+      let reply = metrics.rewards.length
+        ? t("rewards_list", language, { list: metrics.rewards.map((r) => `${r.reason} (₹${r.amount})`).join(", ") })
+        : t("no_rewards", language);
+      // badges come from completed learning modules
+      if (badges.length) reply += ` ${t("badges_list", language, { list: badges.map((b) => localized(b.badge, language)).join(", ") })}`;
+      return { reply, action: "rewards", badges: badges.map((b) => b.slug), language };
+    },
+  })
+  .register({
+    name: "penalty",
+    priority: 56,
+    matchers: [/penalt(y|ies)/i],
+    examples: ["Kya mujh par penalty lagi?"],
+    handle: async ({ userId, language }) => {
       const metrics = await getBusinessMetrics(userId);
-      const reply = makeEmpatheticReply("penalty", metrics);
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "penalty" });
-    }
-    if (/behtar|better than last week|growth|compare|summary|performance/i.test(text)) {
+      return { ...makeEmpatheticReply("penalty", language, metrics), action: "penalty" };
+    },
+  })
+  .register({
+    name: "business_growth",
+    priority: 54,
+    matchers: [/behtar|better than last week|growth|compare|summary|performance/i],
+    examples: ["Mera business pichle hafte se behtar hai ya nahi?"],
+    handle: async ({ userId, language }) => {
       const metrics = await getBusinessMetrics(userId);
-      const reply = makeEmpatheticReply("business_growth", metrics);
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "business_growth" });
-    }
-    if (/onboard|onboarding|form|document|submit|upload|kyc|pan|aadhaar/i.test(text)) {
-      const reply = makeEmpatheticReply("onboarding");
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "onboarding_help" });
-    }
-    if (/emergency|help|sahayata|danger/i.test(text)) {
-      const reply = makeEmpatheticReply("emergency");
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "emergency" });
-    }
-    if (/challan/i.test(text)) {
-      const reply = makeEmpatheticReply("guide_challan");
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "guide_challan" });
-    }
-    if (/digilocker/i.test(text)) {
-      const reply = makeEmpatheticReply("guide_digilocker");
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "guide_digilocker" });
-    }
-    if (/insurance/i.test(text)) {
-      const reply = makeEmpatheticReply("insurance");
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "insurance" });
-    }
-    if (/customer service|customer/i.test(text)) {
-      const reply = makeEmpatheticReply("customer_service");
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "customer_service" });
-    }
-
-    // Conversational Finance
-    if (/earn(ings)?|kamaya|kitna kamaya|kharcha|expenses|profit|penalt(y|ies)|reward|business|behtar|better than last week/i.test(text)) {
-      const metrics = await getBusinessMetrics(userId);
-      let reply = '';
-      if (/kharcha|expenses/i.test(text)) {
-        reply = `Aaj aapne ₹${metrics.todayEarnings} kamaya aur ₹${metrics.todayExpenses} kharch kiya. Net earning: ₹${metrics.todayEarnings - metrics.todayExpenses}.`;
-      } else if (/penalt(y|ies)/i.test(text)) {
-        reply = metrics.penalties.length ? `Aap par penalty lagi hai: ${metrics.penalties.map(p => `${p.reason} (₹${p.amount})`).join(', ')}.` : 'Aap par koi penalty nahi lagi.';
-      } else if (/reward/i.test(text)) {
-        reply = metrics.rewards.length ? `Aapko reward mila hai: ${metrics.rewards.map(r => `${r.reason} (₹${r.amount})`).join(', ')}.` : 'Aapko abhi tak koi reward nahi mila.';
-      } else if (/behtar|better than last week/i.test(text)) {
-        reply = metrics.thisWeekEarnings > metrics.lastWeekEarnings ? 'Haan, iss hafte aapka business pichle hafte se behtar hai.' : 'Nahi, iss hafte kamai kam hai.';
-      } else {
-        reply = `Aaj ki kamai: ₹${metrics.todayEarnings}. Pichle hafte: ₹${metrics.lastWeekEarnings}. Iss hafte: ₹${metrics.thisWeekEarnings}.`;
+      return { ...makeEmpatheticReply("business_growth", language, metrics), action: "business_growth" };
+    },
+  })
+  .register({
+    name: "onboarding",
+    priority: 52,
+    matchers: [/onboard|onboarding|form|document|submit|upload|kyc|pan|aadhaar/i],
+    examples: ["Onboarding mein madad chahiye", "Document upload kaise karu"],
+    handle: async ({ text, driver, language }) => {
+      if (/document|upload/i.test(text)) {
+        const uploaded: string[] = await DriverDocument.distinct("kind", { driverId: driver.id });
+        const missing = KYC_DOCUMENTS.filter((d) => !uploaded.includes(d.kind)).map((d) => d.label);
+        const reply =
+          `${t("documents_upload_help", language)} ` +
+          (missing.length ? t("documents_missing", language, { list: missing.join(", ") }) : t("documents_complete", language));
+        return { reply, action: "onboarding_help", missingDocuments: missing, language };
       }
-      reply = await translateToHindi(reply);
-      history.push({ role: "assistant", content: reply });
-      return res.json({ reply, action: "business_metrics" });
-    }
-
-    // Voice-Led Onboarding & Forms (mock)
-    if (/onboard|onboarding|form|document|submit|upload|kyc|pan|aadhaar/i.test(text)) {
-      const reply = 'Onboarding mein madad chahiye? Har field ko dhyan se suno. Example: "Naam daaliye". Agar galti ho, main aapko bataunga. Document upload karne ke liye, photo khinch kar yahan bhejiye.';
-      history.push({ role: "assistant", content: await translateToHindi(reply) });
-      return res.json({ reply: await translateToHindi(reply), action: "onboarding_help" });
-    }
+      if (/\b(?:status|kitna|kitne|baaki|bacha|progress)\b/i.test(text)) {
+        const status = toOnboardingStatusDTO(await DriverProfile.findOne({ driverId: driver.id }));
+        const left = status.fields.filter((f) => !f.done).map((f) => f.label);
+        const reply = left.length
+          ? t("onboarding_progress", language, { total: status.total, done: status.done, list: left.join(", ") })
+          : t("onboarding_complete", language);
+        return { reply, action: "onboarding_status", onboarding: status, language };
+      }
+      // The form is asked field by field over the next turns and saved as it goes
+      return startOnboardingDialog(driver, text);
+    },
+  })
+  .register({
+    name: "cancel_emergency",
+    priority: 121,
+    matchers: [/\b(?:emergency|sos|sahayata)\b.*\b(?:cancel|band|wapas|withdraw)|galti se (?:daba|dab gaya|ho gaya|bola)|false alarm/i],
+    examples: ["Emergency cancel karo", "Galti se dabaya tha", "False alarm"],
+    handle: async ({ driver, language }) => {
+      const incident = await activeIncident(driver.id);
+      if (!incident) return { reply: t("sos_none", language), action: "sos_none", language };
+      await cancelIncident(incident, driver, "Withdrawn by the driver (false trigger)");
+      return { reply: t("sos_cancelled", language), action: "sos_cancelled", incidentId: String(incident._id), language };
+    },
+  })
+  .register({
+    name: "emergency",
+    // above every other intent: "SOS, ORD-ABC123 kahan hai" is an SOS, not a lookup
+    priority: 120,
+    matchers: [SOS_WORDS],
+    examples: ["Sahayata", "Emergency", "Bachao!"],
+    handle: async ({ driver, history, language, location }) => {
+      // Raised at once with the words that led to it; the driver then confirms or withdraws it
+      const transcript = history
+        .filter((m): m is Msg & { role: "user" | "assistant" } => (m.role === "user" || m.role === "assistant") && !!m.content)
+        .map((m) => ({ role: m.role, content: m.content }));
+      const incident = await raiseIncident({ driver, location, transcript, triggeredVia: "voice" });
+      if (incident.status === "pending_confirmation") return startSosDialog(driver, incident, language);
+      return { ...makeEmpatheticReply("emergency", language), action: "sos_raised", incidentId: String(incident._id) };
+    },
+  })
+  .register({
+    name: "learning",
+    priority: 46,
+    matchers: [/\b(?:sikh|seekh|samjha)\w*|\b(?:guide|tutorial|learn|module|quiz)/i],
+    // topics come from the learning catalogue, so they are matched at runtime
+    match: (text) => {
+      const topic = matchLearningTopic(text);
+      return topic ? { topic } : null;
+    },
+    examples: ["Insurance sikhaye", "Kuch naya sikhaye", "Show me a learning module"],
+    handle: async ({ text, driver, language, slots }) => {
+      const slug = slots.topic || (await findLearningTopic(text));
+      const lesson = slug ? await startLearningDialog(driver, slug, language, QUIZ_REQUEST.test(text)) : null;
+      if (lesson) return lesson;
+      const topics = learningTopics();
+      if (!topics.length) return { reply: t("learning_none", language), action: "learning_topics", language };
+      const list = topics.map((topic) => localized(topic.title, language)).join(", ");
+      return { reply: t("learning_topics", language, { list }), action: "learning_topics", language, topics: topics.map((topic) => topic.slug) };
+    },
+  });
 
-    // Business Growth Simplified
-    if (/business|growth|behtar|compare|summary|performance/i.test(text)) {
+// --- Broader catch-alls ---
+intents
+  .register({
+    name: "business_summary",
+    priority: 40,
+    matchers: [/\bbusiness\b/i],
+    examples: ["Mera business kaisa chal raha hai?"],
+    handle: async ({ userId, language }) => {
       const metrics = await getBusinessMetrics(userId);
-      const reply = `Aapka business summary: Iss hafte kamai ₹${metrics.thisWeekEarnings}, pichle hafte ₹${metrics.lastWeekEarnings}. ${metrics.thisWeekEarnings > metrics.lastWeekEarnings ? 'Aapne behtar kiya!' : 'Aapko aur mehnat ki zarurat hai.'}`;
-      history.push({ role: "assistant", content: await translateToHindi(reply) });
-      return res.json({ reply: await translateToHindi(reply), action: "business_summary" });
-    }
+      const { thisWeekEarnings: thisWeek, lastWeekEarnings: lastWeek } = metrics;
+      const reply = t(thisWeek > lastWeek ? "business_summary_up" : "business_summary_down", language, { thisWeek, lastWeek });
+      return { reply, action: "business_summary", language };
+    },
+  })
+  .register({
+    name: "safety_tips",
+    priority: 30,
+    matchers: [/suraksha|safety/i],
+    examples: ["Suraksha ke tips batao"],
+    handle: async ({ language }) => ({ reply: t("safety_tips", language), action: "safety_alert", language }),
+  });
 
-    // Life Skills: Guides & Learning Modules
-    if (/guide|kaise|how to|tutorial|sikhaye|learn|module|insurance|challan|digilocker|customer service/i.test(text)) {
-      // Find matching guide/module
-      const foundGuide = guides.find(g => text.toLowerCase().includes(g.id) || text.toLowerCase().includes(g.title.toLowerCase()));
-      const foundModule = learningModules.find(m => text.toLowerCase().includes(m.id) || text.toLowerCase().includes(m.title.toLowerCase()));
-      if (foundGuide) {
-        const reply = `${foundGuide.title}:\n${foundGuide.steps.map((s, i) => `${i + 1}. ${s}`).join('\n')}`;
-        history.push({ role: "assistant", content: await translateToHindi(reply) });
-        return res.json({ reply: await translateToHindi(reply), action: "guide", guide: foundGuide });
-      }
-      if (foundModule) {
-        const reply = `${foundModule.title}:\n${foundModule.steps.map((s, i) => `${i + 1}. ${s}`).join('\n')}`;
-        history.push({ role: "assistant", content: await translateToHindi(reply) });
-        return res.json({ reply: await translateToHindi(reply), action: "learning_module", module: foundModule });
-      }
-      // Fallback
-      const reply = 'Kis topic par guide chahiye? Example: "How to contest a challan" ya "Insurance sikhaye".';
-      history.push({ role: "assistant", content: await translateToHindi(reply) });
-      return res.json({ reply: await translateToHindi(reply), action: "ask_for_guide" });
-    }
+// Suggested in the offline fallback reply
+const OFFLINE_EXAMPLES = ["Naya order banao, 2 boxes Kothrud Pune 411038 pe", "ORD-ABC123 kahan hai?", "Aaj ka route batao"]
+  .map((e) => `"${e}"`)
+  .join(", ");
 
-    // Emergency Assistance & Safety Alerts
-    if (/emergency|help|sahayata|suraksha|danger|alert|unsafe|road|weather/i.test(text)) {
-      let reply = '';
-      if (/emergency|help|sahayata/i.test(text)) {
-        reply = 'Aapne Sahayata button dabaya hai. Kripya shaant rahiye, madad ke liye call kiya ja raha hai.';
-      } else if (/road|weather|unsafe|alert/i.test(text)) {
-        reply = 'Aage sadak kharab hai, kripya dhyaan se chalayein.';
-      } else {
-        reply = 'Suraksha ke liye, hamesha seatbelt pehnein aur traffic niyam maanein.';
-      }
-      history.push({ role: "assistant", content: await translateToHindi(reply) });
-      return res.json({ reply: await translateToHindi(reply), action: "safety_alert" });
-    }
+// Registry intents that are handled by orderTools when an LLM is configured
+const LLM_ORDER_INTENTS = new Set([...orderToolNames, "update_status", "update_address"]);
 
-    // FALLBACK -> LLM chat reply
-    if (groq) {
-      // trim history to last N messages to limit token usage
-      const MAX = 8;
-      const trimmed = history.slice(-MAX);
+for (const d of intents.diagnose()) {
+  console.warn(`[intents] ${d.type}: ${d.message}`);
+}
 
-      // Build messages array for Groq; include name for function messages if present
-      const groqMessages = trimmed.map((m) => {
-        if (m.role === "function") {
-          return { role: "function", name: m.name || "fn", content: m.content };
-        }
-        return { role: m.role, content: m.content };
-      }) as unknown as any[]; // cast to any[] to satisfy SDK types
+// GET /api/intents: registered handlers plus unreachable/overlap diagnostics
+export const intentDiagnostics = (_req: Request, res: Response) => {
+  const handlers = intents.list().map((h) => ({
+    name: h.name,
+    priority: h.priority,
+    matchers: h.matchers.map(String),
+    requiredSlots: h.requiredSlots || [],
+  }));
+  return res.json({ handlers, diagnostics: intents.diagnose() });
+};
 
-      const completion = await groq.chat.completions.create({
-        model: MODEL,
-        messages: groqMessages,
-        temperature: 0.2,
-      });
+// GET /api/llm: the configured model provider and the tokens it has used since startup
+export const llmStatus = (_req: Request, res: Response) => {
+  const llm = getLLM();
+  if (!llm) return res.json({ provider: "none", model: null, usage: null });
+  return res.json({ provider: llm.name, model: llm.model, usage: llm.usage() });
+};
 
-      const aiReply = completion.choices[0]?.message?.content || "Sorry, I didn't get that.";
-      history.push({ role: "assistant", content: aiReply });
-      return res.json({ reply: aiReply, action: "llm_reply" });
+export const aiReply = async (req: Request, res: Response) => {
+  const { text } = req.body || {};
+  // the device location, if the client sent one, goes on any incident raised by this turn
+  const parsedLocation = locationSchema.safeParse(req.body?.location);
+  const location = parsedLocation.success ? parsedLocation.data : null;
+  // requireAuth guarantees the driver; the body's userId is ignored
+  const driver = req.driver!;
+  const userId = driver.id;
+
+  try {
+    const conversation = await loadConversation(userId);
+    const history = conversation.messages;
+    history.push({ role: "user", content: text });
+    const language = await resolveLanguage(userId, text);
+
+    let result: IntentResult;
+    let intent: string | undefined;
+    let candidates: string[] | undefined;
+
+    if (SOS_WORDS.test(text)) {
+      // an emergency takes over from whatever dialog was running
+      cancelOrderDialog(userId);
+      cancelAddressDialog(userId);
+      cancelOnboardingDialog(userId);
+      cancelLearningDialog(userId);
+    }
+    const sos = hasSosDialog(userId) ? await continueSosDialog(driver, text, language) : null;
+    // a walk-through only takes step commands; anything else falls through to the intents
+    const lesson = !sos && hasLearningDialog(userId) ? await continueLearningDialog(driver, text, language) : null;
+
+    if (sos) {
+      // A raised SOS waits for "haan" or "nahi" before anything else
+      result = sos;
+      intent = "emergency";
+      history.push({ role: "assistant", content: result.reply });
+    } else if (hasOrderDialog(userId)) {
+      // An order being created takes every answer until it is confirmed or dropped
+      result = await continueOrderDialog(driver, text, extractOrderFieldsWithLLM);
+      intent = "create_order";
+      history.push({ role: "assistant", content: result.reply });
+    } else if (hasAddressDialog(userId)) {
+      // likewise an address change that is still missing parts
+      result = await continueAddressDialog(driver, text);
+      intent = "update_address";
+      history.push({ role: "assistant", content: result.reply });
+    } else if (hasOnboardingDialog(userId)) {
+      // and the onboarding form until it is done or paused
+      result = await continueOnboardingDialog(driver, text);
+      intent = "onboarding";
+      history.push({ role: "assistant", content: result.reply });
+    } else if (lesson) {
+      result = lesson;
+      intent = "learning";
+      history.push({ role: "assistant", content: result.reply });
+    } else {
+      // With an LLM configured, order operations are chosen by the model via tools
+      const llm = getLLM();
+      const ranked = intents.rank(text).filter((c) => !(llm && LLM_ORDER_INTENTS.has(c.handler.name)));
+      const match = ranked.find((c) => c.missingSlots.length === 0);
+      candidates = ranked.map((c) => c.handler.name);
+      if (match) {
+        result = await match.handler.handle({ text, userId, driver, history, language, slots: match.slots, location });
+        intent = match.handler.name;
+        history.push({ role: "assistant", content: result.reply });
+      } else if (llm) {
+        // FALLBACK -> LLM chat reply with order tools (pushes its own messages)
+        try {
+          result = await chatWithOrderTools(llm, history, conversation.summary, driver, language);
+        } catch (err) {
+          if (!(err instanceof LLMError)) throw err;
+          // retries are used up; answer like the offline mode does
+          console.error("Chat LLM error:", err);
+          result = { reply: t("not_understood_offline", language, { examples: OFFLINE_EXAMPLES }), action: "fallback", language };
+          history.push({ role: "assistant", content: result.reply });
+        }
+      } else {
+        // Offline: nothing matched, so suggest phrases the rules understand
+        result = { reply: t("not_understood_offline", language, { examples: OFFLINE_EXAMPLES }), action: "fallback", language };
+        history.push({ role: "assistant", content: result.reply });
+      }
     }
 
-    // If no LLM, fallback to rule-based minimal reply
-    const fallbackReply = "Sorry, I couldn't process that right now.";
-    history.push({ role: "assistant", content: fallbackReply });
-    return res.json({ reply: fallbackReply, action: "fallback" });
+    // every reply leaves in the driver's language (a handler may have switched it)
+    const localized = await localizeReply(result.reply, result.language ?? language, result.language);
+    const last = history[history.length - 1];
+    if (last.role === "assistant") last.content = localized.text;
+    last.intent = intent;
+    last.action = result.action;
+    await saveConversation(conversation);
+
+    return res.json({ ...result, reply: localized.text, language: localized.language, lang: localized.lang, intent, candidates });
   } catch (err) {
     console.error("aiReply error:", err);
     return res.status(500).json({ reply: "Internal error", error: err });
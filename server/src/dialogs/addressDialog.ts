@@ -0,0 +1,87 @@
+// server/src/dialogs/addressDialog.ts
+// Changing an order's address by voice: what the driver said is merged into the order's
+// address, then any missing or wrong part is asked for over the next turns before saving.
+import { IntentResult } from "../intents/registry";
+import { IOrder } from "../models/Order";
+import { AddressDraft, AddressPart, addressPrompt, answerAddressPart, checkAddress, formatAddress, mergeAddress, parseAddress } from "../geo/address";
+import { editOrder } from "../tools/orderTools";
+import { AuthDriver } from "../types";
+
+type DialogState = {
+  trackingId: string;
+  draft: AddressDraft;
+  pendingPart: AddressPart;
+  attempts: number;
+};
+
+// Give up after this many unusable answers, as the order dialog does
+const MAX_ATTEMPTS = 3;
+
+// In-memory dialog state per user (demo), like the order dialog
+const dialogs = new Map<string, DialogState>();
+
+const ABORT = /\b(rehne do|chhodo|stop|cancel|band karo)\b/i;
+
+export function hasAddressDialog(userId: string) {
+  return dialogs.has(userId);
+}
+
+export function cancelAddressDialog(userId: string) {
+  dialogs.delete(userId);
+}
+
+// Save the address once it is complete, otherwise ask for the next missing part
+async function step(driver: AuthDriver, state: DialogState, retry = false): Promise<IntentResult> {
+  const { draft, missing, errors } = checkAddress(state.draft);
+  state.draft = draft;
+  const problems = errors.join(" ");
+
+  if (!missing.length) {
+    dialogs.delete(driver.id);
+    const result = await editOrder(state.trackingId, { address: draft }, driver);
+    if (!result.ok || !result.order) {
+      return { reply: result.error || "Address save nahi ho paya.", action: result.action, trackingId: state.trackingId };
+    }
+    const saved = `Order ${state.trackingId} ka address: ${formatAddress(result.order.address)}.`;
+    return { reply: problems ? `${problems} ${saved}` : saved, action: "update_address", order: result.order, changes: result.changes };
+  }
+
+  dialogs.set(driver.id, state);
+  state.pendingPart = missing[0];
+  const ask = `${retry && !problems ? "Samajh nahi aaya. " : ""}${addressPrompt(missing[0])}`;
+  return { reply: problems ? `${problems} ${ask}` : ask, action: "slot_prompt", pendingSlot: missing[0], trackingId: state.trackingId };
+}
+
+// Start from the spoken address (whole or just some parts) and the order's current one
+export function startAddressDialog(driver: AuthDriver, order: IOrder, text: string): Promise<IntentResult> {
+  const state: DialogState = {
+    trackingId: order.trackingId,
+    draft: mergeAddress(order.address, parseAddress(text)),
+    pendingPart: "line1",
+    attempts: 0,
+  };
+  return step(driver, state);
+}
+
+// Feed the answer to the last question into the active dialog
+export async function continueAddressDialog(driver: AuthDriver, text: string): Promise<IntentResult> {
+  const state = dialogs.get(driver.id);
+  if (!state) return { reply: "Kis order ka address badalna hai? Tracking ID boliye.", action: "ask_for_order_id" };
+  if (ABORT.test(text)) {
+    dialogs.delete(driver.id);
+    return { reply: `Theek hai, order ${state.trackingId} ka address nahi badla.`, action: "address_discarded" };
+  }
+
+  const part = state.pendingPart;
+  state.draft = answerAddressPart(state.draft, part, text);
+  if (checkAddress(state.draft).draft[part]) {
+    state.attempts = 0;
+    return step(driver, state);
+  }
+  state.attempts++;
+  if (state.attempts >= MAX_ATTEMPTS) {
+    dialogs.delete(driver.id);
+    return { reply: `Maaf kijiye, address samajh nahi aaya. Order ${state.trackingId} ka address nahi badla.`, action: "address_discarded" };
+  }
+  return step(driver, state, true);
+}
@@ -0,0 +1,210 @@
+// server/src/dialogs/learningDialog.ts
+// Going through a learning module or guide by voice, one step per turn: "agla step", "phir se
+// bolo", "pichla step" and "bas" (pause). Content with a quiz then asks its questions, graded
+// from the spoken answers. Progress is saved per driver, so asking for the topic again resumes
+// where they stopped. Anything else ends the walk-through and is handled as a normal request.
+import { IntentResult } from "../intents/registry";
+import { Language } from "../i18n/languages";
+import { t } from "../i18n/messages";
+import {
+  LearningAward,
+  contentLanguage,
+  getLearningProgress,
+  localized,
+  saveLearningProgress,
+  saveQuizResult,
+} from "../learning/learning";
+import { chooseOption, quizScore } from "../learning/quiz";
+import LearningContent, { ILearningContent } from "../models/LearningContent";
+import { AuthDriver } from "../types";
+
+type QuizState = {
+  question: number; // index of the question being asked
+  correct: number;
+};
+
+type DialogState = {
+  contentId: string;
+  step: number;
+  quiz: QuizState | null; // set once the quiz has started
+};
+
+// In-memory dialog state per user (demo), like the order dialog; progress itself is in MongoDB
+const dialogs = new Map<string, DialogState>();
+
+// Step commands are short; a longer sentence ("agla order do, Kothrud se") is a new request
+const MAX_COMMAND_WORDS = 5;
+
+const REPEAT = /\b(?:phir se|fir se|dobara|repeat|again|kya bola|samjha nahi)\b|फिर से|दोबारा|पुन्हा|மறுபடி|மீண்டும்|ಮತ್ತೆ|আবার/i;
+const BACK = /\b(?:pichla|pichhla|peeche|previous|back)\b|पिछला|मागील|முந்தைய|ಹಿಂದಿನ|আগের/i;
+const NEXT = /\b(?:agla|agle|aage|next|continue|haan|ok|okay)\b|अगला|आगे|पुढ|அடுத்த|ಮುಂದ|পরের/i;
+const STOP = /\b(?:bas|ruko|band karo|stop|baad mein|rehne do|chhodo)\b|बस|रुको|थांब|நிறுத்து|ನಿಲ್ಲಿಸಿ|থামো/i;
+
+const wordCount = (text: string) => text.trim().split(/\s+/).length;
+
+export function hasLearningDialog(userId: string) {
+  return dialogs.has(userId);
+}
+
+export function cancelLearningDialog(userId: string) {
+  dialogs.delete(userId);
+}
+
+// Content without the driver's language is read out in Hinglish or English; leaving the
+// language unset then lets aiReply translate it like any other reply
+const replyLanguage = (lang: Language, language: Language) => (lang === language ? lang : undefined);
+
+// Read out one step, with the intro or resume line in front when there is one
+function stepReply(content: ILearningContent, step: number, language: Language, lead = ""): IntentResult {
+  const lang = contentLanguage(content, language);
+  const total = content.steps.length;
+  const current = content.steps[step];
+  const reply = [lead, t("learning_step", lang, { n: step + 1, total, text: localized(current.text, lang) }), t("learning_hint", lang)]
+    .filter(Boolean)
+    .join(" ");
+  return {
+    reply,
+    action: "learning_step",
+    language: replyLanguage(lang, language),
+    learning: { slug: content.slug, step: step + 1, total },
+    // a recording only when it matches the language the driver hears
+    audioUrl: (lang === language && current.audioUrl?.[lang]) || null,
+  };
+}
+
+// Read out one quiz question with its options numbered
+function questionReply(content: ILearningContent, index: number, language: Language, lead = ""): IntentResult {
+  const lang = contentLanguage(content, language);
+  const total = content.quiz.length;
+  const question = content.quiz[index];
+  const options = question.options.map((o, i) => `${i + 1}) ${localized(o, lang)}`).join(" ");
+  const reply = [lead, t("learning_question", lang, { n: index + 1, total, question: localized(question.question, lang), options }), t("learning_answer_hint", lang)]
+    .filter(Boolean)
+    .join(" ");
+  return {
+    reply,
+    action: "learning_quiz",
+    language: replyLanguage(lang, language),
+    learning: { slug: content.slug, question: index + 1, total },
+  };
+}
+
+function startQuiz(driverId: string, content: ILearningContent, language: Language): IntentResult {
+  dialogs.set(driverId, { contentId: String(content._id), step: content.steps.length - 1, quiz: { question: 0, correct: 0 } });
+  const lead = t("learning_quiz_intro", contentLanguage(content, language), { total: content.quiz.length });
+  return questionReply(content, 0, language, lead);
+}
+
+// The certificate, badge and reward of a first completion, read out after the result
+function awardLines(award: LearningAward | null, lang: Language): string[] {
+  if (!award) return [];
+  const lines: string[] = [];
+  const badge = localized(award.badge, lang);
+  if (badge) lines.push(t("learning_badge", lang, { badge }));
+  if (award.reward > 0) lines.push(t("learning_reward", lang, { amount: award.reward }));
+  lines.push(t("learning_certificate", lang, { id: award.certificateId }));
+  return lines;
+}
+
+// Begin a module or guide; one left halfway is resumed at the step heard last, and one whose
+// steps were all heard goes on to its quiz (also when the driver asks for the quiz again)
+export async function startLearningDialog(
+  driver: AuthDriver,
+  slug: string,
+  language: Language,
+  quiz = false
+): Promise<IntentResult | null> {
+  const content = await LearningContent.findOne({ slug, published: true });
+  if (!content || !content.steps.length) return null;
+  const lang = contentLanguage(content, language);
+  const progress = await getLearningProgress(driver.id, String(content._id));
+  if (content.quiz.length && progress?.stepsDone && (quiz || !progress.completed)) return startQuiz(driver.id, content, language);
+  // content finished before starts over; an admin may have removed steps since the last visit
+  const resume = progress && !progress.completed ? Math.min(progress.step, content.steps.length - 1) : 0;
+
+  dialogs.set(driver.id, { contentId: String(content._id), step: resume, quiz: null });
+  await saveLearningProgress(driver.id, content, resume);
+  const lead = resume
+    ? t("learning_resume", lang, { n: resume + 1 })
+    : t("learning_intro", lang, { title: localized(content.title, lang), summary: localized(content.summary, lang), total: content.steps.length });
+  return stepReply(content, resume, language, lead);
+}
+
+// A spoken quiz answer: graded, then the next question or the result
+async function answerQuiz(driver: AuthDriver, quiz: QuizState, content: ILearningContent, text: string, language: Language) {
+  const lang = contentLanguage(content, language);
+  if (REPEAT.test(text)) return questionReply(content, quiz.question, language);
+  const question = content.quiz[quiz.question];
+  const chosen = chooseOption(question, text);
+  if (chosen === null) {
+    // a short unclear answer is asked again; "bas" or a whole new request ends the quiz unscored
+    if (!STOP.test(text) && wordCount(text) <= MAX_COMMAND_WORDS) return questionReply(content, quiz.question, language);
+    dialogs.delete(driver.id);
+    return STOP.test(text) ? { reply: t("learning_paused", language), action: "learning_paused", language } : null;
+  }
+
+  const right = chosen === question.answer;
+  if (right) quiz.correct++;
+  const feedback = right ? t("learning_correct", lang) : t("learning_wrong", lang, { answer: localized(question.options[question.answer], lang) });
+  quiz.question++;
+  if (quiz.question < content.quiz.length) return questionReply(content, quiz.question, language, feedback);
+
+  dialogs.delete(driver.id);
+  const score = quizScore(quiz.correct, content.quiz.length);
+  const { passed, award } = await saveQuizResult(driver.id, content, score);
+  const title = localized(content.title, lang);
+  const result = passed ? t("learning_quiz_passed", lang, { score, title }) : t("learning_quiz_failed", lang, { score, pass: content.passScore });
+  return {
+    reply: [feedback, result, ...awardLines(award, lang)].join(" "),
+    action: passed ? "learning_complete" : "learning_quiz_failed",
+    language: replyLanguage(lang, language),
+    learning: { slug: content.slug, score, passed },
+    award,
+  };
+}
+
+// The driver's answer while a walk-through is running. Returns null (and ends it) when the
+// text is not a step command or quiz answer, so it can be handled as a new request.
+export async function continueLearningDialog(driver: AuthDriver, text: string, language: Language): Promise<IntentResult | null> {
+  const state = dialogs.get(driver.id);
+  const content = state ? await LearningContent.findById(state.contentId) : null;
+  if (!state || !content || !content.steps.length) {
+    dialogs.delete(driver.id);
+    return null;
+  }
+  // (an admin may have shortened the quiz meanwhile)
+  if (state.quiz && state.quiz.question < content.quiz.length) return answerQuiz(driver, state.quiz, content, text, language);
+  const lang = contentLanguage(content, language);
+  const last = content.steps.length - 1;
+  if (wordCount(text) > MAX_COMMAND_WORDS) {
+    dialogs.delete(driver.id);
+    return null;
+  }
+
+  if (REPEAT.test(text)) return stepReply(content, Math.min(state.step, last), language);
+  if (BACK.test(text)) {
+    state.step = Math.max(state.step - 1, 0);
+    await saveLearningProgress(driver.id, content, state.step);
+    return stepReply(content, state.step, language);
+  }
+  if (NEXT.test(text)) {
+    if (state.step >= last) {
+      const award = await saveLearningProgress(driver.id, content, content.steps.length);
+      if (content.quiz.length) return startQuiz(driver.id, content, language);
+      dialogs.delete(driver.id);
+      return {
+        reply: [t("learning_done", lang, { title: localized(content.title, lang) }), ...awardLines(award, lang)].join(" "),
+        action: "learning_complete",
+        language: replyLanguage(lang, language),
+        learning: { slug: content.slug, step: content.steps.length, total: content.steps.length },
+        award,
+      };
+    }
+    state.step++;
+    await saveLearningProgress(driver.id, content, state.step);
+    return stepReply(content, state.step, language);
+  }
+  dialogs.delete(driver.id);
+  if (STOP.test(text)) return { reply: t("learning_paused", language), action: "learning_paused", language };
+  return null;
+}
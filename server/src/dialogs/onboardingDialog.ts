@@ -0,0 +1,97 @@
+// server/src/dialogs/onboardingDialog.ts
+// Voice onboarding: the form's fields are asked one at a time and every answer is checked and
+// saved at once, so the driver can stop and resume later. "galat hai, dobara" (optionally
+// naming the field, "PAN galat hai") asks the last saved field again.
+import { IntentResult } from "../intents/registry";
+import { OnboardingField } from "../models/DriverProfile";
+import { FORM_FIELDS, FormField, clearField, formField, getProfile, isDone, nextField, submitField } from "../onboarding/form";
+import { AuthDriver } from "../types";
+
+type DialogState = {
+  field: OnboardingField;
+  attempts: number;
+};
+
+// Stop asking after this many unusable answers in a row, as the order dialog does
+const MAX_ATTEMPTS = 3;
+
+// In-memory dialog state per user (demo), like the order dialog; progress itself is in MongoDB
+const dialogs = new Map<string, DialogState>();
+
+const PAUSE = /\b(baad mein|ruko|rehne do|chhodo|stop|band karo|later)\b/i;
+const REDO = /\b(galat|galti|wrong|dobara|phir se|redo|badalna|change)\b/i;
+
+export function hasOnboardingDialog(userId: string) {
+  return dialogs.has(userId);
+}
+
+export function cancelOnboardingDialog(userId: string) {
+  dialogs.delete(userId);
+}
+
+function ask(driver: AuthDriver, field: FormField, lead = ""): IntentResult {
+  dialogs.set(driver.id, { field: field.key, attempts: 0 });
+  return { reply: `${lead}${field.prompt}`, action: "slot_prompt", pendingSlot: field.key };
+}
+
+function progress(done: number) {
+  return `${FORM_FIELDS.length} mein se ${done} ho gaye.`;
+}
+
+// Start, or resume at the first empty field; "PAN galat hai" goes straight to that field
+export async function startOnboardingDialog(driver: AuthDriver, text = ""): Promise<IntentResult> {
+  if (REDO.test(text)) return redoOnboardingField(driver, text);
+  const profile = await getProfile(driver.id);
+  const next = nextField(profile);
+  if (!next) {
+    dialogs.delete(driver.id);
+    return { reply: "Aapka onboarding poora ho chuka hai. Kuch badalna ho to boliye, jaise 'PAN galat hai'.", action: "onboarding_complete" };
+  }
+  const done = FORM_FIELDS.filter((f) => isDone(profile, f.key)).length;
+  const lead = done ? `Onboarding wahin se aage badhate hain. ${progress(done)} ` : "Chaliye onboarding shuru karte hain. Ek-ek karke poochunga. ";
+  return ask(driver, next, lead);
+}
+
+// Ask a saved field again: the one named in the text, else the one answered last
+async function redoOnboardingField(driver: AuthDriver, text: string): Promise<IntentResult> {
+  const profile = await getProfile(driver.id);
+  const named = FORM_FIELDS.find((f) => f.mentions.test(text));
+  const key = named?.key || profile.lastField || dialogs.get(driver.id)?.field;
+  if (!key) return startOnboardingDialog(driver);
+  await clearField(profile, key);
+  return ask(driver, formField(key), `Theek hai, ${formField(key).label} dobara lete hain. `);
+}
+
+export async function continueOnboardingDialog(driver: AuthDriver, text: string): Promise<IntentResult> {
+  const state = dialogs.get(driver.id);
+  if (!state) return startOnboardingDialog(driver);
+  if (PAUSE.test(text)) {
+    dialogs.delete(driver.id);
+    return { reply: "Theek hai, ab tak ka sab save hai. 'Onboarding shuru karo' bolkar wahin se aage badhiye.", action: "onboarding_paused" };
+  }
+  if (REDO.test(text)) return redoOnboardingField(driver, text);
+
+  const profile = await getProfile(driver.id);
+  const result = await submitField(profile, state.field, text, driver);
+  if (!result.ok) {
+    state.attempts++;
+    if (state.attempts >= MAX_ATTEMPTS) {
+      dialogs.delete(driver.id);
+      return {
+        reply: `${result.error} Abhi ke liye rok dete hain; ab tak ka sab save hai. Document dekh kar 'onboarding shuru karo' boliye.`,
+        action: "onboarding_paused",
+      };
+    }
+    return { reply: `${result.error} ${result.field.prompt}`, action: "slot_prompt", pendingSlot: state.field };
+  }
+
+  const said = result.field.speak ? result.field.speak(result.value) : result.value;
+  const saved = `${result.field.label} ${said} save ho gaya.`;
+  if (result.completed) {
+    dialogs.delete(driver.id);
+    return { reply: `${saved} Badhai ho, aapka onboarding poora ho gaya!`, action: "onboarding_complete" };
+  }
+  const next = nextField(profile)!;
+  dialogs.set(driver.id, { field: next.key, attempts: 0 });
+  return { reply: `${saved} Galat ho to 'galat hai, dobara' boliye. ${next.prompt}`, action: "slot_prompt", pendingSlot: next.key };
+}
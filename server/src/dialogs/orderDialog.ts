@@ -0,0 +1,224 @@
+// server/src/dialogs/orderDialog.ts
+// Multi-turn slot filling for order creation: ask for each missing field, read the
+// order back, and only persist it once the driver confirms. The address is collected part by
+// part (street, city, PIN code, state, landmark) until it checks out against the PIN code.
+import { IntentResult } from "../intents/registry";
+import {
+  AddressDraft,
+  AddressPart,
+  addressPrompt,
+  answerAddressPart,
+  checkAddress,
+  formatAddress,
+  mergeAddress,
+  nextAddressPart,
+  parseAddress,
+} from "../geo/address";
+import { runOrderTool } from "../tools/orderTools";
+import { AuthDriver } from "../types";
+import { LEDGER_TIMEZONE, parseSpokenTime } from "../utils/time";
+
+export type OrderSlot = "item" | "address" | "pickupTime";
+
+export interface OrderDraft {
+  item: string | null;
+  qty: number;
+  customerName: string | null;
+  address: AddressDraft | null;
+  pickupTime: Date | null;
+}
+
+// What an extractor (LLM or rules) could pull out of one utterance
+export type OrderFieldExtractor = (text: string) => Promise<Partial<OrderDraft>>;
+
+// What the dialog is waiting for; once an address has been started, its parts are asked for
+type PendingSlot = OrderSlot | AddressPart | "confirm";
+
+type DialogState = {
+  draft: OrderDraft;
+  pendingSlot: PendingSlot;
+  attempts: number;
+};
+
+// Required slots, asked in this order
+const SLOT_ORDER: OrderSlot[] = ["item", "address", "pickupTime"];
+
+const SLOT_PROMPTS: Record<OrderSlot, string> = {
+  item: "Kaunsa saamaan?",
+  address: "Delivery kis address par karni hai?",
+  pickupTime: "Pickup kab?",
+};
+
+const SLOT_RETRY_PROMPTS: Record<OrderSlot, string> = {
+  item: "Samajh nahi aaya. Kaunsa saamaan bhejna hai? Jaise '2 boxes'.",
+  address: "Address samajh nahi aaya. Kripya pura address boliye.",
+  pickupTime: "Time samajh nahi aaya. Pickup kab? Jaise 'abhi', 'shaam 5 baje' ya 'kal 10am'.",
+};
+
+// Give up on a slot after this many unusable answers
+const MAX_ATTEMPTS = 3;
+
+// Dialog state per user is kept in memory on purpose; a half-finished order is lost on restart
+const dialogs = new Map<string, DialogState>();
+
+const YES = /^(haan|ha|han|ji|yes|yeah|confirm|theek hai|thik hai|ok|okay|sahi hai|kar do)\b/i;
+const NO = /^(nahi|nahin|na|no|mat karo)\b/i;
+const ABORT = /\b(rehne do|chhodo|stop|cancel|band karo)\b/i;
+// Answers that carry no value for a slot
+const FILLER = /^(pata nahi|hmm+|umm+|kuch nahi|don'?t know|i don'?t know)$/i;
+
+export function hasOrderDialog(userId: string) {
+  return dialogs.has(userId);
+}
+
+export function cancelOrderDialog(userId: string) {
+  dialogs.delete(userId);
+}
+
+function nextMissingSlot(draft: OrderDraft): OrderSlot | AddressPart | null {
+  for (const slot of SLOT_ORDER) {
+    if (slot === "address" && draft.address) {
+      const part = nextAddressPart(draft.address);
+      if (part) return part;
+    } else if (!draft[slot]) return slot;
+  }
+  return null;
+}
+
+const isAddressPart = (slot: PendingSlot): slot is AddressPart =>
+  slot === "line1" || slot === "city" || slot === "pincode" || slot === "state" || slot === "landmark";
+
+function summary(draft: OrderDraft) {
+  const pickup = draft.pickupTime
+    ? draft.pickupTime.toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short", timeZone: LEDGER_TIMEZONE })
+    : "not set";
+  const customer = draft.customerName ? `, customer ${draft.customerName}` : "";
+  return `${draft.qty} x ${draft.item}${customer}, address: ${formatAddress(draft.address)}, pickup: ${pickup}`;
+}
+
+function merge(draft: OrderDraft, fields: Partial<OrderDraft>) {
+  if (fields.item) draft.item = fields.item;
+  // extractors default qty to 1, so it only counts when the item was spoken with it
+  if (fields.item && fields.qty && fields.qty > 0) draft.qty = fields.qty;
+  if (fields.customerName) draft.customerName = fields.customerName;
+  if (fields.address) draft.address = mergeAddress(draft.address, fields.address);
+  if (fields.pickupTime) draft.pickupTime = fields.pickupTime;
+}
+
+function prompt(state: DialogState, retry = false): IntentResult {
+  // fill city/state from the PIN code; a PIN code that does not fit is dropped and asked again
+  let problems = "";
+  if (state.draft.address) {
+    const { draft, errors } = checkAddress(state.draft.address);
+    state.draft.address = draft;
+    problems = errors.join(" ");
+  }
+  const slot = nextMissingSlot(state.draft);
+  if (slot) {
+    state.pendingSlot = slot;
+    const ask = isAddressPart(slot)
+      ? `${retry && !problems ? "Samajh nahi aaya. " : ""}${addressPrompt(slot)}`
+      : retry
+        ? SLOT_RETRY_PROMPTS[slot]
+        : SLOT_PROMPTS[slot];
+    return {
+      reply: problems ? `${problems} ${ask}` : ask,
+      action: "slot_prompt",
+      pendingSlot: slot,
+      draft: state.draft,
+    };
+  }
+  state.pendingSlot = "confirm";
+  return {
+    reply: `Order confirm karein: ${summary(state.draft)}. Haan ya nahi?`,
+    action: "slot_prompt",
+    pendingSlot: "confirm",
+    draft: state.draft,
+  };
+}
+
+// Start a dialog from whatever the first utterance already contained
+export function startOrderDialog(driver: AuthDriver, seed: Partial<OrderDraft>): IntentResult {
+  const state: DialogState = {
+    draft: { item: null, qty: 1, customerName: null, address: null, pickupTime: null },
+    pendingSlot: "item",
+    attempts: 0,
+  };
+  merge(state.draft, seed);
+  dialogs.set(driver.id, state);
+  return prompt(state);
+}
+
+// Feed the next utterance into the active dialog
+export async function continueOrderDialog(driver: AuthDriver, text: string, extract: OrderFieldExtractor): Promise<IntentResult> {
+  const userId = driver.id;
+  const state = dialogs.get(userId);
+  if (!state) return startOrderDialog(driver, await extract(text));
+  const answer = text.trim();
+
+  if (state.pendingSlot === "confirm") {
+    if (YES.test(answer)) {
+      dialogs.delete(userId);
+      const { draft } = state;
+      const result = await runOrderTool(
+        "create_order",
+        { ...draft, pickupTime: draft.pickupTime?.toISOString() },
+        driver
+      );
+      if (!result.ok || !result.order) {
+        return { reply: "Order save nahi ho paya. Kripya dobara koshish karein.", action: "order_failed", error: result.error };
+      }
+      return { reply: `Order ban gaya. Tracking ID ${result.order.trackingId}.`, action: "created_order", order: result.order };
+    }
+    if (NO.test(answer) || ABORT.test(answer)) {
+      dialogs.delete(userId);
+      return { reply: "Theek hai, order cancel kar diya.", action: "order_discarded" };
+    }
+    // Anything else is treated as a correction to the draft
+    merge(state.draft, await extract(answer));
+    return prompt(state);
+  }
+
+  if (ABORT.test(answer)) {
+    dialogs.delete(userId);
+    return { reply: "Theek hai, order cancel kar diya.", action: "order_discarded" };
+  }
+
+  const slot = state.pendingSlot;
+  if (isAddressPart(slot)) {
+    // answered directly, without the extractor, so "411038" is not read as a quantity
+    const address = answerAddressPart(state.draft.address || {}, slot, answer);
+    state.draft.address = address;
+    const answered = slot === "landmark" ? typeof address.landmark === "string" : !!checkAddress(address).draft[slot];
+    if (!answered) return retrySlot(state, userId);
+    state.attempts = 0;
+    return prompt(state);
+  }
+
+  const extracted = await extract(answer);
+  // Text left over in an answer about the address or time is not a new item
+  if (slot !== "item") delete extracted.item;
+  if (slot === "address" && extracted.address && !extracted.address.line1) extracted.address = parseAddress(answer);
+  // The answer to a direct question is the slot value even if the extractor missed it
+  if (!extracted[slot] && !FILLER.test(answer)) {
+    if (slot === "pickupTime") extracted.pickupTime = parseSpokenTime(answer);
+    else if (slot === "address") extracted.address = answer ? parseAddress(answer) : null;
+    else extracted[slot] = answer || null;
+  }
+  merge(state.draft, extracted);
+
+  if (state.draft[slot]) {
+    state.attempts = 0;
+    return prompt(state);
+  }
+  return retrySlot(state, userId);
+}
+
+function retrySlot(state: DialogState, userId: string): IntentResult {
+  state.attempts++;
+  if (state.attempts >= MAX_ATTEMPTS) {
+    dialogs.delete(userId);
+    return { reply: "Maaf kijiye, order nahi ban paya. Aap baad mein 'create order' bolkar dobara shuru kar sakte hain.", action: "order_discarded" };
+  }
+  return prompt(state, true);
+}
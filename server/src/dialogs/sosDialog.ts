@@ -0,0 +1,80 @@
+// server/src/dialogs/sosDialog.ts
+// The confirm/withdraw loop after an SOS is triggered by voice: "haan" (or anything that sounds
+// like distress) raises the alarm now, "nahi" / "galti se" withdraws it. Silence is never a
+// withdrawal: the scheduler opens the incident once its confirmation window runs out.
+import { IntentResult } from "../intents/registry";
+import { Language } from "../i18n/languages";
+import { t } from "../i18n/messages";
+import { CONFIRM_WINDOW_MS, addTranscript, cancelIncident, confirmIncident } from "../incidents/incidents";
+import Incident, { IIncident } from "../models/Incident";
+import { AuthDriver } from "../types";
+
+type DialogState = {
+  incidentId: string;
+  attempts: number;
+};
+
+// Unclear answers are asked again this many times, then taken as a yes
+const MAX_ATTEMPTS = 2;
+
+// In-memory dialog state per user (demo), like the order dialog
+const dialogs = new Map<string, DialogState>();
+
+// Checked before WITHDRAW, so "theek nahi hoon" is distress and not a "nahi"
+const DISTRESS = /\b(haan|ha|han|yes|yeah|madad|help|bachao|sahayata|emergency|sos|jaldi|accident|chot|theek nahi|thik nahi|not ok(?:ay)?|hurt)\b|हाँ|हां|मदद|बचाओ/i;
+// "no help needed", "madad nahi chahiye": a distress word that is negated is no confirmation
+const NEGATED_DISTRESS =
+  /\b(?:no|not|don'?t need|nahi|nahin|koi)\s+(?:(?:any|need|chahiye)\s+)?(?:madad|help|emergency|sos|accident|chot|hurt)\b|\b(?:madad|help|emergency|sos|accident|chot)\s+(?:ki\s+)?(?:nahi|nahin|not)\b/gi;
+const WITHDRAW = /\b(nahi|nahin|na|no|galti|mistake|cancel|false alarm|theek hoon|thik hoon|sab theek|i'?m (?:ok|okay|fine))\b|नहीं|गलती/i;
+
+export function hasSosDialog(userId: string) {
+  return dialogs.has(userId);
+}
+
+const secondsLeft = (incident: IIncident) =>
+  Math.max(0, Math.round(((incident.confirmBy?.getTime() ?? Date.now() + CONFIRM_WINDOW_MS) - Date.now()) / 1000));
+
+// Ask the driver to confirm a freshly raised incident
+export async function startSosDialog(driver: AuthDriver, incident: IIncident, language: Language): Promise<IntentResult> {
+  dialogs.set(driver.id, { incidentId: String(incident._id), attempts: 0 });
+  const reply = t("sos_confirm", language, { seconds: secondsLeft(incident) });
+  await addTranscript(incident, [{ role: "assistant", content: reply }]);
+  return { reply, action: "sos_confirm", incidentId: String(incident._id), confirmBy: incident.confirmBy, language };
+}
+
+// Feed the driver's answer into the loop. Returns null once the incident no longer waits for
+// an answer (opened by the scheduler or closed from the API), so the text is handled as usual.
+export async function continueSosDialog(driver: AuthDriver, text: string, language: Language): Promise<IntentResult | null> {
+  const state = dialogs.get(driver.id);
+  const incident = state ? await Incident.findById(state.incidentId) : null;
+  if (!state || !incident || incident.status !== "pending_confirmation") {
+    dialogs.delete(driver.id);
+    return null;
+  }
+  await addTranscript(incident, [{ role: "user", content: text }]);
+
+  const distress = DISTRESS.test(text.replace(NEGATED_DISTRESS, " "));
+  const withdraw = !distress && WITHDRAW.test(text);
+  if (!distress && !withdraw) state.attempts++;
+
+  let result: IntentResult;
+  if (distress || state.attempts > MAX_ATTEMPTS) {
+    dialogs.delete(driver.id);
+    const opened = await confirmIncident(incident);
+    result = { reply: t("emergency", language), action: "sos_raised", incidentId: String(opened._id), language };
+  } else if (withdraw) {
+    dialogs.delete(driver.id);
+    await cancelIncident(incident, driver, "Withdrawn by the driver (false trigger)");
+    result = { reply: t("sos_cancelled", language), action: "sos_cancelled", incidentId: String(incident._id), language };
+  } else {
+    result = {
+      reply: t("sos_confirm", language, { seconds: secondsLeft(incident) }),
+      action: "sos_confirm",
+      incidentId: String(incident._id),
+      confirmBy: incident.confirmBy,
+      language,
+    };
+  }
+  await addTranscript(incident, [{ role: "assistant", content: result.reply }]);
+  return result;
+}
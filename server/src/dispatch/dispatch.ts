@@ -0,0 +1,168 @@
+// server/src/dispatch/dispatch.ts
+// Assigning orders to drivers: automatic offers by pickup time and load, accept/reject,
+// drivers asking for work, and each driver's pickup queue.
+import Driver, { IDriver, driverCapacity } from "../models/Driver";
+import Order, { IOrder, OrderStatus, orderChanges, transitionOrder } from "../models/Order";
+import { AuthDriver } from "../types";
+
+// Orders that still occupy a driver's vehicle or schedule
+const ACTIVE_STATUSES: OrderStatus[] = ["created", "assigned", "picked_up", "in_transit"];
+// Two pickups closer than this compete for the same driver
+const PICKUP_CONFLICT_MS = 60 * 60_000;
+
+export class DispatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DispatchError";
+  }
+}
+
+export interface DriverLoad {
+  orders: number;
+  parcels: number; // sum of qty
+  pickups: Date[];
+}
+
+const emptyLoad = (): DriverLoad => ({ orders: 0, parcels: 0, pickups: [] });
+
+// Active orders per driver, for the given drivers
+export async function driverLoads(driverIds: string[]): Promise<Map<string, DriverLoad>> {
+  const rows = await Order.aggregate([
+    { $match: { assignedTo: { $in: driverIds }, status: { $in: ACTIVE_STATUSES } } },
+    { $group: { _id: "$assignedTo", orders: { $sum: 1 }, parcels: { $sum: "$qty" }, pickups: { $push: "$pickupTime" } } },
+  ]);
+  const loads = new Map(driverIds.map((id) => [id, emptyLoad()]));
+  for (const row of rows) {
+    loads.set(row._id, { orders: row.orders, parcels: row.parcels, pickups: row.pickups.filter(Boolean) });
+  }
+  return loads;
+}
+
+// Lower is better: pickups clashing with this order weigh most, then how full the vehicle is
+function score(order: IOrder, load: DriverLoad, capacity: number) {
+  const at = order.pickupTime?.getTime();
+  const clashes = at ? load.pickups.filter((p) => Math.abs(new Date(p).getTime() - at) < PICKUP_CONFLICT_MS).length : 0;
+  return clashes * 10 + load.parcels / capacity;
+}
+
+// Best available driver with room for the order, skipping anyone who rejected it
+export async function pickDriver(order: IOrder): Promise<IDriver | null> {
+  const candidates = await Driver.find({
+    role: "driver",
+    availability: "available",
+    _id: { $nin: order.dispatch?.rejectedBy || [] },
+  });
+  if (!candidates.length) return null;
+  const loads = await driverLoads(candidates.map((d) => String(d._id)));
+
+  let best: { driver: IDriver; score: number } | null = null;
+  for (const driver of candidates) {
+    const load = loads.get(String(driver._id)) || emptyLoad();
+    const capacity = driverCapacity(driver);
+    if (load.parcels + order.qty > capacity) continue;
+    const s = score(order, load, capacity);
+    const older = (driver.lastAssignedAt?.getTime() ?? 0) < (best?.driver.lastAssignedAt?.getTime() ?? 0);
+    if (!best || s < best.score || (s === best.score && older)) best = { driver, score: s };
+  }
+  return best?.driver || null;
+}
+
+// Point an order at a driver (not saved). Assigning yourself counts as accepting;
+// anyone else gets an offer to accept or reject.
+export function assignOrder(order: IOrder, driverId: string, by: string) {
+  order.assignedTo = driverId;
+  order.dispatch.offeredAt = new Date();
+  order.dispatch.state = driverId === by ? "accepted" : "offered";
+  if (order.dispatch.state === "accepted" && order.status === "created") transitionOrder(order, "assigned", by, "self-assigned");
+  return order;
+}
+
+// Offer a new, unassigned order to the best driver; returns that driver or null
+export async function autoAssign(order: IOrder): Promise<IDriver | null> {
+  if (order.assignedTo || order.status !== "created") return null;
+  const driver = await pickDriver(order);
+  if (!driver) return null;
+  assignOrder(order, String(driver._id), "dispatch");
+  await order.save();
+  driver.lastAssignedAt = new Date();
+  await driver.save();
+  return driver;
+}
+
+export async function acceptOrder(order: IOrder, driver: AuthDriver) {
+  if (order.assignedTo !== driver.id) throw new DispatchError(`Order ${order.trackingId} is not assigned to you.`);
+  if (order.dispatch.state === "accepted") return order;
+  order.dispatch.state = "accepted";
+  if (order.status === "created") transitionOrder(order, "assigned", driver.id, "accepted");
+  await order.save();
+  return order;
+}
+
+// Turn down an offer; the order is offered to the next best driver (returned, or null)
+export async function rejectOrder(order: IOrder, driver: AuthDriver): Promise<IDriver | null> {
+  if (order.assignedTo !== driver.id) throw new DispatchError(`Order ${order.trackingId} is not assigned to you.`);
+  if (order.dispatch.state !== "offered") {
+    throw new DispatchError(`Order ${order.trackingId} is already accepted. To drop it, ask support to reassign it.`);
+  }
+  order.assignedTo = undefined;
+  order.dispatch.state = null;
+  order.dispatch.rejectedBy.push(driver.id);
+  await order.save();
+  return autoAssign(order);
+}
+
+// "Mujhe naya order do": hand the oldest waiting order that fits the driver's vehicle to them.
+// The order is claimed atomically so two drivers asking at once never get the same one.
+export async function requestOrder(driver: AuthDriver): Promise<IOrder | null> {
+  const profile = await Driver.findById(driver.id);
+  if (!profile) throw new DispatchError("Driver profile not found.");
+  const load = (await driverLoads([driver.id])).get(driver.id)!;
+  const room = driverCapacity(profile) - load.parcels;
+  if (room <= 0) throw new DispatchError("Aapki gaadi full hai. Pehle current orders deliver kariye.");
+
+  const claimed = await Order.findOneAndUpdate(
+    { status: "created", assignedTo: null, qty: { $lte: room }, "dispatch.rejectedBy": { $ne: driver.id } },
+    { $set: { assignedTo: driver.id } },
+    { sort: { pickupTime: 1, createdAt: 1 }, new: true }
+  );
+  if (!claimed) return null;
+  assignOrder(claimed, driver.id, driver.id);
+  await claimed.save();
+  profile.availability = "available";
+  profile.lastAssignedAt = new Date();
+  await profile.save();
+  return claimed;
+}
+
+// Orders the driver has taken on and not yet picked up, earliest pickup first
+export function driverQueue(driverId: string, limit = 20) {
+  return Order.find({ assignedTo: driverId, status: { $in: ["created", "assigned"] }, "dispatch.state": { $ne: "offered" } })
+    .sort({ pickupTime: 1, createdAt: 1 })
+    .limit(limit);
+}
+
+// The latest offer still waiting for this driver's answer
+export function pendingOffer(driverId: string) {
+  return Order.findOne({ assignedTo: driverId, status: "created", "dispatch.state": "offered" }).sort({ "dispatch.offeredAt": -1 });
+}
+
+// Driver id for an id or a (case-insensitive) name, as spoken in "Ramesh ko assign karo"
+export async function resolveDriverRef(ref: string): Promise<string> {
+  const value = ref.trim();
+  if (/^[a-f0-9]{24}$/i.test(value) && (await Driver.exists({ _id: value }))) return value;
+  const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const matches = await Driver.find({ name: new RegExp(`^${escaped}$`, "i") }).limit(2);
+  if (matches.length === 1) return String(matches[0]._id);
+  throw new DispatchError(matches.length ? `More than one driver is named ${value}.` : `No driver named ${value}.`);
+}
+
+// Offer every newly created, unassigned order automatically. Call once at startup.
+export function watchNewOrders() {
+  orderChanges.on("created", async (order: IOrder) => {
+    try {
+      await autoAssign(order);
+    } catch (err) {
+      console.error("Dispatch error for order", order.trackingId, err);
+    }
+  });
+}
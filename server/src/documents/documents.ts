@@ -0,0 +1,102 @@
+// server/src/documents/documents.ts
+// Saving uploaded documents: the file type is read from the bytes, the file is stored once per
+// SHA-256 checksum, and each document is linked to a driver's profile and optionally an order.
+import { createHash } from "crypto";
+import path from "path";
+import Order, { IOrder, orderScope } from "../models/Order";
+import DriverDocument, { DocumentKind, IDriverDocument } from "../models/DriverDocument";
+import { AuthDriver } from "../types";
+import { getDocumentStore } from "./storage";
+
+export const MAX_UPLOAD_BYTES = Number(process.env.UPLOAD_MAX_BYTES) || 10 * 1024 * 1024;
+
+// Photos from a phone camera or a scanned PDF
+export const DOCUMENT_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic", "application/pdf"] as const;
+
+// The documents onboarding asks for, in the order they are listed to the driver
+export const KYC_DOCUMENTS: { kind: DocumentKind; label: string }[] = [
+  { kind: "licence", label: "Driving licence" },
+  { kind: "vehicle_rc", label: "Gaadi ki RC" },
+  { kind: "pan", label: "PAN card" },
+  { kind: "aadhaar", label: "Aadhaar card" },
+];
+
+export class DocumentTypeError extends Error {
+  constructor() {
+    super("Unsupported file type; upload a photo (JPEG, PNG, WebP, HEIC) or a PDF");
+    this.name = "DocumentTypeError";
+  }
+}
+
+// The type from the file's first bytes; what the client claims is ignored
+export function sniffContentType(bytes: Buffer): (typeof DOCUMENT_TYPES)[number] | null {
+  const ascii = (from: number, to: number) => bytes.subarray(from, to).toString("latin1");
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (ascii(0, 5) === "%PDF-") return "application/pdf";
+  if (ascii(4, 8) === "ftyp" && /^(?:heic|heix|hevc|heif|mif1|msf1)$/.test(ascii(8, 12))) return "image/heic";
+  return null;
+}
+
+// Admins see everything; a driver sees their own documents and those on orders they can see
+export async function canSeeDocument(doc: IDriverDocument, driver: AuthDriver) {
+  if (driver.role === "admin" || doc.driverId === driver.id) return true;
+  return !!doc.orderId && !!(await Order.exists({ _id: doc.orderId, ...orderScope(driver) }));
+}
+
+export const canDeleteDocument = (doc: IDriverDocument, driver: AuthDriver) =>
+  driver.role === "admin" || doc.driverId === driver.id || doc.uploadedBy === driver.id;
+
+export interface SaveDocumentInput {
+  driver: AuthDriver;
+  kind: DocumentKind;
+  order?: IOrder | null;
+  filename: string;
+  bytes: Buffer;
+}
+
+// Store the file (unless a file with the same checksum is already stored) and record it. The
+// same file uploaded again for the same link returns the existing document.
+export async function saveDocument(input: SaveDocumentInput): Promise<{ document: IDriverDocument; duplicate: boolean }> {
+  const contentType = sniffContentType(input.bytes);
+  if (!contentType) throw new DocumentTypeError();
+  const sha256 = createHash("sha256").update(input.bytes).digest("hex");
+  const link = { driverId: input.driver.id, sha256, kind: input.kind, orderId: input.order?._id ?? null };
+
+  const existing = await DriverDocument.findOne(link);
+  if (existing) return { document: existing, duplicate: true };
+
+  const store = getDocumentStore();
+  const key = `documents/${sha256}`;
+  if (!(await store.has(key))) await store.put(key, input.bytes, contentType);
+
+  try {
+    const document = await DriverDocument.create({
+      ...link,
+      trackingId: input.order?.trackingId ?? null,
+      filename: path.basename(input.filename).slice(-200) || "upload",
+      contentType,
+      size: input.bytes.length,
+      storage: store.name,
+      key,
+      uploadedBy: input.driver.id,
+    });
+    return { document, duplicate: false };
+  } catch (err: any) {
+    // the same upload arriving twice at once
+    if (err?.code === 11000) {
+      const document = await DriverDocument.findOne(link);
+      if (document) return { document, duplicate: true };
+    }
+    throw err;
+  }
+}
+
+// Forget a document; the stored file goes once no other document uses it
+export async function removeDocument(doc: IDriverDocument) {
+  await doc.deleteOne();
+  if (!(await DriverDocument.exists({ sha256: doc.sha256, storage: doc.storage }))) {
+    await getDocumentStore().remove(doc.key);
+  }
+}
@@ -0,0 +1,133 @@
+// server/src/documents/storage.ts
+// Where uploaded files are kept: a directory on the local disk, or an S3-compatible bucket
+// (AWS S3, MinIO, Cloudflare R2, ...). Picked from the environment; tests swap it with
+// setDocumentStore().
+import { DeleteObjectCommand, GetObjectCommand, HeadObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { createReadStream } from "fs";
+import { mkdir, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { DOCUMENT_STORAGES, DocumentStorage } from "../models/DriverDocument";
+
+export interface DocumentStore {
+  readonly name: DocumentStorage;
+  has(key: string): Promise<boolean>;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+export class LocalDocumentStore implements DocumentStore {
+  readonly name = "local";
+
+  constructor(private readonly dir: string) {}
+
+  // Keys are generated by us, but never let one climb out of the directory
+  private file(key: string) {
+    const file = path.resolve(this.dir, key);
+    if (!file.startsWith(path.resolve(this.dir) + path.sep)) throw new Error(`Invalid document key "${key}"`);
+    return file;
+  }
+
+  async has(key: string) {
+    return stat(this.file(key)).then(
+      () => true,
+      () => false
+    );
+  }
+
+  async put(key: string, body: Buffer) {
+    const file = this.file(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, body);
+  }
+
+  async get(key: string) {
+    const file = this.file(key);
+    await stat(file); // fail here, not halfway through the response
+    return createReadStream(file);
+  }
+
+  async remove(key: string) {
+    await rm(this.file(key), { force: true });
+  }
+}
+
+export interface S3StoreOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // for S3-compatible servers; addressed path-style
+  accessKeyId?: string; // otherwise the AWS SDK's usual credential chain
+  secretAccessKey?: string;
+}
+
+export class S3DocumentStore implements DocumentStore {
+  readonly name = "s3";
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor(options: S3StoreOptions) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: !!options.endpoint,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+          : undefined,
+    });
+  }
+
+  async has(key: string) {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return true;
+    } catch (err: any) {
+      if (err?.$metadata?.httpStatusCode === 404) return false;
+      throw err;
+    }
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: body, ContentType: contentType }));
+  }
+
+  async get(key: string) {
+    const res = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    return res.Body as Readable;
+  }
+
+  async remove(key: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+// DOCUMENT_STORAGE=s3 needs S3_BUCKET; the default is the UPLOAD_DIR directory ("uploads")
+export function createDocumentStore(env: NodeJS.ProcessEnv = process.env): DocumentStore {
+  const name = (env.DOCUMENT_STORAGE || "local").toLowerCase();
+  if (!(DOCUMENT_STORAGES as readonly string[]).includes(name)) {
+    throw new Error(`Unknown DOCUMENT_STORAGE "${env.DOCUMENT_STORAGE}"; use one of ${DOCUMENT_STORAGES.join(", ")}`);
+  }
+  if (name === "local") return new LocalDocumentStore(env.UPLOAD_DIR || "uploads");
+  if (!env.S3_BUCKET) throw new Error("DOCUMENT_STORAGE=s3 needs S3_BUCKET");
+  return new S3DocumentStore({
+    bucket: env.S3_BUCKET,
+    region: env.S3_REGION || "us-east-1",
+    endpoint: env.S3_ENDPOINT || undefined,
+    accessKeyId: env.S3_ACCESS_KEY_ID || undefined,
+    secretAccessKey: env.S3_SECRET_ACCESS_KEY || undefined,
+  });
+}
+
+let store: DocumentStore | undefined;
+
+// The configured store, created on first use
+export function getDocumentStore(): DocumentStore {
+  if (!store) store = createDocumentStore();
+  return store;
+}
+
+export function setDocumentStore(next: DocumentStore) {
+  store = next;
+}
@@ -0,0 +1,242 @@
+// server/src/geo/address.ts
+// Structured delivery addresses: parsing spoken text, checking it against the bundled
+// PIN codes, asking for missing parts, and locating it for route planning.
+import { GeoPoint, geocode } from "./geocoder";
+import { CITY_ALIASES, INDIAN_STATES, PINCODES, canonicalCity, lookupPincode, stateOfCity } from "./pincodes";
+
+export interface AddressFields {
+  line1: string; // house / shop number, building, street
+  landmark?: string | null;
+  locality?: string | null;
+  city: string;
+  state: string;
+  pincode: string;
+  contactPhone?: string | null;
+}
+
+// An address being collected; landmark "" means the driver said there is none
+export type AddressDraft = { [K in keyof AddressFields]?: string | null };
+
+// Parts the voice flow asks for, in this order. Landmark is optional and asked once.
+export type AddressPart = "line1" | "city" | "pincode" | "state" | "landmark";
+const REQUIRED_PARTS: AddressPart[] = ["line1", "city", "pincode", "state"];
+
+export interface AddressGeo extends GeoPoint {
+  source: string; // "pincode" or the geocoder's
+}
+
+export interface AddressCheck {
+  address: AddressFields | null; // set when nothing is missing or wrong
+  draft: AddressDraft; // the input with city/state/locality filled in from the PIN code
+  missing: AddressPart[];
+  errors: string[];
+}
+
+const PART_LABELS: Record<AddressPart, string> = {
+  line1: "house/street",
+  city: "city",
+  pincode: "PIN code",
+  state: "state",
+  landmark: "landmark",
+};
+
+const PART_PROMPTS: Record<AddressPart, string> = {
+  line1: "Ghar ya dukaan ka number aur gali boliye.",
+  city: "Kaunsa shehar?",
+  pincode: "PIN code kya hai? 6 digit wala.",
+  state: "Kaunsa state?",
+  landmark: "Paas mein koi landmark? Na ho to 'nahi' boliye.",
+};
+
+export class InvalidAddressError extends Error {
+  constructor(public missing: AddressPart[], public errors: string[]) {
+    super(errors.length ? errors.join(" ") : `Address is missing: ${missing.map((p) => PART_LABELS[p]).join(", ")}.`);
+    this.name = "InvalidAddressError";
+  }
+}
+
+const PIN = /\b(?:pin\s*(?:code)?\s*[:-]?\s*)?([1-9]\d{2})\s?(\d{3})\b/i;
+const PHONE = /(?:\+?91[\s-]?)?\b([6-9]\d{4})\s?(\d{5})\b/;
+const LANDMARK =
+  /\b((?:near|opp(?:osite)?\.?|behind|next to|in front of)\s+[^,]+)|\b((?:[^\s,]+\s+){0,2}[^\s,]+\s+(?:ke paas|ke pass|ke saamne|ke samne|ke peeche))/i;
+const NONE = /^(nahi|nahin|no|none|koi nahi|skip|na)\b/i;
+const LEADING_FILLER = /^(?:(?:to|is|at|address|new address|naya address)\b\s*:?\s*)+/i;
+
+const CITY_NAMES = [...new Set([...PINCODES.map((p) => p.city), ...Object.keys(CITY_ALIASES)])];
+const LOCALITY_NAMES = [...new Set(PINCODES.map((p) => p.locality))];
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const wordRegex = (name: string) => new RegExp(`\\b${escapeRegex(name)}\\b`, "i");
+
+// Longest of the names that occurs in the text as whole words
+function findName(text: string, names: string[]): string | null {
+  const hits = names.filter((n) => wordRegex(n).test(text));
+  return hits.sort((a, b) => b.length - a.length)[0] || null;
+}
+
+// Pull address parts out of free text such as "Flat 12, Shanti Apartments, near City Mall,
+// Kothrud, Pune 411038, 9876543210". Parts that are not found are left out.
+export function parseAddress(text: string): AddressDraft {
+  const draft: AddressDraft = {};
+  let rest = ` ${text} `;
+  const take = (m: RegExpMatchArray | null) => {
+    if (m) rest = rest.replace(m[0], ", ");
+    return m;
+  };
+  const takeName = (name: string | null) => {
+    if (name) rest = rest.replace(wordRegex(name), ", ");
+    return name;
+  };
+
+  const phone = take(rest.match(PHONE));
+  if (phone) draft.contactPhone = `+91${phone[1]}${phone[2]}`;
+  const pin = take(rest.match(PIN));
+  if (pin) draft.pincode = pin[1] + pin[2];
+  const landmark = take(rest.match(LANDMARK));
+  if (landmark) draft.landmark = (landmark[1] || landmark[2]).trim();
+  // city before state, so "Delhi" is read as the city
+  const city = takeName(findName(rest, CITY_NAMES));
+  if (city) draft.city = canonicalCity(city);
+  const state = takeName(findName(rest, INDIAN_STATES));
+  if (state) draft.state = state;
+  const locality = takeName(findName(rest, LOCALITY_NAMES));
+  if (locality) draft.locality = locality;
+
+  const line1 = rest
+    .split(",")
+    .map((s) => s.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join(", ")
+    .replace(LEADING_FILLER, "")
+    .trim();
+  if (line1) draft.line1 = line1;
+  return draft;
+}
+
+// Fill city, state and locality from the PIN code and report what is missing or inconsistent.
+// A PIN code that contradicts the city, or a bad phone number, is dropped from the draft so
+// it gets asked again.
+export function checkAddress(input: AddressDraft): AddressCheck {
+  const draft: AddressDraft = { ...input };
+  const errors: string[] = [];
+
+  if (draft.pincode && !/^[1-9]\d{5}$/.test(draft.pincode)) {
+    errors.push(`PIN code ${draft.pincode} is not valid; it has 6 digits.`);
+    draft.pincode = null;
+  }
+  const known = draft.pincode ? lookupPincode(draft.pincode, draft.locality) : null;
+  if (known) {
+    const city = draft.city ? canonicalCity(draft.city) || draft.city : null;
+    if (city && city.toLowerCase() !== known.city.toLowerCase()) {
+      errors.push(`PIN code ${draft.pincode} is in ${known.city}, not ${draft.city}.`);
+      draft.pincode = null;
+    } else {
+      draft.city = known.city;
+      draft.state = draft.state || known.state;
+      draft.locality = draft.locality || known.locality;
+    }
+  }
+  if (draft.city && !draft.state) draft.state = stateOfCity(draft.city);
+  if (draft.contactPhone) {
+    const digits = draft.contactPhone.replace(/\D/g, "").replace(/^91(?=\d{10}$)/, "");
+    if (/^[6-9]\d{9}$/.test(digits)) draft.contactPhone = `+91${digits}`;
+    else {
+      errors.push(`Contact number ${draft.contactPhone} is not a valid mobile number.`);
+      draft.contactPhone = null;
+    }
+  }
+
+  const missing = REQUIRED_PARTS.filter((part) => !draft[part]);
+  if (missing.length || errors.length) return { address: null, draft, missing, errors };
+  return {
+    address: {
+      line1: draft.line1!,
+      landmark: draft.landmark || null,
+      locality: draft.locality || null,
+      city: draft.city!,
+      state: draft.state!,
+      pincode: draft.pincode!,
+      contactPhone: draft.contactPhone || null,
+    },
+    draft,
+    missing,
+    errors,
+  };
+}
+
+// The complete address for free text or parts, or InvalidAddressError naming what is missing
+export function requireAddress(input: string | AddressDraft): AddressFields {
+  const check = checkAddress(typeof input === "string" ? parseAddress(input) : input);
+  if (!check.address) throw new InvalidAddressError(check.missing, check.errors);
+  return check.address;
+}
+
+// Apply a spoken change to an existing address. A new street means a new address; otherwise
+// only the parts named change, and a new city or PIN code clears the locality derived from it.
+export function mergeAddress(current: AddressDraft | null | undefined, edit: AddressDraft): AddressDraft {
+  if (edit.line1 || !current) return { ...edit };
+  const merged: AddressDraft = {
+    line1: current.line1,
+    landmark: current.landmark,
+    locality: current.locality,
+    city: current.city,
+    state: current.state,
+    pincode: current.pincode,
+    contactPhone: current.contactPhone,
+  };
+  if ((edit.city && edit.city !== current.city) || (edit.pincode && edit.pincode !== current.pincode)) {
+    merged.locality = null;
+    if (edit.city && edit.city !== current.city) [merged.state, merged.pincode] = [null, null];
+  }
+  for (const [key, value] of Object.entries(edit) as [keyof AddressDraft, string | null][]) {
+    if (value !== undefined && value !== null) merged[key] = value;
+  }
+  return merged;
+}
+
+// The next part to ask for, or null when the address is complete (landmark included)
+export function nextAddressPart(draft: AddressDraft): AddressPart | null {
+  const { missing } = checkAddress(draft);
+  if (missing.length) return missing[0];
+  return draft.landmark === undefined || draft.landmark === null ? "landmark" : null;
+}
+
+export function addressPrompt(part: AddressPart) {
+  return PART_PROMPTS[part];
+}
+
+// Merge the answer to "PIN code kya hai?" (or another part) into the draft. Other parts the
+// answer names are kept too, except leftover text, which only counts as the street when
+// the street was asked for. A bare answer is taken as the value of the asked part.
+export function answerAddressPart(draft: AddressDraft, part: AddressPart, text: string): AddressDraft {
+  const parsed = parseAddress(text);
+  if (part !== "line1") delete parsed.line1;
+  const merged: AddressDraft = { ...draft };
+  for (const [key, value] of Object.entries(parsed) as [keyof AddressDraft, string | null][]) {
+    if (value) merged[key] = value;
+  }
+  if (parsed[part]) return merged;
+
+  const answer = text.trim();
+  if (part === "landmark") merged.landmark = NONE.test(answer) ? "" : answer;
+  else if (part === "pincode") {
+    const digits = answer.replace(/\D/g, "");
+    if (digits.length === 6) merged.pincode = digits;
+  } else if (answer && !NONE.test(answer)) {
+    merged[part] = part === "city" ? canonicalCity(answer) || answer : answer;
+  }
+  return merged;
+}
+
+export function formatAddress(address?: AddressDraft | null): string {
+  if (!address) return "";
+  return [address.line1, address.landmark, address.locality, address.city, address.pincode].filter(Boolean).join(", ");
+}
+
+// Coordinates for an address: the PIN code's locality if bundled, else the geocoder
+export async function locateAddress(address: AddressDraft): Promise<AddressGeo | null> {
+  const known = address.pincode ? lookupPincode(address.pincode, address.locality) : null;
+  if (known) return { lat: known.lat, lng: known.lng, source: "pincode" };
+  const hit = await geocode([address.line1, address.locality, address.city].filter(Boolean).join(", "));
+  return hit ? { lat: hit.lat, lng: hit.lng, source: hit.source } : null;
+}
@@ -0,0 +1,98 @@
+// server/src/geo/geocoder.ts
+// Offline geocoding against a small built-in gazetteer of cities and delivery localities.
+// Swap in a real provider by implementing Geocoder and calling setGeocoder().
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface GeocodeResult extends GeoPoint {
+  place: string; // the gazetteer entry or provider label that matched
+  source: string;
+}
+
+export interface Geocoder {
+  geocode(address: string): Promise<GeocodeResult | null>;
+}
+
+// Localities are listed before their city so "Kothrud, Pune" resolves to Kothrud
+const GAZETTEER: Array<[string, number, number]> = [
+  // Pune
+  ["kothrud", 18.5074, 73.8077],
+  ["hinjewadi", 18.5913, 73.7389],
+  ["wakad", 18.5987, 73.7654],
+  ["baner", 18.559, 73.7868],
+  ["aundh", 18.558, 73.8075],
+  ["shivajinagar", 18.5308, 73.8475],
+  ["koregaon park", 18.5362, 73.8939],
+  ["viman nagar", 18.5679, 73.9143],
+  ["hadapsar", 18.5089, 73.926],
+  ["kharadi", 18.5515, 73.9348],
+  ["swargate", 18.5018, 73.8636],
+  ["pimpri", 18.6298, 73.7997],
+  ["chinchwad", 18.6446, 73.7615],
+  ["pune", 18.5204, 73.8567],
+  // Mumbai
+  ["andheri", 19.1136, 72.8697],
+  ["bandra", 19.0596, 72.8295],
+  ["powai", 19.1176, 72.906],
+  ["dadar", 19.0178, 72.8478],
+  ["colaba", 18.9067, 72.8147],
+  ["borivali", 19.2307, 72.8567],
+  ["thane", 19.2183, 72.9781],
+  ["navi mumbai", 19.033, 73.0297],
+  ["mumbai", 19.076, 72.8777],
+  // Delhi NCR
+  ["connaught place", 28.6315, 77.2167],
+  ["karol bagh", 28.6519, 77.1909],
+  ["dwarka", 28.5921, 77.046],
+  ["saket", 28.5245, 77.2066],
+  ["noida", 28.5355, 77.391],
+  ["gurugram", 28.4595, 77.0266],
+  ["gurgaon", 28.4595, 77.0266],
+  ["delhi", 28.7041, 77.1025],
+  // Bengaluru
+  ["koramangala", 12.9352, 77.6245],
+  ["indiranagar", 12.9719, 77.6412],
+  ["whitefield", 12.9698, 77.75],
+  ["electronic city", 12.8452, 77.6602],
+  ["bengaluru", 12.9716, 77.5946],
+  ["bangalore", 12.9716, 77.5946],
+  // Other cities
+  ["hyderabad", 17.385, 78.4867],
+  ["chennai", 13.0827, 80.2707],
+  ["kolkata", 22.5726, 88.3639],
+  ["ahmedabad", 23.0225, 72.5714],
+  ["jaipur", 26.9124, 75.7873],
+  ["lucknow", 26.8467, 80.9462],
+  ["nagpur", 21.1458, 79.0882],
+  ["nashik", 19.9975, 73.7898],
+];
+
+export const gazetteerGeocoder: Geocoder = {
+  async geocode(address: string) {
+    const text = ` ${address.toLowerCase().replace(/[^a-z0-9]+/g, " ")} `;
+    const hit = GAZETTEER.find(([place]) => text.includes(` ${place} `));
+    return hit ? { place: hit[0], lat: hit[1], lng: hit[2], source: "gazetteer" } : null;
+  },
+};
+
+let active: Geocoder = gazetteerGeocoder;
+
+export function setGeocoder(geocoder: Geocoder) {
+  active = geocoder;
+}
+
+export function geocode(address: string) {
+  return active.geocode(address);
+}
+
+// Great-circle distance in kilometres
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
@@ -0,0 +1,108 @@
+// server/src/geo/pincodes.ts
+// Bundled subset of India Post PIN codes for the cities the app serves. Each entry is the
+// head post office's locality with approximate coordinates. Extend as new areas go live.
+
+export interface PincodeEntry {
+  pincode: string;
+  locality: string;
+  city: string;
+  state: string;
+  lat: number;
+  lng: number;
+}
+
+const ENTRIES: Array<[string, string, string, string, number, number]> = [
+  // Pune
+  ["411001", "Camp", "Pune", "Maharashtra", 18.5196, 73.8767],
+  ["411004", "Deccan Gymkhana", "Pune", "Maharashtra", 18.5158, 73.8408],
+  ["411005", "Shivajinagar", "Pune", "Maharashtra", 18.5308, 73.8475],
+  ["411007", "Aundh", "Pune", "Maharashtra", 18.558, 73.8075],
+  ["411014", "Viman Nagar", "Pune", "Maharashtra", 18.5679, 73.9143],
+  ["411028", "Hadapsar", "Pune", "Maharashtra", 18.5089, 73.926],
+  ["411037", "Swargate", "Pune", "Maharashtra", 18.5018, 73.8636],
+  ["411038", "Kothrud", "Pune", "Maharashtra", 18.5074, 73.8077],
+  ["411045", "Baner", "Pune", "Maharashtra", 18.559, 73.7868],
+  ["411057", "Hinjewadi", "Pune", "Maharashtra", 18.5913, 73.7389],
+  ["411001", "Koregaon Park", "Pune", "Maharashtra", 18.5362, 73.8939],
+  ["411014", "Kharadi", "Pune", "Maharashtra", 18.5515, 73.9348],
+  ["411018", "Pimpri", "Pune", "Maharashtra", 18.6298, 73.7997],
+  ["411033", "Chinchwad", "Pune", "Maharashtra", 18.6446, 73.7615],
+  ["411057", "Wakad", "Pune", "Maharashtra", 18.5987, 73.7654],
+  // Mumbai and around
+  ["400001", "Fort", "Mumbai", "Maharashtra", 18.9322, 72.8351],
+  ["400005", "Colaba", "Mumbai", "Maharashtra", 18.9067, 72.8147],
+  ["400014", "Dadar", "Mumbai", "Maharashtra", 19.0178, 72.8478],
+  ["400050", "Bandra", "Mumbai", "Maharashtra", 19.0596, 72.8295],
+  ["400053", "Andheri", "Mumbai", "Maharashtra", 19.1136, 72.8697],
+  ["400066", "Borivali", "Mumbai", "Maharashtra", 19.2307, 72.8567],
+  ["400076", "Powai", "Mumbai", "Maharashtra", 19.1176, 72.906],
+  ["400601", "Thane", "Thane", "Maharashtra", 19.2183, 72.9781],
+  ["400703", "Vashi", "Navi Mumbai", "Maharashtra", 19.0771, 72.9986],
+  // Delhi NCR
+  ["110001", "Connaught Place", "New Delhi", "Delhi", 28.6315, 77.2167],
+  ["110005", "Karol Bagh", "New Delhi", "Delhi", 28.6519, 77.1909],
+  ["110017", "Saket", "New Delhi", "Delhi", 28.5245, 77.2066],
+  ["110075", "Dwarka", "New Delhi", "Delhi", 28.5921, 77.046],
+  ["201301", "Noida", "Noida", "Uttar Pradesh", 28.5355, 77.391],
+  ["122001", "Gurugram", "Gurugram", "Haryana", 28.4595, 77.0266],
+  // Bengaluru
+  ["560001", "Bengaluru GPO", "Bengaluru", "Karnataka", 12.9756, 77.6066],
+  ["560034", "Koramangala", "Bengaluru", "Karnataka", 12.9352, 77.6245],
+  ["560038", "Indiranagar", "Bengaluru", "Karnataka", 12.9719, 77.6412],
+  ["560066", "Whitefield", "Bengaluru", "Karnataka", 12.9698, 77.75],
+  ["560100", "Electronic City", "Bengaluru", "Karnataka", 12.8452, 77.6602],
+  // Other cities
+  ["500001", "Abids", "Hyderabad", "Telangana", 17.385, 78.4867],
+  ["600001", "George Town", "Chennai", "Tamil Nadu", 13.0827, 80.2707],
+  ["700001", "BBD Bagh", "Kolkata", "West Bengal", 22.5726, 88.3639],
+  ["380001", "Bhadra", "Ahmedabad", "Gujarat", 23.0225, 72.5714],
+  ["302001", "MI Road", "Jaipur", "Rajasthan", 26.9124, 75.7873],
+  ["226001", "Hazratganj", "Lucknow", "Uttar Pradesh", 26.8467, 80.9462],
+  ["440001", "Sitabuldi", "Nagpur", "Maharashtra", 21.1458, 79.0882],
+  ["422001", "Nashik Road", "Nashik", "Maharashtra", 19.9975, 73.7898],
+];
+
+export const PINCODES: PincodeEntry[] = ENTRIES.map(([pincode, locality, city, state, lat, lng]) => ({
+  pincode,
+  locality,
+  city,
+  state,
+  lat,
+  lng,
+}));
+
+// Other spellings people use for the same city
+export const CITY_ALIASES: Record<string, string> = {
+  bangalore: "Bengaluru",
+  bombay: "Mumbai",
+  gurgaon: "Gurugram",
+  delhi: "New Delhi",
+  poona: "Pune",
+};
+
+export const INDIAN_STATES = [
+  "Andhra Pradesh", "Arunachal Pradesh", "Assam", "Bihar", "Chhattisgarh", "Goa", "Gujarat", "Haryana",
+  "Himachal Pradesh", "Jharkhand", "Karnataka", "Kerala", "Madhya Pradesh", "Maharashtra", "Manipur",
+  "Meghalaya", "Mizoram", "Nagaland", "Odisha", "Punjab", "Rajasthan", "Sikkim", "Tamil Nadu", "Telangana",
+  "Tripura", "Uttar Pradesh", "Uttarakhand", "West Bengal", "Andaman and Nicobar Islands", "Chandigarh",
+  "Dadra and Nagar Haveli and Daman and Diu", "Delhi", "Jammu and Kashmir", "Ladakh", "Lakshadweep", "Puducherry",
+];
+
+// Entry for a PIN code, preferring the given locality when several share the code
+export function lookupPincode(pincode: string, locality?: string | null): PincodeEntry | null {
+  const matches = PINCODES.filter((p) => p.pincode === pincode);
+  const wanted = locality?.trim().toLowerCase();
+  return matches.find((p) => p.locality.toLowerCase() === wanted) || matches[0] || null;
+}
+
+// Canonical city name, resolving aliases; null when the city is not in the dataset
+export function canonicalCity(name: string): string | null {
+  const key = name.trim().toLowerCase();
+  if (CITY_ALIASES[key]) return CITY_ALIASES[key];
+  return PINCODES.find((p) => p.city.toLowerCase() === key)?.city || null;
+}
+
+export function stateOfCity(city: string): string | null {
+  const canonical = canonicalCity(city);
+  return canonical ? PINCODES.find((p) => p.city === canonical)!.state : null;
+}
@@ -0,0 +1,107 @@
+// server/src/i18n/languages.ts
+// Languages drivers can talk in, their BCP-47 tags, and detecting the language of an utterance.
+
+export const LANGUAGES = ["hinglish", "hi", "en", "mr", "ta", "kn", "bn"] as const;
+export type Language = (typeof LANGUAGES)[number];
+
+// Hindi in Latin script, as most drivers type and as speech recognition often returns it
+export const DEFAULT_LANGUAGE: Language = "hinglish";
+
+// Sent with every reply so the client can pick recognition and synthesis voices
+export const LANGUAGE_TAGS: Record<Language, string> = {
+  hinglish: "hi-Latn-IN",
+  hi: "hi-IN",
+  en: "en-IN",
+  mr: "mr-IN",
+  ta: "ta-IN",
+  kn: "kn-IN",
+  bn: "bn-IN",
+};
+
+// English names, for prompts
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  hinglish: "Hinglish (Hindi written in Latin script)",
+  hi: "Hindi (Devanagari script)",
+  en: "Indian English",
+  mr: "Marathi",
+  ta: "Tamil",
+  kn: "Kannada",
+  bn: "Bengali",
+};
+
+// What a driver calls the language, for spoken confirmations
+export const NATIVE_NAMES: Record<Language, string> = {
+  hinglish: "Hinglish",
+  hi: "हिंदी",
+  en: "English",
+  mr: "मराठी",
+  ta: "தமிழ்",
+  kn: "ಕನ್ನಡ",
+  bn: "বাংলা",
+};
+
+const SCRIPTS: [Language, RegExp][] = [
+  ["hi", /[ऀ-ॿ]/g], // Devanagari, also Marathi
+  ["bn", /[ঀ-৿]/g],
+  ["ta", /[஀-௿]/g],
+  ["kn", /[ಀ-೿]/g],
+];
+
+// Words that only occur in Marathi among the Devanagari languages
+const MARATHI_DEVANAGARI = /(आहे|आहेत|नाही|मला|माझा|माझी|माझे|पाहिजे|आणि|सांगा|करा|किती|काय)/g;
+
+// Marker words in Latin-script utterances. Shared domain words ("order", "pickup") count for none.
+const HINGLISH_WORDS = new Set(
+  ("hai hain tha kya kaise kaisa kab kahan kitna kitni kitne karo karna karein kijiye dijiye batao bolo boliye " +
+    "chahiye mujhe mera meri mere aap aapka aapki hum main mein ka ki ke ko se aur ya nahi nahin haan ji abhi " +
+    "aaj kal wala wale gaya gayi hua ho raha rahi kuch sab bhi par pe kar dekho theek thik acha accha " +
+    "kamaya kharcha hafte mahine sadak rasta raasta saamaan samaan madad sahayata kripya").split(" ")
+);
+const MARATHI_WORDS = new Set("aahe ahe aahet mala majha majhi majhe kiti kasa kashi pahije sanga kara ani aaj kay nahi".split(" "));
+const ENGLISH_WORDS = new Set(
+  ("the is are was what where when how why which my me i you your it this that to of for in on at with " +
+    "please show tell give create cancel track update change list add remove make set today tomorrow " +
+    "yesterday next new and or not no yes can could would should will have has did does").split(" ")
+);
+
+// Language of an utterance, or null when it is too short or mixed to tell (e.g. "411038", "ok")
+export function detectLanguage(text: string): Language | null {
+  let best: [Language, number] | null = null;
+  for (const [language, script] of SCRIPTS) {
+    const count = (text.match(script) || []).length;
+    if (count >= 3 && (!best || count > best[1])) best = [language, count];
+  }
+  if (best) {
+    if (best[0] !== "hi") return best[0];
+    return (text.match(MARATHI_DEVANAGARI) || []).length >= 2 ? "mr" : "hi";
+  }
+
+  const words = text.toLowerCase().match(/[a-z']+/g) || [];
+  let [hinglish, marathi, english] = [0, 0, 0];
+  for (const w of words) {
+    if (HINGLISH_WORDS.has(w)) hinglish++;
+    if (MARATHI_WORDS.has(w)) marathi++;
+    if (ENGLISH_WORDS.has(w)) english++;
+  }
+  // "aaj" and "nahi" are both Hindi and Marathi; Marathi needs more Marathi words than Hindi ones
+  if (marathi >= 2 && marathi > hinglish) return "mr";
+  if (hinglish >= 2 && hinglish * 2 >= english) return "hinglish";
+  if (english >= 2) return "en";
+  return null;
+}
+
+const SPOKEN_NAMES: [RegExp, Language][] = [
+  [/\bhinglish\b/i, "hinglish"],
+  [/\bhindi\b|हिंदी|हिन्दी/i, "hi"],
+  [/\benglish\b|अंग्रेज़ी|अंग्रेजी/i, "en"],
+  [/\bmarathi\b|मराठी/i, "mr"],
+  [/\btamil\b|தமிழ்/i, "ta"],
+  [/\bkannada\b|ಕನ್ನಡ/i, "kn"],
+  [/\b(?:bengali|bangla)\b|বাংলা/i, "bn"],
+];
+
+// The language named in "Tamil mein baat karo" / "speak English"; "auto" to go back to detection
+export function parseLanguageRequest(text: string): Language | "auto" | null {
+  if (/\bauto\b/i.test(text)) return "auto";
+  return SPOKEN_NAMES.find(([name]) => name.test(text))?.[1] ?? null;
+}
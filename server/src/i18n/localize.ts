@@ -0,0 +1,51 @@
+// server/src/i18n/localize.ts
+// The reply pipeline: work out which language a driver wants and bring every reply into it.
+// Catalog replies (see messages.ts) are already localised; anything else is translated when a
+// translator is configured and otherwise sent as written, tagged with the language it is in.
+import Driver from "../models/Driver";
+import { DEFAULT_LANGUAGE, LANGUAGE_TAGS, Language, detectLanguage } from "./languages";
+
+export interface Translator {
+  translate(text: string, to: Language): Promise<string | null>;
+}
+
+let translator: Translator | null = null;
+
+export function setTranslator(next: Translator | null) {
+  translator = next;
+}
+
+export interface LocalizedReply {
+  text: string;
+  language: Language;
+  lang: string; // BCP-47 tag of `text`
+}
+
+// The driver's reply language. With auto-detection on (the default), an utterance clearly in
+// another language switches the preference; short or mixed ones keep it.
+export async function resolveLanguage(driverId: string, text: string): Promise<Language> {
+  const driver = await Driver.findById(driverId);
+  if (!driver) return DEFAULT_LANGUAGE;
+  const detected = driver.languageAuto ? detectLanguage(text) : null;
+  if (detected && detected !== driver.language) {
+    driver.language = detected;
+    await driver.save();
+  }
+  return driver.language;
+}
+
+// `from` is the language the text is known to be in, if any
+export async function localizeReply(text: string, to: Language, from?: Language): Promise<LocalizedReply> {
+  const source = from || detectLanguage(text);
+  if (source === to || !text.trim()) return { text, language: to, lang: LANGUAGE_TAGS[to] };
+  if (translator) {
+    try {
+      const translated = await translator.translate(text, to);
+      if (translated) return { text: translated, language: to, lang: LANGUAGE_TAGS[to] };
+    } catch (err) {
+      console.error("Translation error:", err);
+    }
+  }
+  const language = source || DEFAULT_LANGUAGE;
+  return { text, language, lang: LANGUAGE_TAGS[language] };
+}
@@ -0,0 +1,863 @@
+// server/src/i18n/messages.ts
+// Catalog of the fixed replies in every supported language. `{name}` placeholders are filled
+// from the params; amounts and reasons are passed in already formatted.
+import { DEFAULT_LANGUAGE, Language } from "./languages";
+
+type Catalog = Record<Language, string>;
+
+const MESSAGES = {
+  road_ahead: {
+    hinglish: "Aage sadak thodi kharab hai, kripya dhyaan se chalayein. Agar aapko koi dikkat ho, Sahayata button dabayein.",
+    hi: "आगे सड़क थोड़ी खराब है, कृपया ध्यान से चलाएँ। कोई दिक्कत हो तो सहायता बटन दबाएँ।",
+    en: "The road ahead is a little rough, please drive carefully. If you have any trouble, press the Sahayata button.",
+    mr: "पुढे रस्ता थोडा खराब आहे, कृपया सावकाश चालवा. काही अडचण आली तर सहायता बटण दाबा.",
+    ta: "முன்னால் சாலை கொஞ்சம் மோசமாக உள்ளது, கவனமாக ஓட்டுங்கள். ஏதேனும் சிக்கல் இருந்தால் சஹாயதா பட்டனை அழுத்துங்கள்.",
+    kn: "ಮುಂದೆ ರಸ್ತೆ ಸ್ವಲ್ಪ ಹದಗೆಟ್ಟಿದೆ, ದಯವಿಟ್ಟು ಎಚ್ಚರಿಕೆಯಿಂದ ಓಡಿಸಿ. ಏನಾದರೂ ತೊಂದರೆ ಆದರೆ ಸಹಾಯತಾ ಬಟನ್ ಒತ್ತಿ.",
+    bn: "সামনের রাস্তা একটু খারাপ, সাবধানে চালান। কোনো অসুবিধা হলে সহায়তা বোতাম টিপুন।",
+  },
+  earnings_today: {
+    hinglish: "Aaj aapne ₹{earned} kamaya aur ₹{spent} kharch kiya. Net earning: ₹{net}.",
+    hi: "आज आपने ₹{earned} कमाए और ₹{spent} खर्च किए। कुल बचत: ₹{net}।",
+    en: "Today you earned ₹{earned} and spent ₹{spent}. Net earnings: ₹{net}.",
+    mr: "आज तुम्ही ₹{earned} कमावले आणि ₹{spent} खर्च केले. निव्वळ कमाई: ₹{net}.",
+    ta: "இன்று நீங்கள் ₹{earned} சம்பாதித்தீர்கள், ₹{spent} செலவு செய்தீர்கள். நிகர வருமானம்: ₹{net}.",
+    kn: "ಇಂದು ನೀವು ₹{earned} ಗಳಿಸಿದ್ದೀರಿ ಮತ್ತು ₹{spent} ಖರ್ಚು ಮಾಡಿದ್ದೀರಿ. ನಿವ್ವಳ ಗಳಿಕೆ: ₹{net}.",
+    bn: "আজ আপনি ₹{earned} আয় করেছেন আর ₹{spent} খরচ করেছেন। নিট আয়: ₹{net}।",
+  },
+  penalties: {
+    hinglish: "Aap par penalty lagi hai: {list}.",
+    hi: "आप पर जुर्माना लगा है: {list}।",
+    en: "You have penalties: {list}.",
+    mr: "तुम्हाला दंड लागला आहे: {list}.",
+    ta: "உங்களுக்கு அபராதம் விதிக்கப்பட்டுள்ளது: {list}.",
+    kn: "ನಿಮಗೆ ದಂಡ ವಿಧಿಸಲಾಗಿದೆ: {list}.",
+    bn: "আপনার জরিমানা হয়েছে: {list}।",
+  },
+  no_penalties: {
+    hinglish: "Aap par koi penalty nahi lagi.",
+    hi: "आप पर कोई जुर्माना नहीं लगा।",
+    en: "You have no penalties.",
+    mr: "तुम्हाला कोणताही दंड लागलेला नाही.",
+    ta: "உங்களுக்கு எந்த அபராதமும் இல்லை.",
+    kn: "ನಿಮಗೆ ಯಾವುದೇ ದಂಡ ಇಲ್ಲ.",
+    bn: "আপনার কোনো জরিমানা হয়নি।",
+  },
+  penalty_why: {
+    hinglish: "{date} ko ₹{amount} ki penalty lagi, wajah: {reason}. Galat lage to boliye \"penalty contest karo\".",
+    hi: "{date} को ₹{amount} का जुर्माना लगा, वजह: {reason}। गलत लगे तो कहिए \"penalty contest करो\"।",
+    en: "On {date} you got a ₹{amount} penalty for: {reason}. If it is wrong, say \"contest the penalty\".",
+    mr: "{date} रोजी ₹{amount} दंड लागला, कारण: {reason}. चुकीचा वाटला तर म्हणा \"penalty contest करा\".",
+    ta: "{date} அன்று ₹{amount} அபராதம் விதிக்கப்பட்டது, காரணம்: {reason}. தவறு என்றால் \"penalty contest\" என்று சொல்லுங்கள்.",
+    kn: "{date} ರಂದು ₹{amount} ದಂಡ ವಿಧಿಸಲಾಗಿದೆ, ಕಾರಣ: {reason}. ತಪ್ಪು ಎನಿಸಿದರೆ \"penalty contest\" ಎಂದು ಹೇಳಿ.",
+    bn: "{date} তারিখে ₹{amount} জরিমানা হয়েছে, কারণ: {reason}। ভুল মনে হলে বলুন \"penalty contest করো\"।",
+  },
+  penalty_appeal_raised: {
+    hinglish: "Aapki appeal darj ho gayi: ₹{amount} ki penalty ({reason}). Jaanch ke baad aapko bata denge.",
+    hi: "आपकी अपील दर्ज हो गई: ₹{amount} का जुर्माना ({reason})। जाँच के बाद आपको बता देंगे।",
+    en: "Your appeal is filed: the ₹{amount} penalty ({reason}). We will tell you once it is reviewed.",
+    mr: "तुमची अपील नोंदवली: ₹{amount} दंड ({reason}). तपासणीनंतर तुम्हाला कळवू.",
+    ta: "உங்கள் மேல்முறையீடு பதிவு செய்யப்பட்டது: ₹{amount} அபராதம் ({reason}). பரிசீலித்த பிறகு தெரிவிப்போம்.",
+    kn: "ನಿಮ್ಮ ಮೇಲ್ಮನವಿ ದಾಖಲಾಗಿದೆ: ₹{amount} ದಂಡ ({reason}). ಪರಿಶೀಲನೆಯ ನಂತರ ತಿಳಿಸುತ್ತೇವೆ.",
+    bn: "আপনার আপিল নথিভুক্ত হয়েছে: ₹{amount} জরিমানা ({reason})। যাচাইয়ের পরে জানিয়ে দেব।",
+  },
+  penalty_appeal_pending: {
+    hinglish: "₹{amount} ki penalty ({reason}) par aapki appeal abhi jaanch mein hai.",
+    hi: "₹{amount} के जुर्माने ({reason}) पर आपकी अपील अभी जाँच में है।",
+    en: "Your appeal against the ₹{amount} penalty ({reason}) is still being reviewed.",
+    mr: "₹{amount} दंडावर ({reason}) तुमची अपील अजून तपासली जात आहे.",
+    ta: "₹{amount} அபராதம் ({reason}) மீதான உங்கள் மேல்முறையீடு இன்னும் பரிசீலனையில் உள்ளது.",
+    kn: "₹{amount} ದಂಡದ ({reason}) ಮೇಲಿನ ನಿಮ್ಮ ಮೇಲ್ಮನವಿ ಇನ್ನೂ ಪರಿಶೀಲನೆಯಲ್ಲಿದೆ.",
+    bn: "₹{amount} জরিমানার ({reason}) উপর আপনার আপিল এখনও যাচাই হচ্ছে।",
+  },
+  penalty_appeal_accepted: {
+    hinglish: "₹{amount} ki penalty ({reason}) par aapki appeal maan li gayi, ye aapki kamai se hata di gayi hai.",
+    hi: "₹{amount} के जुर्माने ({reason}) पर आपकी अपील मान ली गई, यह आपकी कमाई से हटा दिया गया है।",
+    en: "Your appeal against the ₹{amount} penalty ({reason}) was accepted and it was removed from your earnings.",
+    mr: "₹{amount} दंडावरची ({reason}) तुमची अपील मान्य झाली, तो तुमच्या कमाईतून काढला आहे.",
+    ta: "₹{amount} அபராதம் ({reason}) மீதான உங்கள் மேல்முறையீடு ஏற்கப்பட்டது, அது உங்கள் வருமானத்திலிருந்து நீக்கப்பட்டது.",
+    kn: "₹{amount} ದಂಡದ ({reason}) ಮೇಲಿನ ನಿಮ್ಮ ಮೇಲ್ಮನವಿ ಅಂಗೀಕಾರವಾಗಿದೆ, ಅದನ್ನು ನಿಮ್ಮ ಗಳಿಕೆಯಿಂದ ತೆಗೆದುಹಾಕಲಾಗಿದೆ.",
+    bn: "₹{amount} জরিমানার ({reason}) উপর আপনার আপিল মেনে নেওয়া হয়েছে, এটা আপনার আয় থেকে বাদ দেওয়া হয়েছে।",
+  },
+  penalty_appeal_rejected: {
+    hinglish: "₹{amount} ki penalty ({reason}) par aapki appeal nahi maani gayi. {note}",
+    hi: "₹{amount} के जुर्माने ({reason}) पर आपकी अपील नहीं मानी गई। {note}",
+    en: "Your appeal against the ₹{amount} penalty ({reason}) was rejected. {note}",
+    mr: "₹{amount} दंडावरची ({reason}) तुमची अपील मान्य झाली नाही. {note}",
+    ta: "₹{amount} அபராதம் ({reason}) மீதான உங்கள் மேல்முறையீடு நிராகரிக்கப்பட்டது. {note}",
+    kn: "₹{amount} ದಂಡದ ({reason}) ಮೇಲಿನ ನಿಮ್ಮ ಮೇಲ್ಮನವಿ ತಿರಸ್ಕೃತವಾಗಿದೆ. {note}",
+    bn: "₹{amount} জরিমানার ({reason}) উপর আপনার আপিল মানা হয়নি। {note}",
+  },
+  growth_up: {
+    hinglish: "Haan, iss hafte aapka business pichle hafte se behtar hai.",
+    hi: "हाँ, इस हफ़्ते आपका काम पिछले हफ़्ते से बेहतर है।",
+    en: "Yes, your business is better this week than last week.",
+    mr: "हो, या आठवड्यात तुमचा व्यवसाय मागच्या आठवड्यापेक्षा चांगला आहे.",
+    ta: "ஆம், இந்த வாரம் உங்கள் வியாபாரம் கடந்த வாரத்தை விட நன்றாக உள்ளது.",
+    kn: "ಹೌದು, ಈ ವಾರ ನಿಮ್ಮ ವ್ಯವಹಾರ ಕಳೆದ ವಾರಕ್ಕಿಂತ ಚೆನ್ನಾಗಿದೆ.",
+    bn: "হ্যাঁ, এই সপ্তাহে আপনার ব্যবসা গত সপ্তাহের চেয়ে ভালো।",
+  },
+  growth_down: {
+    hinglish: "Nahi, iss hafte kamai kam hai.",
+    hi: "नहीं, इस हफ़्ते कमाई कम है।",
+    en: "No, you are earning less this week.",
+    mr: "नाही, या आठवड्यात कमाई कमी आहे.",
+    ta: "இல்லை, இந்த வாரம் வருமானம் குறைவாக உள்ளது.",
+    kn: "ಇಲ್ಲ, ಈ ವಾರ ಗಳಿಕೆ ಕಡಿಮೆ ಇದೆ.",
+    bn: "না, এই সপ্তাহে আয় কম।",
+  },
+  emergency: {
+    hinglish: "Aapne Sahayata button dabaya hai. Kripya shaant rahiye, madad ke liye call kiya ja raha hai.",
+    hi: "आपने सहायता बटन दबाया है। कृपया शांत रहिए, मदद के लिए कॉल किया जा रहा है।",
+    en: "You pressed the Sahayata button. Please stay calm, help is being called.",
+    mr: "तुम्ही सहायता बटण दाबले आहे. कृपया शांत राहा, मदतीसाठी कॉल केला जात आहे.",
+    ta: "நீங்கள் சஹாயதா பட்டனை அழுத்தியுள்ளீர்கள். அமைதியாக இருங்கள், உதவிக்கு அழைக்கப்படுகிறது.",
+    kn: "ನೀವು ಸಹಾಯತಾ ಬಟನ್ ಒತ್ತಿದ್ದೀರಿ. ದಯವಿಟ್ಟು ಶಾಂತವಾಗಿರಿ, ಸಹಾಯಕ್ಕಾಗಿ ಕರೆ ಮಾಡಲಾಗುತ್ತಿದೆ.",
+    bn: "আপনি সহায়তা বোতাম টিপেছেন। শান্ত থাকুন, সাহায্যের জন্য ফোন করা হচ্ছে।",
+  },
+  sos_confirm: {
+    hinglish: "Kya aapko emergency madad chahiye? 'Haan' boliye. Galti se hua ho to 'nahi' boliye. {seconds} second mein jawab na mila to madad bhej denge.",
+    hi: "क्या आपको आपातकालीन मदद चाहिए? 'हाँ' बोलिए। गलती से हुआ हो तो 'नहीं' बोलिए। {seconds} सेकंड में जवाब न मिला तो मदद भेज देंगे।",
+    en: "Do you need emergency help? Say 'yes'. If it was a mistake, say 'no'. If you do not answer within {seconds} seconds, we will send help.",
+    mr: "तुम्हाला तातडीची मदत हवी आहे का? 'हो' म्हणा. चुकून झाले असेल तर 'नाही' म्हणा. {seconds} सेकंदात उत्तर न मिळाल्यास मदत पाठवू.",
+    ta: "உங்களுக்கு அவசர உதவி வேண்டுமா? 'ஆம்' என்று சொல்லுங்கள். தவறுதலாக நடந்திருந்தால் 'இல்லை' என்று சொல்லுங்கள். {seconds} வினாடிகளில் பதில் இல்லையென்றால் உதவி அனுப்புவோம்.",
+    kn: "ನಿಮಗೆ ತುರ್ತು ಸಹಾಯ ಬೇಕೆ? 'ಹೌದು' ಎನ್ನಿ. ತಪ್ಪಾಗಿ ಆಗಿದ್ದರೆ 'ಇಲ್ಲ' ಎನ್ನಿ. {seconds} ಸೆಕೆಂಡುಗಳಲ್ಲಿ ಉತ್ತರ ಬರದಿದ್ದರೆ ಸಹಾಯ ಕಳುಹಿಸುತ್ತೇವೆ.",
+    bn: "আপনার কি জরুরি সাহায্য দরকার? 'হ্যাঁ' বলুন। ভুল করে হলে 'না' বলুন। {seconds} সেকেন্ডের মধ্যে উত্তর না পেলে আমরা সাহায্য পাঠাব।",
+  },
+  sos_cancelled: {
+    hinglish: "Theek hai, emergency alert wapas le liya hai. Dhyaan se chalaiye.",
+    hi: "ठीक है, आपातकालीन अलर्ट वापस ले लिया गया है। ध्यान से चलाइए।",
+    en: "Okay, the emergency alert has been withdrawn. Drive safely.",
+    mr: "ठीक आहे, आपत्कालीन सूचना मागे घेतली आहे. सावकाश चालवा.",
+    ta: "சரி, அவசர எச்சரிக்கை திரும்பப் பெறப்பட்டது. கவனமாக ஓட்டுங்கள்.",
+    kn: "ಸರಿ, ತುರ್ತು ಎಚ್ಚರಿಕೆಯನ್ನು ಹಿಂಪಡೆಯಲಾಗಿದೆ. ಎಚ್ಚರಿಕೆಯಿಂದ ಓಡಿಸಿ.",
+    bn: "ঠিক আছে, জরুরি সতর্কতা ফিরিয়ে নেওয়া হয়েছে। সাবধানে চালান।",
+  },
+  sos_none: {
+    hinglish: "Abhi koi emergency alert chalu nahi hai.",
+    hi: "अभी कोई आपातकालीन अलर्ट चालू नहीं है।",
+    en: "There is no active emergency alert right now.",
+    mr: "सध्या कोणतीही आपत्कालीन सूचना सुरू नाही.",
+    ta: "இப்போது எந்த அவசர எச்சரிக்கையும் செயலில் இல்லை.",
+    kn: "ಈಗ ಯಾವುದೇ ತುರ್ತು ಎಚ್ಚರಿಕೆ ಸಕ್ರಿಯವಾಗಿಲ್ಲ.",
+    bn: "এখন কোনো জরুরি সতর্কতা চালু নেই।",
+  },
+  learning_intro: {
+    hinglish: "{title}. {summary} Isme {total} step hain.",
+    hi: "{title}। {summary} इसमें {total} स्टेप हैं।",
+    en: "{title}. {summary} There are {total} steps.",
+    mr: "{title}. {summary} यात {total} पायऱ्या आहेत.",
+    ta: "{title}. {summary} இதில் {total} படிகள் உள்ளன.",
+    kn: "{title}. {summary} ಇದರಲ್ಲಿ {total} ಹಂತಗಳಿವೆ.",
+    bn: "{title}। {summary} এতে {total}টি ধাপ আছে।",
+  },
+  learning_resume: {
+    hinglish: "Pichli baar aap step {n} tak pahunche the, wahin se aage chalte hain.",
+    hi: "पिछली बार आप स्टेप {n} तक पहुँचे थे, वहीं से आगे चलते हैं।",
+    en: "Last time you got to step {n}, so let's carry on from there.",
+    mr: "मागच्या वेळी तुम्ही पायरी {n} पर्यंत पोहोचला होतात, तिथूनच पुढे जाऊया.",
+    ta: "கடந்த முறை நீங்கள் படி {n} வரை வந்தீர்கள், அங்கிருந்தே தொடரலாம்.",
+    kn: "ಹಿಂದಿನ ಬಾರಿ ನೀವು ಹಂತ {n} ವರೆಗೆ ಬಂದಿದ್ದಿರಿ, ಅಲ್ಲಿಂದಲೇ ಮುಂದುವರಿಯೋಣ.",
+    bn: "গতবার আপনি ধাপ {n} পর্যন্ত এসেছিলেন, সেখান থেকেই এগোই।",
+  },
+  learning_step: {
+    hinglish: "Step {n}/{total}: {text}",
+    hi: "स्टेप {n}/{total}: {text}",
+    en: "Step {n} of {total}: {text}",
+    mr: "पायरी {n}/{total}: {text}",
+    ta: "படி {n}/{total}: {text}",
+    kn: "ಹಂತ {n}/{total}: {text}",
+    bn: "ধাপ {n}/{total}: {text}",
+  },
+  learning_hint: {
+    hinglish: "Aage ke liye 'agla step', dobara sunne ke liye 'phir se bolo' boliye.",
+    hi: "आगे के लिए 'अगला स्टेप', दोबारा सुनने के लिए 'फिर से बोलो' कहिए।",
+    en: "Say 'next' to go on or 'repeat' to hear it again.",
+    mr: "पुढे जाण्यासाठी 'पुढची पायरी', पुन्हा ऐकण्यासाठी 'पुन्हा सांगा' म्हणा.",
+    ta: "அடுத்ததற்கு 'அடுத்தது', மீண்டும் கேட்க 'மறுபடி சொல்லுங்கள்' என்று சொல்லுங்கள்.",
+    kn: "ಮುಂದಕ್ಕೆ 'ಮುಂದಿನ ಹಂತ', ಮತ್ತೆ ಕೇಳಲು 'ಮತ್ತೆ ಹೇಳಿ' ಎಂದು ಹೇಳಿ.",
+    bn: "এগোতে 'পরের ধাপ', আবার শুনতে 'আবার বলো' বলুন।",
+  },
+  learning_done: {
+    hinglish: "Shabaash! Aapne \"{title}\" poora kar liya.",
+    hi: "शाबाश! आपने \"{title}\" पूरा कर लिया।",
+    en: "Well done! You have finished \"{title}\".",
+    mr: "शाब्बास! तुम्ही \"{title}\" पूर्ण केले.",
+    ta: "அருமை! நீங்கள் \"{title}\" முடித்துவிட்டீர்கள்.",
+    kn: "ಶಾಭಾಶ್! ನೀವು \"{title}\" ಪೂರ್ಣಗೊಳಿಸಿದ್ದೀರಿ.",
+    bn: "সাবাশ! আপনি \"{title}\" শেষ করেছেন।",
+  },
+  learning_quiz_intro: {
+    hinglish: "Ab {total} sawal ka chhota quiz.",
+    hi: "अब {total} सवालों का छोटा क्विज़।",
+    en: "Now a short quiz of {total} questions.",
+    mr: "आता {total} प्रश्नांची छोटी प्रश्नमंजुषा.",
+    ta: "இப்போது {total} கேள்விகள் கொண்ட சிறிய வினாடி வினா.",
+    kn: "ಈಗ {total} ಪ್ರಶ್ನೆಗಳ ಸಣ್ಣ ರಸಪ್ರಶ್ನೆ.",
+    bn: "এবার {total}টি প্রশ্নের ছোট কুইজ।",
+  },
+  learning_question: {
+    hinglish: "Sawal {n}/{total}: {question} {options}",
+    hi: "सवाल {n}/{total}: {question} {options}",
+    en: "Question {n} of {total}: {question} {options}",
+    mr: "प्रश्न {n}/{total}: {question} {options}",
+    ta: "கேள்வி {n}/{total}: {question} {options}",
+    kn: "ಪ್ರಶ್ನೆ {n}/{total}: {question} {options}",
+    bn: "প্রশ্ন {n}/{total}: {question} {options}",
+  },
+  learning_answer_hint: {
+    hinglish: "Option ka number boliye, jaise 'pehla' ya '2'.",
+    hi: "विकल्प का नंबर बोलिए, जैसे 'पहला' या '2'।",
+    en: "Say the option's number, like 'first' or '2'.",
+    mr: "पर्यायाचा क्रमांक सांगा, जसे 'पहिला' किंवा '2'.",
+    ta: "விருப்பத்தின் எண்ணைச் சொல்லுங்கள், உதாரணமாக 'முதல்' அல்லது '2'.",
+    kn: "ಆಯ್ಕೆಯ ಸಂಖ್ಯೆ ಹೇಳಿ, ಉದಾಹರಣೆಗೆ 'ಮೊದಲ' ಅಥವಾ '2'.",
+    bn: "বিকল্পের নম্বর বলুন, যেমন 'প্রথম' বা '2'।",
+  },
+  learning_correct: {
+    hinglish: "Sahi jawab!",
+    hi: "सही जवाब!",
+    en: "Correct!",
+    mr: "बरोबर उत्तर!",
+    ta: "சரியான பதில்!",
+    kn: "ಸರಿಯಾದ ಉತ್ತರ!",
+    bn: "সঠিক উত্তর!",
+  },
+  learning_wrong: {
+    hinglish: "Galat. Sahi jawab hai: {answer}.",
+    hi: "गलत। सही जवाब है: {answer}।",
+    en: "Not quite. The right answer is: {answer}.",
+    mr: "चूक. बरोबर उत्तर आहे: {answer}.",
+    ta: "தவறு. சரியான பதில்: {answer}.",
+    kn: "ತಪ್ಪು. ಸರಿಯಾದ ಉತ್ತರ: {answer}.",
+    bn: "ভুল। সঠিক উত্তর: {answer}।",
+  },
+  learning_quiz_passed: {
+    hinglish: "Aapka score {score}% hai. Shabaash, aapne \"{title}\" poora kar liya!",
+    hi: "आपका स्कोर {score}% है। शाबाश, आपने \"{title}\" पूरा कर लिया!",
+    en: "You scored {score}%. Well done, you have finished \"{title}\"!",
+    mr: "तुमचा स्कोअर {score}% आहे. शाब्बास, तुम्ही \"{title}\" पूर्ण केले!",
+    ta: "உங்கள் மதிப்பெண் {score}%. அருமை, நீங்கள் \"{title}\" முடித்துவிட்டீர்கள்!",
+    kn: "ನಿಮ್ಮ ಅಂಕ {score}%. ಶಾಭಾಶ್, ನೀವು \"{title}\" ಪೂರ್ಣಗೊಳಿಸಿದ್ದೀರಿ!",
+    bn: "আপনার স্কোর {score}%। সাবাশ, আপনি \"{title}\" শেষ করেছেন!",
+  },
+  learning_quiz_failed: {
+    hinglish: "Aapka score {score}% hai, paas hone ke liye {pass}% chahiye. Topic ka naam lekar quiz dobara dijiye.",
+    hi: "आपका स्कोर {score}% है, पास होने के लिए {pass}% चाहिए। विषय का नाम लेकर क्विज़ दोबारा दीजिए।",
+    en: "You scored {score}%; {pass}% is needed to pass. Say the topic's name to take the quiz again.",
+    mr: "तुमचा स्कोअर {score}% आहे, उत्तीर्ण होण्यासाठी {pass}% हवेत. विषयाचे नाव घेऊन प्रश्नमंजुषा पुन्हा द्या.",
+    ta: "உங்கள் மதிப்பெண் {score}%, தேர்ச்சிக்கு {pass}% வேண்டும். தலைப்பின் பெயரைச் சொல்லி மீண்டும் முயலுங்கள்.",
+    kn: "ನಿಮ್ಮ ಅಂಕ {score}%, ಪಾಸಾಗಲು {pass}% ಬೇಕು. ವಿಷಯದ ಹೆಸರು ಹೇಳಿ ರಸಪ್ರಶ್ನೆಯನ್ನು ಮತ್ತೆ ಬರೆಯಿರಿ.",
+    bn: "আপনার স্কোর {score}%, পাস করতে {pass}% লাগবে। বিষয়ের নাম বলে আবার কুইজ দিন।",
+  },
+  learning_badge: {
+    hinglish: "Aapko \"{badge}\" badge mila.",
+    hi: "आपको \"{badge}\" बैज मिला।",
+    en: "You earned the \"{badge}\" badge.",
+    mr: "तुम्हाला \"{badge}\" बॅज मिळाला.",
+    ta: "உங்களுக்கு \"{badge}\" பதக்கம் கிடைத்தது.",
+    kn: "ನಿಮಗೆ \"{badge}\" ಬ್ಯಾಡ್ಜ್ ಸಿಕ್ಕಿದೆ.",
+    bn: "আপনি \"{badge}\" ব্যাজ পেয়েছেন।",
+  },
+  learning_reward: {
+    hinglish: "₹{amount} ka reward aapki kamai mein jod diya gaya.",
+    hi: "₹{amount} का इनाम आपकी कमाई में जोड़ दिया गया।",
+    en: "A ₹{amount} reward has been added to your earnings.",
+    mr: "₹{amount} चे बक्षीस तुमच्या कमाईत जोडले आहे.",
+    ta: "₹{amount} வெகுமதி உங்கள் வருமானத்தில் சேர்க்கப்பட்டது.",
+    kn: "₹{amount} ಬಹುಮಾನವನ್ನು ನಿಮ್ಮ ಗಳಿಕೆಗೆ ಸೇರಿಸಲಾಗಿದೆ.",
+    bn: "₹{amount} পুরস্কার আপনার আয়ে যোগ করা হয়েছে।",
+  },
+  learning_certificate: {
+    hinglish: "Aapka certificate number {id} hai.",
+    hi: "आपका प्रमाणपत्र नंबर {id} है।",
+    en: "Your certificate number is {id}.",
+    mr: "तुमचा प्रमाणपत्र क्रमांक {id} आहे.",
+    ta: "உங்கள் சான்றிதழ் எண் {id}.",
+    kn: "ನಿಮ್ಮ ಪ್ರಮಾಣಪತ್ರ ಸಂಖ್ಯೆ {id}.",
+    bn: "আপনার সার্টিফিকেট নম্বর {id}।",
+  },
+  learning_paused: {
+    hinglish: "Theek hai, yahin rokte hain. Baad mein topic ka naam lenge to wahin se aage badhenge.",
+    hi: "ठीक है, यहीं रोकते हैं। बाद में विषय का नाम लेंगे तो वहीं से आगे बढ़ेंगे।",
+    en: "Okay, let's stop here. Say the topic's name later to pick up where you left off.",
+    mr: "ठीक आहे, इथेच थांबूया. नंतर विषयाचे नाव घेतल्यावर तिथूनच पुढे जाऊ.",
+    ta: "சரி, இங்கே நிறுத்தலாம். பிறகு தலைப்பின் பெயரைச் சொன்னால் அங்கிருந்தே தொடரலாம்.",
+    kn: "ಸರಿ, ಇಲ್ಲೇ ನಿಲ್ಲಿಸೋಣ. ನಂತರ ವಿಷಯದ ಹೆಸರು ಹೇಳಿದರೆ ಅಲ್ಲಿಂದಲೇ ಮುಂದುವರಿಯೋಣ.",
+    bn: "ঠিক আছে, এখানেই থামি। পরে বিষয়ের নাম বললে সেখান থেকেই এগোব।",
+  },
+  learning_topics: {
+    hinglish: "Kis topic par seekhna hai? {list}.",
+    hi: "किस विषय पर सीखना है? {list}।",
+    en: "Which topic would you like to learn about? {list}.",
+    mr: "कोणत्या विषयावर शिकायचे आहे? {list}.",
+    ta: "எந்தத் தலைப்பில் கற்க விரும்புகிறீர்கள்? {list}.",
+    kn: "ಯಾವ ವಿಷಯದ ಬಗ್ಗೆ ಕಲಿಯಬೇಕು? {list}.",
+    bn: "কোন বিষয়ে শিখতে চান? {list}।",
+  },
+  learning_none: {
+    hinglish: "Abhi seekhne ke liye koi topic nahi hai.",
+    hi: "अभी सीखने के लिए कोई विषय नहीं है।",
+    en: "There are no topics to learn right now.",
+    mr: "सध्या शिकण्यासाठी कोणताही विषय नाही.",
+    ta: "இப்போது கற்க எந்தத் தலைப்பும் இல்லை.",
+    kn: "ಸದ್ಯ ಕಲಿಯಲು ಯಾವುದೇ ವಿಷಯವಿಲ್ಲ.",
+    bn: "এখন শেখার মতো কোনো বিষয় নেই।",
+  },
+  ask_again: {
+    hinglish: "Maaf kijiye, main aapki madad ke liye yahan hoon. Kripya apna sawaal dobara poochhein.",
+    hi: "माफ़ कीजिए, मैं आपकी मदद के लिए यहाँ हूँ। कृपया अपना सवाल दोबारा पूछिए।",
+    en: "Sorry, I'm here to help. Please ask your question again.",
+    mr: "माफ करा, मी तुमच्या मदतीसाठी इथे आहे. कृपया तुमचा प्रश्न पुन्हा विचारा.",
+    ta: "மன்னிக்கவும், உங்களுக்கு உதவ நான் இங்கே இருக்கிறேன். உங்கள் கேள்வியை மீண்டும் கேளுங்கள்.",
+    kn: "ಕ್ಷಮಿಸಿ, ನಿಮಗೆ ಸಹಾಯ ಮಾಡಲು ನಾನು ಇಲ್ಲಿದ್ದೇನೆ. ದಯವಿಟ್ಟು ನಿಮ್ಮ ಪ್ರಶ್ನೆಯನ್ನು ಮತ್ತೆ ಕೇಳಿ.",
+    bn: "দুঃখিত, আমি আপনাকে সাহায্য করতে এখানে আছি। অনুগ্রহ করে আপনার প্রশ্নটি আবার করুন।",
+  },
+  not_understood: {
+    hinglish: "Maaf kijiye, abhi yeh samajh nahi paaya.",
+    hi: "माफ़ कीजिए, अभी यह समझ नहीं पाया।",
+    en: "Sorry, I couldn't process that right now.",
+    mr: "माफ करा, आत्ता हे समजू शकलो नाही.",
+    ta: "மன்னிக்கவும், இப்போது இதைப் புரிந்துகொள்ள முடியவில்லை.",
+    kn: "ಕ್ಷಮಿಸಿ, ಈಗ ಇದನ್ನು ಅರ್ಥಮಾಡಿಕೊಳ್ಳಲು ಆಗಲಿಲ್ಲ.",
+    bn: "দুঃখিত, এখন এটা বুঝতে পারলাম না।",
+  },
+  not_understood_offline: {
+    hinglish: "Maaf kijiye, yeh samajh nahi paaya. Aise boliye: {examples}.",
+    hi: "माफ़ कीजिए, यह समझ नहीं पाया। ऐसे बोलिए: {examples}।",
+    en: "Sorry, I didn't understand that. Try saying: {examples}.",
+    mr: "माफ करा, हे समजले नाही. असे बोला: {examples}.",
+    ta: "மன்னிக்கவும், இது புரியவில்லை. இப்படிச் சொல்லுங்கள்: {examples}.",
+    kn: "ಕ್ಷಮಿಸಿ, ಇದು ಅರ್ಥವಾಗಲಿಲ್ಲ. ಹೀಗೆ ಹೇಳಿ: {examples}.",
+    bn: "দুঃখিত, এটা বুঝতে পারলাম না। এভাবে বলুন: {examples}।",
+  },
+  language_set: {
+    hinglish: "Theek hai, ab main {name} mein baat karunga.",
+    hi: "ठीक है, अब मैं {name} में बात करूँगा।",
+    en: "Okay, I will speak {name} from now on.",
+    mr: "ठीक आहे, आता मी {name} मध्ये बोलेन.",
+    ta: "சரி, இனி நான் {name} மொழியில் பேசுவேன்.",
+    kn: "ಸರಿ, ಇನ್ನು ಮುಂದೆ ನಾನು {name} ಭಾಷೆಯಲ್ಲಿ ಮಾತನಾಡುತ್ತೇನೆ.",
+    bn: "ঠিক আছে, এখন থেকে আমি {name}-এ কথা বলব।",
+  },
+  language_auto: {
+    hinglish: "Theek hai, aap jis bhasha mein bolenge, main usi mein jawab dunga.",
+    hi: "ठीक है, आप जिस भाषा में बोलेंगे, मैं उसी में जवाब दूँगा।",
+    en: "Okay, I will reply in whichever language you speak.",
+    mr: "ठीक आहे, तुम्ही ज्या भाषेत बोलाल, त्याच भाषेत मी उत्तर देईन.",
+    ta: "சரி, நீங்கள் எந்த மொழியில் பேசுகிறீர்களோ அதே மொழியில் பதில் சொல்வேன்.",
+    kn: "ಸರಿ, ನೀವು ಯಾವ ಭಾಷೆಯಲ್ಲಿ ಮಾತನಾಡುತ್ತೀರೋ ಅದೇ ಭಾಷೆಯಲ್ಲಿ ಉತ್ತರಿಸುತ್ತೇನೆ.",
+    bn: "ঠিক আছে, আপনি যে ভাষায় বলবেন, আমি সেই ভাষাতেই উত্তর দেব।",
+  },
+  no_orders_waiting: {
+    hinglish: "Abhi koi naya order nahi hai. Naya order aate hi bata dunga.",
+    hi: "अभी कोई नया ऑर्डर नहीं है। नया ऑर्डर आते ही बता दूँगा।",
+    en: "There are no new orders right now. I will tell you as soon as one comes in.",
+    mr: "सध्या कोणतीही नवीन ऑर्डर नाही. नवीन ऑर्डर येताच सांगेन.",
+    ta: "இப்போது புதிய ஆர்டர் எதுவும் இல்லை. புதிய ஆர்டர் வந்தவுடன் சொல்கிறேன்.",
+    kn: "ಸದ್ಯ ಯಾವುದೇ ಹೊಸ ಆರ್ಡರ್ ಇಲ್ಲ. ಹೊಸ ಆರ್ಡರ್ ಬಂದ ತಕ್ಷಣ ತಿಳಿಸುತ್ತೇನೆ.",
+    bn: "এখন কোনো নতুন অর্ডার নেই। নতুন অর্ডার এলেই জানাব।",
+  },
+  order_handed: {
+    hinglish: "Naya order: {order}.{pickup} Tracking ID {trackingId}.",
+    hi: "नया ऑर्डर: {order}।{pickup} ट्रैकिंग आईडी {trackingId}।",
+    en: "New order: {order}.{pickup} Tracking ID {trackingId}.",
+    mr: "नवीन ऑर्डर: {order}.{pickup} ट्रॅकिंग आयडी {trackingId}.",
+    ta: "புதிய ஆர்டர்: {order}.{pickup} டிராக்கிங் ஐடி {trackingId}.",
+    kn: "ಹೊಸ ಆರ್ಡರ್: {order}.{pickup} ಟ್ರ್ಯಾಕಿಂಗ್ ಐಡಿ {trackingId}.",
+    bn: "নতুন অর্ডার: {order}।{pickup} ট্র্যাকিং আইডি {trackingId}।",
+  },
+  pickup_at: {
+    hinglish: "Pickup {time}.",
+    hi: "पिकअप {time}।",
+    en: "Pickup at {time}.",
+    mr: "पिकअप {time}.",
+    ta: "பிக்அப் {time}.",
+    kn: "ಪಿಕಪ್ {time}.",
+    bn: "পিকআপ {time}।",
+  },
+  next_pickup: {
+    hinglish: "Agla pickup: {order}. Tracking ID {trackingId}.",
+    hi: "अगला पिकअप: {order}। ट्रैकिंग आईडी {trackingId}।",
+    en: "Next pickup: {order}. Tracking ID {trackingId}.",
+    mr: "पुढील पिकअप: {order}. ट्रॅकिंग आयडी {trackingId}.",
+    ta: "அடுத்த பிக்அப்: {order}. டிராக்கிங் ஐடி {trackingId}.",
+    kn: "ಮುಂದಿನ ಪಿಕಪ್: {order}. ಟ್ರ್ಯಾಕಿಂಗ್ ಐಡಿ {trackingId}.",
+    bn: "পরের পিকআপ: {order}। ট্র্যাকিং আইডি {trackingId}।",
+  },
+  address_not_set: {
+    hinglish: "address nahi diya",
+    hi: "पता नहीं दिया",
+    en: "address not set",
+    mr: "पत्ता दिलेला नाही",
+    ta: "முகவரி இல்லை",
+    kn: "ವಿಳಾಸ ಇಲ್ಲ",
+    bn: "ঠিকানা দেওয়া নেই",
+  },
+  no_offer: {
+    hinglish: "Aapke liye koi order offer pe nahi hai.",
+    hi: "आपके लिए कोई ऑर्डर ऑफ़र पर नहीं है।",
+    en: "There is no order offered to you.",
+    mr: "तुमच्यासाठी कोणतीही ऑर्डर ऑफरवर नाही.",
+    ta: "உங்களுக்கு எந்த ஆர்டரும் வழங்கப்படவில்லை.",
+    kn: "ನಿಮಗೆ ಯಾವುದೇ ಆರ್ಡರ್ ನೀಡಲಾಗಿಲ್ಲ.",
+    bn: "আপনার জন্য কোনো অর্ডার অফারে নেই।",
+  },
+  order_accepted: {
+    hinglish: "Order {trackingId} accept ho gaya. Pickup: {address}.",
+    hi: "ऑर्डर {trackingId} स्वीकार हो गया। पिकअप: {address}।",
+    en: "Order {trackingId} accepted. Pickup: {address}.",
+    mr: "ऑर्डर {trackingId} स्वीकारली. पिकअप: {address}.",
+    ta: "ஆர்டர் {trackingId} ஏற்றுக்கொள்ளப்பட்டது. பிக்அப்: {address}.",
+    kn: "ಆರ್ಡರ್ {trackingId} ಸ್ವೀಕರಿಸಲಾಗಿದೆ. ಪಿಕಪ್: {address}.",
+    bn: "অর্ডার {trackingId} গ্রহণ করা হয়েছে। পিকআপ: {address}।",
+  },
+  order_rejected: {
+    hinglish: "Theek hai, order {trackingId} kisi aur driver ko de diya jayega.",
+    hi: "ठीक है, ऑर्डर {trackingId} किसी और ड्राइवर को दे दिया जाएगा।",
+    en: "Okay, order {trackingId} will go to another driver.",
+    mr: "ठीक आहे, ऑर्डर {trackingId} दुसऱ्या ड्रायव्हरला दिली जाईल.",
+    ta: "சரி, ஆர்டர் {trackingId} வேறு ஓட்டுநருக்கு வழங்கப்படும்.",
+    kn: "ಸರಿ, ಆರ್ಡರ್ {trackingId} ಬೇರೆ ಚಾಲಕರಿಗೆ ನೀಡಲಾಗುತ್ತದೆ.",
+    bn: "ঠিক আছে, অর্ডার {trackingId} অন্য ড্রাইভারকে দেওয়া হবে।",
+  },
+  order_not_found: {
+    hinglish: "Order {trackingId} nahi mila.",
+    hi: "ऑर्डर {trackingId} नहीं मिला।",
+    en: "I couldn't find order {trackingId}.",
+    mr: "ऑर्डर {trackingId} सापडली नाही.",
+    ta: "ஆர்டர் {trackingId} கிடைக்கவில்லை.",
+    kn: "ಆರ್ಡರ್ {trackingId} ಸಿಗಲಿಲ್ಲ.",
+    bn: "অর্ডার {trackingId} পাওয়া যায়নি।",
+  },
+  reminder_set: {
+    hinglish: "Theek hai, {at} par yaad dila dunga: {text}",
+    hi: "ठीक है, {at} पर याद दिला दूँगा: {text}",
+    en: "Okay, I will remind you at {at}: {text}",
+    mr: "ठीक आहे, {at} ला आठवण करून देईन: {text}",
+    ta: "சரி, {at} மணிக்கு நினைவூட்டுகிறேன்: {text}",
+    kn: "ಸರಿ, {at} ಕ್ಕೆ ನೆನಪಿಸುತ್ತೇನೆ: {text}",
+    bn: "ঠিক আছে, {at}-এ মনে করিয়ে দেব: {text}",
+  },
+  order_details: {
+    hinglish: "Order {trackingId}: customer {customer}, saamaan {item}, address {address}, status: {status}.",
+    hi: "ऑर्डर {trackingId}: ग्राहक {customer}, सामान {item}, पता {address}, स्थिति: {status}।",
+    en: "Order {trackingId}: customer {customer}, item {item}, address {address}, status: {status}.",
+    mr: "ऑर्डर {trackingId}: ग्राहक {customer}, सामान {item}, पत्ता {address}, स्थिती: {status}.",
+    ta: "ஆர்டர் {trackingId}: வாடிக்கையாளர் {customer}, பொருள் {item}, முகவரி {address}, நிலை: {status}.",
+    kn: "ಆರ್ಡರ್ {trackingId}: ಗ್ರಾಹಕ {customer}, ಸಾಮಾನು {item}, ವಿಳಾಸ {address}, ಸ್ಥಿತಿ: {status}.",
+    bn: "অর্ডার {trackingId}: গ্রাহক {customer}, জিনিস {item}, ঠিকানা {address}, অবস্থা: {status}।",
+  },
+  no_upcoming_pickups: {
+    hinglish: "Aapka koi pickup baaki nahi hai.",
+    hi: "आपका कोई पिकअप बाकी नहीं है।",
+    en: "You have no upcoming pickups.",
+    mr: "तुमचा कोणताही पिकअप बाकी नाही.",
+    ta: "உங்களுக்கு வரவிருக்கும் பிக்அப் எதுவும் இல்லை.",
+    kn: "ನಿಮಗೆ ಮುಂದಿನ ಯಾವುದೇ ಪಿಕಪ್ ಇಲ್ಲ.",
+    bn: "আপনার কোনো পিকআপ বাকি নেই।",
+  },
+  no_pickups_today: {
+    hinglish: "Aaj ke liye koi pickup nahi hai.",
+    hi: "आज के लिए कोई पिकअप नहीं है।",
+    en: "You have no pickups today.",
+    mr: "आज कोणताही पिकअप नाही.",
+    ta: "இன்று பிக்அப் எதுவும் இல்லை.",
+    kn: "ಇಂದು ಯಾವುದೇ ಪಿಕಪ್ ಇಲ್ಲ.",
+    bn: "আজ কোনো পিকআপ নেই।",
+  },
+  route_plan: {
+    hinglish: "Aaj ke {count} stops, lagbhag {km} km:\n{stops}",
+    hi: "आज के {count} स्टॉप, लगभग {km} किमी:\n{stops}",
+    en: "Today's {count} stops, about {km} km:\n{stops}",
+    mr: "आजचे {count} स्टॉप, सुमारे {km} किमी:\n{stops}",
+    ta: "இன்றைய {count} நிறுத்தங்கள், சுமார் {km} கி.மீ:\n{stops}",
+    kn: "ಇಂದಿನ {count} ನಿಲ್ದಾಣಗಳು, ಸುಮಾರು {km} ಕಿ.ಮೀ:\n{stops}",
+    bn: "আজকের {count}টি স্টপ, প্রায় {km} কিমি:\n{stops}",
+  },
+  route_late: {
+    hinglish: "({minutes} min late)",
+    hi: "({minutes} मिनट देर)",
+    en: "({minutes} min late)",
+    mr: "({minutes} मिनिटे उशीर)",
+    ta: "({minutes} நிமிடம் தாமதம்)",
+    kn: "({minutes} ನಿಮಿಷ ತಡ)",
+    bn: "({minutes} মিনিট দেরি)",
+  },
+  route_unlocated: {
+    hinglish: "Address nahi mila: {order}",
+    hi: "पता नहीं मिला: {order}",
+    en: "Address not found: {order}",
+    mr: "पत्ता सापडला नाही: {order}",
+    ta: "முகவரி கிடைக்கவில்லை: {order}",
+    kn: "ವಿಳಾಸ ಸಿಗಲಿಲ್ಲ: {order}",
+    bn: "ঠিকানা পাওয়া যায়নি: {order}",
+  },
+  orders_listed: {
+    hinglish: "Aapke {count} orders dikha raha hoon.",
+    hi: "आपके {count} ऑर्डर दिखा रहा हूँ।",
+    en: "Showing {count} of your orders.",
+    mr: "तुमच्या {count} ऑर्डर दाखवत आहे.",
+    ta: "உங்கள் {count} ஆர்டர்களைக் காட்டுகிறேன்.",
+    kn: "ನಿಮ್ಮ {count} ಆರ್ಡರ್‌ಗಳನ್ನು ತೋರಿಸುತ್ತಿದ್ದೇನೆ.",
+    bn: "আপনার {count}টি অর্ডার দেখাচ্ছি।",
+  },
+  orders_listed_recent: {
+    hinglish: "Aapke sabse naye {count} orders dikha raha hoon.",
+    hi: "आपके सबसे नए {count} ऑर्डर दिखा रहा हूँ।",
+    en: "Showing {count} of your most recent orders.",
+    mr: "तुमच्या सर्वात नवीन {count} ऑर्डर दाखवत आहे.",
+    ta: "உங்கள் சமீபத்திய {count} ஆர்டர்களைக் காட்டுகிறேன்.",
+    kn: "ನಿಮ್ಮ ಇತ್ತೀಚಿನ {count} ಆರ್ಡರ್‌ಗಳನ್ನು ತೋರಿಸುತ್ತಿದ್ದೇನೆ.",
+    bn: "আপনার সাম্প্রতিক {count}টি অর্ডার দেখাচ্ছি।",
+  },
+  no_orders_found: {
+    hinglish: "Koi order nahi mila.",
+    hi: "कोई ऑर्डर नहीं मिला।",
+    en: "No orders found.",
+    mr: "कोणतीही ऑर्डर सापडली नाही.",
+    ta: "எந்த ஆர்டரும் கிடைக்கவில்லை.",
+    kn: "ಯಾವುದೇ ಆರ್ಡರ್ ಸಿಗಲಿಲ್ಲ.",
+    bn: "কোনো অর্ডার পাওয়া যায়নি।",
+  },
+  ask_cancel_order_id: {
+    hinglish: "Kaunsa order cancel karna hai? Tracking ID boliye (jaise 'ORD-abc123 cancel kar do').",
+    hi: "कौन सा ऑर्डर रद्द करना है? ट्रैकिंग आईडी बोलिए (जैसे 'ORD-abc123 cancel कर दो')।",
+    en: "Which order should I cancel? Say its tracking ID (e.g., 'Cancel order ORD-abc123').",
+    mr: "कोणती ऑर्डर रद्द करायची? ट्रॅकिंग आयडी सांगा (उदा. 'ORD-abc123 cancel करा').",
+    ta: "எந்த ஆர்டரை ரத்து செய்ய வேண்டும்? டிராக்கிங் ஐடியைச் சொல்லுங்கள் (எ.கா. 'Cancel order ORD-abc123').",
+    kn: "ಯಾವ ಆರ್ಡರ್ ರದ್ದು ಮಾಡಬೇಕು? ಟ್ರ್ಯಾಕಿಂಗ್ ಐಡಿ ಹೇಳಿ (ಉದಾ. 'Cancel order ORD-abc123').",
+    bn: "কোন অর্ডার বাতিল করব? ট্র্যাকিং আইডি বলুন (যেমন 'Cancel order ORD-abc123')।",
+  },
+  order_cancel_done: {
+    hinglish: "Order {trackingId} cancel ho gaya.",
+    hi: "ऑर्डर {trackingId} रद्द हो गया।",
+    en: "Order {trackingId} cancelled.",
+    mr: "ऑर्डर {trackingId} रद्द झाली.",
+    ta: "ஆர்டர் {trackingId} ரத்து செய்யப்பட்டது.",
+    kn: "ಆರ್ಡರ್ {trackingId} ರದ್ದಾಗಿದೆ.",
+    bn: "অর্ডার {trackingId} বাতিল হয়েছে।",
+  },
+  ask_order_changes: {
+    hinglish: "Order {trackingId} mein kya badalna hai? Quantity, item, pickup time, assignee ya status boliye.",
+    hi: "ऑर्डर {trackingId} में क्या बदलना है? मात्रा, सामान, पिकअप का समय, ड्राइवर या स्थिति बोलिए।",
+    en: "What should change on order {trackingId}? Say the quantity, item, pickup time, assignee or status.",
+    mr: "ऑर्डर {trackingId} मध्ये काय बदलायचे? संख्या, सामान, पिकअपची वेळ, ड्रायव्हर किंवा स्थिती सांगा.",
+    ta: "ஆர்டர் {trackingId}-இல் என்ன மாற்ற வேண்டும்? அளவு, பொருள், பிக்அப் நேரம், ஓட்டுநர் அல்லது நிலையைச் சொல்லுங்கள்.",
+    kn: "ಆರ್ಡರ್ {trackingId} ನಲ್ಲಿ ಏನು ಬದಲಾಯಿಸಬೇಕು? ಪ್ರಮಾಣ, ಸಾಮಾನು, ಪಿಕಪ್ ಸಮಯ, ಚಾಲಕ ಅಥವಾ ಸ್ಥಿತಿ ಹೇಳಿ.",
+    bn: "অর্ডার {trackingId}-এ কী বদলাতে হবে? পরিমাণ, জিনিস, পিকআপের সময়, ড্রাইভার বা অবস্থা বলুন।",
+  },
+  ask_edit_order_id: {
+    hinglish: "Kaunsa order? Tracking ID boliye (jaise 'ORD-abc123 quantity 5 kar do').",
+    hi: "कौन सा ऑर्डर? ट्रैकिंग आईडी बोलिए (जैसे 'ORD-abc123 quantity 5 कर दो')।",
+    en: "Which order? Say its tracking ID (e.g., 'Change order ORD-abc123 quantity to 5').",
+    mr: "कोणती ऑर्डर? ट्रॅकिंग आयडी सांगा (उदा. 'ORD-abc123 quantity 5 करा').",
+    ta: "எந்த ஆர்டர்? டிராக்கிங் ஐடியைச் சொல்லுங்கள் (எ.கா. 'Change order ORD-abc123 quantity to 5').",
+    kn: "ಯಾವ ಆರ್ಡರ್? ಟ್ರ್ಯಾಕಿಂಗ್ ಐಡಿ ಹೇಳಿ (ಉದಾ. 'Change order ORD-abc123 quantity to 5').",
+    bn: "কোন অর্ডার? ট্র্যাকিং আইডি বলুন (যেমন 'Change order ORD-abc123 quantity to 5')।",
+  },
+  order_updated: {
+    hinglish: "Order {trackingId} badal gaya: {changes}.",
+    hi: "ऑर्डर {trackingId} बदल गया: {changes}।",
+    en: "Order {trackingId} updated: {changes}.",
+    mr: "ऑर्डर {trackingId} बदलली: {changes}.",
+    ta: "ஆர்டர் {trackingId} மாற்றப்பட்டது: {changes}.",
+    kn: "ಆರ್ಡರ್ {trackingId} ಬದಲಾಗಿದೆ: {changes}.",
+    bn: "অর্ডার {trackingId} বদলানো হয়েছে: {changes}।",
+  },
+  order_unchanged: {
+    hinglish: "Order {trackingId} mein pehle se yehi hai, kuch nahi badla.",
+    hi: "ऑर्डर {trackingId} में पहले से यही है, कुछ नहीं बदला।",
+    en: "Order {trackingId} already has that, nothing changed.",
+    mr: "ऑर्डर {trackingId} मध्ये आधीपासून हेच आहे, काहीही बदलले नाही.",
+    ta: "ஆர்டர் {trackingId}-இல் ஏற்கனவே இதுதான் உள்ளது, எதுவும் மாறவில்லை.",
+    kn: "ಆರ್ಡರ್ {trackingId} ನಲ್ಲಿ ಈಗಾಗಲೇ ಇದೇ ಇದೆ, ಏನೂ ಬದಲಾಗಿಲ್ಲ.",
+    bn: "অর্ডার {trackingId}-এ আগে থেকেই এটাই আছে, কিছু বদলায়নি।",
+  },
+  ask_address_order_id: {
+    hinglish: "Kis order ka address badalna hai? Tracking ID boliye (jaise 'Update address of order ORD-abc123 Pune').",
+    hi: "किस ऑर्डर का पता बदलना है? ट्रैकिंग आईडी बोलिए (जैसे 'Update address of order ORD-abc123 Pune')।",
+    en: "Which order's address should I update? Say its tracking ID (e.g., 'Update address of order ORD-abc123 Pune').",
+    mr: "कोणत्या ऑर्डरचा पत्ता बदलायचा? ट्रॅकिंग आयडी सांगा (उदा. 'Update address of order ORD-abc123 Pune').",
+    ta: "எந்த ஆர்டரின் முகவரியை மாற்ற வேண்டும்? டிராக்கிங் ஐடியைச் சொல்லுங்கள் (எ.கா. 'Update address of order ORD-abc123 Pune').",
+    kn: "ಯಾವ ಆರ್ಡರ್‌ನ ವಿಳಾಸ ಬದಲಾಯಿಸಬೇಕು? ಟ್ರ್ಯಾಕಿಂಗ್ ಐಡಿ ಹೇಳಿ (ಉದಾ. 'Update address of order ORD-abc123 Pune').",
+    bn: "কোন অর্ডারের ঠিকানা বদলাতে হবে? ট্র্যাকিং আইডি বলুন (যেমন 'Update address of order ORD-abc123 Pune')।",
+  },
+  ask_new_address: {
+    hinglish: "Order ID ke baad naya address boliye (jaise 'Update address of order {trackingId} to Flat 12, Kothrud, Pune 411038').",
+    hi: "ऑर्डर आईडी के बाद नया पता बोलिए (जैसे 'Update address of order {trackingId} to Flat 12, Kothrud, Pune 411038')।",
+    en: "Say the new address after the order ID (e.g., 'Update address of order {trackingId} to Flat 12, Kothrud, Pune 411038').",
+    mr: "ऑर्डर आयडीनंतर नवीन पत्ता सांगा (उदा. 'Update address of order {trackingId} to Flat 12, Kothrud, Pune 411038').",
+    ta: "ஆர்டர் ஐடிக்குப் பிறகு புதிய முகவரியைச் சொல்லுங்கள் (எ.கா. 'Update address of order {trackingId} to Flat 12, Kothrud, Pune 411038').",
+    kn: "ಆರ್ಡರ್ ಐಡಿಯ ನಂತರ ಹೊಸ ವಿಳಾಸ ಹೇಳಿ (ಉದಾ. 'Update address of order {trackingId} to Flat 12, Kothrud, Pune 411038').",
+    bn: "অর্ডার আইডির পরে নতুন ঠিকানা বলুন (যেমন 'Update address of order {trackingId} to Flat 12, Kothrud, Pune 411038')।",
+  },
+  earnings_week: {
+    hinglish: "Iss hafte aapne ₹{earned} kamaya aur ₹{spent} kharch kiya. Net earning: ₹{net}.",
+    hi: "इस हफ़्ते आपने ₹{earned} कमाए और ₹{spent} खर्च किए। कुल बचत: ₹{net}।",
+    en: "This week you earned ₹{earned} and spent ₹{spent}. Net earnings: ₹{net}.",
+    mr: "या आठवड्यात तुम्ही ₹{earned} कमावले आणि ₹{spent} खर्च केले. निव्वळ कमाई: ₹{net}.",
+    ta: "இந்த வாரம் நீங்கள் ₹{earned} சம்பாதித்தீர்கள், ₹{spent} செலவு செய்தீர்கள். நிகர வருமானம்: ₹{net}.",
+    kn: "ಈ ವಾರ ನೀವು ₹{earned} ಗಳಿಸಿದ್ದೀರಿ ಮತ್ತು ₹{spent} ಖರ್ಚು ಮಾಡಿದ್ದೀರಿ. ನಿವ್ವಳ ಗಳಿಕೆ: ₹{net}.",
+    bn: "এই সপ্তাহে আপনি ₹{earned} আয় করেছেন আর ₹{spent} খরচ করেছেন। নিট আয়: ₹{net}।",
+  },
+  earnings_month: {
+    hinglish: "Iss mahine aapne ₹{earned} kamaya aur ₹{spent} kharch kiya. Net earning: ₹{net}.",
+    hi: "इस महीने आपने ₹{earned} कमाए और ₹{spent} खर्च किए। कुल बचत: ₹{net}।",
+    en: "This month you earned ₹{earned} and spent ₹{spent}. Net earnings: ₹{net}.",
+    mr: "या महिन्यात तुम्ही ₹{earned} कमावले आणि ₹{spent} खर्च केले. निव्वळ कमाई: ₹{net}.",
+    ta: "இந்த மாதம் நீங்கள் ₹{earned} சம்பாதித்தீர்கள், ₹{spent} செலவு செய்தீர்கள். நிகர வருமானம்: ₹{net}.",
+    kn: "ಈ ತಿಂಗಳು ನೀವು ₹{earned} ಗಳಿಸಿದ್ದೀರಿ ಮತ್ತು ₹{spent} ಖರ್ಚು ಮಾಡಿದ್ದೀರಿ. ನಿವ್ವಳ ಗಳಿಕೆ: ₹{net}.",
+    bn: "এই মাসে আপনি ₹{earned} আয় করেছেন আর ₹{spent} খরচ করেছেন। নিট আয়: ₹{net}।",
+  },
+  rewards_list: {
+    hinglish: "Aapko reward mila hai: {list}.",
+    hi: "आपको इनाम मिला है: {list}।",
+    en: "You have rewards: {list}.",
+    mr: "तुम्हाला बक्षीस मिळाले आहे: {list}.",
+    ta: "உங்களுக்கு வெகுமதி கிடைத்துள்ளது: {list}.",
+    kn: "ನಿಮಗೆ ಬಹುಮಾನ ಸಿಕ್ಕಿದೆ: {list}.",
+    bn: "আপনি পুরস্কার পেয়েছেন: {list}।",
+  },
+  no_rewards: {
+    hinglish: "Aapko abhi tak koi reward nahi mila.",
+    hi: "आपको अभी तक कोई इनाम नहीं मिला।",
+    en: "You have no rewards yet.",
+    mr: "तुम्हाला अजून कोणतेही बक्षीस मिळालेले नाही.",
+    ta: "உங்களுக்கு இன்னும் எந்த வெகுமதியும் கிடைக்கவில்லை.",
+    kn: "ನಿಮಗೆ ಇನ್ನೂ ಯಾವುದೇ ಬಹುಮಾನ ಸಿಕ್ಕಿಲ್ಲ.",
+    bn: "আপনি এখনও কোনো পুরস্কার পাননি।",
+  },
+  badges_list: {
+    hinglish: "Aapke badges: {list}.",
+    hi: "आपके बैज: {list}।",
+    en: "Your badges: {list}.",
+    mr: "तुमचे बॅज: {list}.",
+    ta: "உங்கள் பதக்கங்கள்: {list}.",
+    kn: "ನಿಮ್ಮ ಬ್ಯಾಡ್ಜ್‌ಗಳು: {list}.",
+    bn: "আপনার ব্যাজ: {list}।",
+  },
+  documents_upload_help: {
+    hinglish: "Document upload karne ke liye camera button dabaiye aur photo khinch kar bhejiye.",
+    hi: "दस्तावेज़ अपलोड करने के लिए कैमरा बटन दबाइए और फ़ोटो खींचकर भेजिए।",
+    en: "To upload a document, press the camera button and send a photo.",
+    mr: "कागदपत्र अपलोड करण्यासाठी कॅमेरा बटण दाबा आणि फोटो काढून पाठवा.",
+    ta: "ஆவணத்தைப் பதிவேற்ற, கேமரா பட்டனை அழுத்தி புகைப்படம் எடுத்து அனுப்புங்கள்.",
+    kn: "ದಾಖಲೆ ಅಪ್‌ಲೋಡ್ ಮಾಡಲು ಕ್ಯಾಮೆರಾ ಬಟನ್ ಒತ್ತಿ ಫೋಟೋ ತೆಗೆದು ಕಳುಹಿಸಿ.",
+    bn: "ডকুমেন্ট আপলোড করতে ক্যামেরা বোতাম টিপে ছবি তুলে পাঠান।",
+  },
+  documents_missing: {
+    hinglish: "Abhi baaki: {list}.",
+    hi: "अभी बाकी: {list}।",
+    en: "Still missing: {list}.",
+    mr: "अजून बाकी: {list}.",
+    ta: "இன்னும் தேவை: {list}.",
+    kn: "ಇನ್ನೂ ಬಾಕಿ: {list}.",
+    bn: "এখনও বাকি: {list}।",
+  },
+  documents_complete: {
+    hinglish: "Aapke saare KYC documents aa gaye hain.",
+    hi: "आपके सारे KYC दस्तावेज़ आ गए हैं।",
+    en: "All your KYC documents are in.",
+    mr: "तुमची सर्व KYC कागदपत्रे आली आहेत.",
+    ta: "உங்கள் எல்லா KYC ஆவணங்களும் வந்துவிட்டன.",
+    kn: "ನಿಮ್ಮ ಎಲ್ಲಾ KYC ದಾಖಲೆಗಳು ಬಂದಿವೆ.",
+    bn: "আপনার সব KYC ডকুমেন্ট এসে গেছে।",
+  },
+  onboarding_progress: {
+    hinglish: "Onboarding: {total} mein se {done} ho gaye. Baaki: {list}. Aage badhne ke liye 'onboarding shuru karo' boliye.",
+    hi: "ऑनबोर्डिंग: {total} में से {done} हो गए। बाकी: {list}। आगे बढ़ने के लिए 'onboarding शुरू करो' बोलिए।",
+    en: "Onboarding: {done} of {total} done. Left: {list}. Say 'start onboarding' to continue.",
+    mr: "ऑनबोर्डिंग: {total} पैकी {done} झाले. बाकी: {list}. पुढे जाण्यासाठी 'onboarding सुरू करा' म्हणा.",
+    ta: "ஆன்போர்டிங்: {total}-இல் {done} முடிந்தது. மீதி: {list}. தொடர 'start onboarding' என்று சொல்லுங்கள்.",
+    kn: "ಆನ್‌ಬೋರ್ಡಿಂಗ್: {total} ರಲ್ಲಿ {done} ಮುಗಿದಿದೆ. ಬಾಕಿ: {list}. ಮುಂದುವರಿಸಲು 'start onboarding' ಎಂದು ಹೇಳಿ.",
+    bn: "অনবোর্ডিং: {total}টির মধ্যে {done}টি হয়েছে। বাকি: {list}। এগোতে 'start onboarding' বলুন।",
+  },
+  onboarding_complete: {
+    hinglish: "Aapka onboarding poora ho chuka hai.",
+    hi: "आपका ऑनबोर्डिंग पूरा हो चुका है।",
+    en: "Your onboarding is complete.",
+    mr: "तुमचे ऑनबोर्डिंग पूर्ण झाले आहे.",
+    ta: "உங்கள் ஆன்போர்டிங் முடிந்துவிட்டது.",
+    kn: "ನಿಮ್ಮ ಆನ್‌ಬೋರ್ಡಿಂಗ್ ಪೂರ್ಣಗೊಂಡಿದೆ.",
+    bn: "আপনার অনবোর্ডিং সম্পূর্ণ হয়েছে।",
+  },
+  business_summary_up: {
+    hinglish: "Aapka business summary: Iss hafte kamai ₹{thisWeek}, pichle hafte ₹{lastWeek}. Aapne behtar kiya!",
+    hi: "आपके बिज़नेस का हाल: इस हफ़्ते कमाई ₹{thisWeek}, पिछले हफ़्ते ₹{lastWeek}। आपने बेहतर किया!",
+    en: "Your business summary: ₹{thisWeek} earned this week, ₹{lastWeek} last week. You did better!",
+    mr: "तुमच्या व्यवसायाचा आढावा: या आठवड्यात कमाई ₹{thisWeek}, मागच्या आठवड्यात ₹{lastWeek}. तुम्ही चांगली कामगिरी केली!",
+    ta: "உங்கள் வணிகச் சுருக்கம்: இந்த வாரம் வருமானம் ₹{thisWeek}, கடந்த வாரம் ₹{lastWeek}. நீங்கள் சிறப்பாகச் செய்தீர்கள்!",
+    kn: "ನಿಮ್ಮ ವ್ಯವಹಾರದ ಸಾರಾಂಶ: ಈ ವಾರ ಗಳಿಕೆ ₹{thisWeek}, ಕಳೆದ ವಾರ ₹{lastWeek}. ನೀವು ಉತ್ತಮವಾಗಿ ಮಾಡಿದ್ದೀರಿ!",
+    bn: "আপনার ব্যবসার সারাংশ: এই সপ্তাহে আয় ₹{thisWeek}, গত সপ্তাহে ₹{lastWeek}। আপনি ভালো করেছেন!",
+  },
+  business_summary_down: {
+    hinglish: "Aapka business summary: Iss hafte kamai ₹{thisWeek}, pichle hafte ₹{lastWeek}. Aapko aur mehnat ki zarurat hai.",
+    hi: "आपके बिज़नेस का हाल: इस हफ़्ते कमाई ₹{thisWeek}, पिछले हफ़्ते ₹{lastWeek}। आपको और मेहनत की ज़रूरत है।",
+    en: "Your business summary: ₹{thisWeek} earned this week, ₹{lastWeek} last week. A little more effort will help.",
+    mr: "तुमच्या व्यवसायाचा आढावा: या आठवड्यात कमाई ₹{thisWeek}, मागच्या आठवड्यात ₹{lastWeek}. आणखी थोडी मेहनत लागेल.",
+    ta: "உங்கள் வணிகச் சுருக்கம்: இந்த வாரம் வருமானம் ₹{thisWeek}, கடந்த வாரம் ₹{lastWeek}. இன்னும் கொஞ்சம் உழைப்பு தேவை.",
+    kn: "ನಿಮ್ಮ ವ್ಯವಹಾರದ ಸಾರಾಂಶ: ಈ ವಾರ ಗಳಿಕೆ ₹{thisWeek}, ಕಳೆದ ವಾರ ₹{lastWeek}. ಇನ್ನೂ ಸ್ವಲ್ಪ ಪರಿಶ್ರಮ ಬೇಕು.",
+    bn: "আপনার ব্যবসার সারাংশ: এই সপ্তাহে আয় ₹{thisWeek}, গত সপ্তাহে ₹{lastWeek}। আরও একটু পরিশ্রম দরকার।",
+  },
+  safety_tips: {
+    hinglish: "Suraksha ke liye, hamesha seatbelt pehnein aur traffic niyam maanein.",
+    hi: "सुरक्षा के लिए हमेशा सीटबेल्ट पहनें और ट्रैफ़िक नियम मानें।",
+    en: "For your safety, always wear a seatbelt and follow the traffic rules.",
+    mr: "सुरक्षिततेसाठी नेहमी सीटबेल्ट लावा आणि वाहतुकीचे नियम पाळा.",
+    ta: "உங்கள் பாதுகாப்புக்கு, எப்போதும் சீட்பெல்ட் அணிந்து போக்குவரத்து விதிகளைப் பின்பற்றுங்கள்.",
+    kn: "ನಿಮ್ಮ ಸುರಕ್ಷತೆಗಾಗಿ ಯಾವಾಗಲೂ ಸೀಟ್‌ಬೆಲ್ಟ್ ಧರಿಸಿ ಮತ್ತು ಸಂಚಾರ ನಿಯಮಗಳನ್ನು ಪಾಲಿಸಿ.",
+    bn: "নিরাপত্তার জন্য সবসময় সিটবেল্ট পরুন আর ট্রাফিক নিয়ম মেনে চলুন।",
+  },
+  event_reminder: {
+    hinglish: "Reminder: {text}",
+    hi: "रिमाइंडर: {text}",
+    en: "Reminder: {text}",
+    mr: "रिमाइंडर: {text}",
+    ta: "நினைவூட்டல்: {text}",
+    kn: "ಜ್ಞಾಪನೆ: {text}",
+    bn: "রিমাইন্ডার: {text}",
+  },
+  order_status_now: {
+    hinglish: "Order {trackingId} ab {status} hai.",
+    hi: "ऑर्डर {trackingId} अब {status} है।",
+    en: "Order {trackingId} is now {status}.",
+    mr: "ऑर्डर {trackingId} आता {status} आहे.",
+    ta: "ஆர்டர் {trackingId} இப்போது {status}.",
+    kn: "ಆರ್ಡರ್ {trackingId} ಈಗ {status}.",
+    bn: "অর্ডার {trackingId} এখন {status}।",
+  },
+  event_order_offered: {
+    hinglish: "Naya order aaya hai: {order}. \"Accept\" ya \"reject\" boliye.",
+    hi: "नया ऑर्डर आया है: {order}। \"accept\" या \"reject\" बोलिए।",
+    en: "New order offered: {order}. Say \"accept\" or \"reject\".",
+    mr: "नवीन ऑर्डर आली आहे: {order}. \"accept\" किंवा \"reject\" म्हणा.",
+    ta: "புதிய ஆர்டர் வந்துள்ளது: {order}. \"accept\" அல்லது \"reject\" என்று சொல்லுங்கள்.",
+    kn: "ಹೊಸ ಆರ್ಡರ್ ಬಂದಿದೆ: {order}. \"accept\" ಅಥವಾ \"reject\" ಎಂದು ಹೇಳಿ.",
+    bn: "নতুন অর্ডার এসেছে: {order}। \"accept\" বা \"reject\" বলুন।",
+  },
+  event_alert: {
+    hinglish: "Alert: {message}",
+    hi: "सूचना: {message}",
+    en: "Alert: {message}",
+    mr: "सूचना: {message}",
+    ta: "எச்சரிக்கை: {message}",
+    kn: "ಎಚ್ಚರಿಕೆ: {message}",
+    bn: "সতর্কবার্তা: {message}",
+  },
+  event_alert_urgent: {
+    hinglish: "Zaroori alert: {message}",
+    hi: "ज़रूरी सूचना: {message}",
+    en: "Urgent alert: {message}",
+    mr: "तातडीची सूचना: {message}",
+    ta: "அவசர எச்சரிக்கை: {message}",
+    kn: "ತುರ್ತು ಎಚ್ಚರಿಕೆ: {message}",
+    bn: "জরুরি সতর্কবার্তা: {message}",
+  },
+  order_status_created: {
+    hinglish: "naya",
+    hi: "नया",
+    en: "new",
+    mr: "नवीन",
+    ta: "புதியது",
+    kn: "ಹೊಸದು",
+    bn: "নতুন",
+  },
+  order_status_assigned: {
+    hinglish: "assign ho gaya",
+    hi: "असाइन हो गया",
+    en: "assigned",
+    mr: "असाइन झाली",
+    ta: "ஒதுக்கப்பட்டது",
+    kn: "ನಿಯೋಜಿಸಲಾಗಿದೆ",
+    bn: "অ্যাসাইন হয়েছে",
+  },
+  order_status_picked_up: {
+    hinglish: "pick up ho gaya",
+    hi: "पिकअप हो गया",
+    en: "picked up",
+    mr: "पिकअप झाली",
+    ta: "எடுக்கப்பட்டது",
+    kn: "ಪಿಕಪ್ ಆಗಿದೆ",
+    bn: "পিকআপ হয়েছে",
+  },
+  order_status_in_transit: {
+    hinglish: "raaste mein",
+    hi: "रास्ते में",
+    en: "in transit",
+    mr: "रस्त्यात",
+    ta: "வழியில் உள்ளது",
+    kn: "ದಾರಿಯಲ್ಲಿದೆ",
+    bn: "পথে",
+  },
+  order_status_delivered: {
+    hinglish: "deliver ho gaya",
+    hi: "डिलीवर हो गया",
+    en: "delivered",
+    mr: "डिलिव्हर झाली",
+    ta: "டெலிவரி செய்யப்பட்டது",
+    kn: "ಡೆಲಿವರಿ ಆಗಿದೆ",
+    bn: "ডেলিভারি হয়েছে",
+  },
+  order_status_cancelled: {
+    hinglish: "cancel ho gaya",
+    hi: "रद्द हो गया",
+    en: "cancelled",
+    mr: "रद्द झाली",
+    ta: "ரத்து செய்யப்பட்டது",
+    kn: "ರದ್ದಾಗಿದೆ",
+    bn: "বাতিল হয়েছে",
+  },
+  incident_pending_confirmation: {
+    hinglish: "SOS bheja gaya. Abhi madad bhejne ke liye \"haan\" boliye, galti se hua ho to \"nahi\".",
+    hi: "SOS भेजा गया। अभी मदद भेजने के लिए \"हाँ\" बोलिए, गलती से हुआ हो तो \"नहीं\"।",
+    en: "SOS raised. Say \"yes\" to send help now, or \"no\" if it was a mistake.",
+    mr: "SOS पाठवला. आत्ता मदत पाठवण्यासाठी \"हो\" म्हणा, चुकून झाले असेल तर \"नाही\".",
+    ta: "SOS எழுப்பப்பட்டது. இப்போதே உதவி அனுப்ப \"ஆம்\" என்றும், தவறுதலாக என்றால் \"இல்லை\" என்றும் சொல்லுங்கள்.",
+    kn: "SOS ಕಳುಹಿಸಲಾಗಿದೆ. ಈಗಲೇ ಸಹಾಯ ಕಳುಹಿಸಲು \"ಹೌದು\" ಎನ್ನಿ, ತಪ್ಪಾಗಿ ಆಗಿದ್ದರೆ \"ಇಲ್ಲ\" ಎನ್ನಿ.",
+    bn: "SOS পাঠানো হয়েছে। এখনই সাহায্য পাঠাতে \"হ্যাঁ\" বলুন, ভুল করে হলে \"না\" বলুন।",
+  },
+  incident_open: {
+    hinglish: "SOS bhej diya gaya. Madad ka intezaam ho raha hai, kripya kisi surakshit jagah par rahiye.",
+    hi: "SOS भेज दिया गया। मदद का इंतज़ाम हो रहा है, कृपया किसी सुरक्षित जगह पर रहिए।",
+    en: "SOS sent. Help is being arranged, please stay where you are safe.",
+    mr: "SOS पाठवला. मदतीची व्यवस्था होत आहे, कृपया सुरक्षित ठिकाणी थांबा.",
+    ta: "SOS அனுப்பப்பட்டது. உதவி ஏற்பாடு செய்யப்படுகிறது, பாதுகாப்பான இடத்தில் இருங்கள்.",
+    kn: "SOS ಕಳುಹಿಸಲಾಗಿದೆ. ಸಹಾಯದ ವ್ಯವಸ್ಥೆ ಆಗುತ್ತಿದೆ, ದಯವಿಟ್ಟು ಸುರಕ್ಷಿತ ಸ್ಥಳದಲ್ಲಿರಿ.",
+    bn: "SOS পাঠানো হয়েছে। সাহায্যের ব্যবস্থা হচ্ছে, অনুগ্রহ করে নিরাপদ জায়গায় থাকুন।",
+  },
+  incident_acknowledged: {
+    hinglish: "Support team ne aapka SOS dekh liya hai. Madad aa rahi hai.",
+    hi: "सपोर्ट टीम ने आपका SOS देख लिया है। मदद आ रही है।",
+    en: "Your SOS has been seen by the support team. Help is on the way.",
+    mr: "सपोर्ट टीमने तुमचा SOS पाहिला आहे. मदत येत आहे.",
+    ta: "உங்கள் SOS-ஐ ஆதரவுக் குழு பார்த்துவிட்டது. உதவி வந்துகொண்டிருக்கிறது.",
+    kn: "ನಿಮ್ಮ SOS ಅನ್ನು ಸಹಾಯ ತಂಡ ನೋಡಿದೆ. ಸಹಾಯ ಬರುತ್ತಿದೆ.",
+    bn: "সাপোর্ট টিম আপনার SOS দেখেছে। সাহায্য আসছে।",
+  },
+  incident_resolved: {
+    hinglish: "Aapka SOS band kar diya gaya hai.",
+    hi: "आपका SOS बंद कर दिया गया है।",
+    en: "Your SOS has been closed.",
+    mr: "तुमचा SOS बंद केला आहे.",
+    ta: "உங்கள் SOS மூடப்பட்டது.",
+    kn: "ನಿಮ್ಮ SOS ಮುಚ್ಚಲಾಗಿದೆ.",
+    bn: "আপনার SOS বন্ধ করা হয়েছে।",
+  },
+  incident_cancelled: {
+    hinglish: "Aapka SOS wapas le liya gaya hai.",
+    hi: "आपका SOS वापस ले लिया गया है।",
+    en: "Your SOS has been withdrawn.",
+    mr: "तुमचा SOS मागे घेतला आहे.",
+    ta: "உங்கள் SOS திரும்பப் பெறப்பட்டது.",
+    kn: "ನಿಮ್ಮ SOS ಹಿಂಪಡೆಯಲಾಗಿದೆ.",
+    bn: "আপনার SOS প্রত্যাহার করা হয়েছে।",
+  },
+} satisfies Record<string, Catalog>;
+
+export type MessageKey = keyof typeof MESSAGES;
+
+// A fixed reply in the given language with its placeholders filled in
+export function t(key: MessageKey, language: Language = DEFAULT_LANGUAGE, params: Record<string, string | number> = {}) {
+  const template: string = MESSAGES[key][language];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
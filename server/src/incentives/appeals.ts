@@ -0,0 +1,47 @@
+// server/src/incentives/appeals.ts
+// Drivers contesting penalties, by voice or through /incentives: the appeal is pending until an
+// admin accepts it (the penalty then no longer counts, see ledger/earnings COUNTED) or rejects it.
+import LedgerEntry, { ILedgerEntry } from "../models/LedgerEntry";
+import { publish, publishOps } from "../realtime/hub";
+import { AuthDriver } from "../types";
+
+export class AppealError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AppealError";
+  }
+}
+
+// The driver's latest penalty, or the one on a given order
+export function findPenalty(driverId: string, trackingId?: string | null) {
+  return LedgerEntry.findOne({ driverId, type: "penalty", ...(trackingId ? { trackingId } : {}) }).sort({ occurredAt: -1 });
+}
+
+export async function raiseAppeal(entry: ILedgerEntry, driver: AuthDriver, reason: string) {
+  if (entry.driverId !== driver.id) throw new AppealError("Only the driver charged can appeal a penalty");
+  if (entry.type !== "penalty") throw new AppealError("Only penalties can be appealed");
+  if (entry.appeal) throw new AppealError(`This penalty already has an appeal (${entry.appeal.status})`);
+  entry.appeal = { status: "pending", reason, raisedAt: new Date(), resolvedAt: null, resolvedBy: null, note: null };
+  await entry.save();
+  publishOps({
+    type: "alert",
+    alert: { message: `Penalty appeal from driver ${driver.name || driver.phone}: ₹${entry.amount} ${entry.reason || ""} — "${reason}"`, severity: "info", at: new Date().toISOString() },
+  });
+  return entry;
+}
+
+export async function resolveAppeal(entry: ILedgerEntry, admin: AuthDriver, decision: "accepted" | "rejected", note?: string | null) {
+  if (entry.appeal?.status !== "pending") throw new AppealError("There is no pending appeal on this entry");
+  entry.appeal.status = decision;
+  entry.appeal.resolvedAt = new Date();
+  entry.appeal.resolvedBy = admin.id;
+  entry.appeal.note = note || null;
+  entry.markModified("appeal");
+  await entry.save();
+  const message =
+    decision === "accepted"
+      ? `Aapki appeal maan li gayi: ₹${entry.amount} ki penalty hata di gayi (${entry.reason || "penalty"}).`
+      : `Aapki appeal nahi maani gayi: ${entry.reason || "penalty"}.${note ? ` ${note}` : ""}`;
+  publish(entry.driverId, { type: "alert", alert: { message, severity: "info", at: new Date().toISOString() } });
+  return entry;
+}
@@ -0,0 +1,151 @@
+// server/src/incentives/rules.ts
+// The penalty and reward rules engine: admin-configured rules (late pickup, cancelling an
+// accepted order, customer ratings, delivery streaks) checked on order lifecycle events and
+// booked in the earnings ledger with the rule's name as the reason, at most once per order.
+import { Types } from "mongoose";
+import { COUNTED, orderDriverId, recordEntry } from "../ledger/earnings";
+import IncentiveRule, { IIncentiveRule, RuleKind } from "../models/IncentiveRule";
+import LedgerEntry from "../models/LedgerEntry";
+import Order, { IOrder, IStatusChange, orderChanges } from "../models/Order";
+import { publish } from "../realtime/hub";
+
+type RuleEvent = "status" | "rated";
+
+interface RuleHit {
+  driverId: string;
+  reason: string;
+}
+
+type Evaluator = (rule: IIncentiveRule, order: IOrder, change: IStatusChange | null) => RuleHit | null | Promise<RuleHit | null>;
+
+// A new install starts with these; admins change them through /incentives/rules
+export const DEFAULT_RULES = [
+  { name: "Pickup more than 30 minutes late", kind: "late_pickup", type: "penalty", amount: 50, threshold: 30 },
+  { name: "Cancelled an order after accepting it", kind: "cancel_after_accept", type: "penalty", amount: 100, threshold: null },
+  { name: "Customer rating below 3 stars", kind: "rating_below", type: "penalty", amount: 50, threshold: 3 },
+  { name: "5 star customer rating", kind: "rating_at_least", type: "reward", amount: 20, threshold: 5 },
+  { name: "10 deliveries in a row without a penalty", kind: "delivery_streak", type: "reward", amount: 100, threshold: 10 },
+] as const;
+
+// Kinds that need a threshold, and what it counts
+export const RULE_THRESHOLDS: Partial<Record<RuleKind, string>> = {
+  late_pickup: "minutes",
+  rating_below: "stars",
+  rating_at_least: "stars",
+  delivery_streak: "deliveries",
+};
+
+// Deliveries credited to the driver since their last penalty, not counting the order that got it
+async function deliveriesSinceLastPenalty(driverId: string) {
+  const penalty = await LedgerEntry.findOne({ driverId, type: "penalty", ...COUNTED }).sort({ occurredAt: -1 });
+  return Order.countDocuments({
+    $or: [{ assignedTo: driverId }, { assignedTo: null, "metadata.createdBy": driverId }],
+    statusHistory: { $elemMatch: { to: "delivered", at: { $gt: penalty?.occurredAt ?? new Date(0) } } },
+    ...(penalty?.orderId ? { _id: { $ne: penalty.orderId } } : {}),
+  });
+}
+
+const RULES: Record<RuleKind, { event: RuleEvent; evaluate: Evaluator }> = {
+  late_pickup: {
+    event: "status",
+    evaluate: (rule, order, change) => {
+      const driverId = orderDriverId(order);
+      if (change?.to !== "picked_up" || !order.pickupTime || !driverId) return null;
+      const late = Math.floor((new Date(change.at).getTime() - order.pickupTime.getTime()) / 60_000);
+      return late > rule.threshold! ? { driverId, reason: `${rule.name}: picked up ${late} min late (${order.trackingId})` } : null;
+    },
+  },
+  cancel_after_accept: {
+    event: "status",
+    // only the assignee cancelling an order they took on; their own orders are theirs to cancel
+    evaluate: (rule, order, change) => {
+      const driverId = order.assignedTo;
+      if (change?.to !== "cancelled" || !driverId || change.by !== driverId) return null;
+      if (order.dispatch?.state !== "accepted" || order.metadata?.createdBy === driverId) return null;
+      return { driverId, reason: `${rule.name} (${order.trackingId})` };
+    },
+  },
+  rating_below: {
+    event: "rated",
+    evaluate: (rule, order) => {
+      const driverId = orderDriverId(order);
+      if (!driverId || order.rating == null || order.rating >= rule.threshold!) return null;
+      return { driverId, reason: `${rule.name}: rated ${order.rating}/5 (${order.trackingId})` };
+    },
+  },
+  rating_at_least: {
+    event: "rated",
+    evaluate: (rule, order) => {
+      const driverId = orderDriverId(order);
+      if (!driverId || order.rating == null || order.rating < rule.threshold!) return null;
+      return { driverId, reason: `${rule.name}: rated ${order.rating}/5 (${order.trackingId})` };
+    },
+  },
+  delivery_streak: {
+    event: "status",
+    evaluate: async (rule, order, change) => {
+      const driverId = orderDriverId(order);
+      if (change?.to !== "delivered" || !driverId) return null;
+      const streak = await deliveriesSinceLastPenalty(driverId);
+      return streak > 0 && streak % rule.threshold! === 0 ? { driverId, reason: `${rule.name} (${order.trackingId})` } : null;
+    },
+  },
+};
+
+// Tell the driver what was booked and, for a penalty, that they can contest it
+function announce(type: IIncentiveRule["type"], driverId: string, amount: number, reason: string) {
+  const message =
+    type === "penalty" ? `Penalty ₹${amount}: ${reason}. Galat lage to "penalty contest karo" boliye.` : `Reward ₹${amount}: ${reason}.`;
+  publish(driverId, { type: "alert", alert: { message, severity: type === "penalty" ? "warning" : "info", at: new Date().toISOString() } });
+}
+
+// Check every active rule for the event against the order; returns the entries booked
+export async function applyRules(event: RuleEvent, order: IOrder, change: IStatusChange | null = null) {
+  const kinds = (Object.keys(RULES) as RuleKind[]).filter((k) => RULES[k].event === event);
+  const rules = await IncentiveRule.find({ active: true, kind: { $in: kinds } }).sort({ createdAt: 1 });
+  const booked = [];
+  for (const rule of rules) {
+    if (RULE_THRESHOLDS[rule.kind] && rule.threshold == null) continue;
+    const hit = await RULES[rule.kind].evaluate(rule, order, change);
+    if (!hit) continue;
+    // a rule applies to an order once, also when an event is seen twice
+    if (await LedgerEntry.exists({ ruleId: rule._id, orderId: order._id })) continue;
+    const entry = await recordEntry({
+      driverId: hit.driverId,
+      type: rule.type,
+      amount: rule.amount,
+      order,
+      reason: hit.reason,
+      occurredAt: change ? new Date(change.at) : undefined,
+      ruleId: rule._id as Types.ObjectId,
+      metadata: { rule: rule.name, kind: rule.kind },
+    });
+    announce(rule.type, hit.driverId, entry.amount, hit.reason);
+    booked.push(entry);
+  }
+  return booked;
+}
+
+// A new install starts with the default rules
+export async function seedIncentiveRules() {
+  if (await IncentiveRule.exists({})) return;
+  await IncentiveRule.insertMany(DEFAULT_RULES);
+}
+
+// Apply the rules as orders change. Call once at startup.
+export function watchIncentives() {
+  orderChanges.on("status", async (order: IOrder, change: IStatusChange) => {
+    try {
+      await applyRules("status", order, change);
+    } catch (err) {
+      console.error("Incentive rules error for order", order.trackingId, err);
+    }
+  });
+  orderChanges.on("rated", async (order: IOrder) => {
+    try {
+      await applyRules("rated", order);
+    } catch (err) {
+      console.error("Incentive rules error for order", order.trackingId, err);
+    }
+  });
+}
@@ -0,0 +1,287 @@
+// server/src/incidents/incidents.ts
+// Emergency SOS incidents: raising one with the driver's active order, location and the words
+// that led to it, the short window in which a false trigger can be withdrawn, and escalation
+// through the notifiers until someone in ops acknowledges it.
+import type { LocationInput } from "../contracts/incidentApi";
+import { toIncidentDTO } from "../contracts/incidentSchemas";
+import Incident, {
+  ACTIVE_INCIDENT_STATUSES,
+  IIncident,
+  IIncidentLocation,
+  IIncidentNotification,
+  ITranscriptLine,
+  IncidentStatus,
+  NotifyChannel,
+  NotifyReason,
+} from "../models/Incident";
+import Order, { IOrder } from "../models/Order";
+import { publish, publishOps } from "../realtime/hub";
+import { AuthDriver } from "../types";
+import { notifiersFor } from "./notifiers";
+
+// How long the driver has to withdraw a trigger before it opens by itself
+export const CONFIRM_WINDOW_MS = Number(process.env.INCIDENT_CONFIRM_MS || 30_000);
+const ESCALATE_AFTER_MS = Number(process.env.INCIDENT_ESCALATE_MS || 120_000);
+const INCIDENT_POLL_MS = Number(process.env.INCIDENT_POLL_MS || 5_000);
+const MAX_PER_TICK = 50;
+
+// Who is told about an open incident, and how long after it opened, while nobody has
+// acknowledged it. The last level is not repeated; the incident stays open on the dashboard.
+export const ESCALATION_LEVELS: { afterMs: number; channels: NotifyChannel[] }[] = [
+  { afterMs: 0, channels: ["dashboard", "webhook"] },
+  { afterMs: ESCALATE_AFTER_MS, channels: ["dashboard", "sms"] },
+  { afterMs: 3 * ESCALATE_AFTER_MS, channels: ["dashboard", "sms", "webhook"] },
+];
+
+// How much of the conversation before the trigger is kept on the incident
+const TRANSCRIPT_CONTEXT = 6;
+
+export class IncidentStateError extends Error {
+  constructor(public status: IncidentStatus, action: string) {
+    super(`Incident is already ${status.replace(/_/g, " ")}; it cannot be ${action}.`);
+    this.name = "IncidentStateError";
+  }
+}
+
+// Query filter limiting incidents to the driver's own; admins see all
+export function incidentScope(driver: AuthDriver): Record<string, any> {
+  return driver.role === "admin" ? {} : { driverId: driver.id };
+}
+
+export function activeIncident(driverId: string) {
+  return Incident.findOne({ driverId, status: { $in: ACTIVE_INCIDENT_STATUSES } }).sort({ createdAt: -1 });
+}
+
+// The order the driver is on: one picked up or in transit, else the latest assigned one
+async function activeOrder(driverId: string): Promise<IOrder | null> {
+  const orders = await Order.find({ assignedTo: driverId, status: { $in: ["picked_up", "in_transit", "assigned"] } })
+    .sort({ updatedAt: -1 })
+    .limit(10);
+  return orders.find((o) => o.status !== "assigned") || orders[0] || null;
+}
+
+const line = (role: ITranscriptLine["role"], content: string, at: Date = new Date()): ITranscriptLine => ({ role, content, at });
+
+function describeIncident(incident: IIncident, reason: NotifyReason, level: number): string {
+  const who = incident.driverName ? `${incident.driverName} (${incident.driverPhone})` : incident.driverPhone;
+  if (reason === "withdrawn") return `SOS from ${who} was withdrawn${incident.cancelReason ? `: ${incident.cancelReason}` : ""}.`;
+  const loc = incident.location;
+  const where = loc
+    ? `at https://maps.google.com/?q=${loc.lat.toFixed(5)},${loc.lng.toFixed(5)}${loc.source === "order" ? " (order address, approximate)" : ""}`
+    : "location unknown";
+  // the trigger and the answer to the confirmation prompt, or the button's message
+  const said = incident.transcript
+    .filter((l) => l.role === "user")
+    .slice(-2)
+    .map((l) => `"${l.content}"`);
+  const text = `SOS from ${who}${incident.trackingId ? `, order ${incident.trackingId}` : ""}, ${where}.${said.length ? ` Said: ${said.join(" / ")}.` : ""}`;
+  return reason === "escalated" ? `NOT ACKNOWLEDGED (level ${level}): ${text}` : text;
+}
+
+// Tell the driver and the ops dashboard about the incident's current state
+function announce(incident: IIncident) {
+  const event = { type: "incident" as const, incident: toIncidentDTO(incident) };
+  publish(incident.driverId, event);
+  publishOps(event);
+}
+
+async function notify(incident: IIncident, channels: NotifyChannel[], reason: NotifyReason, level: number) {
+  const text = describeIncident(incident, reason, level);
+  const sent: IIncidentNotification[] = [];
+  for (const notifier of notifiersFor(channels)) {
+    try {
+      await notifier.notify({ incident, reason, level, text });
+      sent.push({ channel: notifier.channel, level, reason, ok: true, error: null, at: new Date() });
+    } catch (err) {
+      console.error(`Incident ${incident._id} ${notifier.channel} notification failed:`, err);
+      sent.push({ channel: notifier.channel, level, reason, ok: false, error: (err as Error).message || String(err), at: new Date() });
+    }
+  }
+  return sent;
+}
+
+// Claim the next due escalation (of one incident, or of any) and send it. Claiming is atomic,
+// so several server processes never send the same level twice.
+async function escalateNext(filter: Record<string, any>, now: Date): Promise<IIncident | null> {
+  const claimed = await Incident.findOneAndUpdate(
+    { ...filter, status: "open", nextEscalationAt: { $lte: now } },
+    { $inc: { level: 1 }, $set: { nextEscalationAt: null } },
+    { new: true, sort: { nextEscalationAt: 1 } }
+  );
+  if (!claimed) return null;
+  const step = ESCALATION_LEVELS[claimed.level - 1];
+  const sent = step ? await notify(claimed, step.channels, claimed.level === 1 ? "raised" : "escalated", claimed.level) : [];
+  const following = ESCALATION_LEVELS[claimed.level];
+  const opened = claimed.openedAt ?? now;
+  await Incident.updateOne({ _id: claimed._id }, { $push: { notifications: { $each: sent } } });
+  if (following) {
+    // an acknowledgement that arrived meanwhile has already stopped the escalation
+    await Incident.updateOne({ _id: claimed._id, status: "open" }, { $set: { nextEscalationAt: new Date(opened.getTime() + following.afterMs) } });
+  }
+  const updated = await Incident.findById(claimed._id);
+  if (updated) announce(updated);
+  return updated;
+}
+
+// Open a pending incident and send the first alerts right away
+async function open(incident: IIncident, auto: boolean, now: Date): Promise<IIncident> {
+  const note = auto ? "No answer to the confirmation prompt; raised automatically." : "Confirmed by the driver.";
+  const opened = await Incident.findOneAndUpdate(
+    { _id: incident._id, status: "pending_confirmation" },
+    {
+      $set: { status: "open", openedAt: now, nextEscalationAt: now, confirmBy: null, autoConfirmed: auto },
+      $push: { transcript: line("system", note, now) },
+    },
+    { new: true }
+  );
+  if (!opened) return (await Incident.findById(incident._id)) || incident; // confirmed or withdrawn meanwhile
+  return (await escalateNext({ _id: opened._id }, now)) || opened;
+}
+
+export interface RaiseIncidentInput {
+  driver: AuthDriver;
+  location?: LocationInput | null;
+  // what was said up to and including the trigger, oldest first
+  transcript?: { role: "user" | "assistant"; content: string }[];
+  confirmed?: boolean; // skip the confirmation window
+  triggeredVia: "voice" | "api";
+  now?: Date;
+}
+
+// Raise an SOS. A driver with an incident still active gets that one back (with the new words
+// and location added) instead of a second one.
+export async function raiseIncident(input: RaiseIncidentInput): Promise<IIncident> {
+  const now = input.now ?? new Date();
+  const lines = (input.transcript || []).map((l) => line(l.role, l.content, now));
+  const device: IIncidentLocation | null = input.location
+    ? { lat: input.location.lat, lng: input.location.lng, accuracy: input.location.accuracy ?? null, source: "device", at: now }
+    : null;
+
+  const existing = await activeIncident(input.driver.id);
+  if (existing) {
+    // only the newest line is new; the earlier context is already on the incident
+    existing.transcript.push(...lines.slice(-1));
+    if (device) existing.location = device;
+    await existing.save();
+    if (input.confirmed && existing.status === "pending_confirmation") return open(existing, false, now);
+    announce(existing);
+    return existing;
+  }
+
+  const order = await activeOrder(input.driver.id);
+  const geo = order?.address?.geo;
+  const incident = await Incident.create({
+    driverId: input.driver.id,
+    driverName: input.driver.name ?? null,
+    driverPhone: input.driver.phone,
+    orderId: order?._id ?? null,
+    trackingId: order?.trackingId ?? null,
+    location: device || (geo ? { lat: geo.lat, lng: geo.lng, accuracy: null, source: "order", at: now } : null),
+    transcript: lines.slice(-TRANSCRIPT_CONTEXT),
+    status: "pending_confirmation",
+    confirmBy: new Date(now.getTime() + CONFIRM_WINDOW_MS),
+    triggeredVia: input.triggeredVia,
+  });
+  if (input.confirmed) return open(incident, false, now);
+  announce(incident);
+  return incident;
+}
+
+// The driver confirms they need help; an incident that is already open is left as it is
+export async function confirmIncident(incident: IIncident, now: Date = new Date()): Promise<IIncident> {
+  if (incident.status === "pending_confirmation") return open(incident, false, now);
+  if (incident.status === "open" || incident.status === "acknowledged") return incident;
+  throw new IncidentStateError(incident.status, "confirmed");
+}
+
+// Withdraw a false trigger (by the driver) or close a duplicate (by ops). Whoever was already
+// alerted is told that it is off.
+export async function cancelIncident(incident: IIncident, by: AuthDriver, reason?: string, now: Date = new Date()): Promise<IIncident> {
+  const cancelReason = reason || (by.id === incident.driverId ? "Withdrawn by the driver" : "Cancelled by ops");
+  const cancelled = await Incident.findOneAndUpdate(
+    { _id: incident._id, status: { $in: ACTIVE_INCIDENT_STATUSES } },
+    {
+      $set: { status: "cancelled", cancelledAt: now, cancelReason, nextEscalationAt: null, confirmBy: null },
+      $push: { transcript: line("system", `${cancelReason}.`, now) },
+    },
+    { new: true }
+  );
+  if (!cancelled) throw new IncidentStateError((await Incident.findById(incident._id))?.status || incident.status, "cancelled");
+
+  const alerted = [...new Set(cancelled.notifications.filter((n) => n.ok).map((n) => n.channel))];
+  if (alerted.length) {
+    const sent = await notify(cancelled, alerted, "withdrawn", cancelled.level);
+    cancelled.notifications.push(...sent);
+    await cancelled.save();
+  }
+  announce(cancelled);
+  return cancelled;
+}
+
+// Someone in ops has taken the incident; escalation stops
+export async function acknowledgeIncident(incident: IIncident, by: AuthDriver, now: Date = new Date()): Promise<IIncident> {
+  const acknowledged = await Incident.findOneAndUpdate(
+    { _id: incident._id, status: "open" },
+    {
+      $set: { status: "acknowledged", acknowledgedBy: by.id, acknowledgedAt: now, nextEscalationAt: null },
+      $push: { transcript: line("system", `Acknowledged by ${by.name || by.phone}.`, now) },
+    },
+    { new: true }
+  );
+  if (!acknowledged) throw new IncidentStateError((await Incident.findById(incident._id))?.status || incident.status, "acknowledged");
+  announce(acknowledged);
+  return acknowledged;
+}
+
+export async function resolveIncident(incident: IIncident, by: AuthDriver, resolution: string, now: Date = new Date()): Promise<IIncident> {
+  const resolved = await Incident.findOneAndUpdate(
+    { _id: incident._id, status: { $in: ["open", "acknowledged"] } },
+    {
+      $set: { status: "resolved", resolvedAt: now, resolution, nextEscalationAt: null },
+      $push: { transcript: line("system", `Resolved by ${by.name || by.phone}: ${resolution}`, now) },
+    },
+    { new: true }
+  );
+  if (!resolved) throw new IncidentStateError((await Incident.findById(incident._id))?.status || incident.status, "resolved");
+  announce(resolved);
+  return resolved;
+}
+
+export async function addTranscript(incident: IIncident, lines: { role: ITranscriptLine["role"]; content: string }[]) {
+  const now = new Date();
+  await Incident.updateOne({ _id: incident._id }, { $push: { transcript: { $each: lines.map((l) => line(l.role, l.content, now)) } } });
+}
+
+// Open incidents whose confirmation window ran out, then send every escalation that is due
+export async function processDueIncidents(now: Date = new Date()): Promise<IIncident[]> {
+  const touched: IIncident[] = [];
+  while (touched.length < MAX_PER_TICK) {
+    const unanswered = await Incident.findOne({ status: "pending_confirmation", confirmBy: { $lte: now } }).sort({ confirmBy: 1 });
+    if (!unanswered) break;
+    touched.push(await open(unanswered, true, now));
+  }
+  while (touched.length < MAX_PER_TICK) {
+    const escalated = await escalateNext({}, now);
+    if (!escalated) break;
+    touched.push(escalated);
+  }
+  return touched;
+}
+
+// Start polling; returns a function that stops it
+export function startIncidentScheduler(intervalMs: number = INCIDENT_POLL_MS) {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return; // a slow tick must not overlap the next one
+    running = true;
+    try {
+      await processDueIncidents();
+    } catch (err) {
+      console.error("Incident scheduler error:", err);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,74 @@
+// server/src/incidents/notifiers.ts
+// Where SOS alerts go: SMS to the ops on-call numbers, a webhook, and the ops dashboard stream.
+// The SMS sender is a local stub that prints the message; swap in real channels by
+// implementing IncidentNotifier and calling setNotifiers().
+import { toIncidentDTO } from "../contracts/incidentSchemas";
+import { IIncident, NotifyChannel, NotifyReason } from "../models/Incident";
+import { opsListenerCount, publishOps } from "../realtime/hub";
+
+export interface IncidentNotice {
+  incident: IIncident;
+  reason: NotifyReason;
+  level: number;
+  text: string; // one line for people, see describeIncident
+}
+
+export interface IncidentNotifier {
+  readonly channel: NotifyChannel;
+  // Throws when the alert could not be handed over; the failure is recorded on the incident
+  notify(notice: IncidentNotice): Promise<void>;
+}
+
+const list = (value?: string) =>
+  (value || "")
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+// Local stub: prints the SMS for each on-call number in INCIDENT_SMS_TO
+export const consoleSmsNotifier: IncidentNotifier = {
+  channel: "sms",
+  async notify({ text }) {
+    const recipients = list(process.env.INCIDENT_SMS_TO);
+    if (!recipients.length) throw new Error("INCIDENT_SMS_TO is not set");
+    for (const to of recipients) console.log(`[sms] to ${to}: ${text}`);
+  },
+};
+
+// POSTs { reason, level, text, incident } to INCIDENT_WEBHOOK_URL
+export const webhookNotifier: IncidentNotifier = {
+  channel: "webhook",
+  async notify({ incident, reason, level, text }) {
+    const url = process.env.INCIDENT_WEBHOOK_URL;
+    if (!url) throw new Error("INCIDENT_WEBHOOK_URL is not set");
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ reason, level, text, incident: toIncidentDTO(incident) }),
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!res.ok) throw new Error(`Webhook answered ${res.status}`);
+  },
+};
+
+// A critical alert on every open admin stream
+export const dashboardNotifier: IncidentNotifier = {
+  channel: "dashboard",
+  async notify({ reason, text }) {
+    publishOps({
+      type: "alert",
+      alert: { message: text, severity: reason === "withdrawn" ? "info" : "critical", at: new Date().toISOString() },
+    });
+    if (!opsListenerCount()) throw new Error("No ops dashboard is connected");
+  },
+};
+
+let notifiers: IncidentNotifier[] = [consoleSmsNotifier, webhookNotifier, dashboardNotifier];
+
+export function setNotifiers(next: IncidentNotifier[]) {
+  notifiers = next;
+}
+
+export function notifiersFor(channels: NotifyChannel[]): IncidentNotifier[] {
+  return notifiers.filter((n) => channels.includes(n.channel));
+}
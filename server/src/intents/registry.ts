@@ -0,0 +1,148 @@
+// server/src/intents/registry.ts
+// Pluggable intent registry: every handler declares how it is matched, how
+// important it is relative to the others, which slots it needs and what it does.
+
+import { IConversationMessage } from "../models/Conversation";
+import { Language } from "../i18n/languages";
+import { AuthDriver } from "../types";
+import type { LocationInput } from "../contracts/incidentApi";
+
+export type IntentSlots = Record<string, string | undefined>;
+
+export interface IntentContext {
+  text: string;
+  userId: string; // same as driver.id
+  driver: AuthDriver;
+  history: IConversationMessage[]; // stored conversation, current user message last
+  language: Language; // the driver's reply language
+  slots: IntentSlots;
+  location?: LocationInput | null; // the device location sent with the request, if any
+}
+
+// Handlers return the JSON body for /api/ai; `reply` and `action` are always present.
+// Set `language` when the reply is already in that language so it is not translated again.
+export interface IntentResult {
+  reply: string;
+  action: string;
+  language?: Language;
+  [key: string]: any;
+}
+
+export interface IntentHandler {
+  name: string;
+  // Any matching regex makes the handler a candidate. Named capture groups become slots.
+  matchers: RegExp[];
+  // Tried when no regex matches, for words that are only known at runtime (e.g. topics in the
+  // learning catalogue); returns the slots, or null for no match
+  match?: (text: string) => IntentSlots | null;
+  // Higher priority wins; ties are broken by registration order
+  priority: number;
+  // Slots that must be captured for the handler to run
+  requiredSlots?: string[];
+  // Sample utterances this handler is expected to win, used by diagnose()
+  examples?: string[];
+  handle: (ctx: IntentContext) => Promise<IntentResult>;
+}
+
+export interface IntentCandidate {
+  handler: IntentHandler;
+  slots: IntentSlots;
+  missingSlots: string[];
+  matchedBy: RegExp | null; // null when matched by match()
+}
+
+export interface IntentDiagnostic {
+  type: "unreachable" | "overlap";
+  intent: string;
+  example?: string;
+  shadowedBy?: string;
+  message: string;
+}
+
+function captureSlots(match: RegExpMatchArray): IntentSlots {
+  const slots: IntentSlots = {};
+  for (const [key, value] of Object.entries(match.groups || {})) {
+    if (value !== undefined) slots[key] = value.trim();
+  }
+  return slots;
+}
+
+export class IntentRegistry {
+  private handlers: IntentHandler[] = [];
+
+  register(handler: IntentHandler) {
+    if (this.handlers.some((h) => h.name === handler.name)) {
+      throw new Error(`Intent "${handler.name}" is already registered`);
+    }
+    this.handlers.push(handler);
+    return this;
+  }
+
+  list() {
+    return [...this.handlers];
+  }
+
+  // All handlers that match the text, best first. Candidates with missing slots are kept
+  // (flagged via missingSlots) so callers can see why a handler was skipped.
+  rank(text: string): IntentCandidate[] {
+    const candidates: IntentCandidate[] = [];
+    const missing = (handler: IntentHandler, slots: IntentSlots) => (handler.requiredSlots || []).filter((s) => !slots[s]);
+    for (const handler of this.handlers) {
+      let matched = false;
+      for (const re of handler.matchers) {
+        const m = text.match(re);
+        if (!m) continue;
+        const slots = captureSlots(m);
+        candidates.push({ handler, slots, missingSlots: missing(handler, slots), matchedBy: re });
+        matched = true;
+        break;
+      }
+      const slots = matched ? null : handler.match?.(text);
+      if (slots) candidates.push({ handler, slots, missingSlots: missing(handler, slots), matchedBy: null });
+    }
+    return candidates
+      .map((c, i) => ({ c, i }))
+      .sort((a, b) => b.c.handler.priority - a.c.handler.priority || a.i - b.i)
+      .map(({ c }) => c);
+  }
+
+  // Highest ranked candidate whose required slots are all present
+  resolve(text: string): IntentCandidate | null {
+    return this.rank(text).find((c) => c.missingSlots.length === 0) || null;
+  }
+
+  // Run every handler's examples through the router and report handlers that can never
+  // win (unreachable) or whose examples are taken by another handler (overlap).
+  diagnose(): IntentDiagnostic[] {
+    const diagnostics: IntentDiagnostic[] = [];
+    for (const handler of this.handlers) {
+      const examples = handler.examples || [];
+      if (!examples.length) continue;
+      let wins = 0;
+      for (const example of examples) {
+        const winner = this.resolve(example);
+        if (winner && winner.handler === handler) {
+          wins++;
+          continue;
+        }
+        diagnostics.push({
+          type: "overlap",
+          intent: handler.name,
+          example,
+          shadowedBy: winner?.handler.name,
+          message: winner
+            ? `"${example}" is routed to "${winner.handler.name}" instead of "${handler.name}"`
+            : `"${example}" does not match "${handler.name}"`,
+        });
+      }
+      if (wins === 0) {
+        diagnostics.push({
+          type: "unreachable",
+          intent: handler.name,
+          message: `None of the examples for "${handler.name}" reach it`,
+        });
+      }
+    }
+    return diagnostics;
+  }
+}
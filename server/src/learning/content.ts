@@ -0,0 +1,358 @@
+// server/src/learning/content.ts
+// The learning modules and guides a new install starts with. Admins change them through
+// /learning afterwards; these are only inserted into an empty collection.
+import { LearningKind, LocalizedText } from "../models/LearningContent";
+
+export interface LearningContentSeed {
+  slug: string;
+  kind: LearningKind;
+  title: LocalizedText;
+  summary: LocalizedText;
+  keywords: string[];
+  steps: { text: LocalizedText }[];
+  quiz?: { question: LocalizedText; options: LocalizedText[]; answer: number }[];
+  badge?: LocalizedText;
+}
+
+export const DEFAULT_LEARNING_CONTENT: LearningContentSeed[] = [
+  {
+    slug: "insurance",
+    kind: "module",
+    title: {
+      hinglish: "Vehicle insurance ki basic baatein",
+      hi: "वाहन बीमा की बुनियादी बातें",
+      en: "Vehicle Insurance Basics",
+      mr: "वाहन विम्याच्या मूलभूत गोष्टी",
+      ta: "வாகனக் காப்பீட்டின் அடிப்படைகள்",
+      kn: "ವಾಹನ ವಿಮೆಯ ಮೂಲಭೂತ ವಿಷಯಗಳು",
+      bn: "গাড়ির বিমার মূল কথা",
+    },
+    summary: {
+      hinglish: "Vehicle insurance aasaan shabdon mein.",
+      hi: "वाहन बीमा आसान शब्दों में।",
+      en: "Learn about vehicle insurance in simple terms.",
+      mr: "वाहन विमा सोप्या शब्दांत.",
+      ta: "வாகனக் காப்பீடு எளிய சொற்களில்.",
+      kn: "ವಾಹನ ವಿಮೆ ಸರಳ ಪದಗಳಲ್ಲಿ.",
+      bn: "সহজ কথায় গাড়ির বিমা।",
+    },
+    keywords: ["insurance", "bima", "beema", "policy", "बीमा", "विमा", "காப்பீடு", "ವಿಮೆ", "বিমা"],
+    steps: [
+      {
+        text: {
+          hinglish: "Vehicle insurance aapko bade kharche se bachata hai.",
+          hi: "वाहन बीमा आपको बड़े खर्चों से बचाता है।",
+          en: "Vehicle insurance protects you from big expenses.",
+          mr: "वाहन विमा तुम्हाला मोठ्या खर्चापासून वाचवतो.",
+          ta: "வாகனக் காப்பீடு பெரிய செலவுகளில் இருந்து உங்களைக் காக்கிறது.",
+          kn: "ವಾಹನ ವಿಮೆ ನಿಮ್ಮನ್ನು ದೊಡ್ಡ ಖರ್ಚುಗಳಿಂದ ಕಾಪಾಡುತ್ತದೆ.",
+          bn: "গাড়ির বিমা আপনাকে বড় খরচ থেকে বাঁচায়।",
+        },
+      },
+      {
+        text: {
+          hinglish: "Har saal renew karna zaroori hai.",
+          hi: "इसे हर साल रिन्यू कराना ज़रूरी है।",
+          en: "It has to be renewed every year.",
+          mr: "दरवर्षी त्याचे नूतनीकरण करणे आवश्यक आहे.",
+          ta: "ஒவ்வொரு ஆண்டும் புதுப்பிக்க வேண்டும்.",
+          kn: "ಪ್ರತಿ ವರ್ಷ ನವೀಕರಿಸುವುದು ಅಗತ್ಯ.",
+          bn: "প্রতি বছর এটি রিনিউ করা জরুরি।",
+        },
+      },
+      {
+        text: {
+          hinglish: "Policy ka document sambhal kar rakhein.",
+          hi: "पॉलिसी का दस्तावेज़ संभालकर रखें।",
+          en: "Keep your policy document safe.",
+          mr: "पॉलिसीचे कागदपत्र जपून ठेवा.",
+          ta: "பாலிசி ஆவணத்தைப் பத்திரமாக வைத்திருங்கள்.",
+          kn: "ಪಾಲಿಸಿ ದಾಖಲೆಯನ್ನು ಜೋಪಾನವಾಗಿ ಇಡಿ.",
+          bn: "পলিসির কাগজ যত্ন করে রাখুন।",
+        },
+      },
+    ],
+    quiz: [
+      {
+        question: {
+          hinglish: "Vehicle insurance kitni baar renew karna hota hai?",
+          hi: "वाहन बीमा कितनी बार रिन्यू कराना होता है?",
+          en: "How often does vehicle insurance have to be renewed?",
+          mr: "वाहन विम्याचे नूतनीकरण किती वेळा करावे लागते?",
+          ta: "வாகனக் காப்பீட்டை எத்தனை முறை புதுப்பிக்க வேண்டும்?",
+          kn: "ವಾಹನ ವಿಮೆಯನ್ನು ಎಷ್ಟು ಬಾರಿ ನವೀಕರಿಸಬೇಕು?",
+          bn: "গাড়ির বিমা কত দিন পরপর রিনিউ করতে হয়?",
+        },
+        options: [
+          { hinglish: "Har saal", hi: "हर साल", en: "Every year", mr: "दरवर्षी", ta: "ஒவ்வொரு ஆண்டும்", kn: "ಪ್ರತಿ ವರ್ಷ", bn: "প্রতি বছর" },
+          { hinglish: "Paanch saal mein ek baar", hi: "पाँच साल में एक बार", en: "Once in five years", mr: "पाच वर्षांतून एकदा", ta: "ஐந்து ஆண்டுகளுக்கு ஒருமுறை", kn: "ಐದು ವರ್ಷಕ್ಕೊಮ್ಮೆ", bn: "পাঁচ বছরে একবার" },
+        ],
+        answer: 0,
+      },
+      {
+        question: {
+          hinglish: "Insurance aapko kisse bachata hai?",
+          hi: "बीमा आपको किससे बचाता है?",
+          en: "What does insurance protect you from?",
+          mr: "विमा तुम्हाला कशापासून वाचवतो?",
+          ta: "காப்பீடு உங்களை எதிலிருந்து காக்கிறது?",
+          kn: "ವಿಮೆ ನಿಮ್ಮನ್ನು ಯಾವುದರಿಂದ ಕಾಪಾಡುತ್ತದೆ?",
+          bn: "বিমা আপনাকে কী থেকে বাঁচায়?",
+        },
+        options: [
+          { hinglish: "Traffic jam se", hi: "ट्रैफिक जाम से", en: "Traffic jams", mr: "ट्रॅफिक जॅमपासून", ta: "போக்குவரத்து நெரிசலிலிருந்து", kn: "ಟ್ರಾಫಿಕ್ ಜಾಮ್‌ನಿಂದ", bn: "ট্রাফিক জ্যাম থেকে" },
+          { hinglish: "Bade kharche se", hi: "बड़े खर्चों से", en: "Big expenses", mr: "मोठ्या खर्चापासून", ta: "பெரிய செலவுகளிலிருந்து", kn: "ದೊಡ್ಡ ಖರ್ಚುಗಳಿಂದ", bn: "বড় খরচ থেকে" },
+        ],
+        answer: 1,
+      },
+    ],
+    badge: {
+      hinglish: "Insurance jaankar",
+      hi: "बीमा जानकार",
+      en: "Insurance Aware",
+      mr: "विमा जाणकार",
+      ta: "காப்பீடு அறிந்தவர்",
+      kn: "ವಿಮೆ ಜ್ಞಾನಿ",
+      bn: "বিমা সচেতন",
+    },
+  },
+  {
+    slug: "customer-service",
+    kind: "module",
+    title: {
+      hinglish: "Customer service ke tips",
+      hi: "ग्राहक सेवा के सुझाव",
+      en: "Customer Service Tips",
+      mr: "ग्राहक सेवेसाठी टिप्स",
+      ta: "வாடிக்கையாளர் சேவை குறிப்புகள்",
+      kn: "ಗ್ರಾಹಕ ಸೇವೆಯ ಸಲಹೆಗಳು",
+      bn: "গ্রাহক পরিষেবার টিপস",
+    },
+    summary: {
+      hinglish: "Customer ko khush kaise rakhein.",
+      hi: "ग्राहक को खुश कैसे रखें।",
+      en: "How to keep customers happy.",
+      mr: "ग्राहकांना खूश कसे ठेवावे.",
+      ta: "வாடிக்கையாளர்களை எப்படி மகிழ்ச்சியாக வைத்திருப்பது.",
+      kn: "ಗ್ರಾಹಕರನ್ನು ಹೇಗೆ ಖುಷಿಯಾಗಿಡುವುದು.",
+      bn: "গ্রাহককে কীভাবে খুশি রাখবেন।",
+    },
+    keywords: ["customer service", "customer", "grahak", "ग्राहक", "வாடிக்கையாளர்", "ಗ್ರಾಹಕ", "গ্রাহক"],
+    steps: [
+      {
+        text: {
+          hinglish: "Customer se hamesha vinamrata se baat karein.",
+          hi: "ग्राहक से हमेशा विनम्रता से बात करें।",
+          en: "Always speak politely to customers.",
+          mr: "ग्राहकांशी नेहमी नम्रपणे बोला.",
+          ta: "வாடிக்கையாளர்களிடம் எப்போதும் பணிவாகப் பேசுங்கள்.",
+          kn: "ಗ್ರಾಹಕರೊಂದಿಗೆ ಯಾವಾಗಲೂ ವಿನಯದಿಂದ ಮಾತನಾಡಿ.",
+          bn: "গ্রাহকের সঙ্গে সবসময় নম্রভাবে কথা বলুন।",
+        },
+      },
+      {
+        text: {
+          hinglish: "Samay par delivery karein.",
+          hi: "समय पर डिलीवरी करें।",
+          en: "Deliver on time.",
+          mr: "वेळेवर डिलिव्हरी करा.",
+          ta: "நேரத்தில் டெலிவரி செய்யுங்கள்.",
+          kn: "ಸಮಯಕ್ಕೆ ಸರಿಯಾಗಿ ಡೆಲಿವರಿ ಮಾಡಿ.",
+          bn: "সময়মতো ডেলিভারি দিন।",
+        },
+      },
+      {
+        text: {
+          hinglish: "Samaan dhyaan se sambhalein.",
+          hi: "सामान ध्यान से संभालें।",
+          en: "Handle goods carefully.",
+          mr: "सामान काळजीपूर्वक हाताळा.",
+          ta: "பொருட்களைக் கவனமாகக் கையாளுங்கள்.",
+          kn: "ಸಾಮಾನನ್ನು ಜಾಗ್ರತೆಯಿಂದ ನಿರ್ವಹಿಸಿ.",
+          bn: "জিনিসপত্র যত্ন করে রাখুন।",
+        },
+      },
+    ],
+    quiz: [
+      {
+        question: {
+          hinglish: "Customer se kaise baat karni chahiye?",
+          hi: "ग्राहक से कैसे बात करनी चाहिए?",
+          en: "How should you speak to customers?",
+          mr: "ग्राहकांशी कसे बोलावे?",
+          ta: "வாடிக்கையாளர்களிடம் எப்படிப் பேச வேண்டும்?",
+          kn: "ಗ್ರಾಹಕರೊಂದಿಗೆ ಹೇಗೆ ಮಾತನಾಡಬೇಕು?",
+          bn: "গ্রাহকের সঙ্গে কীভাবে কথা বলা উচিত?",
+        },
+        options: [
+          { hinglish: "Jaldi mein", hi: "जल्दबाज़ी में", en: "In a hurry", mr: "घाईघाईने", ta: "அவசரமாக", kn: "ಆತುರದಲ್ಲಿ", bn: "তাড়াহুড়ো করে" },
+          { hinglish: "Vinamrata se", hi: "विनम्रता से", en: "Politely", mr: "नम्रपणे", ta: "பணிவாக", kn: "ವಿನಯದಿಂದ", bn: "নম্রভাবে" },
+        ],
+        answer: 1,
+      },
+      {
+        question: {
+          hinglish: "Delivery kab karni chahiye?",
+          hi: "डिलीवरी कब करनी चाहिए?",
+          en: "When should you deliver?",
+          mr: "डिलिव्हरी कधी करावी?",
+          ta: "எப்போது டெலிவரி செய்ய வேண்டும்?",
+          kn: "ಡೆಲಿವರಿ ಯಾವಾಗ ಮಾಡಬೇಕು?",
+          bn: "কখন ডেলিভারি দেওয়া উচিত?",
+        },
+        options: [
+          { hinglish: "Samay par", hi: "समय पर", en: "On time", mr: "वेळेवर", ta: "நேரத்தில்", kn: "ಸಮಯಕ್ಕೆ ಸರಿಯಾಗಿ", bn: "সময়মতো" },
+          { hinglish: "Jab mann kare", hi: "जब मन करे", en: "Whenever you like", mr: "मनात येईल तेव्हा", ta: "விரும்பும்போது", kn: "ಮನಸ್ಸಾದಾಗ", bn: "যখন ইচ্ছে" },
+        ],
+        answer: 0,
+      },
+    ],
+    badge: {
+      hinglish: "Customer ka saathi",
+      hi: "ग्राहक मित्र",
+      en: "Customer Champion",
+      mr: "ग्राहक मित्र",
+      ta: "வாடிக்கையாளர் நண்பர்",
+      kn: "ಗ್ರಾಹಕ ಮಿತ್ರ",
+      bn: "গ্রাহক বন্ধু",
+    },
+  },
+  {
+    slug: "challan",
+    kind: "guide",
+    title: {
+      hinglish: "Challan contest kaise karein",
+      hi: "चालान को चुनौती कैसे दें",
+      en: "How to Contest a Challan",
+      mr: "चलानविरुद्ध अपील कसे करावे",
+      ta: "சலானை எதிர்ப்பது எப்படி",
+      kn: "ಚಲನ್ ಪ್ರಶ್ನಿಸುವುದು ಹೇಗೆ",
+      bn: "চালানের বিরুদ্ধে আপিল কীভাবে করবেন",
+    },
+    summary: {
+      hinglish: "Galat challan ke khilaaf appeal karne ke steps.",
+      hi: "गलत चालान के ख़िलाफ़ अपील करने के स्टेप।",
+      en: "Steps to appeal against a wrong challan.",
+      mr: "चुकीच्या चलानविरुद्ध अपील करण्याच्या पायऱ्या.",
+      ta: "தவறான சலானை எதிர்த்து மேல்முறையீடு செய்யும் படிகள்.",
+      kn: "ತಪ್ಪು ಚಲನ್ ವಿರುದ್ಧ ಮೇಲ್ಮನವಿ ಸಲ್ಲಿಸುವ ಹಂತಗಳು.",
+      bn: "ভুল চালানের বিরুদ্ধে আপিলের ধাপ।",
+    },
+    keywords: ["challan", "chalan", "चालान", "चलान", "சலான்", "ಚಲನ್", "চালান"],
+    steps: [
+      {
+        text: {
+          hinglish: "Traffic website par jao.",
+          hi: "ट्रैफ़िक वेबसाइट पर जाइए।",
+          en: "Go to the traffic website.",
+          mr: "ट्रॅफिक वेबसाइटवर जा.",
+          ta: "போக்குவரத்து இணையதளத்துக்குச் செல்லுங்கள்.",
+          kn: "ಟ್ರಾಫಿಕ್ ವೆಬ್‌ಸೈಟ್‌ಗೆ ಹೋಗಿ.",
+          bn: "ট্রাফিক ওয়েবসাইটে যান।",
+        },
+      },
+      {
+        text: {
+          hinglish: "Challan number daalo.",
+          hi: "चालान नंबर डालिए।",
+          en: "Enter the challan number.",
+          mr: "चलान क्रमांक टाका.",
+          ta: "சலான் எண்ணை உள்ளிடுங்கள்.",
+          kn: "ಚಲನ್ ಸಂಖ್ಯೆ ನಮೂದಿಸಿ.",
+          bn: "চালান নম্বর দিন।",
+        },
+      },
+      {
+        text: {
+          hinglish: "Document upload karo.",
+          hi: "दस्तावेज़ अपलोड कीजिए।",
+          en: "Upload your documents.",
+          mr: "कागदपत्रे अपलोड करा.",
+          ta: "ஆவணங்களைப் பதிவேற்றுங்கள்.",
+          kn: "ದಾಖಲೆಗಳನ್ನು ಅಪ್‌ಲೋಡ್ ಮಾಡಿ.",
+          bn: "কাগজপত্র আপলোড করুন।",
+        },
+      },
+      {
+        text: {
+          hinglish: "Appeal submit karo.",
+          hi: "अपील सबमिट कीजिए।",
+          en: "Submit the appeal.",
+          mr: "अपील सबमिट करा.",
+          ta: "மேல்முறையீட்டைச் சமர்ப்பியுங்கள்.",
+          kn: "ಮೇಲ್ಮನವಿ ಸಲ್ಲಿಸಿ.",
+          bn: "আপিল জমা দিন।",
+        },
+      },
+    ],
+  },
+  {
+    slug: "digilocker",
+    kind: "guide",
+    title: {
+      hinglish: "DigiLocker mein document kaise upload karein",
+      hi: "डिजिलॉकर में दस्तावेज़ कैसे अपलोड करें",
+      en: "How to Upload to DigiLocker",
+      mr: "डिजिलॉकरमध्ये कागदपत्र कसे अपलोड करावे",
+      ta: "டிஜிலாக்கரில் பதிவேற்றுவது எப்படி",
+      kn: "ಡಿಜಿಲಾಕರ್‌ಗೆ ಅಪ್‌ಲೋಡ್ ಮಾಡುವುದು ಹೇಗೆ",
+      bn: "ডিজিলকারে কীভাবে আপলোড করবেন",
+    },
+    summary: {
+      hinglish: "Apne documents DigiLocker mein rakhne ke steps.",
+      hi: "अपने दस्तावेज़ डिजिलॉकर में रखने के स्टेप।",
+      en: "Steps to keep your documents in DigiLocker.",
+      mr: "तुमची कागदपत्रे डिजिलॉकरमध्ये ठेवण्याच्या पायऱ्या.",
+      ta: "உங்கள் ஆவணங்களை டிஜிலாக்கரில் வைக்கும் படிகள்.",
+      kn: "ನಿಮ್ಮ ದಾಖಲೆಗಳನ್ನು ಡಿಜಿಲಾಕರ್‌ನಲ್ಲಿ ಇಡುವ ಹಂತಗಳು.",
+      bn: "আপনার কাগজপত্র ডিজিলকারে রাখার ধাপ।",
+    },
+    keywords: ["digilocker", "digi locker", "डिजिलॉकर", "டிஜிலாக்கர்", "ಡಿಜಿಲಾಕರ್", "ডিজিলকার"],
+    steps: [
+      {
+        text: {
+          hinglish: "DigiLocker app kholo.",
+          hi: "डिजिलॉकर ऐप खोलिए।",
+          en: "Open the DigiLocker app.",
+          mr: "डिजिलॉकर ॲप उघडा.",
+          ta: "டிஜிலாக்கர் ஆப்பைத் திறங்கள்.",
+          kn: "ಡಿಜಿಲಾಕರ್ ಆ್ಯಪ್ ತೆರೆಯಿರಿ.",
+          bn: "ডিজিলকার অ্যাপ খুলুন।",
+        },
+      },
+      {
+        text: {
+          hinglish: "Apne mobile number se login karo.",
+          hi: "अपने मोबाइल नंबर से लॉगिन कीजिए।",
+          en: "Log in with your mobile number.",
+          mr: "तुमच्या मोबाइल नंबरने लॉगिन करा.",
+          ta: "உங்கள் மொபைல் எண்ணுடன் லாகின் செய்யுங்கள்.",
+          kn: "ನಿಮ್ಮ ಮೊಬೈಲ್ ಸಂಖ್ಯೆಯಿಂದ ಲಾಗಿನ್ ಮಾಡಿ.",
+          bn: "আপনার মোবাইল নম্বর দিয়ে লগইন করুন।",
+        },
+      },
+      {
+        text: {
+          hinglish: "Upload Documents par jao.",
+          hi: "Upload Documents पर जाइए।",
+          en: "Go to Upload Documents.",
+          mr: "Upload Documents वर जा.",
+          ta: "Upload Documents-க்குச் செல்லுங்கள்.",
+          kn: "Upload Documents ಗೆ ಹೋಗಿ.",
+          bn: "Upload Documents-এ যান।",
+        },
+      },
+      {
+        text: {
+          hinglish: "File select karke upload karo.",
+          hi: "फ़ाइल चुनकर अपलोड कीजिए।",
+          en: "Select the file and upload it.",
+          mr: "फाइल निवडून अपलोड करा.",
+          ta: "கோப்பைத் தேர்ந்தெடுத்துப் பதிவேற்றுங்கள்.",
+          kn: "ಫೈಲ್ ಆಯ್ಕೆ ಮಾಡಿ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ.",
+          bn: "ফাইল বেছে আপলোড করুন।",
+        },
+      },
+    ],
+  },
+];
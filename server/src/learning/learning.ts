@@ -0,0 +1,164 @@
+// server/src/learning/learning.ts
+// The learning catalogue: finding the module or guide a driver asks for, by keyword in any
+// language or (with an LLM configured) by meaning, picking the language to present it in, and
+// each driver's progress through it, up to the certificate, badge and reward on completion.
+import crypto from "crypto";
+import { LANGUAGES, Language } from "../i18n/languages";
+import { recordEntry } from "../ledger/earnings";
+import { getLLM } from "../llm/config";
+import LearningContent, { ILearningContent, LocalizedText } from "../models/LearningContent";
+import LearningProgress, { ILearningProgress } from "../models/LearningProgress";
+import { DEFAULT_LEARNING_CONTENT } from "./content";
+
+interface CatalogueEntry {
+  slug: string;
+  title: LocalizedText;
+  summary: LocalizedText;
+  keywords: string[];
+}
+
+type IndexedEntry = CatalogueEntry & { terms: { re: RegExp; weight: number }[] };
+
+// Published content, kept in memory so intents can be matched synchronously; reloaded after
+// every admin change
+let catalogue: IndexedEntry[] = [];
+
+const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// A whole word or phrase, also in scripts where \b does not work
+const termPattern = (term: string) => new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${escape(term)}(?![\\p{L}\\p{M}\\p{N}])`, "iu");
+
+export function setLearningCatalogue(entries: CatalogueEntry[]) {
+  catalogue = entries.map((e) => {
+    const phrases = [...e.keywords, e.slug.replace(/-/g, " "), ...Object.values(e.title)];
+    const terms = [...new Set(phrases.map((p) => p!.trim().toLowerCase()).filter(Boolean))];
+    return { ...e, terms: terms.map((t) => ({ re: termPattern(t), weight: t.length })) };
+  });
+}
+
+export async function loadLearningCatalogue() {
+  const published = await LearningContent.find({ published: true }, { slug: 1, title: 1, summary: 1, keywords: 1 }).lean();
+  setLearningCatalogue(published.map((c) => ({ slug: c.slug, title: c.title, summary: c.summary, keywords: c.keywords })));
+}
+
+export const learningTopics = () => catalogue.map(({ slug, title }) => ({ slug, title }));
+
+// The topic whose keywords cover most of the text; longer phrases count for more
+export function matchLearningTopic(text: string): string | null {
+  let best: { slug: string; score: number } | null = null;
+  for (const entry of catalogue) {
+    const score = entry.terms.reduce((sum, t) => (t.re.test(text) ? sum + t.weight : sum), 0);
+    if (score && (!best || score > best.score)) best = { slug: entry.slug, score };
+  }
+  return best?.slug ?? null;
+}
+
+// Keywords first; otherwise the LLM picks the topic closest in meaning ("gaadi ka bima kab
+// tak valid hai" finds insurance even without the keyword "bima")
+export async function findLearningTopic(text: string): Promise<string | null> {
+  const matched = matchLearningTopic(text);
+  const llm = getLLM();
+  if (matched || !llm || !catalogue.length) return matched;
+
+  const topics = catalogue.map((e) => `- ${e.slug}: ${localized(e.title, "en")}. ${localized(e.summary, "en")}`).join("\n");
+  const system = 'You match a delivery driver\'s request to one learning topic. Return JSON only: {"slug": <a slug from the list, or null if none fits>}.';
+  try {
+    const parsed = await llm.extractJSON(system, `Topics:\n${topics}\n\nRequest: """${text}"""`);
+    return catalogue.some((e) => e.slug === parsed.slug) ? String(parsed.slug) : null;
+  } catch (err) {
+    console.error("Learning topic LLM error:", err);
+    return null;
+  }
+}
+
+// The text in the given language, else Hinglish, else English, else whatever there is
+export function localized(text: LocalizedText | null | undefined, language: Language): string {
+  if (!text) return "";
+  // by language rather than Object.values, which would also see a subdocument's internals
+  return text[language] || text.hinglish || text.en || LANGUAGES.map((l) => text[l]).find(Boolean) || "";
+}
+
+// The language to present content in: the driver's if the title, every step and the quiz have
+// it, otherwise Hinglish or English (the reply is then translated like any other)
+export function contentLanguage(content: ILearningContent, language: Language): Language {
+  const complete = (l: Language) =>
+    !!content.title[l] &&
+    content.steps.every((s) => !!s.text[l]) &&
+    content.quiz.every((q) => !!q.question[l] && q.options.every((o) => !!o[l]));
+  return [language, "hinglish" as const, "en" as const].find(complete) || language;
+}
+
+// A new install starts with the built-in modules and guides
+export async function seedLearningContent() {
+  if (await LearningContent.exists({})) return;
+  await LearningContent.insertMany(DEFAULT_LEARNING_CONTENT);
+}
+
+export async function startLearningCatalogue() {
+  await seedLearningContent();
+  await loadLearningCatalogue();
+}
+
+export function getLearningProgress(driverId: string, contentId: string): Promise<ILearningProgress | null> {
+  return LearningProgress.findOne({ driverId, contentId });
+}
+
+// What a driver gets the first time they complete a module or guide
+export interface LearningAward {
+  certificateId: string;
+  badge: LocalizedText | null;
+  reward: number; // ₹ credited to the ledger as a reward entry
+}
+
+// Record the step a driver has reached. Reaching the end marks the steps heard, which completes
+// content without a quiz; returns the award when that happens for the first time.
+export async function saveLearningProgress(driverId: string, content: ILearningContent, step: number): Promise<LearningAward | null> {
+  const stepsDone = step >= content.steps.length;
+  const set: Record<string, unknown> = { step: Math.min(step, Math.max(content.steps.length - 1, 0)) };
+  if (stepsDone) set.stepsDone = true;
+  const progress = await LearningProgress.findOneAndUpdate({ driverId, contentId: content._id }, { $set: set }, { upsert: true, new: true });
+  return stepsDone && !content.quiz.length ? completeLearning(progress, content) : null;
+}
+
+// Record a finished quiz attempt; the best score is kept, and passing completes the content
+export async function saveQuizResult(driverId: string, content: ILearningContent, score: number) {
+  const progress = await LearningProgress.findOneAndUpdate(
+    { driverId, contentId: content._id },
+    { $max: { quizScore: score }, $inc: { quizAttempts: 1 } },
+    { upsert: true, new: true }
+  );
+  const passed = score >= content.passScore;
+  const award = passed && progress.stepsDone ? await completeLearning(progress, content) : null;
+  return { passed, award };
+}
+
+// Completing for the first time issues the certificate, and credits the reward to the ledger
+async function completeLearning(progress: ILearningProgress, content: ILearningContent): Promise<LearningAward | null> {
+  const certificateId = `CERT-${crypto.randomBytes(4).toString("hex").toUpperCase()}`;
+  const first = await LearningProgress.findOneAndUpdate(
+    { _id: progress._id, completed: false },
+    { $set: { completed: true, completedAt: new Date(), certificateId } },
+    { new: true }
+  );
+  if (!first) return null;
+  if (content.reward > 0) {
+    await recordEntry({
+      driverId: progress.driverId,
+      type: "reward",
+      amount: content.reward,
+      reason: `Learning: ${localized(content.title, "en")}`,
+      metadata: { learningContentId: String(content._id), certificateId },
+    });
+  }
+  return { certificateId, badge: content.badge ?? null, reward: content.reward };
+}
+
+// Badges a driver has earned, newest first
+export async function learningBadges(driverId: string) {
+  const done = await LearningProgress.find({ driverId, completed: true })
+    .sort({ completedAt: -1 })
+    .populate<{ contentId: ILearningContent | null }>("contentId", "slug badge");
+  return done
+    .filter((p) => localized(p.contentId?.badge, "en"))
+    .map((p) => ({ slug: p.contentId!.slug, badge: p.contentId!.badge!, earnedAt: p.completedAt ?? null }));
+}
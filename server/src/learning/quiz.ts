@@ -0,0 +1,68 @@
+// server/src/learning/quiz.ts
+// Grading spoken quiz answers. The driver picks an option by its number ("doosra", "option 2",
+// "2") or by saying most of its words, in any of the languages the option is written in.
+import { LANGUAGES } from "../i18n/languages";
+import { IQuizQuestion, LocalizedText } from "../models/LearningContent";
+import { toNumber } from "../nlu/numbers";
+
+const ORDINALS: [RegExp, number][] = [
+  [/\b(?:pehla|pehle|pahla|pahle|first|1st)\b|पहला|पहले|पहिला|முதல்|ಮೊದಲ|প্রথম/i, 1],
+  [/\b(?:doosra|dusra|doosre|dusre|second|2nd)\b|दूसरा|दूसरे|दुसरा|இரண்டாவது|ಎರಡನೇ|দ্বিতীয়/i, 2],
+  [/\b(?:teesra|tisra|teesre|third|3rd)\b|तीसरा|तिसरा|மூன்றாவது|ಮೂರನೇ|তৃতীয়/i, 3],
+  [/\b(?:chautha|chauthe|fourth|4th)\b|चौथा|चौथे|நான்காவது|ನಾಲ್ಕನೇ|চতুর্থ/i, 4],
+];
+
+// "2", "doosra wala", "number do": the whole answer is the option's number. A bare number word
+// counts only then, since "do" is also "give", and a digit too ("5 saal mein ek baar").
+const NUMBERED = /^(?:option|number|no\.?)?\s*([\p{L}\p{M}\p{N}]+)(?:\s*(?:number|no\.?|wala|wali|option))*\s*[.!]?$/iu;
+// "mera jawab option 2 hai": a number said after "option" or "number"
+const AFTER_OPTION = /\b(?:option|number)\s+([\p{L}\p{M}\p{N}]+)/iu;
+
+const words = (text: string) => text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) || [];
+
+function numberOf(word: string): number | null {
+  if (/^[1-9]$/.test(word)) return Number(word);
+  for (const [re, n] of ORDINALS) if (re.test(word)) return n;
+  return toNumber(word.toLowerCase());
+}
+
+function optionNumber(text: string): number | null {
+  const said = text.trim().match(NUMBERED) || text.match(AFTER_OPTION);
+  return said ? numberOf(said[1]) : null;
+}
+
+// How many of the option's words were said, and what share of the option that is, in
+// whichever language fits best
+function overlap(option: LocalizedText, said: Set<string>): { matched: number; share: number } {
+  let best = { matched: 0, share: 0 };
+  for (const language of LANGUAGES) {
+    const expected = words(option[language] || "");
+    if (!expected.length) continue;
+    const matched = expected.filter((w) => said.has(w)).length;
+    if (matched > best.matched || (matched === best.matched && matched / expected.length > best.share)) {
+      best = { matched, share: matched / expected.length };
+    }
+  }
+  return best;
+}
+
+// Index of the option the driver chose, or null when the answer is unclear
+export function chooseOption(question: IQuizQuestion, text: string): number | null {
+  const n = optionNumber(text);
+  if (n !== null) return n >= 1 && n <= question.options.length ? n - 1 : null;
+
+  // the option with the most words said ("paanch saal" is not "har saal"), if more than half
+  // of it was said and no other option is as close
+  const said = new Set(words(text));
+  const scores = question.options.map((o) => overlap(o, said));
+  const rank = (s: { matched: number; share: number }) => s.matched + s.share;
+  const best = Math.max(...scores.map(rank));
+  const chosen = scores.findIndex((s) => rank(s) === best);
+  if (scores[chosen].share <= 0.5 || scores.filter((s) => rank(s) === best).length > 1) return null;
+  return chosen;
+}
+
+// Percent of answers that were right, rounded
+export function quizScore(correct: number, total: number): number {
+  return total ? Math.round((correct / total) * 100) : 100;
+}
@@ -0,0 +1,172 @@
+// server/src/ledger/earnings.ts
+// Per-driver earnings from the ledger: entry recording and MongoDB aggregations.
+import { Types } from "mongoose";
+import LedgerEntry, { LEDGER_SIGN, LEDGER_TYPES, LedgerType } from "../models/LedgerEntry";
+import type { IOrder } from "../models/Order";
+import { LEDGER_TIMEZONE, fromZoned, toZoned } from "../utils/time";
+
+export type EarningsPeriod = "daily" | "weekly" | "monthly";
+
+export type LedgerTotals = Record<LedgerType, number>;
+
+export interface EarningsSummary {
+  totals: LedgerTotals;
+  earnings: number; // fare + reward
+  expenses: number; // fuel + toll + penalty
+  net: number;
+}
+
+const PERIOD_UNIT: Record<EarningsPeriod, "day" | "week" | "month"> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+};
+
+// Entries that count towards earnings: a penalty whose appeal was accepted no longer does
+export const COUNTED = { "appeal.status": { $ne: "accepted" } };
+
+function emptyTotals(): LedgerTotals {
+  return Object.fromEntries(LEDGER_TYPES.map((t) => [t, 0])) as LedgerTotals;
+}
+
+export function summarize(totals: LedgerTotals): EarningsSummary {
+  const earnings = totals.fare + totals.reward;
+  const expenses = totals.fuel + totals.toll + totals.penalty;
+  const net = LEDGER_TYPES.reduce((sum, t) => sum + LEDGER_SIGN[t] * totals[t], 0);
+  return { totals, earnings, expenses, net };
+}
+
+// The driver the ledger credits for an order
+export function orderDriverId(order: IOrder): string | null {
+  return order.assignedTo || order.metadata?.createdBy || null;
+}
+
+export async function recordEntry(entry: {
+  driverId: string;
+  type: LedgerType;
+  amount: number;
+  order?: IOrder | null;
+  reason?: string;
+  occurredAt?: Date;
+  ruleId?: Types.ObjectId | null;
+  metadata?: any;
+}) {
+  return LedgerEntry.create({
+    driverId: entry.driverId,
+    type: entry.type,
+    amount: Math.abs(entry.amount),
+    orderId: entry.order?._id || null,
+    trackingId: entry.order?.trackingId,
+    reason: entry.reason,
+    occurredAt: entry.occurredAt || new Date(),
+    ruleId: entry.ruleId || null,
+    metadata: entry.metadata,
+  });
+}
+
+// Book the fare and fuel cost of a delivered order once
+export async function recordOrderDelivery(order: IOrder) {
+  const driverId = orderDriverId(order);
+  if (!driverId) return;
+  if (await LedgerEntry.exists({ orderId: order._id, type: "fare" })) return;
+  // only admins price orders; one delivered unpriced is flagged for them instead of booked
+  if (order.amount == null) console.warn(`Order ${order.trackingId} was delivered without a fare; nothing booked for it`);
+  if (order.amount) {
+    await recordEntry({ driverId, type: "fare", amount: order.amount, order, reason: `Delivery ${order.trackingId}` });
+  }
+  if (order.expenses) {
+    await recordEntry({ driverId, type: "fuel", amount: order.expenses, order, reason: `Fuel for ${order.trackingId}` });
+  }
+}
+
+// Totals per entry type for one driver in [from, to)
+export async function getTotals(driverId: string, from: Date, to: Date): Promise<LedgerTotals> {
+  const rows = await LedgerEntry.aggregate<{ _id: LedgerType; total: number }>([
+    { $match: { driverId, occurredAt: { $gte: from, $lt: to }, ...COUNTED } },
+    { $group: { _id: "$type", total: { $sum: "$amount" } } },
+  ]);
+  const totals = emptyTotals();
+  for (const row of rows) totals[row._id] = row.total;
+  return totals;
+}
+
+// Daily, weekly or monthly buckets for one driver, oldest first
+export async function getEarningsReport(driverId: string, period: EarningsPeriod, from: Date, to: Date) {
+  const rows = await LedgerEntry.aggregate<{ _id: Date; byType: { k: LedgerType; v: number }[] }>([
+    { $match: { driverId, occurredAt: { $gte: from, $lt: to }, ...COUNTED } },
+    {
+      $group: {
+        _id: {
+          bucket: { $dateTrunc: { date: "$occurredAt", unit: PERIOD_UNIT[period], timezone: LEDGER_TIMEZONE, startOfWeek: "sunday" } },
+          type: "$type",
+        },
+        total: { $sum: "$amount" },
+      },
+    },
+    { $group: { _id: "$_id.bucket", byType: { $push: { k: "$_id.type", v: "$total" } } } },
+    { $sort: { _id: 1 } },
+  ]);
+  return rows.map((row) => {
+    const totals = emptyTotals();
+    for (const { k, v } of row.byType) totals[k] = v;
+    return { periodStart: row._id, ...summarize(totals) };
+  });
+}
+
+// Days, weeks and months are cut in LEDGER_TIMEZONE, like the $dateTrunc buckets above
+export function startOfDay(d: Date) {
+  const wall = toZoned(d);
+  wall.setUTCHours(0, 0, 0, 0);
+  return fromZoned(wall);
+}
+
+// Weeks start on Sunday
+export function weekBounds(now: Date = new Date()) {
+  const wall = toZoned(now);
+  wall.setUTCHours(0, 0, 0, 0);
+  wall.setUTCDate(wall.getUTCDate() - wall.getUTCDay());
+  const startOfThisWeek = fromZoned(wall);
+  wall.setUTCDate(wall.getUTCDate() - 7);
+  const startOfLastWeek = fromZoned(wall);
+  return { startOfThisWeek, startOfLastWeek };
+}
+
+// Ranges for "today", "this week" and "this month" as spoken by drivers
+export function periodRange(period: EarningsPeriod, now: Date = new Date()) {
+  if (period === "weekly") return { from: weekBounds(now).startOfThisWeek, to: now };
+  const wall = toZoned(now);
+  wall.setUTCHours(0, 0, 0, 0);
+  if (period === "monthly") {
+    wall.setUTCDate(1);
+    return { from: fromZoned(wall), to: now };
+  }
+  const from = fromZoned(wall);
+  wall.setUTCDate(wall.getUTCDate() + 1);
+  return { from, to: fromZoned(wall) };
+}
+
+// Numbers behind the earnings, penalty, reward and growth voice intents
+export async function getBusinessMetrics(driverId: string, now: Date = new Date()) {
+  const today = periodRange("daily", now);
+  const { startOfThisWeek, startOfLastWeek } = weekBounds(now);
+
+  const [todayTotals, thisWeekTotals, lastWeekTotals, todayEntries] = await Promise.all([
+    getTotals(driverId, today.from, today.to),
+    getTotals(driverId, startOfThisWeek, now),
+    getTotals(driverId, startOfLastWeek, startOfThisWeek),
+    LedgerEntry.find({ driverId, type: { $in: ["penalty", "reward"] }, occurredAt: { $gte: today.from, $lt: today.to }, ...COUNTED }).sort({
+      occurredAt: 1,
+    }),
+  ]);
+  const todaySummary = summarize(todayTotals);
+
+  const asItem = (e: any) => ({ reason: e.reason || e.type, amount: e.amount, date: e.occurredAt, trackingId: e.trackingId });
+  return {
+    todayEarnings: todaySummary.earnings,
+    todayExpenses: todaySummary.expenses,
+    thisWeekEarnings: summarize(thisWeekTotals).earnings,
+    lastWeekEarnings: summarize(lastWeekTotals).earnings,
+    penalties: todayEntries.filter((e) => e.type === "penalty").map(asItem),
+    rewards: todayEntries.filter((e) => e.type === "reward").map(asItem),
+  };
+}
@@ -0,0 +1,59 @@
+// server/src/llm/chatFormat.ts
+// The chat completions wire format shared by OpenAI, Groq and other compatible servers.
+// Typed structurally so both SDKs accept the same messages.
+import { ChatResponse, LLMMessage } from "./provider";
+
+type WireToolCall = { id: string; type: "function"; function: { name: string; arguments: string } };
+
+export type WireMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: WireToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string }
+  | { role: "function"; name: string; content: string };
+
+interface WireCompletion {
+  choices: Array<{
+    message?: {
+      content?: string | null;
+      tool_calls?: Array<{ id: string; type: string; function?: { name: string; arguments: string } }> | null;
+    };
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null;
+}
+
+export function toWireMessages(messages: LLMMessage[]): WireMessage[] {
+  return messages.map((m): WireMessage => {
+    switch (m.role) {
+      case "tool":
+        return { role: "tool", tool_call_id: m.toolCallId, content: m.content };
+      case "function":
+        return { role: "function", name: m.name, content: m.content };
+      case "assistant":
+        return m.toolCalls?.length
+          ? {
+              role: "assistant",
+              content: m.content,
+              tool_calls: m.toolCalls.map((c) => ({ id: c.id, type: "function", function: { name: c.name, arguments: c.arguments } })),
+            }
+          : { role: "assistant", content: m.content ?? "" };
+      default:
+        return { role: m.role, content: m.content };
+    }
+  });
+}
+
+// The first choice of a chat completions response
+export function fromWireCompletion(completion: WireCompletion): ChatResponse {
+  const message = completion.choices[0]?.message;
+  return {
+    content: message?.content ?? null,
+    toolCalls: (message?.tool_calls || []).flatMap((c) =>
+      c.type === "function" && c.function ? [{ id: c.id, name: c.function.name, arguments: c.function.arguments }] : []
+    ),
+    usage: {
+      promptTokens: completion.usage?.prompt_tokens ?? 0,
+      completionTokens: completion.usage?.completion_tokens ?? 0,
+      totalTokens: completion.usage?.total_tokens ?? 0,
+    },
+  };
+}
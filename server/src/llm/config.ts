@@ -0,0 +1,59 @@
+// server/src/llm/config.ts
+// Picks the chat model provider from the environment. Tests swap it with setLLM().
+import { GroqProvider } from "./groqProvider";
+import { MockLLMProvider } from "./mockProvider";
+import { OpenAIProvider } from "./openaiProvider";
+import { LLMProvider } from "./provider";
+
+export const LLM_PROVIDERS = ["groq", "openai", "mock", "none"] as const;
+export type LLMProviderName = (typeof LLM_PROVIDERS)[number];
+
+const DEFAULT_MODELS: Record<"groq" | "openai", string> = {
+  groq: "llama-3.1-8b-instant",
+  openai: "gpt-4o-mini",
+};
+
+// LLM_PROVIDER chooses explicitly; otherwise whichever API key is set, Groq first. With
+// neither, the assistant runs offline (null).
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider | null {
+  const requested = env.LLM_PROVIDER?.toLowerCase();
+  if (requested && !(LLM_PROVIDERS as readonly string[]).includes(requested)) {
+    throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}"; use one of ${LLM_PROVIDERS.join(", ")}`);
+  }
+  const name = (requested as LLMProviderName | undefined) || (env.GROQ_API_KEY ? "groq" : env.OPENAI_API_KEY ? "openai" : "none");
+  const options = {
+    timeoutMs: Number(env.LLM_TIMEOUT_MS) || undefined,
+    maxRetries: env.LLM_MAX_RETRIES !== undefined && env.LLM_MAX_RETRIES !== "" ? Number(env.LLM_MAX_RETRIES) : undefined,
+  };
+
+  switch (name) {
+    case "groq":
+      if (!env.GROQ_API_KEY) throw new Error("LLM_PROVIDER=groq needs GROQ_API_KEY");
+      return new GroqProvider({ ...options, apiKey: env.GROQ_API_KEY, model: env.LLM_MODEL || DEFAULT_MODELS.groq });
+    case "openai":
+      // local OpenAI-compatible servers often take any key
+      if (!env.OPENAI_API_KEY && !env.OPENAI_BASE_URL) throw new Error("LLM_PROVIDER=openai needs OPENAI_API_KEY or OPENAI_BASE_URL");
+      return new OpenAIProvider({
+        ...options,
+        apiKey: env.OPENAI_API_KEY || "none",
+        baseURL: env.OPENAI_BASE_URL || undefined,
+        model: env.LLM_MODEL || DEFAULT_MODELS.openai,
+      });
+    case "mock":
+      return new MockLLMProvider(options);
+    case "none":
+      return null;
+  }
+}
+
+let provider: LLMProvider | null | undefined;
+
+// The configured provider, created on first use; null when running offline
+export function getLLM(): LLMProvider | null {
+  if (provider === undefined) provider = createLLMProvider();
+  return provider;
+}
+
+export function setLLM(next: LLMProvider | null) {
+  provider = next;
+}
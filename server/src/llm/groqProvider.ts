@@ -0,0 +1,31 @@
+// server/src/llm/groqProvider.ts
+// Groq's hosted models (GROQ_API_KEY).
+import Groq from "groq-sdk";
+import { fromWireCompletion, toWireMessages } from "./chatFormat";
+import { BaseLLMProvider, ChatRequest, ChatResponse, ProviderOptions } from "./provider";
+
+export class GroqProvider extends BaseLLMProvider {
+  readonly name = "groq";
+  private client: Groq;
+
+  constructor(options: ProviderOptions & { apiKey: string }) {
+    super(options);
+    // retries and timeouts are handled by BaseLLMProvider
+    this.client = new Groq({ apiKey: options.apiKey, maxRetries: 0 });
+  }
+
+  protected async complete(request: ChatRequest, signal: AbortSignal): Promise<ChatResponse> {
+    const completion = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages: toWireMessages(request.messages),
+        tools: request.tools,
+        tool_choice: request.tools ? request.toolChoice : undefined,
+        temperature: request.temperature,
+        response_format: request.json ? { type: "json_object" } : undefined,
+      },
+      { signal }
+    );
+    return fromWireCompletion(completion);
+  }
+}
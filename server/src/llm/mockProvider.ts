@@ -0,0 +1,66 @@
+// server/src/llm/mockProvider.ts
+// Deterministic provider for tests and demos: answers come from a script queued with
+// enqueue(), otherwise from fixed rules. Never touches the network.
+import { BaseLLMProvider, ChatRequest, ChatResponse, LLMToolCall, ProviderOptions } from "./provider";
+
+export interface MockResponse {
+  content?: string | null;
+  toolCalls?: Array<Omit<LLMToolCall, "id"> & { id?: string }>; // ids are generated when left out
+}
+
+export type MockStep =
+  | MockResponse
+  | ((request: ChatRequest) => MockResponse)
+  | Error; // thrown by that call, e.g. an LLMError to exercise retries
+
+// Rough token count: about four characters per token
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export class MockLLMProvider extends BaseLLMProvider {
+  readonly name = "mock";
+  readonly requests: ChatRequest[] = [];
+  private script: MockStep[] = [];
+  private calls = 0;
+
+  constructor(options: Partial<ProviderOptions> = {}) {
+    super({ model: "mock", maxRetries: 0, ...options });
+  }
+
+  // Responses for the next calls, in order
+  enqueue(...steps: MockStep[]) {
+    this.script.push(...steps);
+    return this;
+  }
+
+  reset() {
+    this.script = [];
+    this.requests.length = 0;
+  }
+
+  protected async complete(request: ChatRequest): Promise<ChatResponse> {
+    this.requests.push(request);
+    const step = this.script.shift();
+    if (step instanceof Error) throw step;
+    const scripted = typeof step === "function" ? step(request) : step;
+    const { content, toolCalls = [] }: MockResponse = scripted ?? this.defaultResponse(request);
+
+    const prompt = request.messages.map((m) => m.content || "").join("\n");
+    const completion = (content || "") + toolCalls.map((c) => c.arguments).join("");
+    const usage = { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(completion), totalTokens: 0 };
+    usage.totalTokens = usage.promptTokens + usage.completionTokens;
+    return {
+      content: content ?? null,
+      toolCalls: toolCalls.map((c) => ({ id: c.id || `call_mock_${++this.calls}`, name: c.name, arguments: c.arguments })),
+      usage,
+    };
+  }
+
+  // Without a script: an empty object for JSON requests, the text itself for translations,
+  // and an echo of the last user message otherwise
+  private defaultResponse(request: ChatRequest): MockResponse {
+    const lastUser = [...request.messages].reverse().find((m) => m.role === "user")?.content || "";
+    if (request.json) return { content: "{}" };
+    if (request.messages[0]?.content?.startsWith("Translate")) return { content: lastUser };
+    return { content: `Mock reply: ${lastUser}` };
+  }
+}
@@ -0,0 +1,32 @@
+// server/src/llm/openaiProvider.ts
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or a local/self-hosted
+// model behind an OpenAI-compatible endpoint (OPENAI_BASE_URL).
+import OpenAI from "openai";
+import { fromWireCompletion, toWireMessages } from "./chatFormat";
+import { BaseLLMProvider, ChatRequest, ChatResponse, ProviderOptions } from "./provider";
+
+export class OpenAIProvider extends BaseLLMProvider {
+  readonly name = "openai";
+  private client: OpenAI;
+
+  constructor(options: ProviderOptions & { apiKey: string; baseURL?: string }) {
+    super(options);
+    // retries and timeouts are handled by BaseLLMProvider
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL, maxRetries: 0 });
+  }
+
+  protected async complete(request: ChatRequest, signal: AbortSignal): Promise<ChatResponse> {
+    const completion = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages: toWireMessages(request.messages),
+        tools: request.tools,
+        tool_choice: request.tools ? request.toolChoice : undefined,
+        temperature: request.temperature,
+        response_format: request.json ? { type: "json_object" } : undefined,
+      },
+      { signal }
+    );
+    return fromWireCompletion(completion);
+  }
+}
@@ -0,0 +1,174 @@
+// server/src/llm/provider.ts
+// Chat-model interface used by the assistant, independent of the vendor SDK. Providers only
+// implement complete(); timeouts, retries, token accounting, JSON extraction and translation
+// are shared here.
+import { LANGUAGE_NAMES, Language } from "../i18n/languages";
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON, as produced by the model
+}
+
+export type LLMMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; toolCalls?: LLMToolCall[] }
+  | { role: "tool"; toolCallId: string; content: string }
+  | { role: "function"; name: string; content: string }; // results stored before tool call ids
+
+export interface LLMTool {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>; // JSON schema
+  };
+}
+
+export interface ChatRequest {
+  messages: LLMMessage[];
+  tools?: LLMTool[];
+  toolChoice?: "auto" | "none";
+  temperature?: number;
+  json?: boolean; // ask for a single JSON object
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatResponse {
+  content: string | null;
+  toolCalls: LLMToolCall[];
+  usage: TokenUsage;
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  retries: number;
+  failures: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+  // A JSON object answering `user` under the `system` instructions; throws LLMError otherwise
+  extractJSON(system: string, user: string): Promise<Record<string, unknown>>;
+  translate(text: string, to: Language): Promise<string | null>;
+  usage(): UsageTotals;
+}
+
+export class LLMError extends Error {
+  constructor(message: string, public provider: string, public retryable: boolean, public status?: number) {
+    super(message);
+    this.name = "LLMError";
+  }
+}
+
+export interface ProviderOptions {
+  model: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_MS = 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: string;
+  readonly model: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private totals: UsageTotals = { requests: 0, retries: 0, failures: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  constructor(options: ProviderOptions) {
+    this.model = options.model;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  // One call to the vendor API. Must honour `signal` and throw on failure.
+  protected abstract complete(request: ChatRequest, signal: AbortSignal): Promise<ChatResponse>;
+
+  // Map a vendor error to LLMError; rate limits, server errors and network failures are retried
+  protected toLLMError(err: unknown): LLMError {
+    if (err instanceof LLMError) return err;
+    const status = typeof (err as any)?.status === "number" ? (err as any).status : undefined;
+    const retryable = status === undefined || status === 408 || status === 429 || status >= 500;
+    return new LLMError((err as Error)?.message || String(err), this.name, retryable, status);
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+      // settles the call on timeout even if the provider ignores the signal
+      const timedOut = new Promise<never>((_, reject) =>
+        controller.signal.addEventListener("abort", () => reject(new LLMError(`No response within ${this.timeoutMs} ms`, this.name, true)))
+      );
+      try {
+        this.totals.requests++;
+        const response = await Promise.race([this.complete(request, controller.signal), timedOut]);
+        this.totals.promptTokens += response.usage.promptTokens;
+        this.totals.completionTokens += response.usage.completionTokens;
+        this.totals.totalTokens += response.usage.totalTokens;
+        return response;
+      } catch (err) {
+        const error = this.toLLMError(err);
+        if (!error.retryable || attempt >= this.maxRetries) {
+          this.totals.failures++;
+          throw error;
+        }
+        this.totals.retries++;
+        await sleep(RETRY_BASE_MS * 2 ** attempt);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  async extractJSON(system: string, user: string): Promise<Record<string, unknown>> {
+    const response = await this.chat({
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user },
+      ],
+      temperature: 0,
+      json: true,
+    });
+    const content = response.content || "";
+    // some models wrap the object in prose or a code fence
+    const match = content.match(/\{[\s\S]*\}/);
+    try {
+      const parsed = JSON.parse(match ? match[0] : content);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+    } catch {
+      // reported below
+    }
+    throw new LLMError(`Expected a JSON object, got: ${content.slice(0, 200)}`, this.name, false);
+  }
+
+  async translate(text: string, to: Language): Promise<string | null> {
+    const response = await this.chat({
+      messages: [
+        {
+          role: "system",
+          content: `Translate the user's text to simple, spoken ${LANGUAGE_NAMES[to]}. Keep tracking IDs, numbers, ₹ amounts and names unchanged. Only output the translation.`,
+        },
+        { role: "user", content: text },
+      ],
+      temperature: 0.2,
+    });
+    return response.content?.trim() || null;
+  }
+
+  usage(): UsageTotals {
+    return { ...this.totals };
+  }
+}
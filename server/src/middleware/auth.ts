@@ -0,0 +1,31 @@
+import { NextFunction, Request, Response } from "express";
+import Driver from "../models/Driver";
+import { toAuthDriver, verifySession } from "../auth/otp";
+
+// Require a valid `Authorization: Bearer <jwt>` and attach the driver as req.driver
+export const requireAuth = async (req: Request, res: Response, next: NextFunction) => {
+  const header = req.headers.authorization || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  const driverId = token ? verifySession(token) : null;
+  if (!driverId) return res.status(401).json({ error: "Authentication required" });
+
+  try {
+    const driver = await Driver.findById(driverId);
+    if (!driver) return res.status(401).json({ error: "Account not found" });
+    req.driver = toAuthDriver(driver);
+    next();
+  } catch (err) {
+    res.status(500).json({ error: "Failed to authenticate", details: err });
+  }
+};
+
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (req.driver?.role !== "admin") return res.status(403).json({ error: "Admin only" });
+  next();
+};
+
+// Drivers may only act on their own resources (e.g. /conversations/:userId); admins on any
+export const requireSelfOrAdmin = (param: string) => (req: Request, res: Response, next: NextFunction) => {
+  if (req.driver?.role === "admin" || req.driver?.id === req.params[param]) return next();
+  res.status(403).json({ error: "Not allowed" });
+};
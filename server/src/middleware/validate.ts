@@ -0,0 +1,35 @@
+import { NextFunction, Request, Response } from "express";
+import { ZodTypeAny } from "zod";
+import { ApiError } from "../contracts/orderApi";
+
+type RequestSchemas = { body?: ZodTypeAny; query?: ZodTypeAny; params?: ZodTypeAny };
+
+// Validate body/query/params and replace them with the parsed values.
+// Failures return 400 { error, details: [{ path, message }] }.
+export const validate = (schemas: RequestSchemas) => (req: Request, res: Response, next: NextFunction) => {
+  const details: ApiError["details"] = [];
+  const parsed: Record<string, unknown> = {};
+
+  for (const part of ["params", "query", "body"] as const) {
+    const schema = schemas[part];
+    if (!schema) continue;
+    const result = schema.safeParse(req[part] ?? {});
+    if (result.success) {
+      parsed[part] = result.data;
+      continue;
+    }
+    for (const issue of result.error.issues) {
+      const path = [part, ...issue.path].join(".");
+      details.push({ path, message: issue.message });
+    }
+  }
+
+  if (details.length) {
+    const body: ApiError = { error: "Invalid request", details };
+    return res.status(400).json(body);
+  }
+  if (parsed.body !== undefined) req.body = parsed.body;
+  if (parsed.query !== undefined) req.query = parsed.query as Request["query"];
+  if (parsed.params !== undefined) Object.assign(req.params, parsed.params);
+  next();
+};
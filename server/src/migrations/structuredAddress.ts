@@ -0,0 +1,48 @@
+// server/src/migrations/structuredAddress.ts
+// One-off migration from free-text order addresses to the structured address (see geo/address).
+// Each string is parsed; the parts found are stored next to the original text in `address.raw`,
+// and the old top-level `location` becomes `address.geo`. Addresses that are still incomplete
+// are listed so they can be fixed by hand or by voice ("update address of ORD-X to ...").
+//
+//   npm run migrate:address             apply
+//   npm run migrate:address -- --dry-run  only report
+import dotenv from "dotenv";
+dotenv.config();
+import mongoose from "mongoose";
+import Order from "../models/Order";
+import { checkAddress, locateAddress, parseAddress } from "../geo/address";
+
+async function migrate(dryRun: boolean) {
+  // raw documents: the model's schema no longer describes string addresses
+  const cursor = Order.collection.find({ $or: [{ address: { $type: "string" } }, { location: { $exists: true } }] });
+  let migrated = 0;
+  const incomplete: string[] = [];
+
+  for await (const doc of cursor) {
+    const located = doc.location ? { lat: doc.location.lat, lng: doc.location.lng, source: doc.location.source } : null;
+    let address = typeof doc.address === "object" && doc.address ? { ...doc.address, geo: doc.address.geo || located } : null;
+    const raw = typeof doc.address === "string" ? doc.address.trim() : "";
+    if (raw) {
+      const { draft, missing, errors } = checkAddress(parseAddress(raw));
+      address = { ...draft, landmark: draft.landmark || null, geo: located || (await locateAddress(draft)), raw };
+      if (missing.length || errors.length) {
+        const problems = [missing.length ? `missing ${missing.join(", ")}` : "", ...errors].filter(Boolean).join("; ");
+        incomplete.push(`${doc.trackingId}: "${raw}" (${problems})`);
+      }
+    }
+    migrated++;
+    if (!dryRun) await Order.collection.updateOne({ _id: doc._id }, { $set: { address }, $unset: { location: "" } });
+  }
+
+  console.log(`${dryRun ? "Would migrate" : "Migrated"} ${migrated} orders; ${incomplete.length} addresses are incomplete.`);
+  for (const line of incomplete) console.log(`  ${line}`);
+}
+
+mongoose
+  .connect(process.env.MONGO_URI || "")
+  .then(() => migrate(process.argv.includes("--dry-run")))
+  .catch((err) => {
+    console.error("Address migration failed:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface IConversationMessage {
+  role: "user" | "assistant" | "function";
+  content: string;
+  name?: string; // function name for function messages
+  toolCalls?: IToolCall[]; // tool calls requested by the assistant
+  toolCallId?: string; // the tool call a function message answers
+  intent?: string; // intent that produced an assistant reply
+  action?: string; // action returned to the client
+  createdAt?: Date;
+}
+
+export interface IConversation extends Document {
+  userId: string;
+  messages: IConversationMessage[];
+  summary: string; // rolling summary of messages that fell out of the window
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const ToolCallSchema = new Schema<IToolCall>(
+  {
+    id: { type: String, required: true },
+    name: { type: String, required: true },
+    arguments: { type: String, default: "{}" },
+  },
+  { _id: false }
+);
+
+const MessageSchema = new Schema<IConversationMessage>(
+  {
+    role: { type: String, enum: ["user", "assistant", "function"], required: true },
+    content: { type: String, default: "" },
+    name: { type: String },
+    toolCalls: { type: [ToolCallSchema], default: undefined },
+    toolCallId: { type: String },
+    intent: { type: String },
+    action: { type: String },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const ConversationSchema = new Schema<IConversation>(
+  {
+    userId: { type: String, required: true, unique: true },
+    messages: { type: [MessageSchema], default: [] },
+    summary: { type: String, default: "" },
+    // MongoDB removes the conversation once this passes (TTL index)
+    expiresAt: { type: Date, required: true, index: { expires: 0 } },
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model<IConversation>("Conversation", ConversationSchema);
@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { DEFAULT_LANGUAGE, LANGUAGES, Language } from "../i18n/languages";
+
+export const DRIVER_ROLES = ["driver", "admin"] as const;
+export type DriverRole = (typeof DRIVER_ROLES)[number];
+
+export const DRIVER_AVAILABILITY = ["available", "busy", "offline"] as const;
+export type DriverAvailability = (typeof DRIVER_AVAILABILITY)[number];
+
+export const VEHICLE_TYPES = ["bike", "three_wheeler", "mini_truck", "truck"] as const;
+export type VehicleType = (typeof VEHICLE_TYPES)[number];
+
+// Parcels (sum of order qty) a vehicle carries at once unless the driver sets their own capacity
+export const VEHICLE_CAPACITY: Record<VehicleType, number> = {
+  bike: 5,
+  three_wheeler: 20,
+  mini_truck: 60,
+  truck: 200,
+};
+
+export interface IDriver extends Document {
+  phone: string; // E.164, e.g. +919876543210
+  name?: string;
+  role: DriverRole;
+  lastLoginAt?: Date | null;
+  availability: DriverAvailability;
+  vehicleType: VehicleType;
+  capacity?: number | null;
+  lastAssignedAt?: Date | null; // used to spread new orders across equally loaded drivers
+  language: Language; // replies are localised into this, see i18n/localize
+  languageAuto: boolean; // follow the language the driver speaks; off once they pick one
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const DriverSchema = new Schema<IDriver>(
+  {
+    phone: { type: String, required: true, unique: true },
+    name: { type: String },
+    role: { type: String, enum: DRIVER_ROLES, default: "driver" },
+    lastLoginAt: { type: Date, default: null },
+    availability: { type: String, enum: DRIVER_AVAILABILITY, default: "available" },
+    vehicleType: { type: String, enum: VEHICLE_TYPES, default: "bike" },
+    capacity: { type: Number, default: null },
+    lastAssignedAt: { type: Date, default: null },
+    language: { type: String, enum: LANGUAGES, default: DEFAULT_LANGUAGE },
+    languageAuto: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+// How many parcels the driver can carry at once
+export function driverCapacity(driver: IDriver): number {
+  return driver.capacity ?? VEHICLE_CAPACITY[driver.vehicleType];
+}
+
+export default mongoose.model<IDriver>("Driver", DriverSchema);
@@ -0,0 +1,48 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// KYC documents belong to the driver's profile; proof_of_delivery also names the order
+export const DOCUMENT_KINDS = ["licence", "vehicle_rc", "pan", "aadhaar", "photo", "proof_of_delivery", "other"] as const;
+export type DocumentKind = (typeof DOCUMENT_KINDS)[number];
+
+export const DOCUMENT_STORAGES = ["local", "s3"] as const;
+export type DocumentStorage = (typeof DOCUMENT_STORAGES)[number];
+
+// An uploaded file. The bytes live in the document store under their SHA-256, so the same file
+// uploaded twice is stored once.
+export interface IDriverDocument extends Document {
+  driverId: string; // whose profile it belongs to
+  kind: DocumentKind;
+  orderId?: mongoose.Types.ObjectId | null;
+  trackingId?: string | null;
+  filename: string; // as uploaded
+  contentType: string; // detected from the bytes, not the client's claim
+  size: number;
+  sha256: string;
+  storage: DocumentStorage;
+  key: string;
+  uploadedBy: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const DriverDocumentSchema = new Schema<IDriverDocument>(
+  {
+    driverId: { type: String, required: true, index: true },
+    kind: { type: String, enum: DOCUMENT_KINDS, required: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", default: null, index: true },
+    trackingId: { type: String, default: null },
+    filename: { type: String, required: true },
+    contentType: { type: String, required: true },
+    size: { type: Number, required: true },
+    sha256: { type: String, required: true, index: true },
+    storage: { type: String, enum: DOCUMENT_STORAGES, required: true },
+    key: { type: String, required: true },
+    uploadedBy: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+// One record per file and link; uploading it again returns the existing one
+DriverDocumentSchema.index({ driverId: 1, sha256: 1, kind: 1, orderId: 1 }, { unique: true });
+
+export default mongoose.model<IDriverDocument>("DriverDocument", DriverDocumentSchema);
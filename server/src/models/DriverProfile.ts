@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Asked in this order during voice onboarding
+export const ONBOARDING_FIELDS = ["name", "phone", "vehicleNumber", "licenceNumber", "pan", "aadhaar"] as const;
+export type OnboardingField = (typeof ONBOARDING_FIELDS)[number];
+
+export const ONBOARDING_STATUSES = ["in_progress", "completed"] as const;
+export type OnboardingStatus = (typeof ONBOARDING_STATUSES)[number];
+
+export interface IFieldValue {
+  value: string; // normalised; Aadhaar is stored masked
+  savedAt: Date;
+}
+
+// KYC details collected by the onboarding form, saved field by field so a driver can stop and
+// pick up where they left off
+export interface IDriverProfile extends Document {
+  driverId: string;
+  fields: Partial<Record<OnboardingField, IFieldValue | null>>;
+  lastField?: OnboardingField | null; // answered last; "galat hai, dobara" redoes it
+  status: OnboardingStatus;
+  completedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const FieldValueSchema = new Schema<IFieldValue>(
+  {
+    value: { type: String, required: true },
+    savedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const DriverProfileSchema = new Schema<IDriverProfile>(
+  {
+    driverId: { type: String, required: true, unique: true },
+    fields: Object.fromEntries(ONBOARDING_FIELDS.map((f) => [f, { type: FieldValueSchema, default: null }])),
+    lastField: { type: String, enum: [...ONBOARDING_FIELDS, null], default: null },
+    status: { type: String, enum: ONBOARDING_STATUSES, default: "in_progress" },
+    completedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model<IDriverProfile>("DriverProfile", DriverProfileSchema);
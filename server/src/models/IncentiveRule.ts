@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// What a rule checks; `threshold` means minutes late, a star rating or a number of deliveries
+export const RULE_KINDS = ["late_pickup", "cancel_after_accept", "rating_below", "rating_at_least", "delivery_streak"] as const;
+export type RuleKind = (typeof RULE_KINDS)[number];
+
+export const RULE_TYPES = ["penalty", "reward"] as const;
+export type RuleType = (typeof RULE_TYPES)[number];
+
+// A penalty or reward booked automatically on order lifecycle events, see incentives/rules.ts.
+// Managed by admins through /incentives/rules.
+export interface IIncentiveRule extends Document {
+  name: string; // told to the driver as the reason, e.g. "Pickup more than 30 minutes late"
+  kind: RuleKind;
+  type: RuleType;
+  amount: number; // ₹
+  threshold?: number | null; // late_pickup: minutes; rating_*: stars; delivery_streak: deliveries
+  active: boolean;
+  createdBy?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const IncentiveRuleSchema = new Schema<IIncentiveRule>(
+  {
+    name: { type: String, required: true },
+    kind: { type: String, enum: RULE_KINDS, required: true },
+    type: { type: String, enum: RULE_TYPES, required: true },
+    amount: { type: Number, required: true, min: 0 },
+    threshold: { type: Number, default: null },
+    active: { type: Boolean, default: true },
+    createdBy: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+IncentiveRuleSchema.index({ kind: 1, active: 1 });
+
+export default mongoose.model<IIncentiveRule>("IncentiveRule", IncentiveRuleSchema);
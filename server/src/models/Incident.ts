@@ -0,0 +1,129 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export const INCIDENT_STATUSES = ["pending_confirmation", "open", "acknowledged", "resolved", "cancelled"] as const;
+export type IncidentStatus = (typeof INCIDENT_STATUSES)[number];
+
+export const NOTIFY_CHANNELS = ["sms", "webhook", "dashboard"] as const;
+export type NotifyChannel = (typeof NOTIFY_CHANNELS)[number];
+
+export const NOTIFY_REASONS = ["raised", "escalated", "withdrawn"] as const;
+export type NotifyReason = (typeof NOTIFY_REASONS)[number];
+
+// Incidents that still need someone's attention
+export const ACTIVE_INCIDENT_STATUSES: IncidentStatus[] = ["pending_confirmation", "open", "acknowledged"];
+
+export interface IIncidentLocation {
+  lat: number;
+  lng: number;
+  accuracy?: number | null;
+  source: string; // "device" | "order"
+  at: Date;
+}
+
+export interface ITranscriptLine {
+  role: "user" | "assistant" | "system";
+  content: string;
+  at: Date;
+}
+
+export interface IIncidentNotification {
+  channel: NotifyChannel;
+  level: number;
+  reason: NotifyReason;
+  ok: boolean;
+  error?: string | null;
+  at: Date;
+}
+
+export interface IIncident extends Document {
+  driverId: string;
+  driverName?: string | null;
+  driverPhone: string;
+  status: IncidentStatus;
+  orderId?: mongoose.Types.ObjectId | null;
+  trackingId?: string | null;
+  location?: IIncidentLocation | null;
+  transcript: ITranscriptLine[];
+  // Escalation levels notified so far; the next one is due at nextEscalationAt
+  level: number;
+  openedAt?: Date | null;
+  nextEscalationAt?: Date | null;
+  // While pending_confirmation: when the incident opens by itself if the driver says nothing
+  confirmBy?: Date | null;
+  autoConfirmed: boolean;
+  notifications: IIncidentNotification[];
+  acknowledgedBy?: string | null;
+  acknowledgedAt?: Date | null;
+  resolvedAt?: Date | null;
+  resolution?: string | null;
+  cancelledAt?: Date | null;
+  cancelReason?: string | null;
+  triggeredVia: string; // "voice" | "api"
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const LocationSchema = new Schema<IIncidentLocation>(
+  {
+    lat: { type: Number, required: true },
+    lng: { type: Number, required: true },
+    accuracy: { type: Number, default: null },
+    source: { type: String, required: true },
+    at: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const TranscriptLineSchema = new Schema<ITranscriptLine>(
+  {
+    role: { type: String, enum: ["user", "assistant", "system"], required: true },
+    content: { type: String, required: true },
+    at: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const NotificationSchema = new Schema<IIncidentNotification>(
+  {
+    channel: { type: String, enum: NOTIFY_CHANNELS, required: true },
+    level: { type: Number, required: true },
+    reason: { type: String, enum: NOTIFY_REASONS, required: true },
+    ok: { type: Boolean, required: true },
+    error: { type: String, default: null },
+    at: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const IncidentSchema = new Schema<IIncident>(
+  {
+    driverId: { type: String, required: true, index: true },
+    driverName: { type: String, default: null },
+    driverPhone: { type: String, required: true },
+    status: { type: String, enum: INCIDENT_STATUSES, default: "pending_confirmation" },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", default: null },
+    trackingId: { type: String, default: null },
+    location: { type: LocationSchema, default: null },
+    transcript: { type: [TranscriptLineSchema], default: [] },
+    level: { type: Number, default: 0 },
+    openedAt: { type: Date, default: null },
+    nextEscalationAt: { type: Date, default: null },
+    confirmBy: { type: Date, default: null },
+    autoConfirmed: { type: Boolean, default: false },
+    notifications: { type: [NotificationSchema], default: [] },
+    acknowledgedBy: { type: String, default: null },
+    acknowledgedAt: { type: Date, default: null },
+    resolvedAt: { type: Date, default: null },
+    resolution: { type: String, default: null },
+    cancelledAt: { type: Date, default: null },
+    cancelReason: { type: String, default: null },
+    triggeredVia: { type: String, default: "api" },
+  },
+  { timestamps: true }
+);
+
+// The scheduler polls for unanswered confirmations and for due escalations
+IncidentSchema.index({ status: 1, confirmBy: 1 });
+IncidentSchema.index({ status: 1, nextEscalationAt: 1 });
+
+export default mongoose.model<IIncident>("Incident", IncidentSchema);
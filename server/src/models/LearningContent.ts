@@ -0,0 +1,78 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { LANGUAGES, Language } from "../i18n/languages";
+
+export const LEARNING_KINDS = ["module", "guide"] as const;
+export type LearningKind = (typeof LEARNING_KINDS)[number];
+
+// Text in any of the reply languages; missing ones fall back, see learning/learning.ts
+export type LocalizedText = Partial<Record<Language, string>>;
+
+export interface ILearningStep {
+  text: LocalizedText;
+  audioUrl?: LocalizedText | null; // a recording per language, played instead of speech synthesis
+}
+
+// A multiple-choice question, answered by voice with the option's number or its words
+export interface IQuizQuestion {
+  question: LocalizedText;
+  options: LocalizedText[]; // read out numbered
+  answer: number; // index of the right option
+}
+
+// A learning module or step-by-step guide that drivers go through by voice. Managed by admins
+// through /learning.
+export interface ILearningContent extends Document {
+  slug: string;
+  kind: LearningKind;
+  title: LocalizedText;
+  summary: LocalizedText;
+  keywords: string[]; // words in any language that name the topic, e.g. "bima" for insurance
+  steps: ILearningStep[];
+  quiz: IQuizQuestion[]; // asked after the last step; empty for none
+  passScore: number; // percent of the quiz needed to complete the content
+  badge?: LocalizedText | null; // awarded on completion
+  reward: number; // ₹ credited to the ledger on the first completion
+  published: boolean;
+  createdBy?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const LocalizedSchema = new Schema<LocalizedText>(Object.fromEntries(LANGUAGES.map((l) => [l, { type: String }])), { _id: false });
+
+const StepSchema = new Schema<ILearningStep>(
+  {
+    text: { type: LocalizedSchema, required: true },
+    audioUrl: { type: LocalizedSchema, default: null },
+  },
+  { _id: false }
+);
+
+const QuizQuestionSchema = new Schema<IQuizQuestion>(
+  {
+    question: { type: LocalizedSchema, required: true },
+    options: { type: [LocalizedSchema], required: true },
+    answer: { type: Number, required: true, min: 0 },
+  },
+  { _id: false }
+);
+
+const LearningContentSchema = new Schema<ILearningContent>(
+  {
+    slug: { type: String, required: true, unique: true },
+    kind: { type: String, enum: LEARNING_KINDS, required: true },
+    title: { type: LocalizedSchema, required: true },
+    summary: { type: LocalizedSchema, default: () => ({}) },
+    keywords: { type: [String], default: [] },
+    steps: { type: [StepSchema], default: [] },
+    quiz: { type: [QuizQuestionSchema], default: [] },
+    passScore: { type: Number, default: 60, min: 0, max: 100 },
+    badge: { type: LocalizedSchema, default: null },
+    reward: { type: Number, default: 0, min: 0 },
+    published: { type: Boolean, default: true },
+    createdBy: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model<ILearningContent>("LearningContent", LearningContentSchema);
@@ -0,0 +1,35 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// How far a driver has got through one learning module or guide
+export interface ILearningProgress extends Document {
+  driverId: string;
+  contentId: mongoose.Types.ObjectId;
+  step: number; // index of the step heard last
+  stepsDone: boolean; // heard every step at least once
+  quizScore?: number | null; // best quiz result in percent
+  quizAttempts: number;
+  completed: boolean; // steps heard and quiz passed (if there is one), at least once
+  completedAt?: Date | null;
+  certificateId?: string | null; // issued on the first completion
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const LearningProgressSchema = new Schema<ILearningProgress>(
+  {
+    driverId: { type: String, required: true },
+    contentId: { type: Schema.Types.ObjectId, ref: "LearningContent", required: true },
+    step: { type: Number, default: 0 },
+    stepsDone: { type: Boolean, default: false },
+    quizScore: { type: Number, default: null },
+    quizAttempts: { type: Number, default: 0 },
+    completed: { type: Boolean, default: false },
+    completedAt: { type: Date, default: null },
+    certificateId: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+LearningProgressSchema.index({ driverId: 1, contentId: 1 }, { unique: true });
+
+export default mongoose.model<ILearningProgress>("LearningProgress", LearningProgressSchema);
@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export const LEDGER_TYPES = ["fare", "fuel", "toll", "penalty", "reward", "payout"] as const;
+export type LedgerType = (typeof LEDGER_TYPES)[number];
+
+// Amounts are stored positive; the sign says how each type affects net earnings.
+// Payouts move money to the driver and do not change what was earned.
+export const LEDGER_SIGN: Record<LedgerType, 1 | -1 | 0> = {
+  fare: 1,
+  reward: 1,
+  fuel: -1,
+  toll: -1,
+  penalty: -1,
+  payout: 0,
+};
+
+export const APPEAL_STATUSES = ["pending", "accepted", "rejected"] as const;
+export type AppealStatus = (typeof APPEAL_STATUSES)[number];
+
+// A driver contesting a penalty; an accepted appeal takes the entry out of the totals
+export interface IAppeal {
+  status: AppealStatus;
+  reason: string;
+  raisedAt: Date;
+  resolvedAt?: Date | null;
+  resolvedBy?: string | null;
+  note?: string | null;
+}
+
+export interface ILedgerEntry extends Document {
+  driverId: string;
+  type: LedgerType;
+  amount: number;
+  orderId?: Types.ObjectId | null;
+  trackingId?: string;
+  reason?: string;
+  occurredAt: Date;
+  // The incentive rule that produced the entry, if any
+  ruleId?: Types.ObjectId | null;
+  appeal?: IAppeal | null;
+  metadata?: any;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const AppealSchema = new Schema<IAppeal>(
+  {
+    status: { type: String, enum: APPEAL_STATUSES, required: true },
+    reason: { type: String, required: true },
+    raisedAt: { type: Date, default: Date.now },
+    resolvedAt: { type: Date, default: null },
+    resolvedBy: { type: String, default: null },
+    note: { type: String, default: null },
+  },
+  { _id: false }
+);
+
+const LedgerEntrySchema = new Schema<ILedgerEntry>(
+  {
+    driverId: { type: String, required: true },
+    type: { type: String, enum: LEDGER_TYPES, required: true },
+    amount: { type: Number, required: true, min: 0 },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", default: null },
+    trackingId: { type: String },
+    reason: { type: String },
+    occurredAt: { type: Date, default: Date.now },
+    ruleId: { type: Schema.Types.ObjectId, ref: "IncentiveRule", default: null },
+    appeal: { type: AppealSchema, default: null },
+    metadata: { type: Schema.Types.Mixed },
+  },
+  { timestamps: true }
+);
+
+LedgerEntrySchema.index({ driverId: 1, occurredAt: -1 });
+LedgerEntrySchema.index({ orderId: 1, type: 1 });
+LedgerEntrySchema.index({ ruleId: 1, orderId: 1 });
+LedgerEntrySchema.index({ "appeal.status": 1 }, { sparse: true });
+
+export default mongoose.model<ILedgerEntry>("LedgerEntry", LedgerEntrySchema);
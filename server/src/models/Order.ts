@@ -1,36 +1,235 @@
+import { EventEmitter } from "events";
 import mongoose, { Document, Schema } from "mongoose";
+import { recordOrderDelivery } from "../ledger/earnings";
+import { syncOrderReminders } from "../reminders/reminders";
+import { AddressFields, AddressGeo, locateAddress } from "../geo/address";
+import { AuthDriver } from "../types";
+
+// Canonical order lifecycle. Cancelling is only possible before pickup.
+export const ORDER_STATUSES = ["created", "assigned", "picked_up", "in_transit", "delivered", "cancelled"] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  created: ["assigned", "cancelled"],
+  assigned: ["picked_up", "cancelled"],
+  picked_up: ["in_transit", "delivered"],
+  in_transit: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+// Emits "created" (order), "status" (order, change), "assigned" (order) and "rated" (order) after a save. Listeners such as
+// realtime/orderEvents subscribe here rather than being imported, which would be circular.
+export const orderChanges = new EventEmitter();
+
+// Spoken or legacy status names mapped onto the canonical ones
+const STATUS_ALIASES: Record<string, OrderStatus> = {
+  pending: "created",
+  new: "created",
+  processing: "assigned",
+  accepted: "assigned",
+  "picked up": "picked_up",
+  pickup: "picked_up",
+  shipped: "in_transit",
+  "in transit": "in_transit",
+  "on the way": "in_transit",
+  canceled: "cancelled",
+  cancel: "cancelled",
+  "delivery done": "delivered",
+};
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(public from: string, public to: string, public allowed: OrderStatus[]) {
+    super(
+      allowed.length
+        ? `Cannot change order status from "${from}" to "${to}". Allowed next statuses: ${allowed.join(", ")}.`
+        : `Cannot change order status from "${from}" to "${to}": "${from}" is final.`
+    );
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+export interface IStatusChange {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  at: Date;
+  by?: string;
+  reason?: string;
+}
+
+export const ASSIGNMENT_STATES = ["offered", "accepted"] as const;
+export type AssignmentState = (typeof ASSIGNMENT_STATES)[number];
+
+// Dispatch bookkeeping: an assignment is offered to a driver, who accepts or rejects it
+export interface IDispatch {
+  state: AssignmentState | null;
+  offeredAt?: Date | null;
+  rejectedBy: string[]; // driver ids never offered this order again
+}
+
+// Structured delivery address, see geo/address. Orders migrated from free-text addresses keep
+// the original in `raw` and may have parts missing.
+export interface IAddress extends Partial<AddressFields> {
+  geo?: AddressGeo | null; // for route planning
+  raw?: string | null;
+}
 
 export interface IOrder extends Document {
   customerName?: string;
-  address?: string;
+  address?: IAddress | null;
   item: string;
   qty: number;
-  status: string;
+  status: OrderStatus;
+  statusHistory: IStatusChange[];
   pickupTime?: Date | null;
-  assignedTo?: string;
+  assignedTo?: string; // driver id
+  dispatch: IDispatch;
   trackingId: string;
   metadata?: any;
   createdAt?: Date;
   updatedAt?: Date;
-  amount?: number; // Add amount field for earnings
-  expenses?: number; // Add expenses field for expenses
+  amount?: number | null; // the fare, set by an admin; booked on delivery
+  expenses?: number | null; // the fuel cost, set by an admin; booked on delivery
+  rating?: number | null; // 1-5, given by the customer's side once delivered
+  ratedAt?: Date | null;
+}
+
+// Canonical status for free text like "Delivered" or "picked up"; null if unknown
+export function normalizeStatus(value: unknown): OrderStatus | null {
+  const s = String(value ?? "").trim().toLowerCase().replace(/[-_]+/g, " ");
+  const canonical = s.replace(/ /g, "_");
+  if ((ORDER_STATUSES as readonly string[]).includes(canonical)) return canonical as OrderStatus;
+  return STATUS_ALIASES[s] || null;
+}
+
+// Query filter limiting orders to those a driver created or is assigned; admins see all
+export function orderScope(driver: AuthDriver): Record<string, any> {
+  if (driver.role === "admin") return {};
+  return { $or: [{ assignedTo: driver.id }, { "metadata.createdBy": driver.id }] };
+}
+
+// Move an order to a new status, enforcing the transition table and recording history.
+// Throws InvalidStatusTransitionError; the caller saves the order.
+export function transitionOrder(order: IOrder, to: OrderStatus, by?: string, reason?: string) {
+  const from = order.status;
+  if (from === to) return order;
+  const allowed = ORDER_TRANSITIONS[from] || [];
+  if (!allowed.includes(to)) throw new InvalidStatusTransitionError(from, to, allowed);
+  order.status = to;
+  order.statusHistory.push({ from, to, at: new Date(), by, reason });
+  return order;
 }
 
+const StatusChangeSchema = new Schema<IStatusChange>(
+  {
+    from: { type: String, enum: [...ORDER_STATUSES, null], default: null },
+    to: { type: String, enum: ORDER_STATUSES, required: true },
+    at: { type: Date, default: Date.now },
+    by: { type: String },
+    reason: { type: String },
+  },
+  { _id: false }
+);
+
+const DispatchSchema = new Schema<IDispatch>(
+  {
+    state: { type: String, enum: [...ASSIGNMENT_STATES, null], default: null },
+    offeredAt: { type: Date, default: null },
+    rejectedBy: { type: [String], default: [] },
+  },
+  { _id: false }
+);
+
+const AddressSchema = new Schema<IAddress>(
+  {
+    line1: { type: String },
+    landmark: { type: String, default: null },
+    locality: { type: String, default: null },
+    city: { type: String },
+    state: { type: String },
+    pincode: { type: String, match: /^[1-9]\d{5}$/ },
+    contactPhone: { type: String, default: null },
+    geo: {
+      type: new Schema({ lat: Number, lng: Number, source: String }, { _id: false }),
+      default: null,
+    },
+    raw: { type: String, default: null },
+  },
+  { _id: false }
+);
+
 const OrderSchema = new Schema<IOrder>(
   {
     customerName: { type: String },
-    address: { type: String },
+    address: { type: AddressSchema, default: null },
     item: { type: String, required: true },
     qty: { type: Number, default: 1 },
-    status: { type: String, default: "created" },
+    status: { type: String, enum: ORDER_STATUSES, default: "created" },
+    statusHistory: { type: [StatusChangeSchema], default: [] },
     pickupTime: { type: Date, default: null },
     assignedTo: { type: String, default: null },
+    dispatch: { type: DispatchSchema, default: () => ({}) },
     trackingId: { type: String, required: true, unique: true },
     metadata: { type: Schema.Types.Mixed },
-    amount: { type: Number, default: 200 }, // Default earning per order
-    expenses: { type: Number, default: 50 }, // Default expense per order
+    // no defaults: an order nobody priced books nothing rather than a made-up fare
+    amount: { type: Number, default: null },
+    expenses: { type: Number, default: null },
+    rating: { type: Number, min: 1, max: 5, default: null },
+    ratedAt: { type: Date, default: null },
   },
   { timestamps: true }
 );
 
+// Record the initial status so the history covers the whole lifecycle
+OrderSchema.pre("save", function (next) {
+  if (this.isNew && this.statusHistory.length === 0) {
+    this.statusHistory.push({ from: null, to: this.status, at: new Date(), by: this.metadata?.createdBy });
+  }
+  this.$locals.justDelivered = this.isModified("status") && this.status === "delivered";
+  this.$locals.remindersStale = !this.isNew && (this.isModified("pickupTime") || this.isModified("status"));
+  this.$locals.statusChange = !this.isNew && this.isModified("status") ? this.statusHistory[this.statusHistory.length - 1] : null;
+  this.$locals.assigned = this.isModified("assignedTo") && !!this.assignedTo;
+  this.$locals.created = this.isNew;
+  this.$locals.rated = this.isModified("rating") && this.rating != null;
+  next();
+});
+
+// Locate the address whenever it changes so routes can be planned; an unknown place is stored as null
+OrderSchema.pre("save", async function () {
+  if (!this.address || !this.isModified("address")) return;
+  try {
+    this.address.geo = await locateAddress(this.address);
+  } catch (err) {
+    console.error("Geocoding failed for order", this.trackingId, err);
+    this.address.geo = null;
+  }
+});
+
+// Book the fare in the earnings ledger once an order is delivered
+OrderSchema.post("save", async function (doc) {
+  if (!doc.$locals.justDelivered) return;
+  try {
+    await recordOrderDelivery(doc);
+  } catch (err) {
+    console.error("Ledger error for order", doc.trackingId, err);
+  }
+});
+
+// Keep pickup reminders on the order's current pickupTime; drop them once it is finished
+OrderSchema.post("save", async function (doc) {
+  if (!doc.$locals.remindersStale) return;
+  try {
+    await syncOrderReminders(doc);
+  } catch (err) {
+    console.error("Reminder sync error for order", doc.trackingId, err);
+  }
+});
+
+OrderSchema.post("save", function (doc) {
+  if (doc.$locals.created) orderChanges.emit("created", doc);
+  if (doc.$locals.statusChange) orderChanges.emit("status", doc, doc.$locals.statusChange);
+  if (doc.$locals.assigned) orderChanges.emit("assigned", doc);
+  if (doc.$locals.rated) orderChanges.emit("rated", doc);
+});
+
 export default mongoose.model<IOrder>("Order", OrderSchema);
@@ -0,0 +1,22 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IOtpChallenge extends Document {
+  phone: string;
+  codeHash: string; // sha256 of phone + code, never the code itself
+  attempts: number;
+  expiresAt: Date;
+  createdAt?: Date;
+}
+
+const OtpChallengeSchema = new Schema<IOtpChallenge>(
+  {
+    phone: { type: String, required: true, unique: true },
+    codeHash: { type: String, required: true },
+    attempts: { type: Number, default: 0 },
+    // MongoDB removes the challenge once this passes (TTL index)
+    expiresAt: { type: Date, required: true, index: { expires: 0 } },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+export default mongoose.model<IOtpChallenge>("OtpChallenge", OtpChallengeSchema);
@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export const REMINDER_STATUSES = ["pending", "fired", "cancelled"] as const;
+export type ReminderStatus = (typeof REMINDER_STATUSES)[number];
+
+export interface IReminder extends Document {
+  driverId: string;
+  text: string;
+  dueAt: Date;
+  status: ReminderStatus;
+  // Set when the reminder follows an order's pickupTime; dueAt is pickupTime - leadMinutes
+  orderId?: mongoose.Types.ObjectId | null;
+  trackingId?: string | null;
+  leadMinutes?: number | null;
+  firedAt?: Date | null;
+  createdVia?: string; // "voice" | "api"
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const ReminderSchema = new Schema<IReminder>(
+  {
+    driverId: { type: String, required: true, index: true },
+    text: { type: String, required: true },
+    dueAt: { type: Date, required: true },
+    status: { type: String, enum: REMINDER_STATUSES, default: "pending" },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", default: null, index: true },
+    trackingId: { type: String, default: null },
+    leadMinutes: { type: Number, default: null },
+    firedAt: { type: Date, default: null },
+    createdVia: { type: String, default: "api" },
+  },
+  { timestamps: true }
+);
+
+// The scheduler polls for pending reminders that are due
+ReminderSchema.index({ status: 1, dueAt: 1 });
+
+export default mongoose.model<IReminder>("Reminder", ReminderSchema);
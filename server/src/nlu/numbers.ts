@@ -0,0 +1,66 @@
+// server/src/nlu/numbers.ts
+// Spoken numbers in English and Hinglish ("teen", "paanch", "twelve") for the local parsers.
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, ek: 1,
+  two: 2, do: 2,
+  three: 3, teen: 3,
+  four: 4, char: 4, chaar: 4,
+  five: 5, paanch: 5, panch: 5,
+  six: 6, chhe: 6, chhah: 6, cheh: 6,
+  seven: 7, saat: 7,
+  eight: 8, aath: 8,
+  nine: 9, nau: 9,
+  ten: 10, das: 10,
+  eleven: 11, gyarah: 11, gyaarah: 11,
+  twelve: 12, barah: 12, baarah: 12,
+  fifteen: 15, pandrah: 15,
+  twenty: 20, bees: 20,
+  thirty: 30, tees: 30,
+  fifty: 50, pachas: 50, pachaas: 50,
+  hundred: 100, sau: 100,
+};
+
+// Alternation of all number words, longest first, for use inside other patterns
+export const NUMBER_WORD_PATTERN = Object.keys(NUMBER_WORDS)
+  .sort((a, b) => b.length - a.length)
+  .join("|");
+
+// 5 for "5" or "paanch"; null for anything else
+export function toNumber(word: string): number | null {
+  const w = word.trim().toLowerCase();
+  if (/^\d+$/.test(w)) return Number(w);
+  return NUMBER_WORDS[w] ?? null;
+}
+
+const DIGIT_WORDS: Record<string, string> = {
+  zero: "0", shunya: "0", shoonya: "0", oh: "0",
+  one: "1", ek: "1",
+  two: "2", do: "2",
+  three: "3", teen: "3",
+  four: "4", char: "4", chaar: "4",
+  five: "5", paanch: "5", panch: "5",
+  six: "6", chhe: "6", chhah: "6", cheh: "6",
+  seven: "7", saat: "7",
+  eight: "8", aath: "8",
+  nine: "9", nau: "9",
+};
+
+// Digits read out one by one, as for phone, Aadhaar or vehicle numbers: "nine eight double
+// seven" -> "9 8 77". Other words are left as they are.
+export function spokenDigits(text: string): string {
+  const digit = (w: string) => (/^\d$/.test(w) ? w : DIGIT_WORDS[w.toLowerCase()]);
+  const words = text.split(/\s+/).filter(Boolean);
+  const out: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const repeat = /^(double|triple)$/i.test(words[i]) ? (/^double$/i.test(words[i]) ? 2 : 3) : 0;
+    const next = repeat && words[i + 1] ? digit(words[i + 1]) : undefined;
+    if (next) {
+      out.push(next.repeat(repeat));
+      i++;
+    } else {
+      out.push(digit(words[i]) ?? words[i]);
+    }
+  }
+  return out.join(" ");
+}
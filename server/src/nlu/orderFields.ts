@@ -0,0 +1,115 @@
+// server/src/nlu/orderFields.ts
+// Rule-based order extraction used when no LLM is configured (or it fails): item, quantity,
+// customer name, address and pickup time from English and Hinglish speech, fully offline.
+import type { OrderDraft } from "../dialogs/orderDialog";
+import { AddressDraft, parseAddress } from "../geo/address";
+import { canonicalCity } from "../geo/pincodes";
+import { normalizeSpokenNumbers, parseSpokenTime } from "../utils/time";
+import { NUMBER_WORD_PATTERN, toNumber } from "./numbers";
+
+// "create order", "naya order banao", "I want to order", "mujhe ... chahiye"
+const COMMAND =
+  /\b(?:create|place|add|new|book)\s+(?:an?\s+|ek\s+)?order\b|\bi\s+(?:want|would like)\s+to\s+order\b|\b(?:naya|nayi|ek)\s+order\b|\border\s+(?:banao|bana do|banana hai|karo|kar do|create karo|lagao)\b|\b(?:banao|bana do|please|plz|mujhe|muje|chahiye|bhejna hai|bhej do)\b/gi;
+
+// What parseSpokenTime reads, so it is not mistaken for the item or the address
+const TIME_PHRASES = [
+  /\b(?:in\s+)?\d+\s*(?:min(?:ute)?s?|minat|ghante?|hours?|hrs?)\b(?:\s*(?:mein|me|baad|later)\b)?/gi,
+  /\b(?:at\s+|by\s+)?\d{1,2}(?:[:.]\d{2})?\s*(?:am|pm|baje)\b/gi,
+  /\b(?:at\s+|by\s+)?\d{1,2}[:.]\d{2}\b/gi,
+  /\b(?:day after tomorrow|kal|tomorrow|parso|aaj|today|abhi|right now|now|turant)\b/gi,
+  /\b(?:subah|morning|dopahar|afternoon|noon|shaam|evening|raat|night)(?:\s+(?:ko|mein))?\b/gi,
+  /\bpickup(?:\s+time)?\s*(?:at|is|ko|:)?/gi,
+];
+
+// Where a spoken address starts; it runs to the end of what is left
+const ADDRESS_START = /\b(?:address(?:\s+is)?|deliver(?:y)?\s+to|deliver\s+at|send\s+to|to)\s+(?=\S)/i;
+// Hinglish puts the place first: "Kothrud Pune pe deliver karna"
+const ADDRESS_BEFORE = /\s(?:pe|par|mein)\s+(?:deliver|delivery|bhejna|bhej|pahuncha)\w*(?:\s+(?:karna|karo|kar do|hai))?/i;
+
+const NAME_PATTERNS = [
+  /\bcustomer(?:\s+name)?\s*(?:is|hai|:)?\s+([a-z]+)/i,
+  /\bfor\s+([a-z]+)/i,
+  /\b([a-z]+)\s+(?:ke|ki)\s+liye\b/i,
+];
+// a capitalised word right after the first name is the surname ("for Suresh Kumar")
+const SURNAME = /^\s+([A-Z][a-z]+)\b/;
+const NOT_NAMES = /^(?:me|my|him|her|them|us|pickup|delivery|order|today|tomorrow|mere|mera|unke|iske|uske)$/i;
+
+// Words left around the item once everything else is taken out
+const FILLER =
+  /\b(?:order|of|ka|ki|ke|hai|pe|par|mein|deliver(?:y)?|karna|karo|kar|do|dena|ko|the|at|by|and|aur|pickup|se)\b/gi;
+
+// Units spoken after the count. A weight or volume is the size of one parcel, so "5 kg aata"
+// stays together as the item; packs are the parcels, so "3 dabba ghee" is 3 x ghee.
+const MEASURE_UNIT = /^(kgs?|kilo(?:grams?)?|g|gms?|grams?|ltrs?|lit(?:re|er)s?|ml|quintals?|tons?)\s+(?=\S)/i;
+const PACK_UNIT = /^(?:packets?|packs?|box(?:es)?|dabb[aei]|bori|bags?|cartons?|bottles?|peti|thail[aei])\s+(?=\S)/i;
+
+// "... bhejo", "... deliver karo": the verb ending the sentence is not part of the item
+const TRAILING_VERB = /\s+(?:bhejo|bhej(?:\s+do|\s+dena|na)?|de\s+do|dena|deliver\s+kar(?:o|na|\s+do)|pahuncha(?:o|na|\s+do)?|le\s+jao)$/i;
+
+const tidy = (s: string) => s.replace(/\s+/g, " ").replace(/\s*,\s*(?:,\s*)*/g, ", ").replace(/^[\s,.]+|[\s,.]+$/g, "");
+
+// The address parts of a sentence that has no "to ..." / "... pe deliver" (PIN code, city,
+// locality), plus the sentence with them taken out
+function addressParts(text: string): { address: AddressDraft | null; rest: string } {
+  const { line1, ...parts } = parseAddress(text);
+  const found = Object.values(parts).some(Boolean);
+  return { address: found ? parts : null, rest: found ? line1 || "" : text };
+}
+
+export function extractOrderFields(text: string, now: Date = new Date()): OrderDraft {
+  const draft: OrderDraft = { item: null, qty: 1, address: null, customerName: null, pickupTime: parseSpokenTime(text, now) };
+
+  let rest = ` ${normalizeSpokenNumbers(text.replace(/ORD-[A-Za-z0-9]+/gi, " "))} `;
+  for (const re of TIME_PHRASES) rest = rest.replace(re, " ");
+  rest = rest.replace(COMMAND, " ");
+
+  for (const re of NAME_PATTERNS) {
+    const m = rest.match(re);
+    if (!m) continue;
+    const name = m[1].trim();
+    if (NOT_NAMES.test(name) || canonicalCity(name)) continue;
+    const after = rest.slice(m.index! + m[0].length);
+    const surname = after.match(SURNAME);
+    const full = surname && !/^(?:To|At|Pickup|Address)$/.test(surname[1]) ? `${name} ${surname[1]}` : name;
+    draft.customerName = full.replace(/\b\w/g, (c) => c.toUpperCase());
+    rest = rest.slice(0, m.index) + " " + (full === name ? after : after.slice(surname![0].length));
+    break;
+  }
+
+  const start = rest.match(ADDRESS_START);
+  const before = rest.match(ADDRESS_BEFORE);
+  if (start && start.index !== undefined) {
+    const address = parseAddress(tidy(rest.slice(start.index + start[0].length)));
+    if (Object.values(address).some(Boolean)) draft.address = address;
+    rest = rest.slice(0, start.index);
+  } else if (before && before.index !== undefined) {
+    // the place is whatever follows the item; PIN code, city and locality mark where it begins
+    const head = rest.slice(0, before.index);
+    const parts = addressParts(head);
+    draft.address = parts.address;
+    rest = `${parts.rest} ${rest.slice(before.index + before[0].length)}`;
+  } else {
+    const parts = addressParts(rest);
+    draft.address = parts.address;
+    rest = parts.rest;
+  }
+
+  // "2 boxes", "paanch carton biscuit", "a fridge", "do bori chawal", "5 kg aata": the count is
+  // read before the filler words go, so "do" (two) is not dropped like the "do" of "kar do"
+  rest = tidy(rest.replace(/,/g, " ")).replace(TRAILING_VERB, "");
+  const counted = rest.match(new RegExp(`^(?:order\\s+)?(\\d+|${NUMBER_WORD_PATTERN}|an?)\\s+(.+)$`, "i"));
+  if (counted) {
+    const count = /^an?$/i.test(counted[1]) ? 1 : toNumber(counted[1]) || 1;
+    const measure = counted[2].match(MEASURE_UNIT);
+    if (measure) {
+      rest = `${count} ${measure[1]} ${counted[2].slice(measure[0].length)}`;
+    } else {
+      draft.qty = count;
+      rest = counted[2].replace(PACK_UNIT, "");
+    }
+  }
+  const item = tidy(rest.replace(FILLER, " "));
+  if (item && /[a-z]/i.test(item)) draft.item = item;
+  return draft;
+}
@@ -0,0 +1,135 @@
+// server/src/onboarding/form.ts
+// The onboarding form: what each field asks, how a spoken answer becomes a checked value, and
+// the driver's progress, which is saved after every field.
+import { normalizePhone } from "../auth/otp";
+import { spokenDigits } from "../nlu/numbers";
+import DriverProfile, { IDriverProfile, ONBOARDING_FIELDS, OnboardingField } from "../models/DriverProfile";
+import Driver from "../models/Driver";
+import { AuthDriver } from "../types";
+import { KycCheck, checkAadhaar, checkLicenceNumber, checkPan, checkVehicleNumber } from "./kyc";
+
+export interface FormField {
+  key: OnboardingField;
+  label: string;
+  prompt: string;
+  // Words that name the field, e.g. in "PAN galat hai"
+  mentions: RegExp;
+  check(answer: string, driver: AuthDriver): KycCheck;
+  // How a saved value is read back, spaced out so that speech reads it character by character
+  speak?(value: string): string;
+}
+
+const spaced = (value: string) => value.split("").join(" ");
+
+function checkName(answer: string): KycCheck {
+  const name = answer
+    .replace(/\b(?:mera|meri|my|naam|name|is|hai|ji)\b/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/(^|\s)(\p{L})/gu, (_, space, c) => space + c.toUpperCase());
+  if (!/^[\p{L}\p{M} .']{2,60}$/u.test(name) || !/\p{L}.*\p{L}/u.test(name)) {
+    return { ok: false, error: "Naam samajh nahi aaya. Sirf apna poora naam boliye." };
+  }
+  return { ok: true, value: name };
+}
+
+// "yahi number" / "same" keeps the number the driver logged in with
+function checkPhone(answer: string, driver: AuthDriver): KycCheck {
+  if (/\b(?:yahi|yehi|isi|same|this)\b/i.test(answer)) return { ok: true, value: driver.phone };
+  const phone = normalizePhone(spokenDigits(answer));
+  return phone ? { ok: true, value: phone } : { ok: false, error: "Mobile number 10 ank ka hona chahiye, jaise 98765 43210." };
+}
+
+export const FORM_FIELDS: FormField[] = [
+  {
+    key: "name",
+    label: "Naam",
+    prompt: "Apna poora naam boliye, jaise Aadhaar par likha hai.",
+    mentions: /\b(?:naam|name)\b/i,
+    check: checkName,
+  },
+  {
+    key: "phone",
+    label: "Mobile number",
+    prompt: "Apna mobile number boliye. Login wala hi hai to 'yahi number' boliye.",
+    mentions: /\b(?:phone|mobile)\b/i,
+    check: checkPhone,
+    speak: (v) => spaced(v.replace(/^\+91/, "")),
+  },
+  {
+    key: "vehicleNumber",
+    label: "Gaadi number",
+    prompt: "Gaadi ka registration number boliye, jaise MH 12 AB 1234.",
+    mentions: /\b(?:gaadi|gadi|vehicle|registration|rc)\b/i,
+    check: (answer) => checkVehicleNumber(answer),
+    speak: spaced,
+  },
+  {
+    key: "licenceNumber",
+    label: "Driving licence",
+    prompt: "Driving licence number boliye.",
+    mentions: /\b(?:licen[cs]e|dl)\b/i,
+    check: (answer) => checkLicenceNumber(answer),
+    speak: spaced,
+  },
+  {
+    key: "pan",
+    label: "PAN",
+    prompt: "PAN card number boliye.",
+    mentions: /\bpan\b/i,
+    check: (answer) => checkPan(answer),
+    speak: spaced,
+  },
+  {
+    key: "aadhaar",
+    label: "Aadhaar",
+    prompt: "Aadhaar ka 12 ank ka number boliye.",
+    mentions: /\b(?:aadhaa?r|adhar)\b/i,
+    check: (answer) => checkAadhaar(answer),
+  },
+];
+
+export const formField = (key: OnboardingField) => FORM_FIELDS.find((f) => f.key === key)!;
+
+export async function getProfile(driverId: string): Promise<IDriverProfile> {
+  return (
+    (await DriverProfile.findOne({ driverId })) ||
+    DriverProfile.create({ driverId, fields: Object.fromEntries(ONBOARDING_FIELDS.map((f) => [f, null])) })
+  );
+}
+
+export const isDone = (profile: IDriverProfile, key: OnboardingField) => !!profile.fields[key]?.value;
+
+// The first field still empty, in form order
+export function nextField(profile: IDriverProfile): FormField | null {
+  return FORM_FIELDS.find((f) => !isDone(profile, f.key)) || null;
+}
+
+export type SubmitResult = { ok: true; field: FormField; value: string; completed: boolean } | { ok: false; field: FormField; error: string };
+
+// Check an answer and save it. The form completes when the last empty field is filled; the
+// driver's display name follows the KYC name.
+export async function submitField(profile: IDriverProfile, key: OnboardingField, answer: string, driver: AuthDriver): Promise<SubmitResult> {
+  const field = formField(key);
+  const checked = field.check(answer, driver);
+  if (!checked.ok) return { ok: false, field, error: checked.error };
+
+  profile.set(`fields.${key}`, { value: checked.value, savedAt: new Date() });
+  profile.lastField = key;
+  const completed = !nextField(profile);
+  if (completed && profile.status !== "completed") {
+    profile.status = "completed";
+    profile.completedAt = new Date();
+  }
+  await profile.save();
+  if (completed) await Driver.updateOne({ _id: driver.id }, { $set: { name: profile.fields.name!.value } });
+  return { ok: true, field, value: checked.value, completed };
+}
+
+// Empty a field so it is asked again; the form is no longer complete
+export async function clearField(profile: IDriverProfile, key: OnboardingField) {
+  profile.set(`fields.${key}`, null);
+  profile.status = "in_progress";
+  profile.completedAt = null;
+  await profile.save();
+}
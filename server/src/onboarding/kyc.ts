@@ -0,0 +1,96 @@
+// server/src/onboarding/kyc.ts
+// Format checks for the KYC numbers a driver reads out: vehicle registration, driving licence,
+// PAN and Aadhaar (with its Verhoeff check digit). Each check takes the spoken text and returns
+// the normalised value, or an error to say back to the driver.
+import { spokenDigits } from "../nlu/numbers";
+
+export type KycCheck = { ok: true; value: string } | { ok: false; error: string };
+
+// State and union territory codes on registration plates and licences (OR, TG and UA are still
+// on older documents)
+const STATE_CODES = new Set([
+  "AN", "AP", "AR", "AS", "BR", "CG", "CH", "DD", "DL", "DN", "GA", "GJ", "HP", "HR", "JH", "JK", "KA", "KL",
+  "LA", "LD", "MH", "ML", "MN", "MP", "MZ", "NL", "OD", "OR", "PB", "PY", "RJ", "SK", "TG", "TN", "TR", "TS",
+  "UA", "UK", "UP", "WB",
+]);
+
+// Words drivers say around a number ("mera number hai ...")
+const FILLER = /\b(?:mera|meri|my|is|hai|number|card)\b/gi;
+
+// Uppercase letters and digits only, with spoken digits turned into figures
+function compact(text: string, labels?: RegExp): string {
+  let t = spokenDigits(text.replace(FILLER, " "));
+  if (labels) t = t.replace(labels, " ");
+  return t.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+// MH12AB1234 (state, RTO, series, number) or the Bharat series 22BH1234AA
+export function checkVehicleNumber(text: string): KycCheck {
+  const v = compact(text, /\b(?:gaadi|gadi|vehicle|registration|rc|ka|ki)\b/gi);
+  const bh = v.match(/^(\d{2})BH(\d{4})([A-Z]{1,2})$/);
+  if (bh) return { ok: true, value: v };
+  const m = v.match(/^([A-Z]{2})(\d{1,2})([A-Z]{0,3})(\d{1,4})$/);
+  if (!m) return { ok: false, error: "Gaadi number samajh nahi aaya. Jaise: MH 12 AB 1234." };
+  if (!STATE_CODES.has(m[1])) return { ok: false, error: `"${m[1]}" kisi state ka code nahi hai.` };
+  return { ok: true, value: `${m[1]}${m[2].padStart(2, "0")}${m[3]}${m[4].padStart(4, "0")}` };
+}
+
+// SS RR YYYY NNNNNNN: state, RTO, year of issue, serial
+export function checkLicenceNumber(text: string, now: Date = new Date()): KycCheck {
+  const v = compact(text, /\b(?:driving|licen[cs]e|ka|ki)\b/gi);
+  const m = v.match(/^([A-Z]{2})(\d{2})(\d{4})(\d{7})$/);
+  if (!m) return { ok: false, error: "Licence number 15 akshar ka hota hai, jaise MH12 2015 0012345." };
+  if (!STATE_CODES.has(m[1])) return { ok: false, error: `"${m[1]}" kisi state ka code nahi hai.` };
+  const year = Number(m[3]);
+  if (year < 1950 || year > now.getFullYear()) return { ok: false, error: `Licence mein saal ${m[3]} sahi nahi lagta.` };
+  return { ok: true, value: v };
+}
+
+// AAAPA1234A; the fourth letter is the holder type, P for a person
+export function checkPan(text: string): KycCheck {
+  const v = compact(text, /\bpan\b/gi);
+  if (!/^[A-Z]{5}\d{4}[A-Z]$/.test(v)) return { ok: false, error: "PAN 10 akshar ka hota hai: 5 letter, 4 number, 1 letter. Jaise ABCPE1234F." };
+  if (v[3] !== "P") return { ok: false, error: "Yeh PAN kisi vyakti ka nahi hai; chautha akshar P hona chahiye." };
+  return { ok: true, value: v };
+}
+
+// Verhoeff tables: multiplication in the dihedral group D5 and the position permutation
+const D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+// True when the last digit is the Verhoeff check digit of the others
+export function verhoeffValid(digits: string): boolean {
+  let c = 0;
+  const reversed = digits.split("").reverse();
+  for (let i = 0; i < reversed.length; i++) c = D[c][P[i % 8][Number(reversed[i])]];
+  return c === 0;
+}
+
+// 12 digits, not starting with 0 or 1, with a valid check digit. Only the masked number
+// (XXXX XXXX 1234) is kept.
+export function checkAadhaar(text: string): KycCheck {
+  const v = compact(text, /\b(?:aadhaa?r|adhar)\b/gi);
+  if (!/^\d{12}$/.test(v)) return { ok: false, error: "Aadhaar number 12 ank ka hota hai. Ek-ek ank dhyan se boliye." };
+  if (/^[01]/.test(v) || !verhoeffValid(v)) return { ok: false, error: "Yeh Aadhaar number sahi nahi hai. Card dekh kar phir se boliye." };
+  return { ok: true, value: `XXXX XXXX ${v.slice(8)}` };
+}
@@ -0,0 +1,141 @@
+// server/src/orders/modify.ts
+// Spoken order edits ("ORD-X quantity 5 kar do, pickup shaam 6 baje") parsed into field
+// changes and applied with a structured diff the client can render.
+import { IOrder, OrderStatus, normalizeStatus, transitionOrder } from "../models/Order";
+import { assignOrder, resolveDriverRef } from "../dispatch/dispatch";
+import { AddressDraft, formatAddress, mergeAddress, parseAddress, requireAddress } from "../geo/address";
+import { AuthDriver } from "../types";
+import { LEDGER_TIMEZONE, parseSpokenTime } from "../utils/time";
+
+export interface OrderEdits {
+  item?: string;
+  qty?: number;
+  qtyDelta?: number; // "2 aur add karo" / "remove 1"
+  pickupTime?: Date;
+  assignedTo?: string;
+  address?: AddressDraft; // only the parts that change, unless it names a street
+  customerName?: string;
+  status?: OrderStatus;
+}
+
+export interface OrderChange {
+  field: "item" | "qty" | "pickupTime" | "assignedTo" | "address" | "customerName" | "status";
+  from: unknown;
+  to: unknown;
+}
+
+export class OrderNotEditableError extends Error {
+  constructor(public status: OrderStatus) {
+    super(`Order is ${status.replace("_", " ")} and can no longer be changed.`);
+    this.name = "OrderNotEditableError";
+  }
+}
+
+// A clause ends at "and", "aur", a comma or the end of the sentence
+const END = "(?=\\s+(?:and|aur)\\b|,|\\.|$)";
+
+export function parseOrderEdits(text: string, now: Date = new Date()): OrderEdits {
+  const edits: OrderEdits = {};
+  let t = text.replace(/ORD-[A-Za-z0-9]+/gi, " ").replace(/\s+/g, " ").trim();
+
+  // an address has commas of its own, so it runs to the end and is taken out first
+  const address = t.match(/\baddress\s+(?:to|is|ko|:)\s*(.+)$/i);
+  if (address) {
+    edits.address = parseAddress(address[1].replace(/\s+(?:kar do|karo)$/i, ""));
+    t = t.slice(0, address.index).trim();
+  }
+  const pin = t.match(/\bpin\s*(?:code)?\s+(?:to|is|ko)?\s*([1-9]\d{2}\s?\d{3})\b/i);
+  if (pin) {
+    edits.address = { ...edits.address, pincode: pin[1].replace(/\s/, "") };
+    t = t.replace(pin[0], " ");
+  }
+
+  const qty = t.match(/\b(?:qty|quantity|matra)\s*(?:to|=|ko|is)?\s*(\d+)/i) || t.match(/\b(?:make it|kar do|karo)\s+(\d+)\b/i);
+  if (qty) edits.qty = Number(qty[1]);
+  const more = t.match(/\badd\s+(\d+)\s+more\b|\b(\d+)\s+(?:aur|more)\b/i);
+  if (!qty && more) edits.qtyDelta = Number(more[1] || more[2]);
+  const less = t.match(/\bremove\s+(\d+)\b|\b(\d+)\s+kam\b/i);
+  if (!qty && less) edits.qtyDelta = -Number(less[1] || less[2]);
+
+  const item = t.match(new RegExp(`\\bitem\\s+(?:to|is|ko)\\s+(.+?)${END}`, "i"));
+  if (item) edits.item = item[1].replace(/\s+(?:kar do|karo)$/i, "").trim();
+
+  const pickup = t.match(new RegExp(`\\bpickup(?:\\s+time)?\\s+(?:to|at|ko|is)?\\s*(.+?)${END}`, "i"));
+  if (pickup) {
+    const when = parseSpokenTime(pickup[1], now);
+    if (when) edits.pickupTime = when;
+  }
+
+  const assignee =
+    t.match(new RegExp(`\\bassign(?:ed)?\\s+(?:it\\s+|this\\s+)?to\\s+([A-Za-z][A-Za-z ]*?)${END}`, "i")) ||
+    t.match(/\b([A-Z][a-z]+(?:\s[A-Z][a-z]+)?)\s+ko\s+assign/);
+  if (assignee) edits.assignedTo = assignee[1].trim();
+
+  const customer = t.match(new RegExp(`\\bcustomer(?:\\s+name)?\\s+(?:to|is|ko)\\s+(.+?)${END}`, "i"));
+  if (customer) edits.customerName = customer[1].trim();
+
+  const status = t.match(new RegExp(`\\b(?:status|mark(?:\\s+it)?(?:\\s+as)?)\\s+(?:to\\s+|as\\s+)?(.+?)${END}`, "i"));
+  if (status) {
+    const next = normalizeStatus(status[1].replace(/\s+(?:kar do|karo)$/i, ""));
+    if (next) edits.status = next;
+  }
+
+  return edits;
+}
+
+export function hasEdits(edits: OrderEdits) {
+  return Object.values(edits).some((v) => v !== undefined);
+}
+
+// Apply edits to the order, save it and return what changed. Status changes go through the
+// lifecycle (InvalidStatusTransitionError); finished orders throw OrderNotEditableError and an
+// address left incomplete throws InvalidAddressError.
+export async function applyOrderEdits(order: IOrder, edits: OrderEdits, driver: AuthDriver): Promise<OrderChange[]> {
+  if (order.status === "delivered" || order.status === "cancelled") throw new OrderNotEditableError(order.status);
+
+  const changes: OrderChange[] = [];
+  const set = <K extends Exclude<OrderChange["field"], "status">>(field: K, to: IOrder[K]) => {
+    const from = order[field];
+    const same = from instanceof Date && to instanceof Date ? from.getTime() === to.getTime() : from === to;
+    if (same) return;
+    order[field] = to;
+    changes.push({ field, from: from ?? null, to });
+  };
+
+  if (edits.item) set("item", edits.item);
+  if (edits.qty) set("qty", Math.max(1, edits.qty));
+  else if (edits.qtyDelta) set("qty", Math.max(1, order.qty + edits.qtyDelta));
+  if (edits.pickupTime) set("pickupTime", edits.pickupTime);
+  if (edits.assignedTo) {
+    // spoken names are resolved to driver ids; the assignee is offered the order
+    const driverId = await resolveDriverRef(edits.assignedTo);
+    if (driverId !== order.assignedTo) {
+      changes.push({ field: "assignedTo", from: order.assignedTo ?? null, to: driverId });
+      assignOrder(order, driverId, driver.id);
+    }
+  }
+  if (edits.address) {
+    const address = requireAddress(mergeAddress(order.address, edits.address));
+    const [from, to] = [formatAddress(order.address) || order.address?.raw || null, formatAddress(address)];
+    if (from !== to || address.contactPhone !== (order.address?.contactPhone ?? null)) {
+      order.address = address;
+      changes.push({ field: "address", from, to });
+    }
+  }
+  if (edits.customerName) set("customerName", edits.customerName);
+  if (edits.status && edits.status !== order.status) {
+    const from = order.status;
+    transitionOrder(order, edits.status, driver.id, "voice");
+    changes.push({ field: "status", from, to: edits.status });
+  }
+
+  if (changes.length) await order.save();
+  return changes;
+}
+
+// "qty 2 → 5, pickup 18 Oct, 6:00 pm"
+export function describeChanges(changes: OrderChange[]) {
+  const fmt = (v: unknown) =>
+    v instanceof Date ? v.toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short", timeZone: LEDGER_TIMEZONE }) : v === null || v === undefined ? "not set" : String(v);
+  return changes.map((c) => `${c.field} ${fmt(c.from)} → ${fmt(c.to)}`).join(", ");
+}
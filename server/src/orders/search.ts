@@ -0,0 +1,140 @@
+// server/src/orders/search.ts
+// Filtered, sorted, cursor-paginated order search shared by GET /orders/search and the
+// "list my orders" voice intent.
+import Order, { IOrder, OrderStatus, orderScope } from "../models/Order";
+import { AuthDriver } from "../types";
+import { startOfDay, weekBounds } from "../ledger/earnings";
+
+export const ORDER_SORT_FIELDS = ["createdAt", "updatedAt", "pickupTime"] as const;
+export type OrderSortField = (typeof ORDER_SORT_FIELDS)[number];
+
+export interface OrderSearchFilters {
+  status?: OrderStatus[];
+  createdFrom?: Date;
+  createdTo?: Date;
+  pickupFrom?: Date;
+  pickupTo?: Date;
+  item?: string; // case-insensitive substring
+  address?: string; // case-insensitive substring of any address part
+  customerName?: string;
+  assignedTo?: string;
+}
+
+export interface OrderSearchOptions {
+  sortBy?: OrderSortField;
+  sortDir?: "asc" | "desc";
+  limit?: number;
+  cursor?: string | null;
+}
+
+type Cursor = { v: string | null; id: string };
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+function escapeRegex(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function encodeCursor(order: IOrder, field: OrderSortField): string {
+  const value = order[field] as Date | null | undefined;
+  const cursor: Cursor = { v: value ? value.toISOString() : null, id: String(order._id) };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string): Cursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (typeof cursor?.id !== "string" || !/^[a-f0-9]{24}$/i.test(cursor.id)) throw new Error();
+    return cursor;
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+// Filter for documents strictly after the cursor in (field, _id) order.
+// MongoDB sorts nulls first ascending and last descending; pickupTime can be null.
+function afterCursor(field: OrderSortField, dir: 1 | -1, cursor: Cursor) {
+  const cmp = dir === 1 ? "$gt" : "$lt";
+  const v = cursor.v ? new Date(cursor.v) : null;
+  const sameValueLaterId = { [field]: v, _id: { [cmp]: cursor.id } };
+  if (v === null) {
+    return dir === 1 ? { $or: [sameValueLaterId, { [field]: { $ne: null } }] } : sameValueLaterId;
+  }
+  const or: Record<string, any>[] = [{ [field]: { [cmp]: v } }, sameValueLaterId];
+  if (dir === -1) or.push({ [field]: null });
+  return { $or: or };
+}
+
+// Address parts an address search looks in; "raw" covers orders migrated from free text
+const ADDRESS_SEARCH_FIELDS = ["line1", "landmark", "locality", "city", "pincode", "raw"];
+
+export function buildOrderFilter(driver: AuthDriver, f: OrderSearchFilters) {
+  const and: Record<string, any>[] = [orderScope(driver)];
+  if (f.status?.length) and.push({ status: { $in: f.status } });
+  if (f.createdFrom || f.createdTo) {
+    and.push({ createdAt: { ...(f.createdFrom && { $gte: f.createdFrom }), ...(f.createdTo && { $lt: f.createdTo }) } });
+  }
+  if (f.pickupFrom || f.pickupTo) {
+    and.push({ pickupTime: { ...(f.pickupFrom && { $gte: f.pickupFrom }), ...(f.pickupTo && { $lt: f.pickupTo }) } });
+  }
+  if (f.item) and.push({ item: { $regex: escapeRegex(f.item), $options: "i" } });
+  if (f.address) {
+    const match = { $regex: escapeRegex(f.address), $options: "i" };
+    and.push({ $or: ADDRESS_SEARCH_FIELDS.map((field) => ({ [`address.${field}`]: match })) });
+  }
+  if (f.customerName) and.push({ customerName: { $regex: escapeRegex(f.customerName), $options: "i" } });
+  if (f.assignedTo) and.push({ assignedTo: f.assignedTo });
+  return { $and: and };
+}
+
+export async function searchOrders(driver: AuthDriver, filters: OrderSearchFilters, options: OrderSearchOptions = {}) {
+  const field = options.sortBy || "createdAt";
+  const dir = options.sortDir === "asc" ? 1 : -1;
+  const limit = Math.min(Math.max(options.limit || 20, 1), 100);
+
+  const filter = buildOrderFilter(driver, filters);
+  if (options.cursor) filter.$and.push(afterCursor(field, dir, decodeCursor(options.cursor)));
+
+  // fetch one extra to know whether another page exists
+  const docs = await Order.find(filter).sort({ [field]: dir, _id: dir }).limit(limit + 1);
+  const items = docs.slice(0, limit);
+  const nextCursor = docs.length > limit ? encodeCursor(items[items.length - 1], field) : null;
+  return { items, nextCursor };
+}
+
+// Filters spoken in a "list my orders" request, e.g. "aaj ke delivered orders",
+// "show cancelled orders this week", "pending orders to Pune"
+export function filtersFromText(text: string, now: Date = new Date()): OrderSearchFilters {
+  const t = text.toLowerCase();
+  const filters: OrderSearchFilters = {};
+
+  if (/deliver(ed)?\b|deliver ho/.test(t)) filters.status = ["delivered"];
+  else if (/cancel/.test(t)) filters.status = ["cancelled"];
+  else if (/in transit|raaste mein/.test(t)) filters.status = ["in_transit"];
+  else if (/picked up|pickup ho/.test(t)) filters.status = ["picked_up"];
+  else if (/pending|baaki|open|active/.test(t)) filters.status = ["created", "assigned"];
+
+  // days and weeks in LEDGER_TIMEZONE, like spoken times
+  const startOfToday = startOfDay(now);
+  if (/\b(aaj|today)\b/.test(t)) {
+    filters.createdFrom = startOfToday;
+  } else if (/\b(kal|yesterday)\b/.test(t)) {
+    filters.createdFrom = startOfDay(new Date(startOfToday.getTime() - 1));
+    filters.createdTo = startOfToday;
+  } else if (/(is|iss) hafte|this week/.test(t)) {
+    filters.createdFrom = weekBounds(now).startOfThisWeek;
+  }
+
+  // place names are capitalised by speech recognition: "orders to Pune", "Pune wale orders"
+  const place = text.match(/\b(?:to|in|for)\s+([A-Z][a-zA-Z]+)/) || text.match(/\b([A-Z][a-zA-Z]+)\s+(?:wale|ke)\s+orders/);
+  if (place && !/^(ORD|Today|Yesterday)/.test(place[1])) filters.address = place[1];
+  const pin = text.match(/\b([1-9]\d{5})\b/);
+  if (pin) filters.address = pin[1];
+
+  return filters;
+}
@@ -0,0 +1,23 @@
+// server/src/realtime/describe.ts
+// What the client says when an event arrives, from the message catalog in the driver's language.
+import { RealtimeEvent } from "../contracts/eventApi";
+import { Language } from "../i18n/languages";
+import { t } from "../i18n/messages";
+
+export function describeEvent(event: RealtimeEvent, language: Language): string {
+  switch (event.type) {
+    case "reminder":
+      return t("event_reminder", language, { text: event.reminder.text });
+    case "order_status":
+      return t("order_status_now", language, { trackingId: event.order.trackingId, status: t(`order_status_${event.to}`, language) });
+    case "order_assigned": {
+      const { trackingId, item, address } = event.order;
+      return t("event_order_offered", language, { order: [trackingId, item, address?.formatted].filter(Boolean).join(", ") });
+    }
+    case "alert":
+      // the message itself is sent as written
+      return t(event.alert.severity === "critical" ? "event_alert_urgent" : "event_alert", language, { message: event.alert.message });
+    case "incident":
+      return t(`incident_${event.incident.status}`, language);
+  }
+}
@@ -0,0 +1,46 @@
+// server/src/realtime/hub.ts
+// In-process fan-out of realtime events to the drivers' open streams.
+import { EventEmitter } from "events";
+import { RealtimeEvent } from "../contracts/eventApi";
+
+const bus = new EventEmitter();
+bus.setMaxListeners(0); // one listener per open stream
+
+const BROADCAST = "broadcast";
+const OPS = "ops"; // the ops dashboard: admins' streams
+const channel = (driverId: string) => `driver:${driverId}`;
+
+export function publish(driverId: string, event: RealtimeEvent) {
+  bus.emit(channel(driverId), event);
+}
+
+export function broadcast(event: RealtimeEvent) {
+  bus.emit(BROADCAST, event);
+}
+
+export function publishOps(event: RealtimeEvent) {
+  bus.emit(OPS, event);
+}
+
+// Receive events for one driver (and broadcasts, and ops events when `ops` is set); returns
+// the unsubscribe function
+export function subscribe(driverId: string, listener: (event: RealtimeEvent) => void, ops = false) {
+  bus.on(channel(driverId), listener);
+  bus.on(BROADCAST, listener);
+  if (ops) bus.on(OPS, listener);
+  return () => {
+    bus.off(channel(driverId), listener);
+    bus.off(BROADCAST, listener);
+    bus.off(OPS, listener);
+  };
+}
+
+// Number of open streams for a driver, e.g. to decide whether an alert reached anyone
+export function listenerCount(driverId: string) {
+  return bus.listenerCount(channel(driverId));
+}
+
+// Number of open ops dashboard streams
+export function opsListenerCount() {
+  return bus.listenerCount(OPS);
+}
@@ -0,0 +1,30 @@
+// server/src/realtime/orderEvents.ts
+// Turns order saves into realtime events for the drivers involved.
+import { IOrder, IStatusChange, orderChanges } from "../models/Order";
+import { toOrderDTO } from "../contracts/orderSchemas";
+import { publish } from "./hub";
+
+// The assignee and the creator hear about an order, except whoever made the change
+function recipients(order: IOrder, actor?: string) {
+  const ids = [order.assignedTo, order.metadata?.createdBy].filter((id): id is string => !!id && id !== actor);
+  return [...new Set(ids)];
+}
+
+function onStatusChange(order: IOrder, change: IStatusChange) {
+  const dto = toOrderDTO(order);
+  for (const driverId of recipients(order, change.by)) {
+    publish(driverId, { type: "order_status", order: dto, from: change.from, to: change.to });
+  }
+}
+
+// Only offers are announced; a driver who took the order themselves already knows
+function onAssigned(order: IOrder) {
+  if (order.dispatch?.state !== "offered") return;
+  publish(order.assignedTo!, { type: "order_assigned", order: toOrderDTO(order) });
+}
+
+// Call once at startup
+export function watchOrderChanges() {
+  orderChanges.on("status", onStatusChange);
+  orderChanges.on("assigned", onAssigned);
+}
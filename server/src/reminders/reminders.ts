@@ -0,0 +1,101 @@
+// server/src/reminders/reminders.ts
+// Creating reminders (free-standing or tied to an order's pickup) and keeping them in step with orders.
+import Reminder, { IReminder } from "../models/Reminder";
+import type { IOrder } from "../models/Order";
+import { AuthDriver } from "../types";
+import { parseSpokenTime, withoutSpokenTime } from "../utils/time";
+
+// Reminders linked to an order fire this long before pickup unless told otherwise
+export const DEFAULT_LEAD_MINUTES = 15;
+
+export class ReminderTimeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReminderTimeError";
+  }
+}
+
+export interface ReminderInput {
+  driverId: string;
+  text: string;
+  dueAt?: Date | null;
+  order?: IOrder | null;
+  leadMinutes?: number | null;
+  createdVia?: string;
+}
+
+export interface ParsedReminder {
+  text: string;
+  dueAt: Date | null;
+  trackingId: string | null;
+  leadMinutes: number | null;
+}
+
+// Query filter limiting reminders to the driver's own; admins see all
+export function reminderScope(driver: AuthDriver): Record<string, any> {
+  return driver.role === "admin" ? {} : { driverId: driver.id };
+}
+
+function dueBeforePickup(order: IOrder, leadMinutes: number): Date {
+  if (!order.pickupTime) throw new ReminderTimeError(`Order ${order.trackingId} has no pickup time yet.`);
+  return new Date(order.pickupTime.getTime() - leadMinutes * 60_000);
+}
+
+// Save a reminder. Without an explicit dueAt, an order's pickup time (minus the lead) is used.
+// Throws ReminderTimeError when no time can be worked out or it has already passed.
+export async function createReminder(input: ReminderInput, now: Date = new Date()): Promise<IReminder> {
+  const { order } = input;
+  const leadMinutes = order ? input.leadMinutes ?? DEFAULT_LEAD_MINUTES : null;
+  let dueAt = input.dueAt || null;
+  if (!dueAt && order) dueAt = dueBeforePickup(order, leadMinutes!);
+  if (!dueAt) throw new ReminderTimeError("When should I remind you? Say a time like '5pm' or 'kal subah 9 baje'.");
+  if (dueAt.getTime() < now.getTime() - 60_000) throw new ReminderTimeError("That time has already passed.");
+
+  return Reminder.create({
+    driverId: input.driverId,
+    text: input.text,
+    dueAt,
+    orderId: order?._id ?? null,
+    trackingId: order?.trackingId ?? null,
+    // only pickup-following reminders keep a lead; an explicit time stays fixed
+    leadMinutes: order && !input.dueAt ? leadMinutes : null,
+    createdVia: input.createdVia || "api",
+  });
+}
+
+// Understand "remind me at 5pm to call Ramesh", "kal subah 9 baje yaad dilana ki ...",
+// "ORD-AB12 pickup se 10 minute pehle yaad dilana" or "remind me in 30 minutes".
+export function parseReminderRequest(text: string, now: Date = new Date()): ParsedReminder {
+  const trackingId = text.match(/ORD-[A-Za-z0-9]+/i)?.[0].toUpperCase() || null;
+  const lead = text.match(/(\d+)\s*(?:min(?:ute)?s?|minat)\s*(?:pehle|before|early)/i);
+  const leadMinutes = lead ? Number(lead[1]) : null;
+  const timeText = lead ? text.replace(lead[0], " ") : text;
+  const dueAt = parseSpokenTime(timeText.replace(/ORD-[A-Za-z0-9]+/gi, " "), now);
+
+  const about =
+    text.match(/\bremind(?:er)?(?: me)?\b.*?\bto\s+(.+)$/i)?.[1] ||
+    text.match(/\b(?:yaad dila\w*|reminder\s+\w+)\s+(?:ki|ke)\s+(.+)$/i)?.[1] ||
+    text.match(/^(.+?)\s+(?:ke liye|ka|ki)\s+(?:reminder|yaad)/i)?.[1];
+  const fallback = trackingId ? `Pickup for order ${trackingId}` : text.trim();
+  // the time is kept in dueAt, not repeated in the text ("to deliver 5 boxes at 6pm")
+  const what = about && withoutSpokenTime((lead ? about.replace(lead[0], " ") : about).replace(/[.?!]+$/, ""));
+  return { text: (what || fallback).trim().replace(/[.?!]+$/, ""), dueAt, trackingId, leadMinutes };
+}
+
+// Follow an order's changes: move pickup-linked reminders with the pickup time,
+// and drop pending reminders once the order is finished.
+export async function syncOrderReminders(order: IOrder) {
+  const pending = { orderId: order._id, status: "pending" };
+  const followsPickup = { ...pending, leadMinutes: { $ne: null } };
+  if (order.status === "delivered" || order.status === "cancelled") {
+    await Reminder.updateMany(pending, { $set: { status: "cancelled" } });
+    return;
+  }
+  if (!order.pickupTime) {
+    await Reminder.updateMany(followsPickup, { $set: { status: "cancelled" } });
+    return;
+  }
+  await Reminder.updateMany(followsPickup, [
+    { $set: { dueAt: { $subtract: [order.pickupTime, { $multiply: ["$leadMinutes", 60_000] }] } } },
+  ]);
+}
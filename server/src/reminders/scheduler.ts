@@ -0,0 +1,43 @@
+// server/src/reminders/scheduler.ts
+// Polls MongoDB for due reminders, marks them fired and pushes them to the driver's event stream.
+import Reminder, { IReminder } from "../models/Reminder";
+import { toReminderDTO } from "../contracts/reminderSchemas";
+import { publish } from "../realtime/hub";
+
+const REMINDER_POLL_MS = Number(process.env.REMINDER_POLL_MS || 15_000);
+const MAX_PER_TICK = 100;
+
+// Claim and fire every pending reminder due by `now`. Each one is claimed atomically,
+// so several server processes never fire the same reminder twice.
+export async function fireDueReminders(now: Date = new Date()): Promise<IReminder[]> {
+  const fired: IReminder[] = [];
+  while (fired.length < MAX_PER_TICK) {
+    const reminder = await Reminder.findOneAndUpdate(
+      { status: "pending", dueAt: { $lte: now } },
+      { $set: { status: "fired", firedAt: now } },
+      { new: true, sort: { dueAt: 1 } }
+    );
+    if (!reminder) break;
+    fired.push(reminder);
+    publish(reminder.driverId, { type: "reminder", reminder: toReminderDTO(reminder) });
+  }
+  return fired;
+}
+
+// Start polling; returns a function that stops it
+export function startReminderScheduler(intervalMs: number = REMINDER_POLL_MS) {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return; // a slow tick must not overlap the next one
+    running = true;
+    try {
+      await fireDueReminders();
+    } catch (err) {
+      console.error("Reminder scheduler error:", err);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -1,10 +1,11 @@
-
-
 import express from 'express';
-import { aiReply } from '../controllers/aiController';
+import { aiReply, intentDiagnostics, llmStatus } from '../controllers/aiController';
+import { requireAdmin, requireAuth } from '../middleware/auth';
 
 const router = express.Router();
 
-router.post('/ai', aiReply);
+router.post('/ai', requireAuth, aiReply);
+router.get('/intents', requireAuth, requireAdmin, intentDiagnostics);
+router.get('/llm', requireAuth, requireAdmin, llmStatus);
 
-export default router;
\ No newline at end of file
+export default router;
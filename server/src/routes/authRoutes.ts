@@ -0,0 +1,44 @@
+import express from "express";
+import { normalizePhone, OtpRateLimitError, requestOtp, signSession, toAuthDriver, verifyOtp } from "../auth/otp";
+import { requireAuth } from "../middleware/auth";
+
+const router = express.Router();
+
+function tooManyRequests(res: express.Response, err: OtpRateLimitError) {
+  res.set("Retry-After", String(Math.ceil(err.retryAfterMs / 1000)));
+  return res.status(429).json({ error: err.message });
+}
+
+// send a one-time code to the phone (stub sender logs it on the server)
+router.post("/otp/request", async (req, res) => {
+  const phone = normalizePhone(req.body?.phone);
+  if (!phone) return res.status(400).json({ error: "A valid 10-digit Indian mobile number is required" });
+  try {
+    await requestOtp(phone, req.ip);
+    res.json({ success: true, phone });
+  } catch (err) {
+    if (err instanceof OtpRateLimitError) return tooManyRequests(res, err);
+    res.status(500).json({ error: "Failed to send OTP", details: err });
+  }
+});
+
+// exchange phone + code for a session token; creates the driver account on first login
+router.post("/otp/verify", async (req, res) => {
+  const phone = normalizePhone(req.body?.phone);
+  const { code, name } = req.body || {};
+  if (!phone || !code) return res.status(400).json({ error: "phone and code are required" });
+  try {
+    const result = await verifyOtp(phone, String(code), name, req.ip);
+    if (!result.ok) return res.status(401).json({ error: result.error });
+    res.json({ token: signSession(result.driver), driver: toAuthDriver(result.driver) });
+  } catch (err) {
+    if (err instanceof OtpRateLimitError) return tooManyRequests(res, err);
+    res.status(500).json({ error: "Failed to verify OTP", details: err });
+  }
+});
+
+router.get("/me", requireAuth, (req, res) => {
+  res.json(req.driver);
+});
+
+export default router;
@@ -0,0 +1,32 @@
+import express from "express";
+import Conversation from "../models/Conversation";
+import { cancelOrderDialog } from "../dialogs/orderDialog";
+import { requireAuth, requireSelfOrAdmin } from "../middleware/auth";
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+// review a driver's stored history (messages with intents/actions, plus the rolling summary)
+router.get("/:userId", requireSelfOrAdmin("userId"), async (req, res) => {
+  try {
+    const conversation = await Conversation.findOne({ userId: req.params.userId });
+    if (!conversation) return res.status(404).json({ error: "Conversation not found" });
+    res.json(conversation);
+  } catch (err) {
+    res.status(500).json({ error: "Failed to load conversation", details: err });
+  }
+});
+
+// clear a driver's history, including any half-finished order
+router.delete("/:userId", requireSelfOrAdmin("userId"), async (req, res) => {
+  try {
+    const result = await Conversation.deleteOne({ userId: req.params.userId });
+    cancelOrderDialog(req.params.userId);
+    res.json({ success: true, deleted: result.deletedCount });
+  } catch (err) {
+    res.status(500).json({ error: "Failed to delete conversation", details: err });
+  }
+});
+
+export default router;
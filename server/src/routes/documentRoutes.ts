@@ -0,0 +1,144 @@
+import express from "express";
+import multer from "multer";
+import DriverDocument, { IDriverDocument } from "../models/DriverDocument";
+import Order, { IOrder, orderScope } from "../models/Order";
+import { requireAuth } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import {
+  DocumentTypeError,
+  MAX_UPLOAD_BYTES,
+  canDeleteDocument,
+  canSeeDocument,
+  removeDocument,
+  saveDocument,
+} from "../documents/documents";
+import { getDocumentStore } from "../documents/storage";
+import { ApiError } from "../contracts/orderApi";
+import { DeleteDocumentResponse, ListDocumentsQuery, UploadDocumentRequest, UploadDocumentResponse } from "../contracts/documentApi";
+import { documentIdParamsSchema, listDocumentsQuerySchema, toDocumentDTO, uploadDocumentSchema } from "../contracts/documentSchemas";
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+const notFound: ApiError = { error: "Document not found" };
+
+// The file is held in memory (it is at most MAX_UPLOAD_BYTES) until it is stored
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_UPLOAD_BYTES, files: 1, fields: 10 } });
+const uploadLimit =
+  MAX_UPLOAD_BYTES >= 1024 * 1024 ? `${+(MAX_UPLOAD_BYTES / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(MAX_UPLOAD_BYTES / 1024)} KB`;
+
+// multer's errors as 400/413 in the same shape as validation failures
+const receiveFile: express.RequestHandler = (req, res, next) =>
+  upload.single("file")(req, res, (err: unknown) => {
+    if (!(err instanceof multer.MulterError)) return next(err);
+    const body: ApiError = {
+      error: err.code === "LIMIT_FILE_SIZE" ? `File is larger than ${uploadLimit}` : "Invalid upload",
+      details: [{ path: `body.${err.field || "file"}`, message: err.message }],
+    };
+    res.status(err.code === "LIMIT_FILE_SIZE" ? 413 : 400).json(body);
+  });
+
+// A document the caller may see, or a 404 already sent
+async function findVisible(req: express.Request, res: express.Response): Promise<IDriverDocument | null> {
+  const doc = await DriverDocument.findById(req.params.id);
+  if (!doc || !(await canSeeDocument(doc, req.driver!))) {
+    res.status(404).json(notFound);
+    return null;
+  }
+  return doc;
+}
+
+// multipart upload: `file`, `kind` and optionally the order (orderId or trackingId)
+router.post("/", receiveFile, validate({ body: uploadDocumentSchema }), async (req, res) => {
+  if (!req.file) {
+    const body: ApiError = { error: "Invalid request", details: [{ path: "body.file", message: "Required" }] };
+    return res.status(400).json(body);
+  }
+  try {
+    const { kind, orderId, trackingId } = req.body as UploadDocumentRequest;
+    let order: IOrder | null = null;
+    if (orderId || trackingId) {
+      order = await Order.findOne({ ...(orderId ? { _id: orderId } : { trackingId }), ...orderScope(req.driver!) });
+      if (!order) return res.status(404).json({ error: "Order not found" });
+    }
+    const { document, duplicate } = await saveDocument({
+      driver: req.driver!,
+      kind,
+      order,
+      filename: req.file.originalname,
+      bytes: req.file.buffer,
+    });
+    const body: UploadDocumentResponse = { ...toDocumentDTO(document), duplicate };
+    res.status(duplicate ? 200 : 201).json(body);
+  } catch (err) {
+    if (err instanceof DocumentTypeError) return res.status(415).json({ error: err.message });
+    res.status(500).json({ error: "Failed to upload document", details: err });
+  }
+});
+
+// the caller's documents, or everything on one order; newest first
+router.get("/", validate({ query: listDocumentsQuerySchema }), async (req, res) => {
+  try {
+    const { kind, orderId, driverId, limit = 50 } = req.query as ListDocumentsQuery;
+    const filter: any = {};
+    if (orderId) {
+      if (!(await Order.exists({ _id: orderId, ...orderScope(req.driver!) }))) return res.status(404).json({ error: "Order not found" });
+      filter.orderId = orderId;
+    } else if (req.driver!.role !== "admin") {
+      filter.driverId = req.driver!.id;
+    }
+    if (driverId && req.driver!.role === "admin") filter.driverId = driverId;
+    if (kind) filter.kind = kind;
+    const docs = await DriverDocument.find(filter).sort({ createdAt: -1 }).limit(limit);
+    res.json(docs.map(toDocumentDTO));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to list documents", details: err });
+  }
+});
+
+router.get("/:id", validate({ params: documentIdParamsSchema }), async (req, res) => {
+  try {
+    const doc = await findVisible(req, res);
+    if (doc) res.json(toDocumentDTO(doc));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to get document", details: err });
+  }
+});
+
+// the file itself, shown inline with the type detected at upload
+router.get("/:id/file", validate({ params: documentIdParamsSchema }), async (req, res) => {
+  try {
+    const doc = await findVisible(req, res);
+    if (!doc) return;
+    const stream = await getDocumentStore().get(doc.key);
+    res.set({
+      "Content-Type": doc.contentType,
+      "Content-Length": String(doc.size),
+      "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(doc.filename)}`,
+      "Cache-Control": "private, max-age=3600",
+      ETag: `"${doc.sha256}"`,
+      "X-Content-Type-Options": "nosniff",
+    });
+    stream.on("error", () => res.destroy());
+    stream.pipe(res);
+  } catch (err) {
+    res.status(500).json({ error: "Failed to read document", details: err });
+  }
+});
+
+// owner, uploader or admin
+router.delete("/:id", validate({ params: documentIdParamsSchema }), async (req, res) => {
+  try {
+    const doc = await findVisible(req, res);
+    if (!doc) return;
+    if (!canDeleteDocument(doc, req.driver!)) return res.status(403).json({ error: "Not allowed" });
+    await removeDocument(doc);
+    const body: DeleteDocumentResponse = { success: true };
+    res.json(body);
+  } catch (err) {
+    res.status(500).json({ error: "Failed to delete document", details: err });
+  }
+});
+
+export default router;
@@ -0,0 +1,118 @@
+import express from "express";
+import Driver from "../models/Driver";
+import DriverProfile from "../models/DriverProfile";
+import LearningContent from "../models/LearningContent";
+import LearningProgress from "../models/LearningProgress";
+import { requireAdmin, requireAuth, requireSelfOrAdmin } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import { driverLoads, driverQueue } from "../dispatch/dispatch";
+import { planDriverDay } from "../routing/planner";
+import { ApiError } from "../contracts/orderApi";
+import { toOrderDTO } from "../contracts/orderSchemas";
+import { ListDriversQuery, RouteQuery, UpdateDriverRequest } from "../contracts/driverApi";
+import {
+  driverIdParamsSchema,
+  listDriversQuerySchema,
+  routeQuerySchema,
+  toDriverDTO,
+  toOnboardingStatusDTO,
+  toRouteDTO,
+  updateDriverSchema,
+} from "../contracts/driverSchemas";
+import { toLearningReportDTO } from "../contracts/learningSchemas";
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+const notFound: ApiError = { error: "Driver not found" };
+
+// all drivers with their current load (admin)
+router.get("/", requireAdmin, validate({ query: listDriversQuerySchema }), async (req, res) => {
+  try {
+    const { availability } = req.query as ListDriversQuery;
+    const drivers = await Driver.find(availability ? { availability } : {}).sort({ name: 1 });
+    const loads = await driverLoads(drivers.map((d) => String(d._id)));
+    res.json(drivers.map((d) => toDriverDTO(d, loads.get(String(d._id)))));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to list drivers", details: err });
+  }
+});
+
+router.get("/:id", validate({ params: driverIdParamsSchema }), requireSelfOrAdmin("id"), async (req, res) => {
+  try {
+    const driver = await Driver.findById(req.params.id);
+    if (!driver) return res.status(404).json(notFound);
+    const loads = await driverLoads([req.params.id]);
+    res.json(toDriverDTO(driver, loads.get(req.params.id)));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to get driver", details: err });
+  }
+});
+
+// availability, vehicle, capacity and reply language
+router.patch("/:id", validate({ params: driverIdParamsSchema, body: updateDriverSchema }), requireSelfOrAdmin("id"), async (req, res) => {
+  try {
+    const driver = await Driver.findById(req.params.id);
+    if (!driver) return res.status(404).json(notFound);
+    const body = req.body as UpdateDriverRequest;
+    driver.set(body);
+    if (body.language && body.languageAuto === undefined) driver.languageAuto = false;
+    await driver.save();
+    const loads = await driverLoads([req.params.id]);
+    res.json(toDriverDTO(driver, loads.get(req.params.id)));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to update driver", details: err });
+  }
+});
+
+// accepted orders waiting for pickup, earliest first
+router.get("/:id/queue", validate({ params: driverIdParamsSchema }), requireSelfOrAdmin("id"), async (req, res) => {
+  try {
+    const orders = await driverQueue(req.params.id);
+    res.json(orders.map(toOrderDTO));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to get pickup queue", details: err });
+  }
+});
+
+// the day's pickups in driving order, with ETAs and pickup windows
+router.get("/:id/route", validate({ params: driverIdParamsSchema, query: routeQuerySchema }), requireSelfOrAdmin("id"), async (req, res) => {
+  try {
+    const { date, from } = req.query as RouteQuery;
+    // a past or future day is planned from its start; today from now
+    const day = date ? new Date(`${date}T00:00:00`) : new Date();
+    const [lat, lng] = from ? from.split(",").map(Number) : [];
+    const plan = await planDriverDay(req.params.id, day, from ? { lat, lng } : null);
+    res.json(toRouteDTO(plan));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to plan route", details: err });
+  }
+});
+
+// which onboarding (KYC) fields are filled in and which is asked next
+router.get("/:id/onboarding", validate({ params: driverIdParamsSchema }), requireSelfOrAdmin("id"), async (req, res) => {
+  try {
+    const driver = await Driver.findById(req.params.id);
+    if (!driver) return res.status(404).json(notFound);
+    const profile = await DriverProfile.findOne({ driverId: req.params.id });
+    res.json(toOnboardingStatusDTO(profile));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to get onboarding status", details: err });
+  }
+});
+
+// which learning modules and guides the driver has finished, with quiz scores and certificates
+router.get("/:id/learning", validate({ params: driverIdParamsSchema }), requireSelfOrAdmin("id"), async (req, res) => {
+  try {
+    const driver = await Driver.findById(req.params.id);
+    if (!driver) return res.status(404).json(notFound);
+    const contents = await LearningContent.find({ published: true }).sort({ kind: 1, slug: 1 });
+    const progress = await LearningProgress.find({ driverId: req.params.id, contentId: { $in: contents.map((c) => c._id) } });
+    res.json(toLearningReportDTO(req.params.id, contents, progress));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to get learning report", details: err });
+  }
+});
+
+export default router;
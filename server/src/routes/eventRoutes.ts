@@ -0,0 +1,54 @@
+import express from "express";
+import { requireAdmin, requireAuth } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import { broadcast, listenerCount, publish, subscribe } from "../realtime/hub";
+import { AlertDTO, RealtimeEvent, SendAlertRequest, StreamEvent } from "../contracts/eventApi";
+import { sendAlertSchema } from "../contracts/eventSchemas";
+import { describeEvent } from "../realtime/describe";
+import { DEFAULT_LANGUAGE, LANGUAGE_TAGS } from "../i18n/languages";
+import Driver from "../models/Driver";
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+const HEARTBEAT_MS = 25_000;
+
+// Server-sent events for the signed-in driver: reminders, order changes, alerts and their own
+// incidents. Admins also get every incident and SOS alert (the ops dashboard).
+router.get("/stream", (req, res) => {
+  res.set({ "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+  res.flushHeaders();
+  res.write(": connected\n\n");
+
+  // each event is worded in the language the driver has now; the chain keeps them in order
+  let sent = Promise.resolve();
+  const send = (event: RealtimeEvent) => {
+    sent = sent
+      .then(async () => {
+        const driver = await Driver.findById(req.driver!.id).select("language");
+        const language = driver?.language || DEFAULT_LANGUAGE;
+        const data: StreamEvent = { ...event, text: describeEvent(event, language), lang: LANGUAGE_TAGS[language] };
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+      })
+      .catch((err) => console.error("Event stream error:", err));
+  };
+  const unsubscribe = subscribe(req.driver!.id, send, req.driver!.role === "admin");
+  // comments keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// push a safety alert to one driver, or to everyone connected
+router.post("/alerts", requireAdmin, validate({ body: sendAlertSchema }), (req, res) => {
+  const { message, severity = "warning", driverId } = req.body as SendAlertRequest;
+  const alert: AlertDTO = { message, severity, at: new Date().toISOString() };
+  if (driverId) publish(driverId, { type: "alert", alert });
+  else broadcast({ type: "alert", alert });
+  res.json({ success: true, alert, delivered: driverId ? listenerCount(driverId) > 0 : undefined });
+});
+
+export default router;
@@ -0,0 +1,133 @@
+import express from "express";
+import IncentiveRule from "../models/IncentiveRule";
+import LedgerEntry from "../models/LedgerEntry";
+import { requireAdmin, requireAuth } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import { AppealError, raiseAppeal, resolveAppeal } from "../incentives/appeals";
+import { ApiError } from "../contracts/orderApi";
+import {
+  AppealRequest,
+  CreateIncentiveRuleRequest,
+  DeleteIncentiveRuleResponse,
+  ListIncentiveRecordsQuery,
+  ResolveAppealRequest,
+  UpdateIncentiveRuleRequest,
+} from "../contracts/incentiveApi";
+import {
+  appealSchema,
+  createIncentiveRuleSchema,
+  incentiveIdParamsSchema,
+  listIncentiveRecordsQuerySchema,
+  resolveAppealSchema,
+  thresholdProblem,
+  toIncentiveRecordDTO,
+  toIncentiveRuleDTO,
+  updateIncentiveRuleSchema,
+} from "../contracts/incentiveSchemas";
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+const ruleNotFound: ApiError = { error: "Rule not found" };
+const recordNotFound: ApiError = { error: "Record not found" };
+
+// --- Rules: everyone can read them (they explain penalties); only admins change them ---
+
+router.get("/rules", async (req, res) => {
+  try {
+    const rules = await IncentiveRule.find().sort({ type: 1, createdAt: 1 });
+    res.json(rules.map(toIncentiveRuleDTO));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to list rules", details: err });
+  }
+});
+
+router.post("/rules", requireAdmin, validate({ body: createIncentiveRuleSchema }), async (req, res) => {
+  try {
+    const rule = await IncentiveRule.create({ ...(req.body as CreateIncentiveRuleRequest), createdBy: req.driver!.id });
+    res.status(201).json(toIncentiveRuleDTO(rule));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to create rule", details: err });
+  }
+});
+
+router.put("/rules/:id", requireAdmin, validate({ params: incentiveIdParamsSchema, body: updateIncentiveRuleSchema }), async (req, res) => {
+  try {
+    const rule = await IncentiveRule.findById(req.params.id);
+    if (!rule) return res.status(404).json(ruleNotFound);
+    rule.set(req.body as UpdateIncentiveRuleRequest);
+    const problem = thresholdProblem(rule.kind, rule.threshold);
+    if (problem) {
+      const body: ApiError = { error: "Invalid request", details: [{ path: "body.threshold", message: problem }] };
+      return res.status(400).json(body);
+    }
+    await rule.save();
+    res.json(toIncentiveRuleDTO(rule));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to update rule", details: err });
+  }
+});
+
+// entries the rule already booked stay in the ledger
+router.delete("/rules/:id", requireAdmin, validate({ params: incentiveIdParamsSchema }), async (req, res) => {
+  try {
+    const rule = await IncentiveRule.findByIdAndDelete(req.params.id);
+    if (!rule) return res.status(404).json(ruleNotFound);
+    const body: DeleteIncentiveRuleResponse = { success: true };
+    res.json(body);
+  } catch (err) {
+    res.status(500).json({ error: "Failed to delete rule", details: err });
+  }
+});
+
+// --- Records: penalties and rewards in the ledger, with their appeals ---
+
+// newest first; drivers only see their own
+router.get("/records", validate({ query: listIncentiveRecordsQuerySchema }), async (req, res) => {
+  try {
+    const { driverId, type, appeal, limit = 50 } = req.query as ListIncentiveRecordsQuery;
+    const filter: any = { type: type ?? { $in: ["penalty", "reward"] } };
+    if (req.driver!.role !== "admin") filter.driverId = req.driver!.id;
+    else if (driverId) filter.driverId = driverId;
+    if (appeal) filter["appeal.status"] = appeal === "none" ? null : appeal;
+    const entries = await LedgerEntry.find(filter).sort({ occurredAt: -1 }).limit(limit);
+    res.json(entries.map(toIncentiveRecordDTO));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to list records", details: err });
+  }
+});
+
+// the driver contests one of their penalties
+router.post("/records/:id/appeal", validate({ params: incentiveIdParamsSchema, body: appealSchema }), async (req, res) => {
+  try {
+    const entry = await LedgerEntry.findOne({ _id: req.params.id, type: { $in: ["penalty", "reward"] } });
+    if (!entry || (entry.driverId !== req.driver!.id && req.driver!.role !== "admin")) return res.status(404).json(recordNotFound);
+    await raiseAppeal(entry, req.driver!, (req.body as AppealRequest).reason);
+    res.json(toIncentiveRecordDTO(entry));
+  } catch (err) {
+    if (err instanceof AppealError) return res.status(409).json({ error: err.message });
+    res.status(500).json({ error: "Failed to appeal", details: err });
+  }
+});
+
+// accepting an appeal takes the penalty out of the driver's earnings; either way they are told
+router.post(
+  "/records/:id/appeal/resolve",
+  requireAdmin,
+  validate({ params: incentiveIdParamsSchema, body: resolveAppealSchema }),
+  async (req, res) => {
+    try {
+      const entry = await LedgerEntry.findOne({ _id: req.params.id, type: { $in: ["penalty", "reward"] } });
+      if (!entry) return res.status(404).json(recordNotFound);
+      const { decision, note } = req.body as ResolveAppealRequest;
+      await resolveAppeal(entry, req.driver!, decision, note);
+      res.json(toIncentiveRecordDTO(entry));
+    } catch (err) {
+      if (err instanceof AppealError) return res.status(409).json({ error: err.message });
+      res.status(500).json({ error: "Failed to resolve appeal", details: err });
+    }
+  }
+);
+
+export default router;
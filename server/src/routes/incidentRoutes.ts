@@ -0,0 +1,118 @@
+import express from "express";
+import { FilterQuery } from "mongoose";
+import Incident, { IIncident } from "../models/Incident";
+import { requireAdmin, requireAuth } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import {
+  IncidentStateError,
+  acknowledgeIncident,
+  cancelIncident,
+  confirmIncident,
+  incidentScope,
+  raiseIncident,
+  resolveIncident,
+} from "../incidents/incidents";
+import { ApiError } from "../contracts/orderApi";
+import { CancelIncidentRequest, ListIncidentsQuery, RaiseIncidentRequest, ResolveIncidentRequest } from "../contracts/incidentApi";
+import {
+  cancelIncidentSchema,
+  incidentIdParamsSchema,
+  listIncidentsQuerySchema,
+  raiseIncidentSchema,
+  resolveIncidentSchema,
+  toIncidentDTO,
+} from "../contracts/incidentSchemas";
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+const notFound: ApiError = { error: "Incident not found" };
+
+// Look up the caller's incident, run `action` on it and answer with the result; state
+// conflicts (e.g. acknowledging a withdrawn incident) are 409
+function incidentAction(failure: string, action: (incident: IIncident, req: express.Request) => Promise<IIncident>) {
+  return async (req: express.Request, res: express.Response) => {
+    try {
+      const incident = await Incident.findOne({ _id: req.params.id, ...incidentScope(req.driver!) });
+      if (!incident) return res.status(404).json(notFound);
+      res.json(toIncidentDTO(await action(incident, req)));
+    } catch (err) {
+      if (err instanceof IncidentStateError) return res.status(409).json({ error: err.message, status: err.status });
+      res.status(500).json({ error: failure, details: err });
+    }
+  };
+}
+
+// list the caller's incidents (all of them for admins), newest first
+router.get("/", validate({ query: listIncidentsQuerySchema }), async (req, res) => {
+  try {
+    const { status, limit = 20 } = req.query as ListIncidentsQuery;
+    const filter: FilterQuery<IIncident> = incidentScope(req.driver!);
+    if (status) filter.status = status;
+    const incidents = await Incident.find(filter).sort({ createdAt: -1 }).limit(limit);
+    res.json(incidents.map(toIncidentDTO));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to list incidents", details: err });
+  }
+});
+
+// the SOS button; waits for confirmation unless `confirmed` is set
+router.post("/", validate({ body: raiseIncidentSchema }), async (req, res) => {
+  try {
+    const body = req.body as RaiseIncidentRequest;
+    const incident = await raiseIncident({
+      driver: req.driver!,
+      location: body.location,
+      transcript: body.message ? [{ role: "user", content: body.message }] : [],
+      confirmed: body.confirmed,
+      triggeredVia: "api",
+    });
+    res.json(toIncidentDTO(incident));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to raise incident", details: err });
+  }
+});
+
+router.get("/:id", validate({ params: incidentIdParamsSchema }), async (req, res) => {
+  try {
+    const incident = await Incident.findOne({ _id: req.params.id, ...incidentScope(req.driver!) });
+    if (!incident) return res.status(404).json(notFound);
+    res.json(toIncidentDTO(incident));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to get incident", details: err });
+  }
+});
+
+// the driver confirms they need help; alerts go out at once
+router.post(
+  "/:id/confirm",
+  validate({ params: incidentIdParamsSchema }),
+  incidentAction("Failed to confirm incident", (incident) => confirmIncident(incident))
+);
+
+// withdraw a false trigger (driver) or close a duplicate (admin)
+router.post(
+  "/:id/cancel",
+  validate({ params: incidentIdParamsSchema, body: cancelIncidentSchema }),
+  incidentAction("Failed to cancel incident", (incident, req) => cancelIncident(incident, req.driver!, (req.body as CancelIncidentRequest).reason))
+);
+
+// ops have taken the incident; escalation stops
+router.post(
+  "/:id/acknowledge",
+  requireAdmin,
+  validate({ params: incidentIdParamsSchema }),
+  incidentAction("Failed to acknowledge incident", (incident, req) => acknowledgeIncident(incident, req.driver!))
+);
+
+router.post(
+  "/:id/resolve",
+  requireAdmin,
+  validate({ params: incidentIdParamsSchema, body: resolveIncidentSchema }),
+  incidentAction("Failed to resolve incident", (incident, req) =>
+    resolveIncident(incident, req.driver!, (req.body as ResolveIncidentRequest).resolution)
+  )
+);
+
+export default router;
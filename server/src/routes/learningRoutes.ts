@@ -0,0 +1,115 @@
+import express from "express";
+import LearningContent, { ILearningContent } from "../models/LearningContent";
+import LearningProgress from "../models/LearningProgress";
+import { requireAdmin, requireAuth } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import { loadLearningCatalogue } from "../learning/learning";
+import { ApiError } from "../contracts/orderApi";
+import {
+  CreateLearningContentRequest,
+  DeleteLearningContentResponse,
+  ListLearningQuery,
+  UpdateLearningContentRequest,
+} from "../contracts/learningApi";
+import {
+  createLearningContentSchema,
+  learningIdParamsSchema,
+  listLearningQuerySchema,
+  toLearningContentDTO,
+  updateLearningContentSchema,
+} from "../contracts/learningSchemas";
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+const notFound: ApiError = { error: "Learning content not found" };
+
+const duplicateSlug = (err: any) => err?.code === 11000;
+
+// Content the caller may see (drivers only see published content), or a 404 already sent
+async function findVisible(req: express.Request, res: express.Response): Promise<ILearningContent | null> {
+  const content = await LearningContent.findById(req.params.id);
+  if (!content || (!content.published && req.driver!.role !== "admin")) {
+    res.status(404).json(notFound);
+    return null;
+  }
+  return content;
+}
+
+// the catalogue with the caller's progress through each entry
+router.get("/", validate({ query: listLearningQuerySchema }), async (req, res) => {
+  try {
+    const { kind, published } = req.query as ListLearningQuery;
+    const filter: any = {};
+    if (kind) filter.kind = kind;
+    if (req.driver!.role !== "admin") filter.published = true;
+    else if (published !== undefined) filter.published = published;
+    const contents = await LearningContent.find(filter).sort({ kind: 1, slug: 1 });
+    const progress = await LearningProgress.find({ driverId: req.driver!.id, contentId: { $in: contents.map((c) => c._id) } });
+    const byContent = new Map(progress.map((p) => [String(p.contentId), p]));
+    res.json(contents.map((c) => toLearningContentDTO(c, byContent.get(String(c._id)))));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to list learning content", details: err });
+  }
+});
+
+router.get("/:id", validate({ params: learningIdParamsSchema }), async (req, res) => {
+  try {
+    const content = await findVisible(req, res);
+    if (!content) return;
+    const progress = await LearningProgress.findOne({ driverId: req.driver!.id, contentId: content._id });
+    res.json(toLearningContentDTO(content, progress));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to get learning content", details: err });
+  }
+});
+
+// --- Admin: manage the catalogue. Voice matching picks up changes at once. ---
+
+router.post("/", requireAdmin, validate({ body: createLearningContentSchema }), async (req, res) => {
+  try {
+    const body = req.body as CreateLearningContentRequest;
+    const content = await LearningContent.create({ ...body, createdBy: req.driver!.id });
+    await loadLearningCatalogue();
+    res.status(201).json(toLearningContentDTO(content));
+  } catch (err) {
+    if (duplicateSlug(err)) return res.status(409).json({ error: `Slug "${req.body.slug}" is already used` });
+    res.status(500).json({ error: "Failed to create learning content", details: err });
+  }
+});
+
+router.put(
+  "/:id",
+  requireAdmin,
+  validate({ params: learningIdParamsSchema, body: updateLearningContentSchema }),
+  async (req, res) => {
+    try {
+      const content = await LearningContent.findById(req.params.id);
+      if (!content) return res.status(404).json(notFound);
+      content.set(req.body as UpdateLearningContentRequest);
+      await content.save();
+      await loadLearningCatalogue();
+      res.json(toLearningContentDTO(content));
+    } catch (err) {
+      if (duplicateSlug(err)) return res.status(409).json({ error: `Slug "${req.body.slug}" is already used` });
+      res.status(500).json({ error: "Failed to update learning content", details: err });
+    }
+  }
+);
+
+// removes the drivers' progress through it as well
+router.delete("/:id", requireAdmin, validate({ params: learningIdParamsSchema }), async (req, res) => {
+  try {
+    const content = await LearningContent.findByIdAndDelete(req.params.id);
+    if (!content) return res.status(404).json(notFound);
+    await LearningProgress.deleteMany({ contentId: content._id });
+    await loadLearningCatalogue();
+    const body: DeleteLearningContentResponse = { success: true };
+    res.json(body);
+  } catch (err) {
+    res.status(500).json({ error: "Failed to delete learning content", details: err });
+  }
+});
+
+export default router;
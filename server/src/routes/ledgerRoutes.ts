@@ -0,0 +1,76 @@
+import express from "express";
+import LedgerEntry from "../models/LedgerEntry";
+import Order, { orderScope } from "../models/Order";
+import { getEarningsReport, periodRange, recordEntry } from "../ledger/earnings";
+import { learningBadges } from "../learning/learning";
+import { requireAuth, requireSelfOrAdmin } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import { ApiError } from "../contracts/orderApi";
+import { EarningsSummaryQuery, ListLedgerEntriesQuery, RecordLedgerEntryRequest } from "../contracts/ledgerApi";
+import { earningsSummaryQuerySchema, listLedgerEntriesQuerySchema, recordLedgerEntrySchema } from "../contracts/ledgerSchemas";
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+// Entry types a driver may record for themselves; the rest are admin-only
+const SELF_SERVICE_TYPES = ["fuel", "toll"];
+
+// add an entry (fuel, toll, payout, manual penalty or reward), optionally tied to an order
+router.post("/", validate({ body: recordLedgerEntrySchema }), async (req, res) => {
+  try {
+    const { type, amount, trackingId, reason, occurredAt, ...body } = req.body as RecordLedgerEntryRequest;
+    const isAdmin = req.driver!.role === "admin";
+    const driverId = isAdmin ? body.driverId : req.driver!.id;
+    if (!driverId) {
+      const invalid: ApiError = { error: "Invalid request", details: [{ path: "body.driverId", message: "Required" }] };
+      return res.status(400).json(invalid);
+    }
+    if (!isAdmin && !SELF_SERVICE_TYPES.includes(type)) {
+      return res.status(403).json({ error: `Drivers can only record ${SELF_SERVICE_TYPES.join(" and ")} entries` });
+    }
+    const order = trackingId ? await Order.findOne({ trackingId, ...orderScope(req.driver!) }) : null;
+    if (trackingId && !order) return res.status(404).json({ error: "Order not found" });
+    const entry = await recordEntry({
+      driverId,
+      type,
+      amount,
+      order,
+      reason,
+      occurredAt: occurredAt ? new Date(occurredAt) : undefined,
+    });
+    res.json(entry);
+  } catch (err) {
+    res.status(500).json({ error: "Failed to record ledger entry", details: err });
+  }
+});
+
+// daily / weekly / monthly aggregates for a driver (defaults to the current period), with the
+// badges earned from learning modules; their rewards are already in the buckets
+router.get("/:driverId/summary", requireSelfOrAdmin("driverId"), validate({ query: earningsSummaryQuerySchema }), async (req, res) => {
+  try {
+    const { period = "daily", ...query } = req.query as EarningsSummaryQuery;
+    const range = periodRange(period);
+    const from = query.from ? new Date(query.from) : range.from;
+    const to = query.to ? new Date(query.to) : range.to;
+    const [buckets, badges] = await Promise.all([getEarningsReport(req.params.driverId, period, from, to), learningBadges(req.params.driverId)]);
+    res.json({ driverId: req.params.driverId, period, from, to, buckets, badges });
+  } catch (err) {
+    res.status(500).json({ error: "Failed to build earnings summary", details: err });
+  }
+});
+
+// raw entries for a driver, newest first
+router.get("/:driverId", requireSelfOrAdmin("driverId"), validate({ query: listLedgerEntriesQuerySchema }), async (req, res) => {
+  try {
+    const { type, limit = 50 } = req.query as ListLedgerEntriesQuery;
+    const filter: any = { driverId: req.params.driverId };
+    if (type) filter.type = type;
+    const entries = await LedgerEntry.find(filter).sort({ occurredAt: -1 }).limit(limit);
+    res.json(entries);
+  } catch (err) {
+    res.status(500).json({ error: "Failed to list ledger entries", details: err });
+  }
+});
+
+export default router;
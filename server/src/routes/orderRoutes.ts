@@ -1,52 +1,278 @@
 import express from "express";
-import Order from "../models/Order";
+import { FilterQuery } from "mongoose";
+import Order, { IOrder, InvalidStatusTransitionError, ORDER_STATUSES, OrderStatus, normalizeStatus, orderScope, transitionOrder } from "../models/Order";
+import { requireAdmin, requireAuth } from "../middleware/auth";
+import { DispatchError, acceptOrder, assignOrder, autoAssign, rejectOrder, resolveDriverRef } from "../dispatch/dispatch";
+import { validate } from "../middleware/validate";
+import { InvalidAddressError, requireAddress } from "../geo/address";
+import { InvalidCursorError, OrderSortField, searchOrders } from "../orders/search";
+import { makeTrackingId } from "../tools/orderTools";
+import {
+  ApiError,
+  CreateOrderRequest,
+  DeleteOrderResponse,
+  ListOrdersQuery,
+  OrderDTO,
+  OrderPage,
+  RateOrderRequest,
+  RejectOrderResponse,
+  SearchOrdersQuery,
+  UpdateOrderRequest,
+} from "../contracts/orderApi";
+import {
+  createOrderSchema,
+  listOrdersQuerySchema,
+  orderIdParamsSchema,
+  rateOrderSchema,
+  searchOrdersQuerySchema,
+  toOrderDTO,
+  updateOrderSchema,
+} from "../contracts/orderSchemas";
 
 const router = express.Router();
 
+// every order route needs a signed-in driver; queries only see that driver's orders
+router.use(requireAuth);
+
+const notFound: ApiError = { error: "Order not found" };
+
+const invalidAddress = (err: InvalidAddressError): ApiError => ({
+  error: "Invalid request",
+  details: [{ path: "body.address", message: err.message }],
+  missing: err.missing,
+});
+
+// The fare and expenses an order books to the ledger on delivery; drivers may only enter fuel
+// and tolls themselves (see ledgerRoutes), so only admins set these
+const ADMIN_ONLY_FIELDS = ["amount", "expenses"] as const;
+
+function adminOnlyFields(req: express.Request, res: express.Response): boolean {
+  const given = ADMIN_ONLY_FIELDS.filter((f) => req.body[f] !== undefined);
+  if (!given.length || req.driver!.role === "admin") return false;
+  res.status(403).json({ error: `Only admins can set an order's ${given.join(" and ")}` });
+  return true;
+}
+
 // create (already had)
-router.post("/create", async (req, res) => {
+router.post("/create", validate({ body: createOrderSchema }), async (req, res) => {
   try {
-    const order = new Order(req.body);
+    if (adminOnlyFields(req, res)) return;
+    const { address, assignedTo, ...body } = req.body as CreateOrderRequest;
+    // a name or id, resolved and offered like an assignment through /modify
+    const driverId = assignedTo ? await resolveDriverRef(assignedTo) : null;
+    const order = new Order({
+      ...body,
+      address: address ? requireAddress(address) : null,
+      pickupTime: body.pickupTime ? new Date(body.pickupTime) : null,
+      status: "created",
+      trackingId: makeTrackingId(),
+      metadata: { createdBy: req.driver!.id, createdVia: "api" },
+    });
+    if (driverId) assignOrder(order, driverId, req.driver!.id);
     await order.save();
-    res.json(order);
+    const dto: OrderDTO = toOrderDTO(order);
+    res.json(dto);
   } catch (err) {
+    if (err instanceof InvalidAddressError) return res.status(400).json(invalidAddress(err));
+    if (err instanceof DispatchError) {
+      const body: ApiError = { error: "Invalid request", details: [{ path: "body.assignedTo", message: err.message }] };
+      return res.status(400).json(body);
+    }
     res.status(500).json({ error: "Failed to create order", details: err });
   }
 });
 
-// update (already had)
-router.put("/modify/:id", async (req, res) => {
-  const order = await Order.findByIdAndUpdate(req.params.id, req.body, { new: true });
-  res.json(order);
-});
-
-// get by id
-router.get("/:id", async (req, res) => {
-  const order = await Order.findById(req.params.id);
-  res.json(order);
+// update (already had); status changes must follow the lifecycle in models/Order
+router.put("/modify/:id", validate({ params: orderIdParamsSchema, body: updateOrderSchema }), async (req, res) => {
+  try {
+    if (adminOnlyFields(req, res)) return;
+    const { status, pickupTime, assignedTo, address, ...updates } = req.body as UpdateOrderRequest;
+    const order = await Order.findOne({ _id: req.params.id, ...orderScope(req.driver!) });
+    if (!order) return res.status(404).json(notFound);
+    order.set(updates);
+    if (address !== undefined) order.address = requireAddress(address);
+    if (pickupTime !== undefined) order.pickupTime = pickupTime ? new Date(pickupTime) : null;
+    if (assignedTo === null) {
+      order.assignedTo = undefined;
+      order.dispatch.state = null;
+    } else if (assignedTo !== undefined) {
+      assignOrder(order, await resolveDriverRef(assignedTo), req.driver!.id);
+    }
+    if (status !== undefined) {
+      const next = normalizeStatus(status);
+      if (!next) {
+        const body: ApiError = { error: `Unknown status "${status}"`, allowed: [...ORDER_STATUSES] };
+        return res.status(400).json(body);
+      }
+      transitionOrder(order, next, req.driver!.id, "api");
+    }
+    await order.save();
+    res.json(toOrderDTO(order));
+  } catch (err) {
+    if (err instanceof InvalidStatusTransitionError) {
+      return res.status(409).json({ error: err.message, from: err.from, to: err.to, allowed: err.allowed });
+    }
+    if (err instanceof DispatchError) {
+      const body: ApiError = { error: "Invalid request", details: [{ path: "body.assignedTo", message: err.message }] };
+      return res.status(400).json(body);
+    }
+    if (err instanceof InvalidAddressError) return res.status(400).json(invalidAddress(err));
+    res.status(500).json({ error: "Failed to update order", details: err });
+  }
 });
 
-// delete
-router.delete("/:id", async (req, res) => {
-  await Order.findByIdAndDelete(req.params.id);
-  res.json({ success: true });
-});
+// Static paths must be registered before "/:id", otherwise "/list" is routed as an id
 
 // list orders (recent, optionally by customer name or assignedTo)
-router.get("/list", async (req, res) => {
-  const { customerName, assignedTo, limit = 10 } = req.query;
-  const filter: any = {};
-  if (customerName) filter.customerName = String(customerName);
-  if (assignedTo) filter.assignedTo = String(assignedTo);
-  const orders = await Order.find(filter).sort({ createdAt: -1 }).limit(Number(limit));
-  res.json(orders);
+router.get("/list", validate({ query: listOrdersQuerySchema }), async (req, res) => {
+  try {
+    const { customerName, assignedTo, limit = 10 } = req.query as ListOrdersQuery;
+    const filter: FilterQuery<IOrder> = orderScope(req.driver!);
+    if (customerName) filter.customerName = customerName;
+    if (assignedTo) filter.assignedTo = assignedTo;
+    const orders = await Order.find(filter).sort({ createdAt: -1 }).limit(limit);
+    res.json(orders.map(toOrderDTO));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to list orders", details: err });
+  }
 });
 
 // track by trackingId
 router.get("/track/:trackingId", async (req, res) => {
-  const order = await Order.findOne({ trackingId: req.params.trackingId });
-  if (!order) return res.status(404).json({ error: "Order not found" });
-  res.json(order);
+  try {
+    const order = await Order.findOne({ trackingId: req.params.trackingId, ...orderScope(req.driver!) });
+    if (!order) return res.status(404).json(notFound);
+    res.json(toOrderDTO(order));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to track order", details: err });
+  }
+});
+
+// search with filters, sorting and cursor pagination
+router.get("/search", validate({ query: searchOrdersQuerySchema }), async (req, res) => {
+  try {
+    const q = req.query as SearchOrdersQuery;
+    const sort = q.sort || "-createdAt";
+    const toDate = (v?: string) => (v ? new Date(v) : undefined);
+    const { items, nextCursor } = await searchOrders(
+      req.driver!,
+      {
+        status: q.status?.split(",").map((s) => s.trim() as OrderStatus),
+        createdFrom: toDate(q.createdFrom),
+        createdTo: toDate(q.createdTo),
+        pickupFrom: toDate(q.pickupFrom),
+        pickupTo: toDate(q.pickupTo),
+        item: q.item,
+        address: q.address,
+        customerName: q.customerName,
+        assignedTo: q.assignedTo,
+      },
+      {
+        sortBy: sort.replace(/^-/, "") as OrderSortField,
+        sortDir: sort.startsWith("-") ? "desc" : "asc",
+        limit: q.limit,
+        cursor: q.cursor,
+      }
+    );
+    const page: OrderPage = { items: items.map(toOrderDTO), nextCursor };
+    res.json(page);
+  } catch (err) {
+    if (err instanceof InvalidCursorError) {
+      const body: ApiError = { error: "Invalid request", details: [{ path: "query.cursor", message: err.message }] };
+      return res.status(400).json(body);
+    }
+    res.status(500).json({ error: "Failed to search orders", details: err });
+  }
+});
+
+// the assignee accepts an offered order
+router.post("/:id/accept", validate({ params: orderIdParamsSchema }), async (req, res) => {
+  try {
+    const order = await Order.findOne({ _id: req.params.id, ...orderScope(req.driver!) });
+    if (!order) return res.status(404).json(notFound);
+    await acceptOrder(order, req.driver!);
+    res.json(toOrderDTO(order));
+  } catch (err) {
+    if (err instanceof DispatchError) return res.status(409).json({ error: err.message });
+    res.status(500).json({ error: "Failed to accept order", details: err });
+  }
+});
+
+// the assignee turns an offer down; it is offered to the next best driver
+router.post("/:id/reject", validate({ params: orderIdParamsSchema }), async (req, res) => {
+  try {
+    const order = await Order.findOne({ _id: req.params.id, ...orderScope(req.driver!) });
+    if (!order) return res.status(404).json(notFound);
+    const next = await rejectOrder(order, req.driver!);
+    const body: RejectOrderResponse = { order: toOrderDTO(order), reassigned: !!next };
+    res.json(body);
+  } catch (err) {
+    if (err instanceof DispatchError) return res.status(409).json({ error: err.message });
+    res.status(500).json({ error: "Failed to reject order", details: err });
+  }
+});
+
+// rate a delivered order once; the driver who delivered it cannot rate it (admins can, for
+// ratings collected elsewhere). Rating rules in incentives/rules apply to it.
+router.post("/:id/rating", validate({ params: orderIdParamsSchema, body: rateOrderSchema }), async (req, res) => {
+  try {
+    const order = await Order.findOne({ _id: req.params.id, ...orderScope(req.driver!) });
+    if (!order) return res.status(404).json(notFound);
+    const driver = req.driver!;
+    if (driver.role !== "admin" && (order.metadata?.createdBy !== driver.id || order.assignedTo === driver.id)) {
+      return res.status(403).json({ error: "Not allowed" });
+    }
+    if (order.status !== "delivered") return res.status(409).json({ error: "Only delivered orders can be rated" });
+    if (order.rating != null) return res.status(409).json({ error: "Order is already rated" });
+    order.rating = (req.body as RateOrderRequest).rating;
+    order.ratedAt = new Date();
+    await order.save();
+    res.json(toOrderDTO(order));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to rate order", details: err });
+  }
+});
+
+// re-run automatic assignment for an unassigned order (admin)
+router.post("/:id/dispatch", requireAdmin, validate({ params: orderIdParamsSchema }), async (req, res) => {
+  try {
+    const order = await Order.findById(req.params.id);
+    if (!order) return res.status(404).json(notFound);
+    if (order.assignedTo) return res.status(409).json({ error: "Order is already assigned" });
+    const driver = await autoAssign(order);
+    if (!driver) return res.status(409).json({ error: "No available driver has room for this order" });
+    res.json(toOrderDTO(order));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to dispatch order", details: err });
+  }
+});
+
+// get by id
+router.get("/:id", validate({ params: orderIdParamsSchema }), async (req, res) => {
+  try {
+    const order = await Order.findOne({ _id: req.params.id, ...orderScope(req.driver!) });
+    if (!order) return res.status(404).json(notFound);
+    res.json(toOrderDTO(order));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to get order", details: err });
+  }
+});
+
+// hard delete: admins, or the creator while nobody has started on it; everyone else cancels
+router.delete("/:id", validate({ params: orderIdParamsSchema }), async (req, res) => {
+  try {
+    const order = await Order.findOne({ _id: req.params.id, ...orderScope(req.driver!) });
+    if (!order) return res.status(404).json(notFound);
+    const ownNew = order.metadata?.createdBy === req.driver!.id && order.status === "created";
+    if (req.driver!.role !== "admin" && !ownNew) {
+      return res.status(403).json({ error: "Only admins can delete an order once it is under way; cancel it instead" });
+    }
+    await order.deleteOne();
+    const body: DeleteOrderResponse = { success: true };
+    res.json(body);
+  } catch (err) {
+    res.status(500).json({ error: "Failed to delete order", details: err });
+  }
 });
 
 export default router;
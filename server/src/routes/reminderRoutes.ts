@@ -0,0 +1,106 @@
+import express from "express";
+import Reminder from "../models/Reminder";
+import Order, { orderScope } from "../models/Order";
+import { requireAuth } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import { ReminderTimeError, createReminder, reminderScope } from "../reminders/reminders";
+import { parseSpokenTime } from "../utils/time";
+import { ApiError } from "../contracts/orderApi";
+import { CreateReminderRequest, ListRemindersQuery, UpdateReminderRequest } from "../contracts/reminderApi";
+import {
+  createReminderSchema,
+  listRemindersQuerySchema,
+  reminderIdParamsSchema,
+  toReminderDTO,
+  updateReminderSchema,
+} from "../contracts/reminderSchemas";
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+const notFound: ApiError = { error: "Reminder not found" };
+
+// ISO date wins over a spoken phrase; undefined when neither was sent, null when the phrase is not a time
+function requestedTime(body: { dueAt?: string; when?: string }): Date | null | undefined {
+  if (body.dueAt) return new Date(body.dueAt);
+  if (body.when) return parseSpokenTime(body.when);
+  return undefined;
+}
+
+const unknownTime = (when?: string): ApiError => ({
+  error: "Invalid request",
+  details: [{ path: "body.when", message: `could not understand the time "${when}"` }],
+});
+
+// list the caller's reminders, soonest first
+router.get("/", validate({ query: listRemindersQuerySchema }), async (req, res) => {
+  try {
+    const { status, limit = 50 } = req.query as ListRemindersQuery;
+    const filter: any = reminderScope(req.driver!);
+    if (status) filter.status = status;
+    const reminders = await Reminder.find(filter).sort({ dueAt: 1 }).limit(limit);
+    res.json(reminders.map(toReminderDTO));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to list reminders", details: err });
+  }
+});
+
+// create; a trackingId without a time follows that order's pickupTime
+router.post("/", validate({ body: createReminderSchema }), async (req, res) => {
+  try {
+    const body = req.body as CreateReminderRequest;
+    const dueAt = requestedTime(body);
+    if (dueAt === null) return res.status(400).json(unknownTime(body.when));
+    const order = body.trackingId ? await Order.findOne({ trackingId: body.trackingId, ...orderScope(req.driver!) }) : null;
+    if (body.trackingId && !order) return res.status(404).json({ error: "Order not found" });
+    const reminder = await createReminder({
+      driverId: req.driver!.id,
+      text: body.text,
+      dueAt,
+      order,
+      leadMinutes: body.leadMinutes,
+      createdVia: "api",
+    });
+    res.json(toReminderDTO(reminder));
+  } catch (err) {
+    if (err instanceof ReminderTimeError) return res.status(400).json({ error: err.message });
+    res.status(500).json({ error: "Failed to create reminder", details: err });
+  }
+});
+
+// change text or time, or cancel; only pending reminders can change
+router.put("/:id", validate({ params: reminderIdParamsSchema, body: updateReminderSchema }), async (req, res) => {
+  try {
+    const body = req.body as UpdateReminderRequest;
+    const reminder = await Reminder.findOne({ _id: req.params.id, ...reminderScope(req.driver!) });
+    if (!reminder) return res.status(404).json(notFound);
+    if (reminder.status !== "pending") {
+      return res.status(409).json({ error: `Reminder is already ${reminder.status}` });
+    }
+    const dueAt = requestedTime(body);
+    if (dueAt === null) return res.status(400).json(unknownTime(body.when));
+    if (body.text) reminder.text = body.text;
+    if (dueAt) {
+      reminder.dueAt = dueAt;
+      reminder.leadMinutes = null; // an explicit time no longer follows the pickup
+    }
+    if (body.status) reminder.status = body.status;
+    await reminder.save();
+    res.json(toReminderDTO(reminder));
+  } catch (err) {
+    res.status(500).json({ error: "Failed to update reminder", details: err });
+  }
+});
+
+router.delete("/:id", validate({ params: reminderIdParamsSchema }), async (req, res) => {
+  try {
+    const reminder = await Reminder.findOneAndDelete({ _id: req.params.id, ...reminderScope(req.driver!) });
+    if (!reminder) return res.status(404).json(notFound);
+    res.json({ success: true });
+  } catch (err) {
+    res.status(500).json({ error: "Failed to delete reminder", details: err });
+  }
+});
+
+export default router;
@@ -0,0 +1,139 @@
+// server/src/routing/planner.ts
+// Orders a driver's pickups into a route: nearest stop first, unless another stop's pickup
+// window would be missed, then improved with 2-opt while no window gets worse.
+import Order, { IOrder } from "../models/Order";
+import { periodRange } from "../ledger/earnings";
+import { GeoPoint, haversineKm } from "../geo/geocoder";
+
+const SPEED_KMH = Number(process.env.ROUTE_SPEED_KMH || 20); // city average incl. traffic
+const SERVICE_MINUTES = 10; // time spent at each pickup
+const WINDOW_MINUTES = 30; // a pickup may happen this long before or after pickupTime
+const LATE_WEIGHT = 4; // a late minute costs as much as four minutes of driving
+
+const MINUTE = 60_000;
+
+export interface PlannedStop {
+  order: IOrder;
+  sequence: number; // 1-based
+  legKm: number; // from the previous stop (or the start)
+  eta: Date; // when the pickup starts, after any wait for the window to open
+  window: { from: Date; to: Date } | null;
+  lateMinutes: number;
+}
+
+export interface RoutePlan {
+  stops: PlannedStop[];
+  unlocated: IOrder[]; // orders whose address could not be located, in pickup order
+  totalKm: number;
+  lateStops: number;
+}
+
+export interface RouteOptions {
+  start?: GeoPoint | null; // defaults to the first stop
+  startAt?: Date;
+}
+
+const located = (o: IOrder) => o.address!.geo as GeoPoint;
+
+function pickupWindow(order: IOrder) {
+  if (!order.pickupTime) return null;
+  const at = order.pickupTime.getTime();
+  return { from: new Date(at - WINDOW_MINUTES * MINUTE), to: new Date(at + WINDOW_MINUTES * MINUTE) };
+}
+
+function travelMs(km: number) {
+  return (km / SPEED_KMH) * 60 * MINUTE;
+}
+
+// Drive the sequence and work out legs, ETAs and lateness
+function simulate(sequence: IOrder[], start: GeoPoint, startAt: Date) {
+  let at = start;
+  let clock = startAt.getTime();
+  let totalKm = 0;
+  let lateMs = 0;
+  const stops = sequence.map((order, i): PlannedStop => {
+    const legKm = haversineKm(at, located(order));
+    const window = pickupWindow(order);
+    const arrive = clock + travelMs(legKm);
+    const begin = window ? Math.max(arrive, window.from.getTime()) : arrive;
+    const late = window ? Math.max(0, begin - window.to.getTime()) : 0;
+    totalKm += legKm;
+    lateMs += late;
+    clock = begin + SERVICE_MINUTES * MINUTE;
+    at = located(order);
+    return { order, sequence: i + 1, legKm, eta: new Date(begin), window, lateMinutes: Math.round(late / MINUTE) };
+  });
+  return { stops, totalKm, lateMs };
+}
+
+// Greedy first pass: the cheapest next stop counting driving, waiting and lateness
+function nearestFeasible(orders: IOrder[], start: GeoPoint, startAt: Date) {
+  const remaining = [...orders];
+  const sequence: IOrder[] = [];
+  let at = start;
+  let clock = startAt.getTime();
+  while (remaining.length) {
+    let best = 0;
+    let bestCost = Infinity;
+    let bestEnd = clock;
+    remaining.forEach((order, i) => {
+      const window = pickupWindow(order);
+      const arrive = clock + travelMs(haversineKm(at, located(order)));
+      const begin = window ? Math.max(arrive, window.from.getTime()) : arrive;
+      const late = window ? Math.max(0, begin - window.to.getTime()) : 0;
+      const cost = begin - clock + late * LATE_WEIGHT;
+      if (cost < bestCost) [best, bestCost, bestEnd] = [i, cost, begin + SERVICE_MINUTES * MINUTE];
+    });
+    const [next] = remaining.splice(best, 1);
+    sequence.push(next);
+    at = located(next);
+    clock = bestEnd;
+  }
+  return sequence;
+}
+
+// 2-opt: reverse segments while that shortens the route without adding lateness
+function improve(sequence: IOrder[], start: GeoPoint, startAt: Date) {
+  let best = sequence;
+  let score = simulate(best, start, startAt);
+  for (let improved = true; improved; ) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const s = simulate(candidate, start, startAt);
+        if (s.lateMs < score.lateMs || (s.lateMs === score.lateMs && s.totalKm < score.totalKm - 1e-9)) {
+          best = candidate;
+          score = s;
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+export function planRoute(orders: IOrder[], options: RouteOptions = {}): RoutePlan {
+  const byPickup = (a: IOrder, b: IOrder) => (a.pickupTime?.getTime() ?? Infinity) - (b.pickupTime?.getTime() ?? Infinity);
+  const withLocation = orders.filter((o) => o.address?.geo).sort(byPickup);
+  const unlocated = orders.filter((o) => !o.address?.geo).sort(byPickup);
+  if (!withLocation.length) return { stops: [], unlocated, totalKm: 0, lateStops: 0 };
+
+  const startAt = options.startAt || new Date();
+  const start = options.start || located(withLocation[0]);
+  const sequence = improve(nearestFeasible(withLocation, start, startAt), start, startAt);
+  const { stops, totalKm } = simulate(sequence, start, startAt);
+  return { stops, unlocated, totalKm, lateStops: stops.filter((s) => s.lateMinutes > 0).length };
+}
+
+// Today's accepted pickups for a driver (plus unscheduled ones), planned from `start`
+export async function planDriverDay(driverId: string, now: Date = new Date(), start?: GeoPoint | null) {
+  const { from, to } = periodRange("daily", now);
+  const orders = await Order.find({
+    assignedTo: driverId,
+    status: { $in: ["created", "assigned"] },
+    "dispatch.state": { $ne: "offered" },
+    $or: [{ pickupTime: { $gte: from, $lt: to } }, { pickupTime: null }],
+  });
+  return planRoute(orders, { start, startAt: now });
+}
@@ -0,0 +1,265 @@
+// server/src/tools/orderTools.ts
+// Order operations exposed to the LLM as typed tools (function calling).
+import type { LLMTool } from "../llm/provider";
+import Order, { IOrder, InvalidStatusTransitionError, ORDER_STATUSES, OrderStatus, normalizeStatus, orderScope, transitionOrder } from "../models/Order";
+import { searchOrders } from "../orders/search";
+import { OrderChange, OrderEdits, OrderNotEditableError, applyOrderEdits, hasEdits } from "../orders/modify";
+import { DispatchError, driverQueue } from "../dispatch/dispatch";
+import { InvalidAddressError, formatAddress, parseAddress, requireAddress } from "../geo/address";
+import { AuthDriver } from "../types";
+
+export interface OrderToolResult {
+  ok: boolean;
+  action: string;
+  error?: string;
+  order?: IOrder | null;
+  orders?: IOrder[];
+  changes?: OrderChange[];
+}
+
+const trackingIdParam = {
+  type: "string",
+  description: "Tracking ID of the order, e.g. ORD-ABC123. Reuse the ID from earlier tool results for follow-ups like 'cancel that one'.",
+};
+
+export const orderTools: LLMTool[] = [
+  {
+    type: "function",
+    function: {
+      name: "create_order",
+      description: "Create a new delivery order.",
+      parameters: {
+        type: "object",
+        properties: {
+          item: { type: "string", description: "What is being delivered" },
+          qty: { type: "integer", description: "Number of units, default 1" },
+          customerName: { type: "string" },
+          address: {
+            type: "string",
+            description: "Full delivery address as spoken: house/street, landmark, locality, city, 6 digit PIN code",
+          },
+          pickupTime: { type: "string", description: "Pickup time as ISO 8601" },
+        },
+        required: ["item"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "track_order",
+      description: "Look up an order and its status.",
+      parameters: { type: "object", properties: { trackingId: trackingIdParam }, required: ["trackingId"] },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "cancel_order",
+      description: "Cancel an order.",
+      parameters: { type: "object", properties: { trackingId: trackingIdParam }, required: ["trackingId"] },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "update_order",
+      description: "Change fields of an existing order. Only pass the fields that change.",
+      parameters: {
+        type: "object",
+        properties: {
+          trackingId: trackingIdParam,
+          item: { type: "string" },
+          qty: { type: "integer" },
+          customerName: { type: "string" },
+          address: { type: "string", description: "The new address, or only the parts that change, e.g. 'PIN code 411038'" },
+          pickupTime: { type: "string", description: "ISO 8601" },
+          assignedTo: { type: "string", description: "Driver the order is assigned to" },
+          status: { type: "string", enum: [...ORDER_STATUSES] },
+        },
+        required: ["trackingId"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "update_order_status",
+      description: "Move an order along its lifecycle: created -> assigned -> picked_up -> in_transit -> delivered. Use cancel_order to cancel.",
+      parameters: {
+        type: "object",
+        properties: {
+          trackingId: trackingIdParam,
+          status: { type: "string", enum: [...ORDER_STATUSES] },
+        },
+        required: ["trackingId", "status"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "list_orders",
+      description: "List the driver's orders, newest first, optionally filtered.",
+      parameters: {
+        type: "object",
+        properties: {
+          status: { type: "array", items: { type: "string", enum: [...ORDER_STATUSES] } },
+          createdFrom: { type: "string", description: "ISO 8601, inclusive" },
+          createdTo: { type: "string", description: "ISO 8601, exclusive" },
+          item: { type: "string", description: "Text to look for in the item" },
+          address: { type: "string", description: "Text to look for in the address" },
+          limit: { type: "integer", description: "Maximum number of orders, default 10" },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "next_pickup",
+      description: "Get the next pickup in the caller's own queue.",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+];
+
+export const orderToolNames = orderTools.map((t) => t.function.name);
+
+function toDate(value: unknown) {
+  if (!value) return null;
+  const d = new Date(String(value));
+  return isNaN(d.getTime()) ? null : d;
+}
+
+export function makeTrackingId() {
+  return "ORD-" + Date.now().toString(36) + Math.random().toString(36).slice(2, 8).toUpperCase();
+}
+
+// Apply a lifecycle transition; illegal ones come back as ok: false with the reason
+async function changeStatus(trackingId: string, status: unknown, driver: AuthDriver, action: string): Promise<OrderToolResult> {
+  const next = normalizeStatus(status);
+  if (!next) return { ok: false, action: "invalid_status", error: `unknown status "${status}"` };
+  const order = await Order.findOne({ trackingId, ...orderScope(driver) });
+  if (!order) return { ok: false, action: "order_not_found", error: `order ${trackingId} not found` };
+  try {
+    transitionOrder(order, next, driver.id, "voice");
+  } catch (err) {
+    if (err instanceof InvalidStatusTransitionError) return { ok: false, action: "invalid_transition", error: err.message, order };
+    throw err;
+  }
+  await order.save();
+  return { ok: true, action, order };
+}
+
+// Apply parsed edits to one of the driver's orders and report the diff
+export async function editOrder(trackingId: string, edits: OrderEdits, driver: AuthDriver): Promise<OrderToolResult> {
+  if (!hasEdits(edits)) return { ok: false, action: "update_order", error: "no fields to update" };
+  const order = await Order.findOne({ trackingId, ...orderScope(driver) });
+  if (!order) return { ok: false, action: "order_not_found", error: `order ${trackingId} not found` };
+  try {
+    const changes = await applyOrderEdits(order, edits, driver);
+    return { ok: true, action: "update_order", order, changes };
+  } catch (err) {
+    if (err instanceof InvalidStatusTransitionError || err instanceof OrderNotEditableError) {
+      return { ok: false, action: "invalid_transition", error: err.message, order };
+    }
+    if (err instanceof DispatchError) return { ok: false, action: "invalid_assignee", error: err.message, order };
+    if (err instanceof InvalidAddressError) return { ok: false, action: "invalid_address", error: err.message, order };
+    throw err;
+  }
+}
+
+// Execute a tool call for the signed-in driver. Arguments come from the model, so everything
+// is re-validated here and every query is limited to the driver's own orders.
+export async function runOrderTool(name: string, args: Record<string, any>, driver: AuthDriver): Promise<OrderToolResult> {
+  const trackingId = args.trackingId ? String(args.trackingId).toUpperCase() : "";
+  const scope = orderScope(driver);
+
+  switch (name) {
+    case "create_order": {
+      if (!args.item) return { ok: false, action: "create_order", error: "item is required" };
+      let address = null;
+      try {
+        // spoken text from the model, or parts collected by the order dialog
+        address = args.address ? requireAddress(args.address) : null;
+      } catch (err) {
+        if (err instanceof InvalidAddressError) return { ok: false, action: "invalid_address", error: err.message };
+        throw err;
+      }
+      const order = new Order({
+        customerName: args.customerName || undefined,
+        address,
+        item: String(args.item),
+        qty: Number(args.qty) || 1,
+        status: "created",
+        pickupTime: toDate(args.pickupTime),
+        trackingId: makeTrackingId(),
+        metadata: { createdBy: driver.id, createdVia: "voice" },
+      });
+      await order.save();
+      return { ok: true, action: "created_order", order };
+    }
+    case "track_order": {
+      const order = await Order.findOne({ trackingId, ...scope });
+      return order ? { ok: true, action: "track_order", order } : { ok: false, action: "order_not_found", error: `order ${trackingId} not found` };
+    }
+    case "cancel_order":
+      return changeStatus(trackingId, "cancelled", driver, "cancel_order");
+    case "update_order_status":
+      return changeStatus(trackingId, args.status, driver, "update_status");
+    case "update_order": {
+      const edits: OrderEdits = {
+        item: args.item ? String(args.item) : undefined,
+        qty: Number(args.qty) || undefined,
+        customerName: args.customerName ? String(args.customerName) : undefined,
+        address: args.address ? parseAddress(String(args.address)) : undefined,
+        pickupTime: toDate(args.pickupTime) || undefined,
+        assignedTo: args.assignedTo ? String(args.assignedTo) : undefined,
+        status: normalizeStatus(args.status) || undefined,
+      };
+      return editOrder(trackingId, edits, driver);
+    }
+    case "list_orders": {
+      const status = (Array.isArray(args.status) ? args.status : []).map(normalizeStatus).filter(Boolean) as OrderStatus[];
+      const { items } = await searchOrders(
+        driver,
+        {
+          status,
+          createdFrom: toDate(args.createdFrom) || undefined,
+          createdTo: toDate(args.createdTo) || undefined,
+          item: args.item ? String(args.item) : undefined,
+          address: args.address ? String(args.address) : undefined,
+        },
+        { limit: Math.min(Number(args.limit) || 10, 50) }
+      );
+      return { ok: true, action: "list_orders", orders: items };
+    }
+    case "next_pickup": {
+      const [order] = await driverQueue(driver.id, 1);
+      return order ? { ok: true, action: "next_pickup", order } : { ok: true, action: "no_pickups", order: null };
+    }
+    default:
+      return { ok: false, action: "unknown_tool", error: `unknown tool ${name}` };
+  }
+}
+
+// Compact form of a tool result that is fed back to the model
+export function summarizeToolResult(result: OrderToolResult) {
+  const brief = (o: IOrder) => ({
+    trackingId: o.trackingId,
+    item: o.item,
+    qty: o.qty,
+    status: o.status,
+    customerName: o.customerName,
+    address: formatAddress(o.address) || o.address?.raw,
+    pickupTime: o.pickupTime,
+  });
+  return JSON.stringify({
+    ok: result.ok,
+    error: result.error,
+    order: result.order ? brief(result.order) : undefined,
+    orders: result.orders?.map(brief),
+    changes: result.changes,
+  });
+}
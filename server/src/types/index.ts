@@ -7,4 +7,20 @@ export interface AIResponse {
 export interface CommandRequest {
     command: string;
     userId: string;
-}
\ No newline at end of file
+}
+
+// The signed-in driver, attached to the request by middleware/auth
+export interface AuthDriver {
+    id: string;
+    phone: string;
+    name?: string;
+    role: "driver" | "admin";
+}
+
+declare global {
+    namespace Express {
+        interface Request {
+            driver?: AuthDriver;
+        }
+    }
+}
@@ -0,0 +1,140 @@
+// server/src/utils/time.ts
+// Small parser for spoken pickup times in English and Hinglish, and the wall clock of the
+// configured timezone that spoken times, ledger days and weeks are read in.
+
+import { NUMBER_WORD_PATTERN, toNumber } from "../nlu/numbers";
+
+// Timezone drivers speak times in, and that days, weeks and months are cut in for the ledger
+export const LEDGER_TIMEZONE = process.env.LEDGER_TIMEZONE || "Asia/Kolkata";
+
+const zoneFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: LEDGER_TIMEZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  hour: "numeric",
+  minute: "numeric",
+  second: "numeric",
+});
+
+// The wall clock in LEDGER_TIMEZONE at an instant, as a Date whose UTC fields carry it
+export function toZoned(at: Date): Date {
+  const p = Object.fromEntries(zoneFormat.formatToParts(at).map((part) => [part.type, Number(part.value)]));
+  return new Date(Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second, at.getUTCMilliseconds()));
+}
+
+// The instant a LEDGER_TIMEZONE wall clock (from toZoned) stands for; the second pass
+// settles the offset when the first guess crossed a daylight saving change
+export function fromZoned(wall: Date): Date {
+  let at = new Date(wall.getTime() - (toZoned(wall).getTime() - wall.getTime()));
+  at = new Date(wall.getTime() - (toZoned(at).getTime() - at.getTime()));
+  return at;
+}
+
+// Clock time of a part of day spoken without one ("kal subah", "tomorrow evening")
+const PART_OF_DAY_HOURS: [RegExp, number][] = [
+  [/\b(subah|morning)\b/, 9],
+  [/\b(dopahar|afternoon|noon)\b/, 14],
+  [/\b(shaam|evening)\b/, 18],
+  [/\b(raat|night)\b/, 21],
+];
+
+// Spell Hindi clock phrases as digits: "saade paanch baje" -> "5:30 baje", "paune teen" -> "2:45",
+// "dedh baje" -> "1:30 baje", "das baje" -> "10 baje", "do ghante mein" -> "2 ghante mein"
+export function normalizeSpokenNumbers(text: string): string {
+  const num = (w: string) => toNumber(w) ?? 0;
+  return text
+    .replace(/\bdedh\b/g, "1:30")
+    .replace(/\bdhai\b/g, "2:30")
+    .replace(new RegExp(`\\bsaa?de\\s+(\\d{1,2}|${NUMBER_WORD_PATTERN})\\b`, "g"), (_, h) => `${num(h)}:30`)
+    .replace(new RegExp(`\\bsawa\\s+(\\d{1,2}|${NUMBER_WORD_PATTERN})\\b`, "g"), (_, h) => `${num(h)}:15`)
+    .replace(new RegExp(`\\bpaune\\s+(\\d{1,2}|${NUMBER_WORD_PATTERN})\\b`, "g"), (_, h) => `${(num(h) + 11) % 12 || 12}:45`)
+    .replace(new RegExp(`\\b(${NUMBER_WORD_PATTERN})(?=\\s*(?:baje|am|pm|o'?clock|min(?:ute)?s?|minat|ghante?|hours?)\\b)`, "g"), (w) => String(num(w)));
+}
+
+// The phrases parseSpokenTime reads a time from, to take them out of the rest of a sentence
+const CLOCK_NUMBER = `(?:(?:saa?de|sawa|paune)\\s+)?(?:\\d{1,2}(?:[:.]\\d{2})?|dedh|dhai|${NUMBER_WORD_PATTERN})`;
+const DURATION = `(?:\\d+|${NUMBER_WORD_PATTERN})\\s*(?:min(?:ute)?s?|minat|ghante?|hours?|hrs?)`;
+const TIME_PHRASES = [
+  new RegExp(`(?:\\b(?:at|by|around)\\s+)?\\b${CLOCK_NUMBER}\\s*(?:am|pm|baje|o'?clock)\\b`, "gi"),
+  /\b(?:at|by|around)\s+\d{1,2}[:.]\d{2}\b/gi,
+  new RegExp(`\\bin\\s+${DURATION}\\b|\\b${DURATION}\\s+(?:mein|me|baad|later)\\b`, "gi"),
+  /\b(?:day after tomorrow|tomorrow|today|kal|parso|aaj)\b/gi,
+  /\b(?:subah|morning|dopahar|afternoon|shaam|evening|raat|night)(?:\s+(?:ko|mein))?\b/gi,
+];
+
+// "deliver 5 boxes at 6pm" -> "deliver 5 boxes": the text around a spoken time
+export function withoutSpokenTime(text: string): string {
+  return TIME_PHRASES.reduce((rest, re) => rest.replace(re, " "), text)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Parse phrases like "abhi", "5pm", "5:30 pm", "kal 9 baje", "tomorrow 4pm", "shaam 6 baje",
+// "saade paanch baje", "in 30 minutes", "kal subah". Clock times are read in LEDGER_TIMEZONE,
+// whatever the server's own timezone. Returns null when no time can be found.
+export function parseSpokenTime(text: string, now: Date = new Date()): Date | null {
+  const t = normalizeSpokenNumbers(text.toLowerCase()).replace(/\bo'?clock\b/g, "baje");
+
+  if (/\b(abhi|now|right now|turant)\b/.test(t)) return new Date(now);
+
+  const rel = t.match(/\b(?:in\s+)?(\d+)\s*(min(?:ute)?s?|minat|ghante?|hours?|hrs?)\s*(?:mein|me|baad|later)?/);
+  if (rel && (/\bin\s+\d/.test(t) || /mein|me\b|baad|later/.test(t))) {
+    const n = Number(rel[1]);
+    const ms = /^(min|minat)/.test(rel[2]) ? n * 60_000 : n * 3_600_000;
+    return new Date(now.getTime() + ms);
+  }
+
+  const night = /raat|night/.test(t);
+  const day = /\b(kal|tomorrow|parso|day after tomorrow|aaj|today)\b/.test(t);
+  const wall = toZoned(now);
+  // a clock time with nothing saying am or pm: whichever of the two comes next
+  let nextHalfDay = false;
+
+  // a number with am/pm/baje or minutes is the clock, not a quantity spoken before it
+  const clock =
+    t.match(/\b(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|baje)\b/) || t.match(/\b(\d{1,2})[:.](\d{2})\b()/) || t.match(/\b(\d{1,2})\b()()/);
+  let hours: number;
+  let minutes = 0;
+  if (clock && (clock[3] || clock[2])) {
+    hours = Number(clock[1]);
+    minutes = clock[2] ? Number(clock[2]) : 0;
+    if (hours > 23 || minutes > 59) return null;
+
+    const meridiem = clock[3];
+    if (meridiem === "pm" && hours < 12) hours += 12;
+    if (meridiem === "am" && hours === 12) hours = 0;
+    if (meridiem !== "am" && meridiem !== "pm" && hours <= 12) {
+      if (night) {
+        // "raat 12 baje" is midnight at the end of the day, "raat 2 baje" the small hours
+        if (hours === 12) hours = 24;
+        else if (hours >= 5) hours += 12;
+      } else if (/shaam|evening|dopahar|afternoon/.test(t)) {
+        if (hours < 12) hours += 12;
+      } else if (/subah|morning/.test(t)) {
+        if (hours === 12) hours = 0;
+      } else if (meridiem === "baje" || day) {
+        // "baje" has no am/pm; assume working hours
+        if (hours < 8) hours += 12;
+      } else if (hours < 12) {
+        nextHalfDay = true;
+      }
+    }
+  } else {
+    // only a day and a part of it ("kal subah"), or no time at all
+    const part = PART_OF_DAY_HOURS.find(([re]) => re.test(t));
+    if (!part || !/\b(kal|tomorrow|parso|aaj|today)\b/.test(t)) return null;
+    hours = part[1];
+  }
+
+  wall.setUTCHours(hours, minutes, 0, 0);
+  if (/\b(kal|tomorrow)\b/.test(t)) wall.setUTCDate(wall.getUTCDate() + 1);
+  else if (/\b(parso|day after tomorrow)\b/.test(t)) wall.setUTCDate(wall.getUTCDate() + 2);
+  else if (fromZoned(wall).getTime() < now.getTime()) {
+    // a time already past today is this evening if it can be, else tomorrow
+    wall.setUTCHours(wall.getUTCHours() + (nextHalfDay ? 12 : 24));
+    if (fromZoned(wall).getTime() < now.getTime()) wall.setUTCHours(wall.getUTCHours() + 12);
+  }
+  return fromZoned(wall);
+}
@@ -0,0 +1,97 @@
+// server/test/address.test.ts
+// Golden address extraction: spoken text to structured parts, the PIN code check, and the
+// address the offline order extractor pulls out of a whole sentence.
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { AddressDraft, checkAddress, parseAddress } from "../src/geo/address";
+import { extractOrderFields } from "../src/nlu/orderFields";
+
+const PARSED: Array<[text: string, draft: AddressDraft]> = [
+  [
+    "Flat 12, Shanti Apartments, near City Mall, Kothrud, Pune 411038, 9876543210",
+    {
+      line1: "Flat 12, Shanti Apartments",
+      landmark: "near City Mall",
+      locality: "Kothrud",
+      city: "Pune",
+      pincode: "411038",
+      contactPhone: "+919876543210",
+    },
+  ],
+  ["221B MG Road, Bangalore 560001", { line1: "221B MG Road", city: "Bengaluru", pincode: "560001" }],
+  ["Shop 4, Linking Road, Bandra, Mumbai 400050", { line1: "Shop 4, Linking Road", locality: "Bandra", city: "Mumbai", pincode: "400050" }],
+  ["12 Park Street, Kolkata pin code 700016", { line1: "12 Park Street", city: "Kolkata", pincode: "700016" }],
+  ["House 7, Sector 18, Noida", { line1: "House 7, Sector 18", city: "Noida" }],
+];
+
+for (const [text, draft] of PARSED) {
+  test(`parseAddress("${text}")`, () => {
+    assert.deepEqual(parseAddress(text), draft);
+  });
+}
+
+test("checkAddress fills city, state and locality from the PIN code", () => {
+  const { address, missing, errors } = checkAddress({ line1: "221B MG Road", pincode: "560001" });
+  assert.deepEqual(missing, []);
+  assert.deepEqual(errors, []);
+  assert.equal(address?.city, "Bengaluru");
+  assert.equal(address?.state, "Karnataka");
+  assert.equal(address?.locality, "Bengaluru GPO");
+});
+
+test("checkAddress reports what is missing", () => {
+  const { address, missing } = checkAddress(parseAddress("House 7, Sector 18, Noida"));
+  assert.equal(address, null);
+  assert.deepEqual(missing, ["pincode"]);
+});
+
+test("checkAddress drops a PIN code from another city", () => {
+  const { address, draft, errors } = checkAddress(parseAddress("Flat 1, Pune 400050"));
+  assert.equal(address, null);
+  assert.equal(draft.pincode, null);
+  assert.deepEqual(errors, ["PIN code 400050 is in Mumbai, not Pune."]);
+});
+
+// Wall-clock time in Asia/Kolkata, the default LEDGER_TIMEZONE spoken times are read in
+const IST = 330 * 60_000;
+const at = (day: number, hours: number, minutes = 0) => new Date(Date.UTC(2026, 9, day, hours, minutes) - IST);
+const NOW = at(18, 8); // Sunday 18 Oct 2026, 8 am
+
+const SENTENCES: Array<[text: string, fields: Partial<ReturnType<typeof extractOrderFields>>]> = [
+  ["Create order 2 boxes to Pune", { item: "boxes", qty: 2, address: { city: "Pune" } }],
+  [
+    "Ramesh ke liye 3 bori chawal Kothrud Pune 411038 pe kal 10 baje",
+    {
+      item: "chawal",
+      qty: 3,
+      customerName: "Ramesh",
+      address: { pincode: "411038", city: "Pune", locality: "Kothrud" },
+      pickupTime: at(19, 10),
+    },
+  ],
+  [
+    "new order ek sofa Andheri Mumbai pe deliver karna kal subah",
+    { item: "sofa", qty: 1, address: { city: "Mumbai", locality: "Andheri" }, pickupTime: at(19, 9) },
+  ],
+  [
+    "naya order banao do boxes for Suresh to Flat 12, Shanti Apartments, near City Mall, Kothrud, Pune 411038",
+    {
+      item: "boxes",
+      qty: 2,
+      customerName: "Suresh",
+      address: { line1: "Flat 12, Shanti Apartments", landmark: "near City Mall", locality: "Kothrud", city: "Pune", pincode: "411038" },
+    },
+  ],
+  ["paanch carton biscuit, pickup shaam saade 6 baje", { item: "biscuit", qty: 5, address: null, pickupTime: at(18, 18, 30) }],
+  ["Ramesh ke liye 5 kg aata bhejo", { item: "5 kg aata", qty: 1, customerName: "Ramesh", address: null }],
+  ["teen dabba ghee deliver karo", { item: "ghee", qty: 3 }],
+];
+
+for (const [text, fields] of SENTENCES) {
+  test(`extractOrderFields("${text}")`, () => {
+    const draft = extractOrderFields(text, NOW);
+    for (const [key, value] of Object.entries(fields)) {
+      assert.deepEqual(draft[key as keyof typeof draft], value, key);
+    }
+  });
+}
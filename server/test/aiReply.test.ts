@@ -0,0 +1,151 @@
+// server/test/aiReply.test.ts
+// Scripted voice conversations through POST /api/ai, offline and with the mock LLM, checking
+// the action, the reply and what ends up in the database.
+import assert from "node:assert/strict";
+import { after, before, beforeEach, test } from "node:test";
+import { Harness } from "./harness";
+import { LLMError } from "../src/llm/provider";
+import Conversation from "../src/models/Conversation";
+import Driver from "../src/models/Driver";
+import LedgerEntry from "../src/models/LedgerEntry";
+import Order from "../src/models/Order";
+import { toZoned } from "../src/utils/time";
+
+const h = new Harness();
+before(() => h.start());
+after(() => h.stop());
+beforeEach(() => h.useLLM(false));
+
+test("English: an order is collected over several turns and saved on confirmation", async () => {
+  const me = await h.createDriver();
+  const chat = h.conversation(me);
+
+  let res = await chat.say("Create order 2 boxes to Flat 12, Shanti Apartments, Kothrud, Pune 411038");
+  assert.equal(res.intent, "create_order");
+  assert.equal(res.action, "slot_prompt");
+  assert.equal(res.pendingSlot, "landmark");
+  assert.equal(res.reply, "Paas mein koi landmark? Na ho to 'nahi' boliye.");
+
+  res = await chat.say("nahi");
+  assert.equal(res.pendingSlot, "pickupTime");
+  assert.equal(res.reply, "Pickup kab?");
+
+  res = await chat.say("tomorrow 10 am");
+  assert.equal(res.pendingSlot, "confirm");
+  assert.match(res.reply, /^Order confirm karein: 2 x boxes, address: Flat 12, Shanti Apartments, Kothrud, Pune, 411038, pickup: .+\. Haan ya nahi\?$/);
+  assert.equal(await Order.countDocuments({ "metadata.createdBy": me.id }), 0, "nothing is saved before confirmation");
+
+  res = await chat.say("haan");
+  assert.equal(res.action, "created_order");
+  const order = await Order.findOne({ "metadata.createdBy": me.id });
+  assert.ok(order);
+  assert.equal(res.reply, `Order ban gaya. Tracking ID ${order.trackingId}.`);
+  assert.equal(order.item, "boxes");
+  assert.equal(order.qty, 2);
+  assert.equal(order.status, "created");
+  assert.equal(order.metadata.createdVia, "voice");
+  assert.deepEqual(
+    [order.address?.line1, order.address?.locality, order.address?.city, order.address?.state, order.address?.pincode, order.address?.landmark],
+    ["Flat 12, Shanti Apartments", "Kothrud", "Pune", "Maharashtra", "411038", null]
+  );
+  assert.equal(order.pickupTime && toZoned(order.pickupTime).getUTCHours(), 10, "10 am in LEDGER_TIMEZONE");
+
+  const conversation = await Conversation.findOne({ userId: me.id });
+  assert.deepEqual(
+    conversation?.messages.filter((m) => m.role === "assistant").map((m) => m.intent),
+    ["create_order", "create_order", "create_order", "create_order"]
+  );
+});
+
+test("Hinglish and Hindi: earnings, switching language, tracking and cancelling", async () => {
+  const me = await h.createDriver();
+  const chat = h.conversation(me);
+  await LedgerEntry.create([
+    { driverId: me.id, type: "fare", amount: 500, occurredAt: new Date() },
+    { driverId: me.id, type: "fuel", amount: 120, occurredAt: new Date() },
+  ]);
+
+  let res = await chat.say("Aaj kitna kamaya?");
+  assert.equal(res.intent, "earnings");
+  assert.equal(res.action, "business_metrics");
+  assert.equal(res.reply, "Aaj aapne ₹500 kamaya aur ₹120 kharch kiya. Net earning: ₹380.");
+  assert.equal(res.lang, "hi-Latn-IN");
+
+  res = await chat.say("Hindi mein baat karo");
+  assert.equal(res.action, "set_language");
+  assert.equal(res.language, "hi");
+  assert.equal(res.lang, "hi-IN");
+  const driver = await Driver.findById(me.id);
+  assert.equal(driver?.language, "hi");
+  assert.equal(driver?.languageAuto, false);
+
+  res = await chat.say("Aaj kitna kamaya?");
+  assert.equal(res.reply, "आज आपने ₹500 कमाए और ₹120 खर्च किए। कुल बचत: ₹380।");
+  assert.equal(res.language, "hi");
+
+  await Order.create({ item: "Atta", qty: 2, trackingId: "ORD-HIN001", metadata: { createdBy: me.id } });
+  res = await chat.say("ORD-HIN001 kahan hai?");
+  assert.equal(res.action, "track_order");
+  assert.equal(res.order.trackingId, "ORD-HIN001");
+  assert.match(res.reply, /^ऑर्डर ORD-HIN001: .*स्थिति: नया।$/);
+
+  res = await chat.say("ORD-HIN001 cancel kar do");
+  assert.equal(res.action, "cancel_order");
+  assert.equal(res.reply, "ऑर्डर ORD-HIN001 रद्द हो गया।", "catalog replies follow the driver's language");
+  const order = await Order.findOne({ trackingId: "ORD-HIN001" });
+  assert.equal(order?.status, "cancelled");
+  assert.equal(order?.statusHistory[order.statusHistory.length - 1].to, "cancelled");
+});
+
+test("offline: unrecognised requests get example phrases", async () => {
+  const me = await h.createDriver({ language: "en", languageAuto: false });
+  const res = await h.conversation(me).say("Tell me a joke");
+  assert.equal(res.action, "fallback");
+  assert.match(res.reply, /^Sorry, I didn't understand that\. Try saying: "Naya order banao/);
+});
+
+test("mock LLM: order tools are called and their results kept in the conversation", async () => {
+  h.useLLM(true);
+  const me = await h.createDriver();
+  await Order.create({ item: "Fridge", trackingId: "ORD-LLM001", metadata: { createdBy: me.id } });
+  h.llm.enqueue(
+    { toolCalls: [{ name: "track_order", arguments: JSON.stringify({ trackingId: "ORD-LLM001" }) }] },
+    { content: "ORD-LLM001 is created and waiting for pickup." }
+  );
+
+  const res = await h.conversation(me).say("Where is my parcel ORD-LLM001?");
+  assert.equal(res.action, "track_order");
+  assert.equal(res.reply, "ORD-LLM001 is created and waiting for pickup.");
+  assert.equal(res.order.trackingId, "ORD-LLM001");
+
+  const [first, second] = h.llm.requests;
+  assert.ok(first.tools?.some((t) => t.function.name === "track_order"));
+  const toolResult = second.messages.find((m) => m.role === "tool");
+  assert.ok(toolResult && toolResult.role === "tool");
+  assert.match(toolResult.content, /ORD-LLM001/);
+
+  const conversation = await Conversation.findOne({ userId: me.id });
+  assert.deepEqual(
+    conversation?.messages.map((m) => [m.role, m.name || null]),
+    [
+      ["user", null],
+      ["assistant", null],
+      ["function", "track_order"],
+      ["assistant", null],
+    ]
+  );
+  assert.equal(conversation?.messages[1].toolCalls?.[0].name, "track_order");
+  assert.ok(h.llm.usage().totalTokens > 0);
+});
+
+test("mock LLM: a failing provider falls back to the offline reply", async () => {
+  h.useLLM(true);
+  const me = await h.createDriver({ language: "en", languageAuto: false });
+  const failures = h.llm.usage().failures;
+  h.llm.enqueue(new LLMError("Service unavailable", "mock", false, 503));
+
+  const res = await h.conversation(me).say("Tell me a joke");
+  assert.equal(res.action, "fallback");
+  assert.match(res.reply, /^Sorry, I didn't understand that\./);
+  assert.equal(h.llm.usage().failures, failures + 1);
+});
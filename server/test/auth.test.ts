@@ -0,0 +1,41 @@
+// server/test/auth.test.ts
+// OTP login limits: the resend cooldown, wrong codes per challenge and wrong codes across challenges.
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { Harness } from "./harness";
+import OtpChallenge from "../src/models/OtpChallenge";
+
+const h = new Harness();
+before(() => h.start());
+after(() => h.stop());
+
+test("a second code for the same phone within the cooldown gets 429", async () => {
+  let res = await h.request("POST", "/auth/otp/request", undefined, { phone: "98765 00001" });
+  assert.equal(res.status, 200);
+  assert.equal(res.body.phone, "+919876500001");
+
+  res = await h.request("POST", "/auth/otp/request", undefined, { phone: "+91 98765 00001" });
+  assert.equal(res.status, 429);
+  assert.equal(res.body.error, "Too many OTP requests, please try again later");
+
+  res = await h.request("POST", "/auth/otp/request", undefined, { phone: "98765 00002" });
+  assert.equal(res.status, 200, "other phones are not held back");
+});
+
+test("wrong codes end the challenge, and too many across challenges lock the phone", async () => {
+  const phone = "+919876500003";
+  assert.equal((await h.request("POST", "/auth/otp/request", undefined, { phone })).status, 200);
+  const verify = () => h.request("POST", "/auth/otp/verify", undefined, { phone, code: "not-a-code" });
+
+  for (let i = 0; i < 5; i++) assert.equal((await verify()).body.error, "Incorrect OTP");
+  let res = await verify();
+  assert.equal(res.status, 401);
+  assert.equal(res.body.error, "Too many attempts, please request a new OTP");
+
+  // as if a new code had been sent
+  await OtpChallenge.updateOne({ phone }, { attempts: 0 });
+  for (let i = 0; i < 5; i++) assert.equal((await verify()).status, 401);
+  res = await verify();
+  assert.equal(res.status, 429);
+  assert.equal(res.body.error, "Too many wrong codes, please try again later");
+});
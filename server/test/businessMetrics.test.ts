@@ -0,0 +1,79 @@
+// server/test/businessMetrics.test.ts
+// The earnings intents' week buckets against MongoDB: weeks start at Sunday midnight in
+// LEDGER_TIMEZONE, whatever the host timezone, and "this week" runs up to now. The boundaries
+// themselves are golden cases in weekBounds.test.ts.
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { Harness } from "./harness";
+import { getBusinessMetrics } from "../src/ledger/earnings";
+import LedgerEntry from "../src/models/LedgerEntry";
+
+const h = new Harness();
+before(() => h.start());
+after(() => h.stop());
+
+// Wall-clock time in Asia/Kolkata (UTC+5:30, the default LEDGER_TIMEZONE) whatever the host's
+// timezone; 18 Oct 2026 is a Sunday
+const IST = 330 * 60_000;
+const at = (month: number, day: number, hours = 12, minutes = 0, seconds = 0) =>
+  new Date(Date.UTC(2026, month - 1, day, hours, minutes, seconds) - IST);
+
+test("getBusinessMetrics buckets entries on the week boundaries", async () => {
+  const driverId = "driver-weeks";
+  await LedgerEntry.create([
+    { driverId, type: "fare", amount: 1000, occurredAt: at(10, 10, 23, 59, 59) }, // before last week
+    { driverId, type: "fare", amount: 20, occurredAt: at(10, 11, 0) }, // first moment of last week
+    { driverId, type: "fare", amount: 10, occurredAt: at(10, 17, 23, 59, 59) }, // last second of last week
+    { driverId, type: "fare", amount: 100, occurredAt: at(10, 18, 0) }, // first moment of this week
+    { driverId, type: "reward", amount: 50, reason: "Festival bonus", occurredAt: at(10, 20, 18) },
+    { driverId, type: "fuel", amount: 30, occurredAt: at(10, 21, 9) },
+    { driverId, type: "penalty", amount: 40, reason: "Late delivery", occurredAt: at(10, 21, 10) },
+    { driverId, type: "fare", amount: 300, occurredAt: at(10, 21, 15) }, // later today
+    { driverId: "someone-else", type: "fare", amount: 999, occurredAt: at(10, 21, 9) },
+  ]);
+
+  const wednesday = await getBusinessMetrics(driverId, at(10, 21, 12));
+  assert.equal(wednesday.thisWeekEarnings, 150); // fare 100 + reward 50; the 3 pm fare is after now
+  assert.equal(wednesday.lastWeekEarnings, 30);
+  assert.equal(wednesday.todayEarnings, 300); // today is the whole calendar day
+  assert.equal(wednesday.todayExpenses, 70);
+  assert.deepEqual(
+    wednesday.penalties.map((p) => [p.reason, p.amount]),
+    [["Late delivery", 40]]
+  );
+  assert.deepEqual(wednesday.rewards, []);
+
+  const sundayMorning = await getBusinessMetrics(driverId, at(10, 18, 8));
+  assert.equal(sundayMorning.thisWeekEarnings, 100);
+  assert.equal(sundayMorning.lastWeekEarnings, 30);
+  assert.equal(sundayMorning.todayEarnings, 100);
+
+  const saturdayNight = await getBusinessMetrics(driverId, at(10, 17, 23, 59, 59));
+  // the entry at exactly 23:59:59 is "now", which this week's range excludes
+  assert.equal(saturdayNight.thisWeekEarnings, 20);
+  assert.equal(saturdayNight.lastWeekEarnings, 1000);
+  assert.equal(saturdayNight.todayEarnings, 10);
+});
+
+test("ledger entries and earnings summaries reject malformed input", async () => {
+  const admin = await h.createDriver({ role: "admin" });
+  const me = await h.createDriver();
+
+  let res = await h.request("POST", "/ledger", me.token, { type: "toll", amount: 40, occurredAt: "yesterday" });
+  assert.equal(res.status, 400);
+  assert.deepEqual(res.body.details.map((d: any) => d.path), ["body.occurredAt"]);
+  res = await h.request("POST", "/ledger", me.token, { type: "toll", amount: "40" });
+  assert.equal(res.body.details[0].path, "body.amount");
+  res = await h.request("POST", "/ledger", admin.token, { type: "payout", amount: 500 });
+  assert.equal(res.body.details[0].path, "body.driverId");
+  assert.equal((await h.request("POST", "/ledger", me.token, { type: "reward", amount: 40 })).status, 403);
+  res = await h.request("POST", "/ledger", me.token, { type: "toll", amount: 40, occurredAt: at(10, 21, 9).toISOString() });
+  assert.equal(res.status, 200);
+
+  res = await h.request("GET", `/ledger/${me.id}/summary?from=not-a-date`, me.token);
+  assert.equal(res.body.details[0].path, "query.from");
+  res = await h.request("GET", `/ledger/${me.id}/summary?period=yearly`, me.token);
+  assert.equal(res.body.details[0].path, "query.period");
+  res = await h.request("GET", `/ledger/${me.id}/summary?period=weekly&from=${at(10, 18, 0).toISOString()}&to=${at(10, 25, 0).toISOString()}`, me.token);
+  assert.equal(res.body.buckets[0].totals.toll, 40);
+});
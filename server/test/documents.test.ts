@@ -0,0 +1,126 @@
+// server/test/documents.test.ts
+// Document upload: type detection, checksum dedupe, proof-of-delivery photos linked to an order,
+// who can see them, and removing a stored file once nothing uses it.
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { after, before, beforeEach, test } from "node:test";
+import { Harness } from "./harness";
+import { LocalDocumentStore, setDocumentStore } from "../src/documents/storage";
+import Order from "../src/models/Order";
+
+const h = new Harness();
+const dir = mkdtempSync(path.join(tmpdir(), "porter-documents-"));
+
+before(async () => {
+  await h.start();
+  setDocumentStore(new LocalDocumentStore(dir));
+});
+after(async () => {
+  await h.stop();
+  rmSync(dir, { recursive: true, force: true });
+});
+beforeEach(() => h.useLLM(false));
+
+// A few bytes that start like a PNG; only the signature is checked
+const png = (tag: string) => Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from(tag)]);
+const storedFiles = () => readdirSync(path.join(dir, "documents"));
+
+test("a KYC photo is stored once, served back, and counted by the assistant", async () => {
+  const me = await h.createDriver();
+  const chat = h.conversation(me);
+
+  let res = await chat.say("Document upload kaise karu");
+  assert.equal(res.action, "onboarding_help");
+  assert.deepEqual(res.missingDocuments, ["Driving licence", "Gaadi ki RC", "PAN card", "Aadhaar card"]);
+
+  const bytes = png("licence-front");
+  const first = await h.upload("/documents", me.token, { kind: "licence" }, { name: "licence.png", bytes });
+  assert.equal(first.status, 201);
+  assert.equal(first.body.contentType, "image/png");
+  assert.equal(first.body.size, bytes.length);
+  assert.equal(first.body.duplicate, false);
+
+  const again = await h.upload("/documents", me.token, { kind: "licence" }, { name: "IMG_0001.png", bytes });
+  assert.equal(again.status, 200);
+  assert.equal(again.body.duplicate, true);
+  assert.equal(again.body.id, first.body.id);
+
+  const file = await h.download(first.body.url, me.token);
+  assert.equal(file.status, 200);
+  assert.equal(file.contentType, "image/png");
+  assert.deepEqual(file.bytes, bytes);
+
+  res = await chat.say("Document upload kaise karu");
+  assert.deepEqual(res.missingDocuments, ["Gaadi ki RC", "PAN card", "Aadhaar card"]);
+});
+
+test("uploads are refused when the file is not a photo or PDF, or has no order to go on", async () => {
+  const me = await h.createDriver();
+
+  const text = await h.upload("/documents", me.token, { kind: "pan" }, { name: "pan.jpg", bytes: Buffer.from("not really a jpeg") });
+  assert.equal(text.status, 415);
+
+  const noFile = await h.request("POST", "/documents", me.token, { kind: "pan" });
+  assert.equal(noFile.status, 400);
+
+  const pod = await h.upload("/documents", me.token, { kind: "proof_of_delivery" }, { name: "door.png", bytes: png("door") });
+  assert.equal(pod.status, 400);
+  assert.equal(pod.body.details[0].path, "body.orderId");
+
+  const unknownOrder = await h.upload(
+    "/documents",
+    me.token,
+    { kind: "proof_of_delivery", trackingId: "ORD-NOSUCH" },
+    { name: "door.png", bytes: png("door") }
+  );
+  assert.equal(unknownOrder.status, 404);
+});
+
+test("a proof-of-delivery photo is visible on the order to its creator but not to others", async () => {
+  const driver = await h.createDriver();
+  const customer = await h.createDriver();
+  const stranger = await h.createDriver();
+  const order = await Order.create({
+    item: "Atta",
+    trackingId: "ORD-POD001",
+    status: "in_transit",
+    assignedTo: driver.id,
+    metadata: { createdBy: customer.id },
+  });
+
+  const pod = await h.upload(
+    "/documents",
+    driver.token,
+    { kind: "proof_of_delivery", trackingId: "ORD-POD001" },
+    { name: "door.png", bytes: png("delivered at the door") }
+  );
+  assert.equal(pod.status, 201);
+  assert.equal(pod.body.orderId, String(order._id));
+
+  const onOrder = await h.request("GET", `/documents?orderId=${order._id}`, customer.token);
+  assert.deepEqual(onOrder.body.map((d: any) => d.id), [pod.body.id]);
+  assert.equal((await h.request("GET", `/documents/${pod.body.id}`, customer.token)).status, 200);
+
+  assert.equal((await h.request("GET", `/documents/${pod.body.id}`, stranger.token)).status, 404);
+  assert.equal((await h.request("GET", `/documents?orderId=${order._id}`, stranger.token)).status, 404);
+  assert.deepEqual((await h.request("GET", "/documents", stranger.token)).body, []);
+  assert.equal((await h.request("DELETE", `/documents/${pod.body.id}`, customer.token)).status, 403);
+});
+
+test("the stored file is removed with the last document that uses it", async () => {
+  const a = await h.createDriver();
+  const b = await h.createDriver();
+  const bytes = png("shared scan");
+
+  const mine = await h.upload("/documents", a.token, { kind: "other" }, { name: "scan.png", bytes });
+  const theirs = await h.upload("/documents", b.token, { kind: "other" }, { name: "scan.png", bytes });
+  assert.equal(theirs.body.sha256, mine.body.sha256);
+  assert.ok(storedFiles().includes(mine.body.sha256));
+
+  assert.equal((await h.request("DELETE", `/documents/${mine.body.id}`, a.token)).status, 200);
+  assert.ok(storedFiles().includes(mine.body.sha256), "still used by the other driver's document");
+  assert.equal((await h.request("DELETE", `/documents/${theirs.body.id}`, b.token)).status, 200);
+  assert.ok(!storedFiles().includes(mine.body.sha256));
+});
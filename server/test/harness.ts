@@ -0,0 +1,107 @@
+// server/test/harness.ts
+// Boots the Express app on a free port against a throwaway MongoDB (mongodb-memory-server, or
+// the server in MONGO_TEST_URI) with the mock LLM installed, and talks to it over HTTP.
+import { randomBytes } from "crypto";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+
+process.env.JWT_SECRET ||= "test-secret";
+process.env.LLM_PROVIDER = "none";
+
+import app from "../src/app";
+import { signSession } from "../src/auth/otp";
+import { setLLM } from "../src/llm/config";
+import { MockLLMProvider } from "../src/llm/mockProvider";
+import Driver, { IDriver } from "../src/models/Driver";
+
+export interface ApiResponse {
+  status: number;
+  body: any;
+}
+
+export interface TestDriver {
+  driver: IDriver;
+  token: string;
+  id: string;
+}
+
+export class Harness {
+  readonly llm = new MockLLMProvider();
+  private server: Server | null = null;
+  private mongo: MongoMemoryServer | null = null;
+  private baseUrl = "";
+  private phones = 0;
+
+  async start() {
+    let uri = process.env.MONGO_TEST_URI;
+    if (!uri) {
+      this.mongo = await MongoMemoryServer.create();
+      uri = this.mongo.getUri();
+    }
+    // a database of its own, so test files can share one MONGO_TEST_URI
+    await mongoose.connect(uri, { dbName: `porter-test-${randomBytes(4).toString("hex")}` });
+    this.server = app.listen(0);
+    await new Promise<void>((resolve) => this.server!.once("listening", () => resolve()));
+    this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this;
+  }
+
+  async stop() {
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+    await mongoose.connection.dropDatabase();
+    await mongoose.disconnect();
+    await this.mongo?.stop();
+  }
+
+  // Offline by default; pass true to route unmatched requests to the mock LLM
+  useLLM(enabled: boolean) {
+    this.llm.reset();
+    setLLM(enabled ? this.llm : null);
+  }
+
+  // Drivers start offline so automatic dispatch leaves the test's orders alone
+  async createDriver(fields: Partial<Pick<IDriver, "name" | "role" | "availability" | "language" | "languageAuto">> = {}): Promise<TestDriver> {
+    const phone = `+9198${String(Date.now() % 1e6).padStart(6, "0")}${String(++this.phones).padStart(2, "0")}`;
+    const driver = await Driver.create({ phone, name: "Test Driver", availability: "offline", ...fields });
+    return { driver, token: signSession(driver), id: String(driver._id) };
+  }
+
+  async request(method: string, path: string, token?: string, body?: unknown): Promise<ApiResponse> {
+    const res = await fetch(this.baseUrl + path, {
+      method,
+      headers: { "Content-Type": "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await res.text();
+    return { status: res.status, body: text ? JSON.parse(text) : null };
+  }
+
+  // multipart/form-data POST with one file, as a browser sends it
+  async upload(path: string, token: string, fields: Record<string, string>, file: { name: string; bytes: Buffer }): Promise<ApiResponse> {
+    const form = new FormData();
+    for (const [name, value] of Object.entries(fields)) form.append(name, value);
+    form.append("file", new Blob([new Uint8Array(file.bytes)]), file.name);
+    const res = await fetch(this.baseUrl + path, { method: "POST", headers: { Authorization: `Bearer ${token}` }, body: form });
+    const text = await res.text();
+    return { status: res.status, body: text ? JSON.parse(text) : null };
+  }
+
+  // Raw response body, for endpoints that serve files
+  async download(path: string, token: string): Promise<{ status: number; contentType: string | null; bytes: Buffer }> {
+    const res = await fetch(this.baseUrl + path, { headers: { Authorization: `Bearer ${token}` } });
+    return { status: res.status, contentType: res.headers.get("content-type"), bytes: Buffer.from(await res.arrayBuffer()) };
+  }
+
+  // One driver's turns in a voice conversation through POST /api/ai
+  conversation(as: TestDriver) {
+    return {
+      say: async (text: string) => {
+        const res = await this.request("POST", "/api/ai", as.token, { text });
+        if (res.status !== 200) throw new Error(`POST /api/ai "${text}" failed with ${res.status}: ${JSON.stringify(res.body)}`);
+        return res.body;
+      },
+    };
+  }
+}
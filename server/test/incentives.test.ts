@@ -0,0 +1,207 @@
+// server/test/incentives.test.ts
+// The penalty and reward rules engine: rules booked on order lifecycle events, asking by voice
+// why a penalty was applied and contesting it, and admins resolving appeals and managing rules.
+import assert from "node:assert/strict";
+import { after, before, beforeEach, test } from "node:test";
+import { Harness, TestDriver } from "./harness";
+import { seedIncentiveRules } from "../src/incentives/rules";
+
+const h = new Harness();
+
+before(async () => {
+  await h.start();
+  await seedIncentiveRules();
+});
+after(() => h.stop());
+beforeEach(() => h.useLLM(false));
+
+const newOrder = { item: "2 boxes", address: "Flat 12, Shanti Apartments, Kothrud, Pune 411038" };
+const minutesAgo = (n: number) => new Date(Date.now() - n * 60_000).toISOString();
+
+// Rules run on order events after the response is sent, so wait for what they book
+async function records(as: TestDriver, count: number, query = "") {
+  let res = await h.request("GET", `/incentives/records${query}`, as.token);
+  for (let i = 0; i < 50 && res.body.length < count; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    res = await h.request("GET", `/incentives/records${query}`, as.token);
+  }
+  return res.body;
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 200));
+
+async function setStatus(as: TestDriver, id: string, status: string) {
+  const res = await h.request("PUT", `/orders/modify/${id}`, as.token, { status });
+  assert.equal(res.status, 200, JSON.stringify(res.body));
+}
+
+// An order the driver created and took on themselves
+async function ownOrder(me: TestDriver, fields: Record<string, unknown> = {}) {
+  const created = await h.request("POST", "/orders/create", me.token, { ...newOrder, ...fields });
+  await h.request("PUT", `/orders/modify/${created.body.id}`, me.token, { assignedTo: me.id });
+  return created.body.id as string;
+}
+
+// An order an admin offered to the driver, accepted by them
+async function acceptedOrder(admin: TestDriver, me: TestDriver) {
+  const created = await h.request("POST", "/orders/create", admin.token, newOrder);
+  await h.request("PUT", `/orders/modify/${created.body.id}`, admin.token, { assignedTo: me.id });
+  assert.equal((await h.request("POST", `/orders/${created.body.id}/accept`, me.token)).status, 200);
+  return created.body.id as string;
+}
+
+test("a late pickup is penalised, explained by voice, contested and refunded on appeal", async () => {
+  const admin = await h.createDriver({ role: "admin" });
+  const me = await h.createDriver();
+  const id = await ownOrder(me, { pickupTime: minutesAgo(45) });
+  await setStatus(me, id, "picked_up");
+
+  const [penalty] = await records(me, 1);
+  assert.equal(penalty.type, "penalty");
+  assert.equal(penalty.amount, 50);
+  assert.match(penalty.reason, /^Pickup more than 30 minutes late: picked up 4[56] min late \(ORD-/);
+  assert.equal(penalty.appealStatus, "none");
+  assert.ok(penalty.ruleId);
+
+  const chat = h.conversation(me);
+  let res = await chat.say("Penalty kyun laga?");
+  assert.equal(res.intent, "penalty_reason");
+  assert.match(res.reply, /₹50 ki penalty lagi, wajah: Pickup more than 30 minutes late/);
+  assert.match(res.reply, /penalty contest karo/);
+
+  res = await chat.say("Ye penalty galat hai, contest karna hai, customer late tha");
+  assert.equal(res.intent, "contest_penalty");
+  assert.equal(res.appealStatus, "pending");
+  assert.match(res.reply, /^Aapki appeal darj ho gayi: ₹50 ki penalty/);
+  res = await chat.say("Penalty contest karo");
+  assert.match(res.reply, /abhi jaanch mein hai/, "a second appeal is not filed");
+
+  const pending = await h.request("GET", "/incentives/records?appeal=pending", admin.token);
+  const appeal = pending.body.find((r: any) => r.id === penalty.id).appeal;
+  assert.equal(appeal.reason, "Ye penalty galat hai, contest karna hai, customer late tha");
+
+  assert.equal((await h.request("POST", `/incentives/records/${penalty.id}/appeal/resolve`, me.token, { decision: "accepted" })).status, 403);
+  const resolved = await h.request("POST", `/incentives/records/${penalty.id}/appeal/resolve`, admin.token, { decision: "accepted" });
+  assert.equal(resolved.status, 200);
+  assert.equal(resolved.body.appealStatus, "accepted");
+  assert.equal(resolved.body.counted, false);
+  assert.equal((await h.request("POST", `/incentives/records/${penalty.id}/appeal/resolve`, admin.token, { decision: "rejected" })).status, 409);
+
+  const summary = await h.request("GET", `/ledger/${me.id}/summary`, me.token);
+  assert.equal(summary.body.buckets[0].totals.penalty, 0, "an accepted appeal takes the penalty out of the totals");
+  res = await chat.say("Penalty kyun laga?");
+  assert.match(res.reply, /appeal maan li gayi/);
+});
+
+test("an on-time pickup and cancelling your own order are not penalised", async () => {
+  const me = await h.createDriver();
+  const onTime = await ownOrder(me, { pickupTime: minutesAgo(10) });
+  await setStatus(me, onTime, "picked_up");
+  const own = await ownOrder(me);
+  await setStatus(me, own, "cancelled");
+  await settle();
+  assert.deepEqual(await records(me, 0), []);
+
+  const res = await h.conversation(me).say("Penalty kyun laga?");
+  assert.equal(res.reply, "Aap par koi penalty nahi lagi.");
+});
+
+test("cancelling an accepted order is penalised and a rejected appeal keeps it", async () => {
+  const admin = await h.createDriver({ role: "admin" });
+  const me = await h.createDriver();
+  const other = await h.createDriver();
+  const id = await acceptedOrder(admin, me);
+  await setStatus(me, id, "cancelled");
+
+  const [penalty] = await records(me, 1);
+  assert.equal(penalty.amount, 100);
+  assert.match(penalty.reason, /^Cancelled an order after accepting it \(ORD-/);
+
+  assert.equal((await h.request("POST", `/incentives/records/${penalty.id}/appeal`, other.token, { reason: "Not me" })).status, 404);
+  const invalid = await h.request("POST", `/incentives/records/${penalty.id}/appeal`, me.token, {});
+  assert.equal(invalid.body.details[0].path, "body.reason");
+  const appealed = await h.request("POST", `/incentives/records/${penalty.id}/appeal`, me.token, { reason: "Gaadi kharab ho gayi thi" });
+  assert.equal(appealed.body.appealStatus, "pending");
+  assert.equal((await h.request("POST", `/incentives/records/${penalty.id}/appeal`, me.token, { reason: "Again" })).status, 409);
+
+  const rejected = await h.request("POST", `/incentives/records/${penalty.id}/appeal/resolve`, admin.token, {
+    decision: "rejected",
+    note: "Gaadi kharab ho to support ko pehle batayein.",
+  });
+  assert.equal(rejected.body.appeal.note, "Gaadi kharab ho to support ko pehle batayein.");
+  assert.equal(rejected.body.counted, true);
+  const summary = await h.request("GET", `/ledger/${me.id}/summary`, me.token);
+  assert.equal(summary.body.buckets[0].totals.penalty, 100);
+  const entries = await h.request("GET", `/ledger/${me.id}?type=penalty&limit=5`, me.token);
+  assert.deepEqual(entries.body.map((e: any) => e.amount), [100]);
+  const badLimit = await h.request("GET", `/ledger/${me.id}?limit=all`, me.token);
+  assert.equal(badLimit.body.details[0].path, "query.limit");
+
+  const res = await h.conversation(me).say("Penalty kyun laga?");
+  assert.match(res.reply, /appeal nahi maani gayi\. Gaadi kharab ho to support ko pehle batayein\.$/);
+});
+
+test("customer ratings book a reward or a penalty once", async () => {
+  const admin = await h.createDriver({ role: "admin" });
+  const me = await h.createDriver();
+  const delivered = async () => {
+    const id = await acceptedOrder(admin, me);
+    await setStatus(me, id, "picked_up");
+    await setStatus(me, id, "delivered");
+    return id;
+  };
+
+  const good = await delivered();
+  assert.equal((await h.request("POST", `/orders/${good}/rating`, me.token, { rating: 5 })).status, 403, "drivers cannot rate themselves");
+  assert.equal((await h.request("POST", `/orders/${good}/rating`, admin.token, { rating: 6 })).status, 400);
+  const rated = await h.request("POST", `/orders/${good}/rating`, admin.token, { rating: 5 });
+  assert.equal(rated.body.rating, 5);
+  assert.equal((await h.request("POST", `/orders/${good}/rating`, admin.token, { rating: 4 })).status, 409);
+
+  const bad = await delivered();
+  await h.request("POST", `/orders/${bad}/rating`, admin.token, { rating: 2 });
+
+  const booked = await records(me, 2);
+  assert.deepEqual(booked.map((r: any) => [r.type, r.amount]).sort(), [["penalty", 50], ["reward", 20]]);
+  assert.match(booked.find((r: any) => r.type === "reward").reason, /^5 star customer rating: rated 5\/5/);
+
+  const pending = await acceptedOrder(admin, me);
+  assert.equal((await h.request("POST", `/orders/${pending}/rating`, admin.token, { rating: 5 })).status, 409, "only delivered orders");
+});
+
+test("admins manage the rules; a streak reward follows the configured count", async () => {
+  const admin = await h.createDriver({ role: "admin" });
+  const me = await h.createDriver();
+
+  const rules = await h.request("GET", "/incentives/rules", me.token);
+  assert.equal(rules.body.length, 5);
+  const streak = rules.body.find((r: any) => r.kind === "delivery_streak");
+  const late = rules.body.find((r: any) => r.kind === "late_pickup");
+
+  assert.equal((await h.request("PUT", `/incentives/rules/${streak.id}`, me.token, { threshold: 2 })).status, 403);
+  const missing = await h.request("POST", "/incentives/rules", admin.token, { name: "Late", kind: "late_pickup", type: "penalty", amount: 10 });
+  assert.equal(missing.status, 400);
+  assert.equal(missing.body.details[0].path, "body.threshold");
+  const stars = await h.request("PUT", `/incentives/rules/${late.id}`, admin.token, { kind: "rating_below" });
+  assert.equal(stars.status, 400, "30 is no star rating");
+
+  assert.equal((await h.request("PUT", `/incentives/rules/${streak.id}`, admin.token, { threshold: 2, name: "2 deliveries in a row" })).body.threshold, 2);
+  assert.equal((await h.request("PUT", `/incentives/rules/${late.id}`, admin.token, { active: false })).body.active, false);
+
+  for (let i = 0; i < 2; i++) {
+    const id = await ownOrder(me, { pickupTime: minutesAgo(60) });
+    await setStatus(me, id, "picked_up");
+    await setStatus(me, id, "delivered");
+  }
+  const [reward] = await records(me, 1);
+  assert.equal(reward.type, "reward");
+  assert.equal(reward.amount, 100);
+  assert.match(reward.reason, /^2 deliveries in a row \(ORD-/);
+  await settle();
+  assert.equal((await records(me, 1)).length, 1, "the inactive late pickup rule books nothing");
+
+  const created = await h.request("POST", "/incentives/rules", admin.token, { name: "Any rating", kind: "rating_at_least", type: "reward", amount: 5, threshold: 1 });
+  assert.equal(created.status, 201);
+  assert.equal((await h.request("DELETE", `/incentives/rules/${created.body.id}`, admin.token)).status, 200);
+  assert.equal((await h.request("DELETE", `/incentives/rules/${created.body.id}`, admin.token)).status, 404);
+});
@@ -0,0 +1,159 @@
+// server/test/incidents.test.ts
+// Emergency SOS: the voice confirm/withdraw loop, the confirmation window and escalation until
+// ops acknowledge, with recording notifiers in place of SMS, webhook and dashboard.
+import assert from "node:assert/strict";
+import { after, before, beforeEach, test } from "node:test";
+import { Harness } from "./harness";
+import { CONFIRM_WINDOW_MS, ESCALATION_LEVELS, processDueIncidents } from "../src/incidents/incidents";
+import { IncidentNotice, IncidentNotifier, setNotifiers } from "../src/incidents/notifiers";
+import Incident from "../src/models/Incident";
+import Order from "../src/models/Order";
+import { NotifyChannel } from "../src/models/Incident";
+
+const h = new Harness();
+const sent: { channel: NotifyChannel; notice: IncidentNotice }[] = [];
+const recorder = (channel: NotifyChannel): IncidentNotifier => ({
+  channel,
+  async notify(notice) {
+    sent.push({ channel, notice });
+  },
+});
+
+before(async () => {
+  await h.start();
+  setNotifiers([recorder("sms"), recorder("webhook"), recorder("dashboard")]);
+});
+after(() => h.stop());
+beforeEach(() => {
+  h.useLLM(false);
+  sent.length = 0;
+});
+
+const later = (ms: number) => new Date(Date.now() + ms + 1000);
+
+test("a spoken SOS waits for confirmation and a false trigger can be withdrawn", async () => {
+  const me = await h.createDriver();
+  const chat = h.conversation(me);
+
+  let res = await chat.say("Sahayata");
+  assert.equal(res.intent, "emergency");
+  assert.equal(res.action, "sos_confirm");
+  assert.match(res.reply, /^Kya aapko emergency madad chahiye\? .* \d+ second mein jawab na mila to madad bhej denge\.$/);
+  const pending = await Incident.findById(res.incidentId);
+  assert.equal(pending?.status, "pending_confirmation");
+  assert.equal(pending?.triggeredVia, "voice");
+
+  res = await chat.say("nahi, galti se dab gaya");
+  assert.equal(res.action, "sos_cancelled");
+  assert.equal(res.reply, "Theek hai, emergency alert wapas le liya hai. Dhyaan se chalaiye.");
+  const cancelled = await Incident.findById(res.incidentId);
+  assert.equal(cancelled?.status, "cancelled");
+  assert.deepEqual(
+    cancelled?.transcript.filter((l) => l.role === "user").map((l) => l.content),
+    ["Sahayata", "nahi, galti se dab gaya"]
+  );
+  assert.equal(sent.length, 0, "nobody is alerted about a withdrawn trigger");
+});
+
+test("a negated distress word withdraws the SOS instead of confirming it", async () => {
+  const me = await h.createDriver();
+  const chat = h.conversation(me);
+  for (const answer of ["No, I'm okay, no help needed", "madad nahi chahiye"]) {
+    await chat.say("Sahayata");
+    const res = await chat.say(answer);
+    assert.equal(res.action, "sos_cancelled", answer);
+  }
+  assert.equal(sent.length, 0);
+});
+
+test("SOS words raise an SOS in any sentence, also in the middle of an order dialog", async () => {
+  const me = await h.createDriver();
+  const chat = h.conversation(me);
+
+  let res = await chat.say("Create order 2 boxes");
+  assert.equal(res.intent, "create_order");
+  res = await chat.say("Emergency! road pe accident ho gaya");
+  assert.equal(res.intent, "emergency");
+  assert.equal(res.action, "sos_confirm");
+  res = await chat.say("nahi, galti se");
+  assert.equal(res.action, "sos_cancelled");
+
+  for (const text of ["SOS, ORD-ABC123 kahan hai", "Bachao, mujhe penalty lagi", "sos yaad dila"]) {
+    res = await chat.say(text);
+    assert.equal(res.action, "sos_confirm", text);
+    await chat.say("nahi");
+  }
+  assert.equal(await Incident.countDocuments({ driverId: me.id }), 4);
+});
+
+test("a confirmed SOS carries the active order and location and alerts the first level", async () => {
+  const me = await h.createDriver();
+  await Order.create({ item: "Atta", trackingId: "ORD-SOS001", status: "picked_up", assignedTo: me.id, metadata: { createdBy: me.id } });
+
+  let res = await h.request("POST", "/api/ai", me.token, { text: "Emergency! accident ho gaya", location: { lat: 18.5074, lng: 73.8077, accuracy: 12 } });
+  assert.equal(res.body.action, "sos_confirm");
+  res = await h.request("POST", "/api/ai", me.token, { text: "haan jaldi" });
+  assert.equal(res.body.action, "sos_raised");
+  assert.equal(res.body.reply, "Aapne Sahayata button dabaya hai. Kripya shaant rahiye, madad ke liye call kiya ja raha hai.");
+
+  const incident = await h.request("GET", `/incidents/${res.body.incidentId}`, me.token);
+  assert.equal(incident.body.status, "open");
+  assert.equal(incident.body.trackingId, "ORD-SOS001");
+  assert.deepEqual(incident.body.location && [incident.body.location.lat, incident.body.location.source], [18.5074, "device"]);
+  assert.equal(incident.body.level, 1);
+  assert.deepEqual(
+    sent.map((s) => s.channel).sort(),
+    [...ESCALATION_LEVELS[0].channels].sort()
+  );
+  assert.match(sent[0].notice.text, /^SOS from Test Driver .*, order ORD-SOS001, at https:\/\/maps\.google\.com\/\?q=18\.50740,73\.80770\. Said: "Emergency! accident ho gaya" \/ "haan jaldi"\.$/);
+});
+
+test("an unanswered SOS opens by itself and escalates until acknowledged", async () => {
+  const me = await h.createDriver();
+  const admin = await h.createDriver({ role: "admin" });
+
+  const raised = await h.request("POST", "/incidents", me.token, { message: "Koi peecha kar raha hai" });
+  assert.equal(raised.body.status, "pending_confirmation");
+
+  await processDueIncidents(later(CONFIRM_WINDOW_MS));
+  let incident = await Incident.findById(raised.body.id);
+  assert.equal(incident?.status, "open");
+  assert.equal(incident?.autoConfirmed, true);
+  assert.equal(incident?.level, 1);
+
+  await processDueIncidents(incident!.nextEscalationAt!);
+  incident = await Incident.findById(raised.body.id);
+  assert.equal(incident?.level, 2);
+  assert.ok(sent.some((s) => s.channel === "sms" && s.notice.reason === "escalated"));
+
+  const ack = await h.request("POST", `/incidents/${raised.body.id}/acknowledge`, admin.token);
+  assert.equal(ack.status, 200);
+  assert.equal(ack.body.status, "acknowledged");
+  assert.equal(ack.body.nextEscalationAt, null);
+
+  const before = sent.length;
+  await processDueIncidents(later(10 * ESCALATION_LEVELS[ESCALATION_LEVELS.length - 1].afterMs));
+  assert.equal(sent.length, before, "no escalation after acknowledgement");
+
+  const resolved = await h.request("POST", `/incidents/${raised.body.id}/resolve`, admin.token, { resolution: "Police reached the driver" });
+  assert.equal(resolved.body.status, "resolved");
+});
+
+test("incidents are private to their driver and closed ones cannot change", async () => {
+  const me = await h.createDriver();
+  const other = await h.createDriver();
+  const admin = await h.createDriver({ role: "admin" });
+
+  const raised = await h.request("POST", "/incidents", me.token, { confirmed: true });
+  assert.equal(raised.body.status, "open");
+  assert.equal((await h.request("GET", `/incidents/${raised.body.id}`, other.token)).status, 404);
+  assert.equal((await h.request("POST", `/incidents/${raised.body.id}/acknowledge`, me.token)).status, 403);
+
+  const cancelled = await h.request("POST", `/incidents/${raised.body.id}/cancel`, me.token, { reason: "False alarm" });
+  assert.equal(cancelled.body.status, "cancelled");
+  assert.ok(sent.some((s) => s.notice.reason === "withdrawn"), "whoever was alerted hears it is off");
+
+  const ack = await h.request("POST", `/incidents/${raised.body.id}/acknowledge`, admin.token);
+  assert.equal(ack.status, 409);
+  assert.equal(ack.body.status, "cancelled");
+});
@@ -0,0 +1,48 @@
+// server/test/kyc.test.ts
+// Golden KYC checks: what a driver reads out for each document and the value that gets saved,
+// or the reason it is refused.
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { KycCheck, checkAadhaar, checkLicenceNumber, checkPan, checkVehicleNumber, verhoeffValid } from "../src/onboarding/kyc";
+
+const NOW = new Date("2026-06-01T00:00:00Z");
+
+const ACCEPTED: Array<[label: string, check: (text: string) => KycCheck, text: string, value: string]> = [
+  ["vehicle", checkVehicleNumber, "MH 12 AB 1234", "MH12AB1234"],
+  ["vehicle", checkVehicleNumber, "gaadi number hai mh 2 ab 12", "MH02AB0012"],
+  ["vehicle", checkVehicleNumber, "22 BH 4567 AA", "22BH4567AA"],
+  ["licence", (t) => checkLicenceNumber(t, NOW), "MH12 2015 0012345", "MH1220150012345"],
+  ["pan", checkPan, "mera PAN card number hai abcpe 1234 f", "ABCPE1234F"],
+  ["aadhaar", checkAadhaar, "4991 8064 5127", "XXXX XXXX 5127"],
+  ["aadhaar", checkAadhaar, "four nine nine one eight zero six four five one two seven", "XXXX XXXX 5127"],
+];
+
+for (const [label, check, text, value] of ACCEPTED) {
+  test(`${label} "${text}" is saved as ${value}`, () => {
+    assert.deepEqual(check(text), { ok: true, value });
+  });
+}
+
+const REFUSED: Array<[label: string, check: (text: string) => KycCheck, text: string, error: RegExp]> = [
+  ["vehicle", checkVehicleNumber, "XX 12 AB 1234", /"XX" kisi state ka code nahi hai/],
+  ["vehicle", checkVehicleNumber, "pata nahi", /Gaadi number samajh nahi aaya/],
+  ["licence", (t) => checkLicenceNumber(t, NOW), "MH12 2031 0012345", /saal 2031 sahi nahi lagta/],
+  ["licence", (t) => checkLicenceNumber(t, NOW), "MH12 2015 12345", /15 akshar/],
+  ["pan", checkPan, "ABCCE1234F", /chautha akshar P/],
+  ["aadhaar", checkAadhaar, "4991 8064 5128", /sahi nahi hai/],
+  ["aadhaar", checkAadhaar, "1234 5678 9012", /sahi nahi hai/],
+  ["aadhaar", checkAadhaar, "4991 8064", /12 ank/],
+];
+
+for (const [label, check, text, error] of REFUSED) {
+  test(`${label} "${text}" is refused`, () => {
+    const result = check(text);
+    assert.equal(result.ok, false);
+    assert.match((result as { error: string }).error, error);
+  });
+}
+
+test("verhoeffValid checks the last digit", () => {
+  assert.equal(verhoeffValid("2363"), true);
+  assert.equal(verhoeffValid("2364"), false);
+});
@@ -0,0 +1,182 @@
+// server/test/learning.test.ts
+// Learning modules and guides: stepping through by voice, pausing and resuming from saved
+// progress, spoken quizzes, certificates, badges and rewards, and the admin-managed catalogue
+// behind /learning.
+import assert from "node:assert/strict";
+import { after, before, beforeEach, test } from "node:test";
+import { Harness } from "./harness";
+import { startLearningCatalogue } from "../src/learning/learning";
+
+const h = new Harness();
+
+before(async () => {
+  await h.start();
+  await startLearningCatalogue();
+});
+after(() => h.stop());
+beforeEach(() => h.useLLM(false));
+
+test("a module is stepped through by voice, paused and resumed to completion", async () => {
+  const me = await h.createDriver();
+  const chat = h.conversation(me);
+
+  let res = await chat.say("Insurance sikhaye");
+  assert.equal(res.intent, "learning");
+  assert.equal(res.action, "learning_step");
+  assert.deepEqual(res.learning, { slug: "insurance", step: 1, total: 3 });
+  assert.match(res.reply, /^Vehicle insurance ki basic baatein\. .* Isme 3 step hain\. Step 1\/3: /);
+
+  res = await chat.say("agla step");
+  assert.deepEqual(res.learning, { slug: "insurance", step: 2, total: 3 });
+  assert.match(res.reply, /^Step 2\/3: Har saal renew karna zaroori hai\./);
+  res = await chat.say("phir se bolo");
+  assert.equal(res.learning.step, 2, "repeating stays on the same step");
+
+  res = await chat.say("bas");
+  assert.equal(res.action, "learning_paused");
+
+  let list = await h.request("GET", "/learning", me.token);
+  const insurance = list.body.find((c: any) => c.slug === "insurance");
+  assert.equal(insurance.progress.step, 1);
+  assert.equal(insurance.progress.completed, false);
+
+  res = await chat.say("Bima ke baare mein batao");
+  assert.equal(res.learning.step, 2);
+  assert.match(res.reply, /step 2 tak pahunche the/);
+  res = await chat.say("agla");
+  assert.equal(res.learning.step, 3);
+  res = await chat.say("next");
+  assert.equal(res.action, "learning_quiz", "the quiz follows the last step");
+  assert.match(res.reply, /^Ab 2 sawal ka chhota quiz\. Sawal 1\/2: .* 1\) Har saal 2\) Paanch saal mein ek baar/);
+
+  list = await h.request("GET", "/learning", me.token);
+  assert.equal(list.body.find((c: any) => c.slug === "insurance").progress.stepsDone, true);
+  assert.equal(list.body.find((c: any) => c.slug === "insurance").progress.completed, false, "not before the quiz is passed");
+});
+
+test("the quiz is graded from spoken answers and passing it completes the module", async () => {
+  const me = await h.createDriver();
+  const chat = h.conversation(me);
+
+  await chat.say("Insurance sikhaye");
+  await chat.say("agla");
+  await chat.say("agla");
+  let res = await chat.say("agla");
+  assert.equal(res.action, "learning_quiz");
+
+  res = await chat.say("har saal");
+  assert.match(res.reply, /^Sahi jawab! Sawal 2\/2/);
+  res = await chat.say("kuch pata nahi");
+  assert.equal(res.learning.question, 2, "an unclear answer is asked again");
+  res = await chat.say("pehla");
+  assert.equal(res.action, "learning_quiz_failed");
+  assert.match(res.reply, /Galat\. Sahi jawab hai: Bade kharche se\. Aapka score 50% hai, paas hone ke liye 60% chahiye/);
+
+  res = await chat.say("Insurance quiz do");
+  assert.equal(res.action, "learning_quiz", "asking again goes straight to the quiz");
+  res = await chat.say("option 1");
+  res = await chat.say("bade kharche se");
+  assert.equal(res.action, "learning_complete");
+  assert.deepEqual(res.learning, { slug: "insurance", score: 100, passed: true });
+  assert.match(res.reply, /Aapko "Insurance jaankar" badge mila\. Aapka certificate number CERT-[0-9A-F]{8} hai\./);
+
+  const report = await h.request("GET", `/drivers/${me.id}/learning`, me.token);
+  const insurance = report.body.items.find((i: any) => i.slug === "insurance");
+  assert.equal(report.body.completed, 1);
+  assert.equal(insurance.status, "completed");
+  assert.equal(insurance.quizScore, 100);
+  assert.equal(insurance.quizAttempts, 2);
+  assert.equal(insurance.certificateId, res.award.certificateId);
+  assert.equal(insurance.badge.en, "Insurance Aware");
+  assert.equal(report.body.items.find((i: any) => i.slug === "challan").status, "not_started");
+
+  const other = await h.createDriver();
+  assert.equal((await h.request("GET", `/drivers/${me.id}/learning`, other.token)).status, 403);
+});
+
+test("anything but a step command ends the walk-through and is handled as usual", async () => {
+  const me = await h.createDriver();
+  const chat = h.conversation(me);
+
+  await chat.say("Challan kaise bharein?");
+  const res = await chat.say("Aaj koi penalty lagi?");
+  assert.equal(res.intent, "penalty");
+
+  const topics = await chat.say("Kuch naya sikhaye");
+  assert.equal(topics.action, "learning_topics");
+  assert.match(topics.reply, /Challan/);
+});
+
+test("admins manage the catalogue and voice matching follows it", async () => {
+  const admin = await h.createDriver({ role: "admin" });
+  const me = await h.createDriver();
+  const content = {
+    slug: "fuel-saving",
+    kind: "guide",
+    title: { hinglish: "Petrol kaise bachayein", en: "Saving fuel" },
+    keywords: ["petrol", "fuel"],
+    steps: [{ text: { hinglish: "Tyre mein hawa poori rakhein." } }, { text: { hinglish: "Signal par engine band karein." } }],
+  };
+
+  assert.equal((await h.request("POST", "/learning", me.token, content)).status, 403);
+  const invalid = await h.request("POST", "/learning", admin.token, { ...content, title: {} });
+  assert.equal(invalid.status, 400);
+  assert.equal(invalid.body.details[0].path, "body.title");
+
+  const created = await h.request("POST", "/learning", admin.token, content);
+  assert.equal(created.status, 201);
+  assert.equal((await h.request("POST", "/learning", admin.token, content)).status, 409);
+
+  const chat = h.conversation(me);
+  let res = await chat.say("Petrol bachane ka tarika batao");
+  assert.deepEqual(res.learning, { slug: "fuel-saving", step: 1, total: 2 });
+
+  const hidden = await h.request("PUT", `/learning/${created.body.id}`, admin.token, { published: false });
+  assert.equal(hidden.body.published, false);
+  assert.equal((await h.request("GET", `/learning/${created.body.id}`, me.token)).status, 404);
+  assert.equal((await h.request("GET", `/learning/${created.body.id}`, admin.token)).status, 200);
+  res = await chat.say("Petrol bachane ka tarika batao");
+  assert.notEqual(res.intent, "learning", "unpublished content is not matched");
+
+  assert.equal((await h.request("DELETE", `/learning/${created.body.id}`, admin.token)).status, 200);
+  assert.equal((await h.request("GET", `/learning/${created.body.id}`, admin.token)).status, 404);
+});
+
+test("a module's reward is credited once and its badge shows in the earnings summary", async () => {
+  const admin = await h.createDriver({ role: "admin" });
+  const me = await h.createDriver();
+  const created = await h.request("POST", "/learning", admin.token, {
+    slug: "night-driving",
+    kind: "module",
+    title: { hinglish: "Raat mein gaadi chalana", en: "Driving at night" },
+    keywords: ["raat"],
+    steps: [{ text: { hinglish: "Headlight saaf rakhein." } }],
+    badge: { hinglish: "Raat ka raja", en: "Night rider" },
+    reward: 50,
+  });
+  assert.equal(created.status, 201);
+  const invalid = await h.request("POST", "/learning", admin.token, {
+    slug: "bad-quiz",
+    kind: "module",
+    title: { en: "Bad quiz" },
+    steps: [{ text: { en: "One" } }],
+    quiz: [{ question: { en: "Which?" }, options: [{ en: "A" }, { en: "B" }], answer: 2 }],
+  });
+  assert.equal(invalid.body.details[0].path, "body.quiz.0.answer");
+
+  const chat = h.conversation(me);
+  await chat.say("Raat mein gaadi chalana sikhaye");
+  let res = await chat.say("agla");
+  assert.equal(res.action, "learning_complete");
+  assert.match(res.reply, /₹50 ka reward aapki kamai mein jod diya gaya/);
+
+  await chat.say("Raat mein gaadi chalana sikhaye");
+  res = await chat.say("agla");
+  assert.equal(res.award, null, "finishing again earns nothing more");
+
+  const summary = await h.request("GET", `/ledger/${me.id}/summary`, me.token);
+  assert.equal(summary.body.buckets[0].totals.reward, 50);
+  assert.deepEqual(summary.body.badges.map((b: any) => b.badge.en), ["Night rider"]);
+  res = await chat.say("Mujhe koi reward mila?");
+  assert.match(res.reply, /Learning: Driving at night \(₹50\)\. Aapke badges: Raat ka raja\./);
+});
@@ -0,0 +1,78 @@
+// server/test/onboarding.test.ts
+// Voice onboarding: the form asked field by field, "galat hai, dobara", pausing and resuming
+// from saved progress, and the status endpoint.
+import assert from "node:assert/strict";
+import { after, before, beforeEach, test } from "node:test";
+import { Harness } from "./harness";
+import Driver from "../src/models/Driver";
+
+const h = new Harness();
+
+before(() => h.start());
+after(() => h.stop());
+beforeEach(() => h.useLLM(false));
+
+test("the form is filled by voice, corrected, paused and resumed to completion", async () => {
+  const me = await h.createDriver();
+  const chat = h.conversation(me);
+
+  let res = await chat.say("Onboarding shuru karo");
+  assert.equal(res.intent, "onboarding");
+  assert.equal(res.pendingSlot, "name");
+  assert.match(res.reply, /^Chaliye onboarding shuru karte hain\./);
+
+  res = await chat.say("Mera naam ravi kumar hai");
+  assert.equal(res.pendingSlot, "phone");
+  assert.match(res.reply, /^Naam Ravi Kumar save ho gaya\./);
+
+  res = await chat.say("yahi number");
+  assert.equal(res.pendingSlot, "vehicleNumber");
+
+  res = await chat.say("MH 12 AB 1234");
+  assert.match(res.reply, /^Gaadi number M H 1 2 A B 1 2 3 4 save ho gaya\./);
+  res = await chat.say("galat hai, dobara");
+  assert.equal(res.pendingSlot, "vehicleNumber");
+  assert.match(res.reply, /^Theek hai, Gaadi number dobara lete hain\./);
+  res = await chat.say("MH 14 CD 5678");
+  assert.equal(res.pendingSlot, "licenceNumber");
+
+  res = await chat.say("baad mein");
+  assert.equal(res.action, "onboarding_paused");
+
+  let status = await h.request("GET", `/drivers/${me.id}/onboarding`, me.token);
+  assert.equal(status.body.status, "in_progress");
+  assert.equal(status.body.done, 3);
+  assert.equal(status.body.next, "licenceNumber");
+  assert.equal(status.body.fields.find((f: any) => f.field === "phone").value, me.driver.phone);
+  assert.equal(status.body.fields.find((f: any) => f.field === "vehicleNumber").value, "MH14CD5678");
+
+  res = await chat.say("Onboarding shuru karo");
+  assert.equal(res.pendingSlot, "licenceNumber");
+  assert.match(res.reply, /6 mein se 3 ho gaye/);
+
+  res = await chat.say("MH12 2015 0012345");
+  assert.equal(res.pendingSlot, "pan");
+  res = await chat.say("ABCCE1234F");
+  assert.equal(res.pendingSlot, "pan", "a refused answer is asked again");
+  assert.match(res.reply, /chautha akshar P/);
+  res = await chat.say("ABCPE1234F");
+  assert.equal(res.pendingSlot, "aadhaar");
+  res = await chat.say("4991 8064 5127");
+  assert.equal(res.action, "onboarding_complete");
+
+  status = await h.request("GET", `/drivers/${me.id}/onboarding`, me.token);
+  assert.equal(status.body.status, "completed");
+  assert.equal(status.body.next, null);
+  assert.equal(status.body.fields.find((f: any) => f.field === "aadhaar").value, "XXXX XXXX 5127", "only the masked Aadhaar is kept");
+  assert.equal((await Driver.findById(me.id))?.name, "Ravi Kumar");
+});
+
+test("onboarding status is private to the driver", async () => {
+  const me = await h.createDriver();
+  const other = await h.createDriver();
+
+  const status = await h.request("GET", `/drivers/${me.id}/onboarding`, me.token);
+  assert.equal(status.body.status, "not_started");
+  assert.equal(status.body.next, "name");
+  assert.equal((await h.request("GET", `/drivers/${me.id}/onboarding`, other.token)).status, 403);
+});
@@ -0,0 +1,176 @@
+// server/test/orderRoutes.test.ts
+// The /orders REST API: validation, the status lifecycle, ownership and search.
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { Harness } from "./harness";
+
+const h = new Harness();
+before(() => h.start());
+after(() => h.stop());
+
+const newOrder = {
+  item: "2 boxes",
+  customerName: "Suresh Kumar",
+  address: "Flat 12, Shanti Apartments, Kothrud, Pune 411038",
+};
+
+test("requests without a session are rejected", async () => {
+  const res = await h.request("GET", "/orders/list");
+  assert.equal(res.status, 401);
+});
+
+test("create returns the order with a tracking id and a structured address", async () => {
+  const me = await h.createDriver();
+  const res = await h.request("POST", "/orders/create", me.token, newOrder);
+  assert.equal(res.status, 200);
+  assert.match(res.body.trackingId, /^ORD-/);
+  assert.equal(res.body.status, "created");
+  assert.equal(res.body.qty, 1);
+  assert.equal(res.body.address.city, "Pune");
+  assert.equal(res.body.address.pincode, "411038");
+  assert.equal(res.body.address.formatted, "Flat 12, Shanti Apartments, Kothrud, Pune, 411038");
+});
+
+test("create rejects unknown fields and addresses whose PIN code is in another city", async () => {
+  const me = await h.createDriver();
+  let res = await h.request("POST", "/orders/create", me.token, { ...newOrder, colour: "red" });
+  assert.equal(res.status, 400);
+  assert.equal(res.body.error, "Invalid request");
+
+  res = await h.request("POST", "/orders/create", me.token, { ...newOrder, address: "Flat 12, Kothrud, Pune 400050" });
+  assert.equal(res.status, 400);
+  assert.deepEqual(res.body.details, [{ path: "body.address", message: "PIN code 400050 is in Mumbai, not Pune." }]);
+});
+
+test("only admins set the fare and expenses an order books on delivery", async () => {
+  const admin = await h.createDriver({ role: "admin" });
+  const me = await h.createDriver();
+  let res = await h.request("POST", "/orders/create", me.token, { ...newOrder, amount: 5000 });
+  assert.equal(res.status, 403);
+  const created = await h.request("POST", "/orders/create", me.token, newOrder);
+  res = await h.request("PUT", `/orders/modify/${created.body.id}`, me.token, { expenses: 0 });
+  assert.equal(res.status, 403);
+  assert.equal(res.body.error, "Only admins can set an order's expenses");
+
+  res = await h.request("POST", "/orders/create", admin.token, { ...newOrder, amount: 250 });
+  assert.equal(res.body.amount, 250);
+  res = await h.request("PUT", `/orders/modify/${res.body.id}`, admin.token, { amount: 300, expenses: 40 });
+  assert.deepEqual([res.body.amount, res.body.expenses], [300, 40]);
+  const priced = res.body.id;
+
+  // an order nobody priced books nothing on delivery
+  assert.deepEqual([created.body.amount, created.body.expenses], [null, null]);
+  const deliver = async (id: string) => {
+    for (const status of ["picked_up", "delivered"]) {
+      assert.equal((await h.request("PUT", `/orders/modify/${id}`, me.token, { status })).status, 200);
+    }
+  };
+  await h.request("PUT", `/orders/modify/${created.body.id}`, me.token, { assignedTo: me.id });
+  await deliver(created.body.id);
+  assert.deepEqual((await h.request("GET", `/ledger/${me.id}`, me.token)).body, []);
+
+  await h.request("PUT", `/orders/modify/${priced}`, admin.token, { assignedTo: me.id });
+  await h.request("POST", `/orders/${priced}/accept`, me.token);
+  await deliver(priced);
+  const ledger = await h.request("GET", `/ledger/${me.id}`, me.token);
+  assert.deepEqual(ledger.body.map((e: any) => [e.type, e.amount]).sort(), [["fare", 300], ["fuel", 40]]);
+});
+
+test("create assigns by driver name or id through dispatch", async () => {
+  const me = await h.createDriver();
+  const ramesh = await h.createDriver({ name: `Ramesh ${Date.now()}` });
+  let res = await h.request("POST", "/orders/create", me.token, { ...newOrder, assignedTo: ramesh.driver.name });
+  assert.equal(res.status, 200);
+  assert.equal(res.body.assignedTo, ramesh.id);
+  assert.equal(res.body.assignment, "offered");
+
+  res = await h.request("POST", "/orders/create", me.token, { ...newOrder, assignedTo: me.id });
+  assert.equal(res.body.assignment, "accepted", "assigning yourself accepts it");
+  assert.equal(res.body.status, "assigned");
+
+  res = await h.request("POST", "/orders/create", me.token, { ...newOrder, assignedTo: "Nobody Known" });
+  assert.equal(res.status, 400);
+  assert.deepEqual(res.body.details, [{ path: "body.assignedTo", message: "No driver named Nobody Known." }]);
+});
+
+test("status changes outside the lifecycle return 409 with the allowed next statuses", async () => {
+  const me = await h.createDriver();
+  const created = await h.request("POST", "/orders/create", me.token, newOrder);
+
+  let res = await h.request("PUT", `/orders/modify/${created.body.id}`, me.token, { status: "delivered" });
+  assert.equal(res.status, 409);
+  assert.equal(res.body.from, "created");
+  assert.equal(res.body.to, "delivered");
+  assert.deepEqual(res.body.allowed, ["assigned", "cancelled"]);
+
+  res = await h.request("PUT", `/orders/modify/${created.body.id}`, me.token, { status: "cancelled" });
+  assert.equal(res.status, 200);
+  assert.equal(res.body.status, "cancelled");
+  assert.deepEqual(
+    res.body.statusHistory.map((s: { from: string | null; to: string }) => [s.from, s.to]),
+    [
+      [null, "created"],
+      ["created", "cancelled"],
+    ]
+  );
+});
+
+test("drivers only see their own orders", async () => {
+  const me = await h.createDriver();
+  const other = await h.createDriver();
+  const created = await h.request("POST", "/orders/create", me.token, newOrder);
+
+  assert.equal((await h.request("GET", `/orders/track/${created.body.trackingId}`, me.token)).status, 200);
+  assert.equal((await h.request("GET", `/orders/track/${created.body.trackingId}`, other.token)).status, 404);
+  assert.equal((await h.request("GET", `/orders/${created.body.id}`, other.token)).status, 404);
+  assert.equal((await h.request("DELETE", `/orders/${created.body.id}`, other.token)).status, 404);
+});
+
+test("search filters by status and pages with a cursor", async () => {
+  const me = await h.createDriver();
+  const ids: string[] = [];
+  for (let i = 0; i < 3; i++) ids.push((await h.request("POST", "/orders/create", me.token, newOrder)).body.id);
+  await h.request("PUT", `/orders/modify/${ids[0]}`, me.token, { status: "cancelled" });
+
+  const first = await h.request("GET", "/orders/search?status=created&limit=1", me.token);
+  assert.equal(first.status, 200);
+  assert.deepEqual(
+    first.body.items.map((o: { id: string }) => o.id),
+    [ids[2]]
+  );
+  assert.ok(first.body.nextCursor);
+
+  const second = await h.request("GET", `/orders/search?status=created&limit=1&cursor=${encodeURIComponent(first.body.nextCursor)}`, me.token);
+  assert.deepEqual(
+    second.body.items.map((o: { id: string }) => o.id),
+    [ids[1]]
+  );
+  assert.equal(second.body.nextCursor, null);
+
+  const bad = await h.request("GET", "/orders/search?cursor=nope", me.token);
+  assert.equal(bad.status, 400);
+});
+
+test("delete removes the order", async () => {
+  const me = await h.createDriver();
+  const created = await h.request("POST", "/orders/create", me.token, newOrder);
+  const res = await h.request("DELETE", `/orders/${created.body.id}`, me.token);
+  assert.deepEqual(res.body, { success: true });
+  assert.equal((await h.request("GET", `/orders/${created.body.id}`, me.token)).status, 404);
+});
+
+test("only admins delete an order once it is under way or someone else's", async () => {
+  const admin = await h.createDriver({ role: "admin" });
+  const me = await h.createDriver();
+  const started = await h.request("POST", "/orders/create", me.token, newOrder);
+  await h.request("PUT", `/orders/modify/${started.body.id}`, me.token, { status: "cancelled" });
+  const denied = await h.request("DELETE", `/orders/${started.body.id}`, me.token);
+  assert.equal(denied.status, 403);
+  assert.match(denied.body.error, /cancel it instead/);
+
+  const offered = await h.request("POST", "/orders/create", admin.token, { ...newOrder, assignedTo: me.id });
+  assert.equal((await h.request("DELETE", `/orders/${offered.body.id}`, me.token)).status, 403, "the assignee cannot delete it");
+
+  assert.equal((await h.request("DELETE", `/orders/${started.body.id}`, admin.token)).status, 200);
+  assert.equal((await h.request("DELETE", `/orders/${offered.body.id}`, admin.token)).status, 200);
+});
@@ -0,0 +1,91 @@
+// server/test/parseIntent.test.ts
+// Golden routing table: each utterance must keep reaching the same intent (and tracking ID).
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+process.env.LLM_PROVIDER = "none";
+
+import { parseIntent } from "../src/controllers/aiController";
+import { DEFAULT_LEARNING_CONTENT } from "../src/learning/content";
+import { setLearningCatalogue } from "../src/learning/learning";
+
+// learning topics are matched against the catalogue, normally loaded from MongoDB
+setLearningCatalogue(DEFAULT_LEARNING_CONTENT);
+
+const GOLDEN: Array<[text: string, intent: string, trackingId?: string]> = [
+  // orders
+  ["Create order 2 boxes to Pune", "create_order"],
+  ["I want to order a fridge", "create_order"],
+  ["Naya order banao, 3 bori chawal Kothrud Pune 411038 pe kal 10 baje", "create_order"],
+  ["Mujhe naya order do", "request_order"],
+  ["Give me a new order", "request_order"],
+  ["Accept this order", "accept_order"],
+  ["Haan ye order le lunga", "accept_order"],
+  ["Reject this order", "reject_order"],
+  ["Ye order nahi chahiye", "reject_order"],
+  ["Track order ORD-ABC123", "track_order", "ORD-ABC123"],
+  ["Where is order ORD-ABC123", "track_order", "ORD-ABC123"],
+  ["ORD-ABC123 kahan hai?", "track_order", "ORD-ABC123"],
+  ["What is my next pickup?", "next_pickup"],
+  ["Aaj ka route batao", "plan_route"],
+  ["Show my orders", "list_orders"],
+  ["Aaj ke delivered orders dikhao", "list_orders"],
+  ["Cancel order ORD-ABC123", "cancel_order", "ORD-ABC123"],
+  ["ORD-ABC123 cancel kar do", "cancel_order", "ORD-ABC123"],
+  ["delete order", "cancel_order"],
+  ["Mark order ORD-ABC123 as delivered", "update_status", "ORD-ABC123"],
+  ["ORD-ABC123 picked up", "update_status", "ORD-ABC123"],
+  ["Change order ORD-ABC123 quantity to 5", "update_order"],
+  ["ORD-ABC123 ka pickup shaam 6 baje badlo", "update_order"],
+  ["ORD-ABC123 quantity 5 kar do", "update_order"],
+  ["Update address of order ORD-ABC123 to Pune", "update_address"],
+  // reminders and language
+  ["Remind me at 5pm to call Ramesh", "set_reminder"],
+  ["Kal subah 9 baje yaad dilana ki gaadi service karani hai", "set_reminder"],
+  ["Tamil mein baat karo", "set_language"],
+  ["Speak in English", "set_language"],
+  ["Language auto kar do", "set_language"],
+  // earnings, learning and safety
+  ["Aaj ka kharcha kaat ke kitna kamaya?", "earnings"],
+  ["Iss mahine kitna kamaya?", "earnings"],
+  ["Mera reward kitna hai?", "rewards"],
+  ["Aaj koi penalty lagi?", "penalty"],
+  ["Penalty kyun laga?", "penalty_reason"],
+  ["ORD-ABC123 pe penalty kis liye lagi?", "penalty_reason"],
+  ["Ye penalty galat hai, contest karna hai", "contest_penalty"],
+  ["I want to appeal the penalty", "contest_penalty"],
+  ["Kya main pichle hafte se behtar kar raha hoon?", "business_growth"],
+  ["Onboarding form kaise bharein?", "onboarding"],
+  ["Onboarding shuru karo", "onboarding"],
+  ["PAN galat hai, dobara lo", "onboarding"],
+  ["Emergency! Sahayata chahiye", "emergency"],
+  ["Emergency cancel karo, galti se dabaya tha", "cancel_emergency"],
+  ["Bachao! Accident ho gaya", "emergency"],
+  // SOS words win over whatever else the sentence asks for
+  ["Emergency! road pe accident ho gaya", "emergency"],
+  ["Sahayata, mera alert bajao", "emergency"],
+  ["SOS, ORD-ABC123 kahan hai", "emergency"],
+  ["Bachao, mujhe penalty lagi", "emergency"],
+  ["sos yaad dila", "emergency"],
+  // asking for help is a support question, not an SOS
+  ["Can you help me?", "general"],
+  ["I need help with my order ORD-ABC123", "general"],
+  ["Challan kaise bharein?", "learning"],
+  ["Insurance ke baare mein batao", "learning"],
+  ["Gaadi ka bima kab renew karna hai?", "learning"],
+  ["DigiLocker kaise use karein", "learning"],
+  ["Kuch naya sikhaye", "learning"],
+  ["Insurance quiz do", "learning"],
+  ["Mere badges kaun se hain?", "rewards"],
+  ["Suraksha ke tips batao", "safety_tips"],
+  ["What is the weather today?", "road_ahead"],
+  ["Tell me a joke", "general"],
+];
+
+for (const [text, intent, trackingId] of GOLDEN) {
+  test(`"${text}" -> ${intent}`, () => {
+    const parsed = parseIntent(text);
+    assert.equal(parsed.intent, intent);
+    assert.equal(parsed.trackingId, trackingId);
+  });
+}
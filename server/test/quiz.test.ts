@@ -0,0 +1,52 @@
+// server/test/quiz.test.ts
+// Golden quiz grading: which option a spoken answer picks, by number or by its words in any
+// language, and the answers that are too unclear to grade.
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { IQuizQuestion } from "../src/models/LearningContent";
+import { chooseOption, quizScore } from "../src/learning/quiz";
+
+const RENEWAL: IQuizQuestion = {
+  question: { hinglish: "Vehicle insurance kitni baar renew karna hota hai?" },
+  options: [
+    { hinglish: "Har saal", hi: "हर साल", en: "Every year" },
+    { hinglish: "Paanch saal mein ek baar", hi: "पाँच साल में एक बार", en: "Once in five years" },
+    { hinglish: "Kabhi nahi", en: "Never" },
+  ],
+  answer: 0,
+};
+
+const ANSWERS: Array<[text: string, option: number | null]> = [
+  ["pehla", 0],
+  ["doosra wala", 1],
+  ["तीसरा", 2],
+  ["option 2", 1],
+  ["3", 2],
+  ["teen", 2],
+  ["number do", 1],
+  ["har saal", 0],
+  ["हर साल", 0],
+  ["once in five years", 1],
+  ["mujhe lagta hai paanch saal mein ek baar", 1],
+  // a number inside the answer is part of its words, not the option's number
+  ["mujhe lagta hai 5 saal mein ek baar", 1],
+  ["mera jawab option 1 hai", 0],
+  ["kabhi nahi", 2],
+  // a number that is no option, and answers that match nothing or two options equally
+  ["option 4", null],
+  ["pata nahi", null],
+  ["saal", null],
+  ["jawab do yaar", null],
+];
+
+for (const [text, option] of ANSWERS) {
+  test(`"${text}" picks ${option === null ? "nothing" : `option ${option + 1}`}`, () => {
+    assert.equal(chooseOption(RENEWAL, text), option);
+  });
+}
+
+test("scores are whole percentages", () => {
+  assert.equal(quizScore(1, 3), 33);
+  assert.equal(quizScore(2, 3), 67);
+  assert.equal(quizScore(0, 0), 100);
+});
@@ -0,0 +1,59 @@
+// server/test/time.test.ts
+// Golden spoken times: clock phrases in English and Hinglish read in LEDGER_TIMEZONE, with the
+// host pinned to another timezone so a server outside India cannot shift them, and the reminder
+// text left once the time is taken out.
+process.env.TZ = "America/New_York";
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseSpokenTime } from "../src/utils/time";
+import { parseOrderEdits } from "../src/orders/modify";
+import { parseReminderRequest } from "../src/reminders/reminders";
+
+// Wall-clock time in Asia/Kolkata (UTC+5:30, the default LEDGER_TIMEZONE); 18 Oct 2026 is a Sunday
+const IST = 330 * 60_000;
+const at = (day: number, hours: number, minutes = 0) => new Date(Date.UTC(2026, 9, day, hours, minutes) - IST);
+
+const TIMES: Array<[text: string, now: Date, expected: Date | null]> = [
+  ["kal subah 9 baje", at(18, 8), at(19, 9)],
+  ["kal subah", at(18, 8), at(19, 9)],
+  ["shaam 6 baje", at(18, 8), at(18, 18)],
+  ["saade paanch baje", at(18, 8), at(18, 17, 30)],
+  ["paune teen baje", at(18, 8), at(18, 14, 45)],
+  ["5pm", at(18, 8), at(18, 17)],
+  ["12 am", at(18, 8), at(19, 0)],
+  ["raat 12 baje", at(18, 20), at(19, 0)], // midnight at the end of today
+  ["raat 10 baje", at(18, 8), at(18, 22)],
+  ["raat 2 baje", at(18, 20), at(19, 2)], // the small hours after tonight
+  ["subah 12 baje", at(18, 8), at(19, 0)],
+  ["at 4:30", at(18, 12), at(18, 16, 30)], // no am or pm: the next 4:30 to come
+  ["at 9:15", at(18, 8), at(18, 9, 15)],
+  ["at 7:00", at(18, 21), at(19, 7)],
+  ["in 30 minutes", at(18, 8), at(18, 8, 30)],
+  ["parso 10 baje", at(18, 23, 30), at(20, 10)], // late at night in India, still the 18th
+  ["kuch bhi", at(18, 8), null],
+];
+
+for (const [text, now, expected] of TIMES) {
+  test(`parseSpokenTime("${text}")`, () => {
+    assert.deepEqual(parseSpokenTime(text, now), expected);
+  });
+}
+
+test("parseOrderEdits reads a new pickup time in LEDGER_TIMEZONE", () => {
+  assert.deepEqual(parseOrderEdits("ORD-ABC123 pickup time to kal 11 baje", at(18, 23, 30)).pickupTime, at(19, 11));
+});
+
+const REMINDERS: Array<[text: string, about: string, dueAt: Date | null]> = [
+  ["remind me to deliver 5 boxes at 6pm", "deliver 5 boxes", at(18, 18)],
+  ["remind me at 5pm to call Ramesh", "call Ramesh", at(18, 17)],
+  ["Kal subah 9 baje yaad dilana ki gaadi service karani hai", "gaadi service karani hai", at(19, 9)],
+  ["yaad dilana ki shaam saade paanch baje do boxes dene hain", "do boxes dene hain", at(18, 17, 30)],
+  ["remind me to call Ramesh in 30 minutes.", "call Ramesh", at(18, 8, 30)],
+];
+
+for (const [text, about, dueAt] of REMINDERS) {
+  test(`parseReminderRequest("${text}") keeps the time out of the text`, () => {
+    const parsed = parseReminderRequest(text, at(18, 8));
+    assert.deepEqual([parsed.text, parsed.dueAt], [about, dueAt]);
+  });
+}
@@ -0,0 +1,26 @@
+// server/test/weekBounds.test.ts
+// Golden week boundaries for the earnings intents: weeks start at Sunday midnight in
+// LEDGER_TIMEZONE whatever the host timezone. Pure, so it runs without the database.
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { weekBounds } from "../src/ledger/earnings";
+
+// Wall-clock time in Asia/Kolkata (UTC+5:30, the default LEDGER_TIMEZONE) whatever the host's
+// timezone; 18 Oct 2026 is a Sunday
+const IST = 330 * 60_000;
+const at = (month: number, day: number, hours = 12, minutes = 0, seconds = 0) =>
+  new Date(Date.UTC(2026, month - 1, day, hours, minutes, seconds) - IST);
+
+const WEEKS: Array<[now: Date, thisWeek: Date, lastWeek: Date]> = [
+  [at(10, 21, 12), at(10, 18, 0), at(10, 11, 0)], // Wednesday
+  [at(10, 18, 0), at(10, 18, 0), at(10, 11, 0)], // Sunday midnight starts the week
+  [at(10, 17, 23, 59, 59), at(10, 11, 0), at(10, 4, 0)], // Saturday night is still the old week
+  [at(12, 1, 10), at(11, 29, 0), at(11, 22, 0)], // the week began last month
+  [new Date(Date.UTC(2027, 0, 2, 10) - IST), at(12, 27, 0), at(12, 20, 0)], // and last year
+];
+
+for (const [now, startOfThisWeek, startOfLastWeek] of WEEKS) {
+  test(`weekBounds(${now.toISOString()})`, () => {
+    assert.deepEqual(weekBounds(now), { startOfThisWeek, startOfLastWeek });
+  });
+}